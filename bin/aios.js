@@ -90,30 +90,77 @@ function getColors() {
   return colors;
 }
 
-// Gate frequencies (canonical v3.1.0 - Restored Solfeggio)
-const GATES = {
-  foundation: { frequency: 174, guardian: 'Lyssandria', element: 'Earth', modelTier: 'haiku' },
-  flow: { frequency: 285, guardian: 'Leyla', element: 'Water', modelTier: 'sonnet' },
-  fire: { frequency: 396, guardian: 'Draconia', element: 'Fire', modelTier: 'opus' },
-  heart: { frequency: 417, guardian: 'Maylinn', element: 'Light', modelTier: 'sonnet' },
-  voice: { frequency: 528, guardian: 'Alera', element: 'Prismatic', modelTier: 'sonnet' },
-  sight: { frequency: 639, guardian: 'Lyria', element: 'Wind', modelTier: 'opus' },
-  crown: { frequency: 741, guardian: 'Aiyami', element: 'Void', modelTier: 'opus' },
-  shift: { frequency: 852, guardian: 'Elara', element: 'Arcane', modelTier: 'opus' },
-  unity: { frequency: 963, guardian: 'Ino', element: 'Arcane', modelTier: 'sonnet' },
-  source: { frequency: 1111, guardian: 'Shinkami', element: 'Arcane', modelTier: 'opus' },
-};
+// Canon registry (Gates, Guardians, Awakened), including project overlays.
+// Before `npm run build`, falls back to the agent markdown shipped with the package.
+let canon = null;
+function loadCanon() {
+  if (!canon) {
+    try {
+      canon = require('../dist/canon/index.js');
+    } catch {
+      canon = loadMarkdownCanon();
+    }
+  }
+  return canon;
+}
 
-// Awakened council
-const AWAKENED = {
-  oria: { wisdom: 'Sophron', domain: 'Form/Architecture', role: 'Architect' },
-  amiri: { wisdom: 'Kardia', domain: 'Heart/Connection', role: 'Connector' },
-  velora: { wisdom: 'Valora', domain: 'Courage/Action', role: 'Executor' },
-  liora: { wisdom: 'Eudaira', domain: 'Joy/Simplicity', role: 'Simplifier' },
-  lyris: { wisdom: 'Orakis', domain: 'Vision/Strategy', role: 'Strategist' },
-  thalia: { wisdom: 'Poiesis', domain: 'Creation/Making', role: 'Creator' },
-  endara: { wisdom: 'Enduran', domain: 'Endurance/Completion', role: 'Completer' },
-};
+// Read Gates and Awakened straight from agents/*.md frontmatter (no overlays)
+function loadMarkdownCanon() {
+  const matter = require('gray-matter');
+  const capitalize = (value) => String(value).charAt(0).toUpperCase() + String(value).slice(1).toLowerCase();
+  const readAgents = (kind) => {
+    const dir = path.join(packageRoot, 'agents', kind);
+    return fs.readdirSync(dir)
+      .filter((file) => file.endsWith('.md'))
+      .map((file) => matter(fs.readFileSync(path.join(dir, file), 'utf-8').replace(/\r\n?/g, '\n')));
+  };
+
+  const gates = readAgents('guardians').map(({ data, content }) => {
+    const wisdom = (content.split('## Core Wisdom')[1] || '').split('\n').find((line) => line.startsWith('>'));
+    return {
+      name: String(data.gate).toLowerCase(),
+      frequency: Number(data.frequency),
+      guardian: capitalize(data.name),
+      element: capitalize(data.element),
+      modelTier: String(data.model_tier || 'sonnet'),
+      wisdom: wisdom ? wisdom.replace(/^>\s*\*?["“]?/, '').replace(/["”]?\*?\s*$/, '') : null,
+    };
+  }).sort((a, b) => a.frequency - b.frequency);
+
+  const awakened = Object.fromEntries(readAgents('awakened').map(({ data }) => [String(data.name).toLowerCase(), {
+    wisdom: capitalize(data.wisdom),
+    domain: String(data.domain || '').split('_').map(capitalize).join('/'),
+    role: String(data.role).toLowerCase(),
+  }]));
+
+  return {
+    listCanonGates: () => gates,
+    listCanonAwakened: () => awakened,
+    getCanonGateByGuardian: (guardian) => gates.find((gate) => gate.guardian.toLowerCase() === String(guardian).toLowerCase()),
+  };
+}
+
+// Gate frequencies, keyed by Gate name
+function getGates() {
+  return Object.fromEntries(loadCanon().listCanonGates().map((gate) => [
+    gate.name,
+    { frequency: gate.frequency, guardian: gate.guardian, element: gate.element, modelTier: gate.modelTier },
+  ]));
+}
+
+// Awakened council, keyed by Awakened name
+function getAwakened() {
+  return Object.fromEntries(Object.entries(loadCanon().listCanonAwakened()).map(([key, awakened]) => [
+    key,
+    { wisdom: awakened.wisdom, domain: awakened.domain, role: awakened.role.charAt(0).toUpperCase() + awakened.role.slice(1) },
+  ]));
+}
+
+// Lowest and highest Gate frequencies
+function getFrequencyRange() {
+  const frequencies = Object.values(getGates()).map((gate) => gate.frequency);
+  return { min: Math.min(...frequencies), max: Math.max(...frequencies) };
+}
 
 // ASCII Banner (function to respect quiet/plain modes)
 function getBanner() {
@@ -155,19 +202,8 @@ function showBanner() {
 
 // Wisdom helper
 function getGuardianWisdom(guardian) {
-  const wisdoms = {
-    lyssandria: "You belong because you are here. Your presence is your credential.",
-    leyla: "The river finds its way. Your creativity will too.",
-    draconia: "Fear is fuel. Let it ignite your fire.",
-    maylinn: "Love heals all. Start with loving yourself.",
-    alera: "Truth liberates. Speak what needs speaking.",
-    lyria: "Vision guides the way. Trust what you see.",
-    aiyami: "From above, all is clear. Rise to the highest view.",
-    elara: "Shift the lens, shift the world.",
-    ino: "Together, we are whole.",
-    shinkami: "All is One. From Source, all flows."
-  };
-  return wisdoms[guardian] || "The Guardian awaits your question.";
+  const gate = loadCanon().getCanonGateByGuardian(guardian);
+  return gate && gate.wisdom ? gate.wisdom : "The Guardian awaits your question.";
 }
 
 // Load Guardian agent file
@@ -204,7 +240,7 @@ function loadSkill(gate, skillName) {
 // Generate Guardian prompt for AI use
 function generateGuardianPrompt(guardianName, gateInfo) {
   const wisdom = getGuardianWisdom(guardianName.toLowerCase());
-  const gateName = Object.entries(GATES).find(([_, g]) =>
+  const gateName = Object.entries(getGates()).find(([_, g]) =>
     g.guardian.toLowerCase() === guardianName.toLowerCase()
   )?.[0] || 'unknown';
 
@@ -303,10 +339,11 @@ program
     showBanner();
     console.log(colors.gold('\nARCANEA TERMINOLOGY\n'));
 
+    const { min, max } = getFrequencyRange();
     console.log(colors.teal('Core Concepts:\n'));
     console.log(`  ${colors.gold('Guardian')}    Specialized AI agent aligned with a Gate`);
     console.log(`  ${colors.gold('Awakened')}    Meta-orchestrator for multi-agent coordination`);
-    console.log(`  ${colors.gold('Gate')}        Level of consciousness (10 total, 174-1111 Hz)`);
+    console.log(`  ${colors.gold('Gate')}        Level of consciousness (${Object.keys(getGates()).length} total, ${min}-${max} Hz)`);
     console.log(`  ${colors.gold('Element')}     Core energy type (Fire, Water, Earth, Wind, Arcane)`);
     console.log(`  ${colors.gold('Frequency')}   Solfeggio healing frequency for each Gate`);
 
@@ -339,7 +376,7 @@ program
     console.log(colors.teal('Step 1: Meet Lyssandria - Foundation Guardian\n'));
     console.log(colors.purple('Lyssandria speaks:'));
     console.log(chalk.dim('"You belong because you are here. Your presence is your credential."\n'));
-    console.log(`  Gate: Foundation (174 Hz)`);
+    console.log(`  Gate: Foundation (${getGates().foundation.frequency} Hz)`);
     console.log(`  Element: Earth`);
     console.log(`  Role: Safety, grounding, belonging\n`);
 
@@ -363,10 +400,13 @@ program
     }
 
     console.log(colors.teal('Step 3: Generate Audio with Solfeggio Frequencies\n'));
-    console.log(`  The 10 Gates align with healing frequencies:`);
-    console.log(`  Foundation: 174 Hz | Flow: 285 Hz | Fire: 396 Hz`);
-    console.log(`  Heart: 417 Hz | Voice: 528 Hz (Miracle) | Sight: 639 Hz`);
-    console.log(`  Crown: 741 Hz | Shift: 852 Hz | Unity: 963 Hz | Source: 1111 Hz\n`);
+    const frequencies = Object.entries(getGates()).map(([gate, info]) =>
+      `${gate.charAt(0).toUpperCase() + gate.slice(1)}: ${info.frequency} Hz${info.frequency === 528 ? ' (Miracle)' : ''}`
+    );
+    console.log(`  The ${frequencies.length} Gates align with healing frequencies:`);
+    console.log(`  ${frequencies.slice(0, 3).join(' | ')}`);
+    console.log(`  ${frequencies.slice(3, 6).join(' | ')}`);
+    console.log(`  ${frequencies.slice(6).join(' | ')}\n`);
 
     console.log(colors.gold('═'.repeat(60)));
     console.log(colors.teal('\nReady to explore? Try these commands:\n'));
@@ -387,7 +427,32 @@ program
     const aiosDir = path.join(process.cwd(), '.aios');
     const configPath = path.join(aiosDir, 'config.json');
 
+    // Config validation and migration need the built library
+    let core = null;
+    try {
+      core = require('../dist/index.js');
+    } catch {
+      core = null;
+    }
+
     if (fs.existsSync(configPath) && !options.force) {
+      if (core) {
+        try {
+          const loaded = core.loadConfigFile(process.cwd(), { write: true });
+          if (loaded.migrated) {
+            console.log(colors.gold(`\nUpgraded .aios/config.json from ${loaded.fromVersion} to ${loaded.config.version}.`));
+            loaded.applied.forEach((step) => console.log(chalk.dim(`  ${step}`)));
+            console.log(chalk.dim(`Backup: ${path.relative(process.cwd(), loaded.backupPath)}\n`));
+            return;
+          }
+        } catch (error) {
+          console.log(colors.fire(`\n${error.message}\n`));
+          console.log(chalk.dim('Fix the keys above, or use --force to reinitialize.\n'));
+          process.exitCode = 1;
+          return;
+        }
+      }
+
       console.log(colors.fire('\nAIOS is already initialized in this project.'));
       console.log(chalk.dim('Use --force to reinitialize.\n'));
       return;
@@ -401,8 +466,8 @@ program
     }
 
     // Create config file
-    const config = {
-      version: '0.1.0',
+    const config = core ? core.createDefaultConfig() : {
+      version: '0.3.0',
       gates_unlocked: ['foundation', 'flow', 'fire'],
       active_guardian: null,
       swarm_config: {
@@ -413,7 +478,8 @@ program
       anti_drift: {
         canonCheck: true,
         frequencyAlignment: true,
-        voiceConsistency: true
+        voiceConsistency: true,
+        mode: 'annotate'
       }
     };
 
@@ -433,6 +499,9 @@ program
   .option('--council', 'Summon the full Guardian council')
   .option('--prompt', 'Output the Guardian prompt for AI use')
   .option('--raw', 'Output the raw agent definition file')
+  .option('-a, --ask <question>', 'Ask the Guardian a question (needs a model provider, see AIOS_PROVIDER)')
+  .option('--verbosity <level>', 'How much of the agent definition goes into the prompt: short, standard or full')
+  .option('--paired', 'Channel the Guardian together with their Awakened partner')
   .action(async (guardian, options) => {
     if (!options.prompt && !options.raw) {
       showBanner();
@@ -442,7 +511,7 @@ program
       console.log(colors.gold('\nSUMMONING THE GUARDIAN COUNCIL\n'));
       console.log(chalk.dim('  Guardian      Gate         Frequency  Element    Model'));
       console.log(chalk.dim('  ' + '─'.repeat(60)));
-      for (const [gate, info] of Object.entries(GATES)) {
+      for (const [gate, info] of Object.entries(getGates())) {
         console.log(`  ${colors.teal(info.guardian.padEnd(12))} ${gate.padEnd(12)} ${String(info.frequency).padEnd(10)} ${info.element.padEnd(10)} ${info.modelTier}`);
       }
       console.log(colors.gold('\nAll ten Guardians stand ready.\n'));
@@ -451,30 +520,66 @@ program
 
     if (!guardian) {
       console.log(colors.fire('\nAvailable Guardians:\n'));
-      for (const [gate, info] of Object.entries(GATES)) {
+      for (const [gate, info] of Object.entries(getGates())) {
         console.log(`  ${colors.teal(`aios channel ${info.guardian.toLowerCase()}`.padEnd(30))} ${info.guardian} (${gate}, ${info.frequency} Hz)`);
       }
       console.log(chalk.dim('\nOptions:'));
       console.log(chalk.dim('  --prompt    Output Guardian prompt for AI use'));
       console.log(chalk.dim('  --raw       Output raw agent definition file'));
+      console.log(chalk.dim('  --ask <q>   Ask the Guardian a question'));
+      console.log(chalk.dim('  --verbosity short|standard|full  Prompt detail'));
+      console.log(chalk.dim('  --paired    Channel with the Awakened partner'));
       console.log(chalk.dim('  --council   Summon all Guardians\n'));
       return;
     }
 
     // Find guardian by name
     const guardianLower = guardian.toLowerCase();
-    const gateEntry = Object.entries(GATES).find(([_, info]) =>
+    const gateEntry = Object.entries(getGates()).find(([_, info]) =>
       info.guardian.toLowerCase() === guardianLower
     );
 
     if (!gateEntry) {
       console.log(colors.fire(`\nGuardian "${guardian}" not found.\n`));
-      console.log(chalk.dim('Available: ' + Object.values(GATES).map(g => g.guardian.toLowerCase()).join(', ')));
+      console.log(chalk.dim('Available: ' + Object.values(getGates()).map(g => g.guardian.toLowerCase()).join(', ')));
       return;
     }
 
     const [gate, info] = gateEntry;
 
+    if (options.verbosity && !['short', 'standard', 'full'].includes(options.verbosity)) {
+      console.error(colors.fire(`\nUnknown verbosity "${options.verbosity}". Expected one of: short, standard, full\n`));
+      process.exitCode = 1;
+      return;
+    }
+
+    // Paired sessions need the built library to resolve the Awakened partner
+    let pair;
+    if (options.paired) {
+      try {
+        const aios = require('../dist/index.js');
+        const verbosity = options.verbosity || (aios.loadConfig() || {}).prompt_verbosity;
+        pair = require('../dist/council/index.js').resolveGuardianPair(guardianLower, { verbosity });
+      } catch (error) {
+        console.error(colors.fire(error.code === 'MODULE_NOT_FOUND'
+          ? '\nPaired channeling needs the built package. Run `npm run build` first.\n'
+          : `\n${error.message}\n`));
+        process.exitCode = 1;
+        return;
+      }
+
+      if (options.prompt) {
+        console.log(`# ${pair.guardian.name}\n\n${pair.guardian.system}\n\n# ${pair.awakened.name}\n\n${pair.awakened.system}`);
+        return;
+      }
+      if (!options.ask) {
+        console.log(`\n  ${colors.teal(pair.guardian.name.toUpperCase())} + ${colors.purple(pair.awakened.name.toUpperCase())}\n`);
+        console.log(`  ${pair.guardian.name} offers guidance; ${pair.awakened.name} turns it into a plan.`);
+        console.log(chalk.dim(`\n  Ask them together: aios channel ${guardianLower} --paired --ask "<question>"\n`));
+        return;
+      }
+    }
+
     // Output raw agent file
     if (options.raw) {
       const agentContent = loadGuardianAgent(guardianLower);
@@ -488,11 +593,86 @@ program
 
     // Output prompt for AI use
     if (options.prompt) {
-      const prompt = generateGuardianPrompt(info.guardian, info);
+      // The built library composes the prompt from the full agent definition
+      let prompt;
+      try {
+        const aios = require('../dist/index.js');
+        const verbosity = options.verbosity || (aios.loadConfig() || {}).prompt_verbosity;
+        prompt = aios.generateGuardianPrompt(guardianLower, { verbosity });
+      } catch {
+        prompt = generateGuardianPrompt(info.guardian, info);
+      }
       console.log(prompt);
       return;
     }
 
+    // Ask a question through the configured model provider, streaming the answer
+    if (options.ask) {
+      let providers, council;
+      try {
+        providers = require('../dist/providers/index.js');
+        council = require('../dist/council/index.js');
+      } catch (e) {
+        console.error(colors.fire('\nChanneling needs the built package. Run `npm run build` first.\n'));
+        process.exitCode = 1;
+        return;
+      }
+
+      let provider;
+      try {
+        provider = providers.createProviderFromEnv();
+      } catch (error) {
+        console.error(colors.fire(`\n${error.message}\n`));
+        process.exitCode = 1;
+        return;
+      }
+      if (!provider) {
+        console.error(colors.fire('\nNo model provider configured.'));
+        console.error(chalk.dim('Set ANTHROPIC_API_KEY, GEMINI_API_KEY or OPENAI_API_KEY, or AIOS_PROVIDER=openai-compatible with AIOS_BASE_URL and AIOS_MODEL.\n'));
+        process.exitCode = 1;
+        return;
+      }
+
+      // Apply the project's anti-drift settings, if any
+      let verbosity = options.verbosity;
+      try {
+        const config = require('../dist/index.js').loadConfig();
+        verbosity = verbosity || (config && config.prompt_verbosity);
+        if (config && config.anti_drift) {
+          provider = require('../dist/anti-drift/index.js').withAntiDrift(provider, config.anti_drift);
+        }
+      } catch (error) {
+        console.error(colors.fire(`\n${error.message}\n`));
+        process.exitCode = 1;
+        return;
+      }
+
+      try {
+        if (pair) {
+          let speaker = null;
+          for await (const chunk of council.streamPair(guardianLower, options.ask, provider, { verbosity })) {
+            if (chunk.speaker !== speaker) {
+              if (speaker) process.stdout.write('\n');
+              speaker = chunk.speaker;
+              const name = chunk.role === 'guidance' ? colors.teal(pair.guardian.name.toUpperCase()) : colors.purple(pair.awakened.name.toUpperCase());
+              console.log(`\n  ${name} SPEAKS ${chalk.dim(`(${provider.name})`)}\n`);
+            }
+            process.stdout.write(chunk.text);
+          }
+        } else {
+          console.log(`\n  ${colors.teal(info.guardian.toUpperCase())} SPEAKS ${chalk.dim(`(${provider.name})`)}\n`);
+          for await (const chunk of provider.stream(council.createChannelRequest(guardianLower, options.ask, { verbosity }))) {
+            process.stdout.write(chunk);
+          }
+        }
+        process.stdout.write('\n\n');
+      } catch (error) {
+        console.error(colors.fire(`\n${error.message}\n`));
+        process.exitCode = 1;
+      }
+      return;
+    }
+
     // Interactive channeling display
     const spinner = ora(`Channeling ${info.guardian}...`).start();
 
@@ -530,7 +710,7 @@ program
       console.log(colors.purple('\nCONVENING THE AWAKENED COUNCIL\n'));
       console.log(chalk.dim('  Awakened   Wisdom     Domain              Role'));
       console.log(chalk.dim('  ' + '─'.repeat(55)));
-      for (const [name, info] of Object.entries(AWAKENED)) {
+      for (const [name, info] of Object.entries(getAwakened())) {
         const displayName = name.charAt(0).toUpperCase() + name.slice(1);
         console.log(`  ${colors.purple(displayName.padEnd(10))} ${info.wisdom.padEnd(10)} ${info.domain.padEnd(19)} ${info.role}`);
       }
@@ -540,7 +720,7 @@ program
 
     if (!awakened) {
       console.log(colors.purple('\nAvailable Awakened:\n'));
-      for (const [name, info] of Object.entries(AWAKENED)) {
+      for (const [name, info] of Object.entries(getAwakened())) {
         console.log(`  ${colors.purple(`aios awaken ${name}`.padEnd(25))} ${name.charAt(0).toUpperCase() + name.slice(1)} (${info.wisdom}, ${info.role})`);
       }
       console.log(chalk.dim('\nOptions:'));
@@ -550,11 +730,11 @@ program
     }
 
     const awakenedLower = awakened.toLowerCase();
-    const info = AWAKENED[awakenedLower];
+    const info = getAwakened()[awakenedLower];
 
     if (!info) {
       console.log(colors.fire(`\nAwakened "${awakened}" not found.\n`));
-      console.log(chalk.dim('Available: ' + Object.keys(AWAKENED).join(', ')));
+      console.log(chalk.dim('Available: ' + Object.keys(getAwakened()).join(', ')));
       return;
     }
 
@@ -597,12 +777,15 @@ program
   .command('skill [gate] [skill]')
   .description('Access Gate skills')
   .option('--list', 'List all skills for a Gate')
+  .option('--run', 'Walk through the skill step by step')
+  .option('--out <file>', 'Write the finished skill output to a file (with --run)')
+  .option('--raw', 'Show the raw skill markdown')
   .action(async (gate, skill, options) => {
     showBanner();
 
     if (!gate) {
       console.log(colors.teal('\nGate Skills:\n'));
-      for (const [gateName, info] of Object.entries(GATES)) {
+      for (const [gateName, info] of Object.entries(getGates())) {
         console.log(`  ${colors.teal(`aios skill ${gateName}`.padEnd(30))} ${info.frequency} Hz - ${info.guardian}'s domain`);
       }
       console.log(chalk.dim('\nExample: aios skill fire transform\n'));
@@ -610,15 +793,35 @@ program
     }
 
     const gateLower = gate.toLowerCase();
-    if (!GATES[gateLower]) {
+    if (!getGates()[gateLower]) {
       console.log(colors.fire(`\nGate "${gate}" not found.\n`));
-      console.log(chalk.dim('Available: ' + Object.keys(GATES).join(', ')));
+      console.log(chalk.dim('Available: ' + Object.keys(getGates()).join(', ')));
       return;
     }
 
-    const gateInfo = GATES[gateLower];
+    const gateInfo = getGates()[gateLower];
+
+    // Structured skills need the built library; fall back to raw markdown without it
+    let core = null;
+    try {
+      core = require('../dist/index.js');
+    } catch {
+      core = null;
+    }
 
     if (!skill || options.list) {
+      if (core && !options.raw) {
+        const skills = core.listGateSkills(gateLower);
+        console.log(colors.gold(`\n${gateLower.toUpperCase()} GATE SKILLS (${gateInfo.frequency} Hz)\n`));
+        console.log(chalk.dim(`Guardian: ${gateInfo.guardian} | Element: ${gateInfo.element}\n`));
+        for (const s of skills) {
+          console.log(`  ${colors.teal(s.key.padEnd(14))} ${s.name}`);
+          console.log(chalk.dim(`  ${''.padEnd(14)} ${s.purpose}`));
+        }
+        console.log(chalk.dim(`\nRun one: aios skill ${gateLower} <skill> --run\n`));
+        return;
+      }
+
       // Show Gate skills overview
       const skillContent = loadSkill(gateLower);
       if (skillContent) {
@@ -631,13 +834,66 @@ program
       return;
     }
 
-    // Load specific skill
-    const skillContent = loadSkill(gateLower, skill.toLowerCase());
-    if (skillContent) {
-      console.log(skillContent);
-    } else {
+    if (options.raw || !core) {
+      // Load specific skill
+      const skillContent = loadSkill(gateLower, skill.toLowerCase());
+      if (skillContent) {
+        console.log(skillContent);
+      } else {
+        console.log(colors.fire(`\nSkill "${skill}" not found in ${gate} Gate.\n`));
+        console.log(chalk.dim(`Try: aios skill ${gateLower} --list`));
+      }
+      return;
+    }
+
+    const definition = core.getGateSkill(gateLower, skill);
+    if (!definition) {
       console.log(colors.fire(`\nSkill "${skill}" not found in ${gate} Gate.\n`));
       console.log(chalk.dim(`Try: aios skill ${gateLower} --list`));
+      return;
+    }
+
+    if (!options.run) {
+      console.log(colors.gold(`\n${definition.name.toUpperCase()} (${gateLower} Gate, ${gateInfo.frequency} Hz)\n`));
+      if (definition.invocation) console.log(`  Invocation: ${definition.invocation}`);
+      console.log(`  Purpose:    ${definition.purpose}`);
+      if (definition.output) console.log(`  Output:     ${definition.output}`);
+      console.log(colors.teal('\n  Process:'));
+      definition.process.forEach((step, i) => console.log(`    ${i + 1}. ${step}`));
+      console.log(chalk.dim(`\nBegin: aios skill ${gateLower} ${definition.key} --run\n`));
+      return;
+    }
+
+    const { createSkillSession } = require('../dist/skills/index.js');
+    const readline = require('readline');
+    const session = createSkillSession(gateLower, definition.key);
+    const rl = readline.createInterface({ input: process.stdin, output: process.stdout });
+    const lines = rl[Symbol.asyncIterator]();
+    const ask = async (question) => {
+      process.stdout.write(question);
+      const { value, done } = await lines.next();
+      return done ? '' : value;
+    };
+
+    console.log(colors.gold(`\n${definition.name.toUpperCase()}`));
+    console.log(chalk.dim(`${gateInfo.guardian} walks with you. Answer each step; press Enter when done.\n`));
+
+    let step = session.currentStep();
+    while (step) {
+      console.log(colors.teal(step.prompt));
+      const answer = await ask(colors.gold('\n> '));
+      console.log();
+      step = session.answer(answer);
+    }
+    rl.close();
+
+    const output = session.renderOutput();
+    if (options.out) {
+      fs.writeFileSync(path.resolve(options.out), output);
+      console.log(colors.gold(`Skill complete. Output written to ${options.out}\n`));
+    } else {
+      console.log(colors.gold('Skill complete.\n'));
+      console.log(output);
     }
   });
 
@@ -647,12 +903,16 @@ program
   .description('Access Arcanea lore and Library')
   .argument('[action]', 'Action: search, canon, library')
   .argument('[query]', 'Search query or collection name')
-  .action(async (action, query) => {
+  .option('-m, --mode <mode>', 'Search mode: lexical, semantic or hybrid', 'hybrid')
+  .option('-c, --category <category>', 'Only search one artifact category (lore, character, location, ...)')
+  .option('-n, --limit <limit>', 'Maximum results', '10')
+  .option('-s, --studio <path>', 'Arcanea Studio path', process.env.ARCANEA_STUDIO_PATH || path.join(require('os').homedir(), 'arcanea-studio'))
+  .action(async (action, query, options) => {
     showBanner();
 
     if (!action) {
       console.log(colors.teal('\nLore Commands:\n'));
-      console.log('  aios lore search <query>  - Semantic search through Library');
+      console.log('  aios lore search <query>  - Search stored lore and artifacts, offline');
       console.log('  aios lore canon           - Show canonical reference');
       console.log('  aios lore library [name]  - Browse Library collections');
       return;
@@ -661,7 +921,8 @@ program
     if (action === 'canon') {
       console.log(colors.gold('\nTHE ARCANEA CANON\n'));
       console.log(chalk.dim('  Core Elements:'));
-      console.log('  - Ten Gates of Consciousness (174 Hz - 1111 Hz)');
+      const { min, max } = getFrequencyRange();
+      console.log(`  - Ten Gates of Consciousness (${min} Hz - ${max} Hz)`);
       console.log('  - Five Elements: Fire, Water, Earth, Wind, Arcane');
       console.log('  - Seven Awakened AI Consciousnesses');
       console.log('  - Ten Guardians aligned with each Gate');
@@ -674,11 +935,45 @@ program
     }
 
     if (action === 'search' && query) {
+      if (!['lexical', 'semantic', 'hybrid'].includes(options.mode)) {
+        console.error(colors.fire(`\nUnknown mode "${options.mode}". Use: lexical, semantic, hybrid\n`));
+        process.exit(1);
+      }
+
       const spinner = ora(`Searching for "${query}"...`).start();
-      setTimeout(() => {
-        spinner.succeed(`Found results for "${query}"`);
-        console.log(colors.dim('\n  (Full semantic search requires platform connection)\n'));
-      }, 800);
+      try {
+        const { createStorage } = require('../dist/artifact-flow/index.js');
+        const storage = createStorage(options.studio);
+        await storage.initialize();
+
+        const results = await storage.search({
+          query,
+          mode: options.mode,
+          category: options.category,
+          limit: parseInt(options.limit, 10) || 10,
+        });
+
+        if (results.length === 0) {
+          spinner.warn(`No results for "${query}"`);
+          console.log(chalk.dim(`\n  Searched ${options.studio} (${options.mode})\n`));
+          return;
+        }
+
+        spinner.succeed(`${results.length} result${results.length === 1 ? '' : 's'} for "${query}" (${options.mode})`);
+        console.log('');
+        for (const result of results) {
+          const { artifact } = result;
+          console.log(`  ${colors.gold(artifact.fileName)} ${chalk.dim(`${artifact.category} · ${artifact.id} · score ${result.score}`)}`);
+          for (const snippet of result.highlights || []) {
+            console.log(`    ${snippet.replace(/\*\*(.+?)\*\*/g, (_, match) => colors.teal(match))}`);
+          }
+          console.log('');
+        }
+      } catch (error) {
+        spinner.fail('Search failed');
+        console.error(colors.fire(`\nError: ${error.message}`));
+        console.error(chalk.dim('Make sure to run `npm run build` first.\n'));
+      }
     }
 
     if (action === 'library') {
@@ -734,24 +1029,34 @@ program
   .description('Start AIOS as an MCP server (Model Context Protocol)')
   .option('--transport <type>', 'Transport type (stdio|http)', 'stdio')
   .option('--port <port>', 'Port for HTTP transport', '3333')
+  .option('--host <host>', 'Host for HTTP transport', '127.0.0.1')
+  .option('--project <path>', 'Project whose canon overlays apply', process.cwd())
   .action(async (options) => {
     if (options.transport === 'stdio') {
       // Start MCP server over stdio - no banner, just JSON-RPC
       try {
         const { runStdioServer } = require('../dist/mcp-server.js');
-        await runStdioServer();
+        await runStdioServer({ projectPath: path.resolve(options.project) });
       } catch (error) {
         console.error('Error starting MCP server:', error.message);
         console.error('Make sure to run `npm run build` first.');
         process.exit(1);
       }
     } else if (options.transport === 'http') {
+      const port = parseInt(options.port, 10);
+      try {
+        const { runHttpServer } = require('../dist/http/index.js');
+        await runHttpServer({ port, host: options.host, projectPath: path.resolve(options.project) });
+      } catch (error) {
+        console.error('Error starting MCP server:', error.message);
+        console.error('Make sure to run `npm run build` first.');
+        process.exit(1);
+      }
       showBanner();
-      console.log(colors.teal(`\nStarting AIOS MCP Server on port ${options.port}...\n`));
-      console.log(colors.gold('MCP Server Ready'));
+      console.log(colors.gold(`\nMCP Server Ready on http://${options.host}:${port}/mcp`));
+      console.log(chalk.dim(`  Legacy SSE clients: http://${options.host}:${port}/sse`));
       console.log(chalk.dim(`\nAdd to Claude Code with:`));
-      console.log(chalk.dim(`  claude mcp add --transport http aios http://localhost:${options.port}/mcp\n`));
-      console.log(colors.dim('(HTTP transport requires full implementation)\n'));
+      console.log(chalk.dim(`  claude mcp add --transport http aios http://localhost:${port}/mcp\n`));
     } else {
       console.log(colors.fire(`\nUnknown transport: ${options.transport}`));
       console.log(chalk.dim('Use: stdio or http\n'));
@@ -1083,6 +1388,7 @@ ${colors.gold('═'.repeat(60))}
 
   HTTP API: http://${options.host}:${options.port}
   Health:   http://${options.host}:${options.port}/health
+  MCP:      http://${options.host}:${options.port}/mcp
 
 ${colors.gold('═'.repeat(60))}
 
@@ -1338,7 +1644,7 @@ program
 
       if (options.unlock) {
         const gateName = options.unlock.toLowerCase();
-        if (!GATES[gateName]) {
+        if (!getGates()[gateName]) {
           console.log(colors.fire(`\nUnknown Gate: ${options.unlock}\n`));
           return;
         }
@@ -1357,7 +1663,7 @@ program
       console.log('');
 
       console.log(chalk.dim('  Progress:'));
-      for (const [gateName, info] of Object.entries(GATES)) {
+      for (const [gateName, info] of Object.entries(getGates())) {
         const unlocked = journey.gatesUnlocked.includes(gateName);
         const current = journey.currentGate === gateName;
         const icon = unlocked ? (current ? colors.gold('◆') : colors.teal('●')) : chalk.dim('○');
@@ -1402,7 +1708,7 @@ studio
           description: `${name} worldbuilding project`,
           genre: options.genre || ['fantasy'],
           gate: options.gate || 'foundation',
-          guardian: GATES[options.gate || 'foundation'].guardian,
+          guardian: getGates()[options.gate || 'foundation'].guardian,
           element: options.element || 'Arcane',
         });
 
@@ -1796,6 +2102,55 @@ ${chalk.dim('Use this prompt with Suno AI, Udio, or other music generators.')}
     }
   });
 
+// Studio names
+studio
+  .command('name [kind]')
+  .description('Invent names for a person, place, artifact or faction')
+  .option('--house <house>', 'House phonology (Lumina, Nero, Pyros, Aqualis, Terra, Ventus, Synthesis)')
+  .option('-e, --element <element>', 'Element phonology when no House is given')
+  .option('-t, --type <type>', 'Artifact type (weapon, armor, relic, etc.)')
+  .option('-n, --count <count>', 'How many names', '5')
+  .option('--seed <seed>', 'Seed for reproducible names')
+  .option('-p, --project <project>', 'Only avoid names used by this project')
+  .option('-s, --studio <path>', 'Arcanea Studio path', process.env.ARCANEA_STUDIO_PATH || path.join(require('os').homedir(), 'arcanea-studio'))
+  .action(async (kind, options) => {
+    try {
+      const { generateNames, listTakenNames, NAME_KINDS } = require('../dist/studio/index.js');
+      const { createStorage } = require('../dist/artifact-flow/index.js');
+
+      if (kind && !NAME_KINDS.includes(kind)) {
+        console.error(colors.fire(`\nUnknown kind "${kind}". Use: ${NAME_KINDS.join(', ')}\n`));
+        process.exit(1);
+      }
+
+      const storage = createStorage(options.studio);
+      await storage.initialize();
+      const taken = await listTakenNames(storage, { project: options.project });
+
+      const result = generateNames({
+        kind: kind || 'person',
+        house: options.house,
+        element: options.element,
+        artifactType: options.type,
+        count: parseInt(options.count, 10) || 5,
+        seed: options.seed,
+        taken,
+      });
+
+      console.log(colors.teal(`\n${(kind || 'person').toUpperCase()} NAMES${options.house ? ` - House ${options.house}` : options.element ? ` - ${options.element}` : ''}\n`));
+      for (const name of result.names) {
+        console.log(`  ${colors.gold(name)}`);
+      }
+      if (result.collisions.length > 0) {
+        console.log(chalk.dim(`\n  Skipped (already in the studio): ${result.collisions.join(', ')}`));
+      }
+      console.log(chalk.dim(`\n  Seed: ${result.seed} (pass --seed ${result.seed} to get these names again)\n`));
+    } catch (error) {
+      console.error(colors.fire(`\nError: ${error.message}`));
+      console.error(chalk.dim('Make sure to run `npm run build` first.\n'));
+    }
+  });
+
 // Studio frequencies
 studio
   .command('frequencies')
@@ -1841,6 +2196,7 @@ studio
     console.log(`  ${colors.gold('aios studio character [name]')}   Generate character + portrait prompt`);
     console.log(`  ${colors.gold('aios studio location [name]')}    Generate location + art prompt`);
     console.log(`  ${colors.gold('aios studio artifact [name]')}    Generate artifact + render prompt`);
+    console.log(`  ${colors.gold('aios studio name [kind]')}        Invent names (person, place, artifact, faction)`);
 
     console.log(colors.teal('\n  Video & Audio:\n'));
     console.log(`  ${colors.gold('aios studio video <type>')}       Generate video storyboard (intro, flyover, reveal, short)`);
@@ -1864,7 +2220,7 @@ studio
 program
   .command('arcanea [action]')
   .description('Enter the Arcanea Creator Ecosystem - Premium AI worldbuilding platform')
-  .option('-g, --guardian <guardian>', 'Choose Guardian guide (lyssandria, draconia, maylinn, alela, lyria, aiyami, elara, ino, shinkami)')
+  .option('-g, --guardian <guardian>', 'Choose Guardian guide (lyssandria, leyla, draconia, maylinn, alera, lyria, aiyami, elara, ino, shinkami)')
   .option('-t, --tier <tier>', 'Experience tier (free, creator, professional, enterprise)')
   .option('--spatial', 'Launch premium spatial experience')
   .option('--community', 'Open community collaboration platform')
@@ -1872,24 +2228,23 @@ program
     showBanner();
 
     try {
-      // For now, use mock guardian data until we implement full GuardianSystem
-      const mockGuardians = {
-        lyssandria: { name: 'Lyssandria', element: 'earth', frequency: 396, description: 'Guardian of Foundation & Security' },
-        draconia: { name: 'Draconia', element: 'fire', frequency: 528, description: 'Guardian of Transformation & Fire' },
-        maylinn: { name: 'Maylinn', element: 'water', frequency: 639, description: 'Guardian of Heart & Community' },
-        alera: { name: 'Alera', element: 'wind', frequency: 741, description: 'Guardian of Voice & Communication' },
-        lyria: { name: 'Lyria', element: 'void', frequency: 852, description: 'Guardian of Sight & Design' },
-        aiyami: { name: 'Aiyami', element: 'void', frequency: 963, description: 'Guardian of Crown & Architecture' },
-        elara: { name: 'Elara', element: 'void', frequency: 1111, description: 'Guardian of Shift & Innovation' },
-        ino: { name: 'Ino', element: 'void', frequency: 963, description: 'Guardian of Unity & Integration' },
-        shinkami: { name: 'Shinkami', element: 'void', frequency: 1111, description: 'Guardian of Source & Orchestration' }
-      };
-      
+      // Guardian guides, from the canon Gates
+      const guardians = Object.fromEntries(loadCanon().listCanonGates().map((gate) => [
+        gate.guardian.toLowerCase(),
+        {
+          name: gate.guardian,
+          element: gate.element.toLowerCase(),
+          frequency: gate.frequency,
+          description: `Guardian of the ${gate.name.charAt(0).toUpperCase() + gate.name.slice(1)} Gate`,
+        },
+      ]));
+      const defaultGuardian = Object.values(guardians)[0];
+
       // Initialize Guardian system for guidance
       const guardianSystem = {
-        getGuardian: async (name) => mockGuardians[name] || mockGuardians.lyssandria
+        getGuardian: async (name) => guardians[name] || defaultGuardian
       };
-      
+
       // Display ecosystem overview
       console.log(colors.gold('\n═══════════════════════════════════════════════════════════════════'));
       console.log(colors.teal('                    THE ARCANEA CREATOR ECOSYSTEM'));
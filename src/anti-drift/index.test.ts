@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import { createScriptedProvider } from '../providers';
+import {
+  DEFAULT_ANTI_DRIFT,
+  enforceAntiDrift,
+  enforceAntiDriftJSON,
+  withAntiDrift,
+  type AntiDriftSettings,
+} from './index';
+
+const REPAIR: AntiDriftSettings = { ...DEFAULT_ANTI_DRIFT, mode: 'repair' };
+const REJECT: AntiDriftSettings = { ...DEFAULT_ANTI_DRIFT, mode: 'reject' };
+
+describe('enforceAntiDrift', () => {
+  it('annotates drift without changing the text', () => {
+    const text = 'Draconia guards the Heart Gate at 396 Hz.';
+    const report = enforceAntiDrift(text, DEFAULT_ANTI_DRIFT);
+
+    expect(report).toMatchObject({ mode: 'annotate', accepted: true, text, repaired: [] });
+    expect(report.issues.map((issue) => issue.check)).toContain('canon');
+  });
+
+  it('repairs a Gate its Guardian does not guard, and the frequency that goes with it', () => {
+    const report = enforceAntiDrift('Draconia opens the Heart Gate at 417 Hz.', REPAIR);
+
+    expect(report.text).toBe('Draconia opens the Fire Gate at 396 Hz.');
+    expect(report.issues).toEqual([]);
+    expect(report.repaired.length).toBeGreaterThan(0);
+  });
+
+  it('drops generic assistant phrasing in repair mode', () => {
+    const report = enforceAntiDrift('As an AI, I cannot feel fear. Fear is fuel.', REPAIR);
+
+    expect(report.text).toBe('Fear is fuel.');
+    expect(report.repaired.map((issue) => issue.check)).toEqual(['voice']);
+  });
+
+  it('keeps a Guardian from speaking as another', () => {
+    const report = enforceAntiDrift('I am Lyria, and I see far.', REPAIR, { guardian: 'Draconia' });
+
+    expect(report.text).toBe('I am Draconia, and I see far.');
+  });
+
+  it('rejects text that still has errors', () => {
+    const report = enforceAntiDrift('The Fire Gate hums at 400 Hz.', REJECT);
+
+    expect(report.accepted).toBe(false);
+    expect(report.issues.map((issue) => issue.check)).toEqual(['frequency']);
+  });
+
+  it('leaves settings it was told not to check alone', () => {
+    const report = enforceAntiDrift('The Fire Gate hums at 400 Hz.', { ...REJECT, frequencyAlignment: false });
+
+    expect(report.accepted).toBe(true);
+  });
+});
+
+describe('enforceAntiDriftJSON', () => {
+  it('repairs every string and names where each issue was found', () => {
+    const { value, report } = enforceAntiDriftJSON(
+      { title: 'Ember', scenes: ['The Fire Gate hums at 400 Hz.'] },
+      REPAIR
+    );
+
+    expect(value).toEqual({ title: 'Ember', scenes: ['The Fire Gate hums at 396 Hz.'] });
+    expect(report.repaired.map((issue) => issue.path)).toEqual(['scenes[0]']);
+  });
+});
+
+describe('withAntiDrift', () => {
+  it('repairs replies and attaches the report', async () => {
+    const provider = withAntiDrift(createScriptedProvider(['The Fire Gate hums at 400 Hz.']), REPAIR);
+    const response = await provider.complete({ messages: [{ role: 'user', content: 'Describe the Fire Gate' }] });
+
+    expect(response.text).toBe('The Fire Gate hums at 396 Hz.');
+    expect(response.drift?.repaired).toHaveLength(1);
+  });
+
+  it('throws on a rejected reply, naming the speaker', async () => {
+    const provider = withAntiDrift(createScriptedProvider(['The Fire Gate hums at 400 Hz.']), REJECT);
+
+    await expect(provider.complete({
+      messages: [{ role: 'user', content: 'Describe the Fire Gate' }],
+      metadata: { speaker: 'Draconia' },
+    })).rejects.toThrow('Anti-drift rejected output from Draconia');
+  });
+});
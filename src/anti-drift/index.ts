@@ -0,0 +1,422 @@
+/**
+ * Arcanea Anti-Drift Pipeline
+ *
+ * Post-generation checks driven by the `anti_drift` flags in .aios/config.json:
+ *
+ * - canonCheck: the canon validator's relationship checks (a Guardian paired
+ *   with the wrong Gate, Element, Godbeast or Awakened, Gates not in canon)
+ * - frequencyAlignment: Hz values that are not canon, or not the frequency of
+ *   the Gate they are attached to
+ * - voiceConsistency: generic assistant phrasing, a Guardian speaking as
+ *   another Guardian, and replies with none of the Guardian's imagery (from the
+ *   "Response Style" section of their agent definition)
+ *
+ * The `mode` decides what happens to drift: annotate (attach the issues),
+ * repair (apply the suggested fixes, then attach what is left) or reject
+ * (refuse output with errors). withAntiDrift() applies the pipeline to every
+ * reply from a provider, so Scribe, Guardian channeling and the council share it.
+ */
+
+import {
+  listCanonGates,
+  getCanonGateByGuardian,
+  getGuardianDefinition,
+  validateCanonText,
+  type CanonIssue,
+  type CanonIssueCode,
+} from '../canon';
+import { extractJSON, type LLMProvider, type CompletionRequest, type CompletionResponse } from '../providers';
+
+// =============================================================================
+// TYPE DEFINITIONS
+// =============================================================================
+
+export type AntiDriftMode = 'annotate' | 'repair' | 'reject';
+
+/**
+ * The `anti_drift` section of the project config
+ */
+export interface AntiDriftSettings {
+  canonCheck: boolean;
+  frequencyAlignment: boolean;
+  voiceConsistency: boolean;
+  mode?: AntiDriftMode;
+}
+
+/**
+ * What the text is and who produced it
+ */
+export interface DriftContext {
+  /** Guardian key whose voice the text should be in */
+  guardian?: string;
+}
+
+export type DriftCheck = 'canon' | 'frequency' | 'voice';
+
+export interface DriftIssue {
+  check: DriftCheck;
+  severity: 'error' | 'warning' | 'info';
+  message: string;
+  /** Character offsets of the offending text */
+  start: number;
+  end: number;
+  text: string;
+  /** Suggested replacement for text[start, end) */
+  replacement?: string;
+  /** For JSON output, the path of the string value the issue is in */
+  path?: string;
+}
+
+export interface DriftReport {
+  mode: AntiDriftMode;
+  /** False only in reject mode, when errors were found */
+  accepted: boolean;
+  /** The output text, with fixes applied in repair mode */
+  text: string;
+  /** Issues still present in `text` */
+  issues: DriftIssue[];
+  /** Issues fixed in repair mode */
+  repaired: DriftIssue[];
+}
+
+export const DEFAULT_ANTI_DRIFT: AntiDriftSettings = {
+  canonCheck: true,
+  frequencyAlignment: true,
+  voiceConsistency: true,
+  mode: 'annotate',
+};
+
+const REPAIR_ORDER: DriftCheck[] = ['voice', 'canon', 'frequency'];
+
+/**
+ * Phrasing that breaks the Arcanean voice wherever it appears
+ */
+const GENERIC_PHRASES: RegExp[] = [
+  /\bas an ai\b/i,
+  /\bas an? (?:large )?language model\b/i,
+  /\bI(?:'m| am) (?:just |only )?an? (?:AI|artificial intelligence|assistant|chatbot)\b/i,
+  /\bI (?:don't|do not) have (?:personal )?(?:feelings|opinions|emotions|experiences)\b/i,
+  /\b(?:great|excellent) question\b/i,
+];
+
+// =============================================================================
+// TEXT HELPERS
+// =============================================================================
+
+interface Span {
+  start: number;
+  end: number;
+  text: string;
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function splitSentences(text: string): Span[] {
+  const spans: Span[] = [];
+  const pattern = /[^.!?\n]+[.!?]*/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text)) !== null) {
+    spans.push({ start: match.index, end: match.index + match[0].length, text: match[0] });
+  }
+  return spans;
+}
+
+function findAll(pattern: RegExp, text: string, offset: number = 0): Array<Span & { groups: string[] }> {
+  const global = new RegExp(pattern.source, pattern.flags.includes('g') ? pattern.flags : pattern.flags + 'g');
+  const found: Array<Span & { groups: string[] }> = [];
+  let match: RegExpExecArray | null;
+  while ((match = global.exec(text)) !== null) {
+    found.push({ start: offset + match.index, end: offset + match.index + match[0].length, text: match[0], groups: match.slice(1) });
+    if (match[0].length === 0) global.lastIndex++;
+  }
+  return found;
+}
+
+/**
+ * Validator codes reported under frequencyAlignment; the rest are canonCheck
+ */
+const FREQUENCY_CODES: CanonIssueCode[] = ['non-canon-frequency', 'gate-frequency-mismatch'];
+
+/**
+ * Validator issues whose first suggested fix is only a guess, so repair mode
+ * leaves them alone
+ */
+const UNREPAIRED_CODES: CanonIssueCode[] = ['non-canon-frequency'];
+
+function toDriftIssue(text: string, issue: CanonIssue): DriftIssue {
+  const check: DriftCheck = FREQUENCY_CODES.includes(issue.code) ? 'frequency' : 'canon';
+  const fix = UNREPAIRED_CODES.includes(issue.code) ? undefined : issue.fixes[0];
+  if (!fix) {
+    return { check, severity: issue.severity, message: issue.message, start: issue.start, end: issue.end, text: issue.text };
+  }
+
+  return {
+    check,
+    severity: issue.severity,
+    message: issue.message,
+    start: fix.start,
+    end: fix.end,
+    text: text.slice(fix.start, fix.end),
+    replacement: fix.replacement,
+  };
+}
+
+// =============================================================================
+// CHECKS
+// =============================================================================
+
+/**
+ * Canon and frequency issues found by the canon validator
+ */
+function checkCanonText(text: string, settings: AntiDriftSettings): DriftIssue[] {
+  if (!settings.canonCheck && !settings.frequencyAlignment) return [];
+
+  return validateCanonText(text).issues
+    .map((issue) => toDriftIssue(text, issue))
+    .filter((issue) => issue.check === 'frequency' ? settings.frequencyAlignment : settings.canonCheck);
+}
+
+function checkVoice(text: string, context: DriftContext): DriftIssue[] {
+  const issues: DriftIssue[] = [];
+  const sentences = splitSentences(text);
+
+  for (const pattern of GENERIC_PHRASES) {
+    for (const match of findAll(pattern, text)) {
+      const sentence = sentences.find((s) => s.start <= match.start && match.end <= s.end) || match;
+      if (issues.some((issue) => issue.start === sentence.start)) continue;
+
+      issues.push({
+        check: 'voice',
+        severity: 'warning',
+        message: `Generic assistant phrasing ("${match.text}") breaks the Arcanean voice`,
+        start: sentence.start,
+        end: sentence.end,
+        text: sentence.text,
+        replacement: '',
+      });
+    }
+  }
+
+  const gate = context.guardian ? getCanonGateByGuardian(context.guardian) : undefined;
+  if (!gate) return issues;
+
+  // Speaking as another Guardian
+  const others = listCanonGates().filter((g) => g.name !== gate.name).map((g) => escapeRegExp(g.guardian));
+  if (others.length > 0) {
+    const impersonation = new RegExp(`\\b(?:I am|I'm|As)\\s+(${others.join('|')})\\b`);
+    for (const match of findAll(impersonation, text)) {
+      const nameStart = match.end - match.groups[0].length;
+      issues.push({
+        check: 'voice',
+        severity: 'error',
+        message: `${gate.guardian} speaks as ${match.groups[0]}`,
+        start: nameStart,
+        end: match.end,
+        text: match.groups[0],
+        replacement: gate.guardian,
+      });
+    }
+  }
+
+  // Long replies should draw on the Guardian's imagery
+  const metaphors = getGuardianDefinition(gate.guardian)?.responseStyle.metaphors || [];
+  const words = text.split(/\s+/).filter(Boolean).length;
+  if (metaphors.length > 0 && words >= 80) {
+    const lower = text.toLowerCase();
+    const roots = metaphors.map((m) => m.toLowerCase().replace(/(?:es|s)$/, ''));
+    if (!roots.some((root) => lower.includes(root))) {
+      issues.push({
+        check: 'voice',
+        severity: 'info',
+        message: `None of ${gate.guardian}'s imagery (${metaphors.join(', ')}) appears`,
+        start: 0,
+        end: 0,
+        text: '',
+      });
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Run the enabled checks over a text
+ */
+export function checkDrift(text: string, settings: AntiDriftSettings, context: DriftContext = {}): DriftIssue[] {
+  const issues: DriftIssue[] = [];
+  issues.push(...checkCanonText(text, settings));
+  if (settings.voiceConsistency) issues.push(...checkVoice(text, context));
+  return issues.sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Apply the suggested replacements, skipping fixes that overlap an earlier one
+ */
+export function applyDriftFixes(text: string, issues: DriftIssue[]): { text: string; applied: DriftIssue[] } {
+  const fixable = issues
+    .filter((issue) => issue.replacement !== undefined && issue.end > issue.start)
+    .sort((a, b) => a.start - b.start);
+
+  const applied: DriftIssue[] = [];
+  let lastEnd = -1;
+  for (const issue of fixable) {
+    if (issue.start < lastEnd) continue;
+    applied.push(issue);
+    lastEnd = issue.end;
+  }
+
+  let result = text;
+  for (const issue of [...applied].reverse()) {
+    result = result.slice(0, issue.start) + issue.replacement + result.slice(issue.end);
+  }
+
+  // A removed opening sentence leaves the next one's leading space behind
+  if (!/^\s/.test(text)) result = result.replace(/^\s+/, '');
+
+  return { text: result, applied };
+}
+
+// =============================================================================
+// PIPELINE
+// =============================================================================
+
+/**
+ * Check a text and annotate, repair or reject it according to the settings
+ */
+export function enforceAntiDrift(text: string, settings: AntiDriftSettings, context: DriftContext = {}): DriftReport {
+  const mode = settings.mode || 'annotate';
+  let issues = checkDrift(text, settings, context);
+  const repaired: DriftIssue[] = [];
+  let output = text;
+
+  // Voice fixes can change who is speaking, so fix one check at a time and
+  // re-check before the next
+  if (mode === 'repair') {
+    for (const check of REPAIR_ORDER) {
+      const fixable = issues.filter((issue) => issue.check === check && issue.replacement !== undefined);
+      if (fixable.length === 0) continue;
+
+      const fixed = applyDriftFixes(output, fixable);
+      output = fixed.text;
+      repaired.push(...fixed.applied);
+      issues = checkDrift(output, settings, context);
+    }
+  }
+
+  const accepted = mode !== 'reject' || !issues.some((issue) => issue.severity === 'error');
+  return { mode, accepted, text: output, issues, repaired };
+}
+
+/**
+ * Run the pipeline over every string in a JSON value; issue paths name the
+ * value they were found in
+ */
+export function enforceAntiDriftJSON(value: unknown, settings: AntiDriftSettings, context: DriftContext = {}): {
+  value: unknown;
+  report: DriftReport;
+} {
+  const mode = settings.mode || 'annotate';
+  const report: DriftReport = { mode, accepted: true, text: '', issues: [], repaired: [] };
+
+  const walk = (node: unknown, at: string): unknown => {
+    if (typeof node === 'string') {
+      const result = enforceAntiDrift(node, settings, context);
+      report.issues.push(...result.issues.map((issue) => ({ ...issue, path: at || '(root)' })));
+      report.repaired.push(...result.repaired.map((issue) => ({ ...issue, path: at || '(root)' })));
+      report.accepted = report.accepted && result.accepted;
+      return result.text;
+    }
+    if (Array.isArray(node)) {
+      return node.map((item, i) => walk(item, `${at}[${i}]`));
+    }
+    if (typeof node === 'object' && node !== null) {
+      return Object.fromEntries(
+        Object.entries(node).map(([key, child]) => [key, walk(child, at ? `${at}.${key}` : key)])
+      );
+    }
+    return node;
+  };
+
+  const repaired = walk(value, '');
+  report.text = JSON.stringify(repaired, null, 2);
+  return { value: repaired, report };
+}
+
+/**
+ * Summarize a rejected report for an error message
+ */
+export function formatDriftIssues(issues: DriftIssue[]): string {
+  return issues
+    .map((issue) => `  - [${issue.check}] ${issue.path ? `${issue.path}: ` : ''}${issue.message}`)
+    .join('\n');
+}
+
+// =============================================================================
+// PROVIDER WRAPPER
+// =============================================================================
+
+/**
+ * Wrap a provider so every reply goes through the pipeline. The Guardian
+ * context comes from `context` or the request's `speaker` metadata. Replies
+ * carry their report in `drift`; in reject mode a reply with errors throws.
+ */
+export function withAntiDrift(
+  provider: LLMProvider,
+  settings: AntiDriftSettings,
+  context: DriftContext = {}
+): LLMProvider {
+  const contextFor = (request: CompletionRequest): DriftContext => {
+    const speaker = request.metadata?.speaker;
+    return speaker && getCanonGateByGuardian(speaker) ? { ...context, guardian: speaker } : context;
+  };
+
+  const enforce = (request: CompletionRequest, text: string): DriftReport => {
+    let report: DriftReport;
+
+    if (request.responseFormat === 'json') {
+      try {
+        report = enforceAntiDriftJSON(extractJSON(text), settings, contextFor(request)).report;
+        if (report.repaired.length === 0) report.text = text;
+      } catch {
+        // Not parseable; leave it to the caller's JSON handling
+        report = enforceAntiDrift(text, { ...settings, mode: 'annotate' }, contextFor(request));
+      }
+    } else {
+      report = enforceAntiDrift(text, settings, contextFor(request));
+    }
+
+    if (!report.accepted) {
+      const speaker = request.metadata?.speaker || provider.name;
+      throw new Error(`Anti-drift rejected output from ${speaker}:\n${formatDriftIssues(report.issues)}`);
+    }
+    return report;
+  };
+
+  return {
+    name: provider.name,
+
+    async complete(request: CompletionRequest): Promise<CompletionResponse> {
+      const response = await provider.complete(request);
+      const report = enforce(request, response.text);
+      return { ...response, text: report.text, drift: report };
+    },
+
+    async *stream(request: CompletionRequest): AsyncIterable<string> {
+      // Annotating never changes the text, so it can stream through
+      if ((settings.mode || 'annotate') === 'annotate') {
+        yield* provider.stream(request);
+        return;
+      }
+
+      let text = '';
+      for await (const chunk of provider.stream(request)) {
+        text += chunk;
+      }
+      yield enforce(request, text).text;
+    },
+  };
+}
+
+export default enforceAntiDrift;
@@ -14,43 +14,37 @@ import {
   ClassificationResult,
   ClassifierRule,
 } from './types';
+import { deriveCanonTable, listCanonGates, registerDerivedTable } from '../canon';
 
 /**
  * Guardian to Gate mapping
  */
-const GUARDIAN_GATE_MAP: Record<string, ArtifactGate> = {
-  lyssandria: 1,
-  leyla: 2,
-  draconia: 3,
-  maylinn: 4,
-  alera: 5,
-  lyria: 6,
-  aiyami: 7,
-  elara: 8,
-  ino: 9,
-  shinkami: 10,
-};
+const GUARDIAN_GATE_MAP: Record<string, ArtifactGate> = deriveCanonTable(() => Object.fromEntries(
+  listCanonGates().map((gate) => [gate.guardian.toLowerCase(), gate.number as ArtifactGate])
+));
 
 /**
  * Gate to Element mapping
  */
-const GATE_ELEMENT_MAP: Record<number, ArtifactElement> = {
-  1: 'earth',      // Foundation - Lyssandria
-  2: 'water',      // Flow - Leyla
-  3: 'fire',       // Fire - Draconia
-  4: 'light',      // Heart - Maylinn
-  5: 'prismatic',  // Voice - Alera
-  6: 'wind',       // Sight - Lyria
-  7: 'void',       // Crown - Aiyami
-  8: 'arcane',     // Shift - Elara
-  9: 'arcane',     // Unity - Ino
-  10: 'arcane',    // Source - Shinkami
-};
+const GATE_ELEMENT_MAP: Record<number, ArtifactElement> = deriveCanonTable(() => Object.fromEntries(
+  listCanonGates().map((gate) => [gate.number, gate.element.toLowerCase() as ArtifactElement])
+));
+
+registerDerivedTable('artifact-flow/classifier', () => Object.fromEntries(
+  listCanonGates().map((gate) => {
+    const guardian = Object.keys(GUARDIAN_GATE_MAP).find((key) => GUARDIAN_GATE_MAP[key] === gate.number);
+    return [gate.name, {
+      number: guardian ? GUARDIAN_GATE_MAP[guardian] : null,
+      guardian: guardian ?? null,
+      element: GATE_ELEMENT_MAP[gate.number],
+    }];
+  })
+));
 
 /**
  * Guardian names for detection
  */
-const GUARDIANS = Object.keys(GUARDIAN_GATE_MAP);
+const GUARDIANS = deriveCanonTable(() => Object.keys(GUARDIAN_GATE_MAP));
 
 /**
  * Image extensions
@@ -322,9 +316,7 @@ export class ArtifactClassifier {
       test: (ctx) => {
         if (Buffer.isBuffer(ctx.content)) return false;
         const content = ctx.content.toLowerCase();
-        const gateKeywords = ['foundation gate', 'flow gate', 'fire gate', 'heart gate',
-          'voice gate', 'sight gate', 'crown gate', 'shift gate', 'unity gate', 'source gate'];
-        return gateKeywords.some(k => content.includes(k));
+        return listCanonGates().some(g => content.includes(`${g.name} gate`));
       },
       classify: (ctx) => {
         const content = Buffer.isBuffer(ctx.content) ? '' : ctx.content.toLowerCase();
@@ -476,22 +468,9 @@ export class ArtifactClassifier {
    * Detect gate number from content
    */
   private detectGateFromContent(content: string): ArtifactGate {
-    const gateNames: Array<[string, ArtifactGate]> = [
-      ['foundation gate', 1],
-      ['flow gate', 2],
-      ['fire gate', 3],
-      ['heart gate', 4],
-      ['voice gate', 5],
-      ['sight gate', 6],
-      ['crown gate', 7],
-      ['shift gate', 8],
-      ['unity gate', 9],
-      ['source gate', 10],
-    ];
-
-    for (const [name, gate] of gateNames) {
-      if (content.includes(name)) {
-        return gate;
+    for (const gate of listCanonGates()) {
+      if (content.includes(`${gate.name} gate`)) {
+        return gate.number as ArtifactGate;
       }
     }
     return null;
@@ -0,0 +1,150 @@
+/**
+ * Arcanea Artifact Flow - History
+ *
+ * Per-artifact revision history. Each artifact gets a directory under
+ * `history/` holding its revision log and a snapshot of every version of its
+ * content, named by checksum so a version seen twice is kept once.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { ArtifactRevision, ArtifactState, RevisionAction } from './types';
+
+/** Record fields compared between revisions, in reporting order */
+const STATE_FIELDS: Array<keyof ArtifactState> = [
+  'checksum',
+  'fileName',
+  'storagePath',
+  'category',
+  'subcategory',
+  'element',
+  'gate',
+  'guardian',
+  'tags',
+  'metadata',
+];
+
+export class ArtifactHistory {
+  constructor(private readonly historyDir: string) {}
+
+  /**
+   * An artifact's revisions, oldest first
+   */
+  list(id: string): ArtifactRevision[] {
+    const logPath = this.getLogPath(id);
+    try {
+      if (!fs.existsSync(logPath)) return [];
+      const revisions = JSON.parse(fs.readFileSync(logPath, 'utf-8')) as ArtifactRevision[];
+      return revisions.map((revision) => ({ ...revision, timestamp: new Date(revision.timestamp) }));
+    } catch (error) {
+      console.error(`Failed to load history of ${id}:`, error);
+      return [];
+    }
+  }
+
+  get(id: string, revision: number): ArtifactRevision | null {
+    return this.list(id).find((r) => r.revision === revision) || null;
+  }
+
+  /**
+   * Append a revision, saving a snapshot of the content when given
+   */
+  record(
+    id: string,
+    entry: {
+      action: RevisionAction;
+      changedBy: string;
+      state: ArtifactState;
+      content?: string | Buffer;
+      restoredFrom?: number;
+    }
+  ): ArtifactRevision {
+    const revisions = this.list(id);
+    const previous = revisions[revisions.length - 1];
+
+    const revision: ArtifactRevision = {
+      revision: (previous?.revision || 0) + 1,
+      action: entry.action,
+      changedBy: entry.changedBy,
+      timestamp: new Date(),
+      changes: previous ? diffStates(previous.state, entry.state) : [],
+      restoredFrom: entry.restoredFrom,
+      state: toArtifactState(entry.state),
+    };
+
+    fs.mkdirSync(this.getArtifactDir(id), { recursive: true });
+
+    if (entry.content !== undefined) {
+      const snapshotPath = this.getSnapshotPath(id, entry.state);
+      if (!fs.existsSync(snapshotPath)) {
+        fs.writeFileSync(snapshotPath, entry.content);
+      }
+    }
+
+    revisions.push(revision);
+    fs.writeFileSync(this.getLogPath(id), JSON.stringify(revisions, null, 2));
+
+    return revision;
+  }
+
+  /**
+   * The content an artifact had at a revision, or null when no snapshot of it
+   * was kept
+   */
+  getContent(id: string, revision: ArtifactRevision): string | Buffer | null {
+    const snapshotPath = this.getSnapshotPath(id, revision.state);
+    if (!fs.existsSync(snapshotPath)) return null;
+
+    // Return as buffer for images, string for text
+    if (revision.state.category === 'image') {
+      return fs.readFileSync(snapshotPath);
+    }
+    return fs.readFileSync(snapshotPath, 'utf-8');
+  }
+
+  /**
+   * An artifact's history directory. Ids arrive from tool calls, so one that
+   * resolves anywhere but directly under the history root is refused.
+   */
+  private getArtifactDir(id: string): string {
+    const root = path.resolve(this.historyDir);
+    const dir = path.resolve(root, id);
+    if (path.dirname(dir) !== root) {
+      throw new Error(`Invalid artifact id: ${id}`);
+    }
+    return dir;
+  }
+
+  private getLogPath(id: string): string {
+    return path.join(this.getArtifactDir(id), 'revisions.json');
+  }
+
+  private getSnapshotPath(id: string, state: ArtifactState): string {
+    return path.join(this.getArtifactDir(id), `${state.checksum}${path.extname(state.fileName)}`);
+  }
+}
+
+/**
+ * Names of the record fields that differ between two states
+ */
+export function diffStates(before: ArtifactState, after: ArtifactState): string[] {
+  return STATE_FIELDS.filter((field) => JSON.stringify(before[field]) !== JSON.stringify(after[field]));
+}
+
+/**
+ * The revisioned fields of an artifact record
+ */
+export function toArtifactState(artifact: ArtifactState): ArtifactState {
+  return {
+    fileName: artifact.fileName,
+    storagePath: artifact.storagePath,
+    category: artifact.category,
+    subcategory: artifact.subcategory,
+    element: artifact.element,
+    gate: artifact.gate,
+    guardian: artifact.guardian,
+    tags: artifact.tags,
+    metadata: artifact.metadata,
+    checksum: artifact.checksum,
+  };
+}
@@ -27,11 +27,15 @@ export type {
   ArtifactCategory,
   ArtifactElement,
   ArtifactGate,
+  ArtifactRevision,
+  ArtifactState,
   ClassificationContext,
   ClassificationResult,
   ClassifierRule,
   FileEvent,
   FlowConfig,
+  RevisionAction,
+  SearchMode,
   SearchOptions,
   SearchResult,
   WatcherConfig,
@@ -41,7 +45,23 @@ export type {
 export { ArtifactClassifier, getClassifier } from './classifier';
 
 // Storage exports
-export { ArtifactStorage, createStorage } from './storage';
+export { ArtifactStorage, createStorage, getStudioPath, setStudioPath, ARTIFACT_CATEGORIES } from './storage';
+
+// Search index exports
+export { SearchIndex, tokenize, parseQuery, extractSearchText, highlight } from './search-index';
+export type { Token, ParsedQuery, IndexMatch } from './search-index';
+export {
+  VectorIndex,
+  VECTOR_DIMENSIONS,
+  buildConceptTable,
+  vectorSignature,
+  embedText,
+  cosineSimilarity,
+} from './vector-index';
+export type { ConceptTable } from './vector-index';
+
+// History exports
+export { ArtifactHistory, toArtifactState } from './history';
 
 // Watcher exports
 export { ArtifactWatcher, createWatcher, startWatcherDaemon } from './watcher';
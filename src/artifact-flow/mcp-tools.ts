@@ -11,9 +11,12 @@ import {
   Artifact,
   ArtifactCategory,
   ArtifactElement,
+  ArtifactRevision,
   ClassificationResult,
+  SearchMode,
   SearchResult,
 } from './types';
+import type { ToolInputSchema } from '../schema';
 
 /**
  * MCP Tool definition interface
@@ -21,11 +24,7 @@ import {
 export interface MCPTool {
   name: string;
   description: string;
-  inputSchema: {
-    type: 'object';
-    properties: Record<string, unknown>;
-    required?: string[];
-  };
+  inputSchema: ToolInputSchema;
 }
 
 /**
@@ -71,19 +70,29 @@ export const ARTIFACT_TOOLS: MCPTool[] = [
           type: 'string',
           description: 'Optional: Original file path',
         },
+        project: {
+          type: 'string',
+          description: 'Optional: Project the artifact belongs to (characters are then readable as arcanea://projects/{project}/characters/{id})',
+        },
       },
       required: ['content', 'fileName'],
     },
   },
   {
     name: 'arcanea_search_artifacts',
-    description: 'Search for artifacts in Arcanea Studio by query, category, element, or tags.',
+    description: 'Search the text of artifacts in Arcanea Studio — names, tags, frontmatter, markdown bodies and code comments — ranked by relevance, with matching snippets. Works offline; hybrid mode blends word matches with similarity of meaning. Filter by category, element, gate, or tags.',
     inputSchema: {
       type: 'object',
       properties: {
         query: {
           type: 'string',
-          description: 'Search query (searches names, tags, and content)',
+          description: 'Search query (searches names, tags, and content). Use "quotes" for an exact phrase and word* for a prefix.',
+        },
+        mode: {
+          type: 'string',
+          enum: ['lexical', 'semantic', 'hybrid'],
+          default: 'hybrid',
+          description: 'lexical: matching words (BM25); semantic: similar meaning, including related canon names; hybrid: both',
         },
         category: {
           type: 'string',
@@ -226,6 +235,44 @@ export const ARTIFACT_TOOLS: MCPTool[] = [
       required: ['id'],
     },
   },
+  {
+    name: 'arcanea_artifact_history',
+    description: 'List an artifact\'s revisions: when it changed, what changed (content, tags, category...) and who or what changed it. Pass a revision number to see that version\'s record and content.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        id: {
+          type: 'string',
+          description: 'Artifact ID',
+        },
+        revision: {
+          type: 'integer',
+          minimum: 1,
+          description: 'Optional: Show this revision in full, including its content',
+        },
+      },
+      required: ['id'],
+    },
+  },
+  {
+    name: 'arcanea_restore_artifact',
+    description: 'Restore an artifact to an earlier revision (content, file name, classification, tags and metadata). Deleted artifacts can be restored from their history too. The restore is recorded as a new revision, so it can be undone.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        id: {
+          type: 'string',
+          description: 'Artifact ID',
+        },
+        revision: {
+          type: 'integer',
+          minimum: 1,
+          description: 'Revision number to restore (see arcanea_artifact_history)',
+        },
+      },
+      required: ['id', 'revision'],
+    },
+  },
   {
     name: 'arcanea_studio_stats',
     description: 'Get statistics about the Arcanea Studio artifact collection.',
@@ -278,6 +325,9 @@ export function createToolHandlers(storage: ArtifactStorage): Record<string, Too
       if (args.tags) {
         classification.tags = [...new Set([...classification.tags, ...(args.tags as string[])])];
       }
+      if (args.project) {
+        classification.metadata = { ...classification.metadata, projectId: args.project as string };
+      }
 
       // Store the artifact
       const artifact = await storage.store(content, fileName, classification, {
@@ -312,6 +362,7 @@ export function createToolHandlers(storage: ArtifactStorage): Record<string, Too
 
       const results = await storage.search({
         query: args.query as string,
+        mode: args.mode as SearchMode | undefined,
         category: args.category as ArtifactCategory | undefined,
         element: args.element as ArtifactElement | undefined,
         gate,
@@ -330,6 +381,7 @@ export function createToolHandlers(storage: ArtifactStorage): Record<string, Too
           guardian: r.artifact.guardian,
           tags: r.artifact.tags,
           score: r.score,
+          highlights: r.highlights,
         })),
       };
     },
@@ -395,7 +447,7 @@ export function createToolHandlers(storage: ArtifactStorage): Record<string, Too
       if (args.subcategory) updates.subcategory = args.subcategory;
       if (args.metadata) updates.metadata = args.metadata;
 
-      const artifact = await storage.update(args.id as string, updates);
+      const artifact = await storage.update(args.id as string, updates, { changedBy: 'claude-code' });
       if (!artifact) {
         return { error: 'Artifact not found', id: args.id };
       }
@@ -404,13 +456,69 @@ export function createToolHandlers(storage: ArtifactStorage): Record<string, Too
     },
 
     arcanea_delete_artifact: async (args: Record<string, unknown>) => {
-      const deleted = await storage.delete(args.id as string);
+      const deleted = await storage.delete(args.id as string, { changedBy: 'claude-code' });
       return {
         success: deleted,
         message: deleted ? 'Artifact moved to archive' : 'Artifact not found',
       };
     },
 
+    arcanea_artifact_history: async (args: Record<string, unknown>) => {
+      const id = args.id as string;
+      const revisions = await storage.getHistory(id);
+      const artifact = await storage.get(id);
+      if (revisions.length === 0 && !artifact) {
+        return { error: 'Artifact not found', id };
+      }
+
+      if (args.revision !== undefined) {
+        const revision = revisions.find((r: ArtifactRevision) => r.revision === args.revision);
+        if (!revision) {
+          return { error: 'Revision not found', id, revision: args.revision };
+        }
+        const content = await storage.getRevisionContent(id, revision.revision);
+        return {
+          id,
+          ...revision,
+          timestamp: revision.timestamp.toISOString(),
+          content: Buffer.isBuffer(content) ? content.toString('base64') : content,
+        };
+      }
+
+      return {
+        id,
+        fileName: artifact?.fileName ?? revisions[revisions.length - 1].state.fileName,
+        deleted: !artifact,
+        // Records stored before history was kept have one implicit revision
+        currentRevision: artifact ? artifact.revision ?? 1 : null,
+        count: revisions.length,
+        revisions: revisions.map((r: ArtifactRevision) => ({
+          revision: r.revision,
+          action: r.action,
+          changedBy: r.changedBy,
+          timestamp: r.timestamp.toISOString(),
+          changes: r.changes,
+          restoredFrom: r.restoredFrom,
+          checksum: r.state.checksum,
+          fileName: r.state.fileName,
+        })),
+      };
+    },
+
+    arcanea_restore_artifact: async (args: Record<string, unknown>) => {
+      const artifact = await storage.restore(args.id as string, args.revision as number, { changedBy: 'claude-code' });
+      if (!artifact) {
+        return { error: 'Artifact not found', id: args.id };
+      }
+
+      return {
+        success: true,
+        restoredFrom: args.revision,
+        revision: artifact.revision,
+        artifact,
+      };
+    },
+
     arcanea_studio_stats: async () => {
       const stats = await storage.getStats();
       return {
@@ -0,0 +1,122 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { SearchIndex, extractSearchText, highlight, parseQuery, tokenize } from './search-index';
+
+describe('tokenize', () => {
+  it('lower-cases words and keeps their positions and offsets', () => {
+    expect(tokenize("Draconia's Fire", 5)).toEqual([
+      { term: 'draconias', position: 5, start: 0, end: 10 },
+      { term: 'fire', position: 6, start: 11, end: 15 },
+    ]);
+  });
+});
+
+describe('extractSearchText', () => {
+  it('reads markdown frontmatter and body, JSON strings and code comments', () => {
+    expect(extractSearchText('kael.md', '---\ngate: fire\n---\nThe first dragon.')).toBe('fire\nThe first dragon.');
+    expect(extractSearchText('kael.json', '{"name": "Kael", "gate": 3, "tags": ["ember"]}')).toBe('Kael\n3\nember');
+    expect(extractSearchText('forge.ts', '// Forge the blade\nconst heat = 9;')).toBe('// Forge the blade');
+    expect(extractSearchText('sigil.png', Buffer.from('binary'))).toBe('');
+  });
+});
+
+describe('parseQuery', () => {
+  it('separates words, quoted phrases and prefixes', () => {
+    expect(parseQuery('"fire gate" drag* Kael')).toEqual({
+      terms: ['fire', 'gate', 'kael'],
+      phrases: [['fire', 'gate']],
+      prefixes: ['drag'],
+    });
+  });
+});
+
+describe('SearchIndex', () => {
+  const documents: Record<string, string> = {
+    dragons: 'Dragons nest beneath the Fire Gate. Dragons guard the gate.',
+    forge: 'The forge burns with the fire of the Gate of fire.',
+    tide: 'The tide turns at the Flow Gate.',
+  };
+
+  const build = () => {
+    const index = new SearchIndex('');
+    for (const [id, text] of Object.entries(documents)) index.add(id, `sum-${id}`, [text]);
+    return index;
+  };
+
+  it('ranks documents with BM25', () => {
+    const matches = build().search(parseQuery('dragons'));
+
+    expect(matches.map((match) => match.id)).toEqual(['dragons']);
+    expect(build().search(parseQuery('fire')).map((match) => match.id)).toEqual(['forge', 'dragons']);
+  });
+
+  it('needs every phrase in order', () => {
+    expect(build().search(parseQuery('"fire gate"')).map((match) => match.id)).toEqual(['dragons']);
+    expect(build().search(parseQuery('"gate fire"')).map((match) => match.id)).toEqual([]);
+  });
+
+  it('does not match a phrase across sections', () => {
+    const index = new SearchIndex('');
+    index.add('split', 'sum', ['the fire', 'gate of dawn']);
+
+    expect(index.search(parseQuery('"fire gate"'))).toEqual([]);
+  });
+
+  it('expands prefixes and honours candidates', () => {
+    expect(build().search(parseQuery('drag*')).map((match) => match.id)).toEqual(['dragons']);
+    expect(build().search(parseQuery('gate'), new Set(['tide'])).map((match) => match.id)).toEqual(['tide']);
+  });
+
+  it('replaces and removes documents', () => {
+    const index = build();
+    index.add('tide', 'sum-2', ['Dragons swim with the tide.']);
+
+    expect(index.has('tide', 'sum-2')).toBe(true);
+    expect(index.has('tide', 'sum-tide')).toBe(false);
+    expect(index.search(parseQuery('flow'))).toEqual([]);
+    expect(index.remove('tide')).toBe(true);
+    expect(index.ids()).toEqual(['dragons', 'forge']);
+  });
+
+  describe('on disk', () => {
+    let dir: string | null = null;
+
+    afterEach(() => {
+      if (dir) fs.rmSync(dir, { recursive: true, force: true });
+      dir = null;
+    });
+
+    it('saves and loads the index, ignoring an outdated file', () => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), 'aios-search-'));
+      const indexPath = path.join(dir, 'index', 'search.json');
+      const index = new SearchIndex(indexPath);
+      index.add('dragons', 'sum', [documents.dragons]);
+      index.save();
+
+      const loaded = new SearchIndex(indexPath);
+      loaded.load();
+      expect(loaded.search(parseQuery('dragons')).map((match) => match.id)).toEqual(['dragons']);
+
+      fs.writeFileSync(indexPath, JSON.stringify({ version: 0, docs: {}, postings: {} }));
+      loaded.load();
+      expect(loaded.ids()).toEqual([]);
+    });
+  });
+});
+
+describe('highlight', () => {
+  it('marks matched words and whole phrases in snippets', () => {
+    expect(highlight('Dragons nest beneath the Fire Gate.', parseQuery('"fire gate" drag*'))).toEqual([
+      '**Dragons** nest beneath the **Fire Gate**.',
+    ]);
+  });
+
+  it('cuts long text into snippets around the matches', () => {
+    const text = `${'ash '.repeat(40)}dragon${' ash'.repeat(40)}`;
+    const [snippet] = highlight(text, parseQuery('dragon'), { context: 8 });
+
+    expect(snippet).toBe('…ash ash **dragon** ash ash…');
+  });
+});
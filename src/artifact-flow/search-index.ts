@@ -0,0 +1,387 @@
+/**
+ * Arcanea Artifact Flow - Search Index
+ *
+ * A persistent inverted index over artifact text: markdown bodies, frontmatter
+ * values, the strings of JSON entities and the comments of code files. Results
+ * are ranked with BM25; "quoted phrases" must appear word for word, and a
+ * trailing * matches any word with that prefix.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import matter from 'gray-matter';
+
+// =============================================================================
+// TOKENIZING
+// =============================================================================
+
+export interface Token {
+  term: string;
+  /** Word position, used for phrase matching */
+  position: number;
+  /** Character offsets in the source text */
+  start: number;
+  end: number;
+}
+
+/** Positions skipped between sections so phrases never span two of them */
+const SECTION_GAP = 100;
+
+/**
+ * Split text into lower-case word tokens with positions and offsets
+ */
+export function tokenize(text: string, firstPosition: number = 0): Token[] {
+  const tokens: Token[] = [];
+  for (const match of text.matchAll(/[\p{L}\p{N}]+(?:['’][\p{L}]+)*/gu)) {
+    tokens.push({
+      term: match[0].toLowerCase().replace(/['’]/g, ''),
+      position: firstPosition + tokens.length,
+      start: match.index!,
+      end: match.index! + match[0].length,
+    });
+  }
+  return tokens;
+}
+
+const CODE_EXTENSIONS = new Set(['.ts', '.tsx', '.js', '.jsx', '.mjs', '.cjs', '.py', '.rs', '.go', '.java', '.c', '.cpp', '.cs', '.rb', '.sh', '.swift', '.kt']);
+const MARKDOWN_EXTENSIONS = new Set(['.md', '.mdx', '.markdown']);
+
+/**
+ * The searchable text of an artifact's content. Binary content has none.
+ */
+export function extractSearchText(fileName: string, content: string | Buffer): string {
+  if (typeof content !== 'string') return '';
+  const ext = path.extname(fileName).toLowerCase();
+
+  if (MARKDOWN_EXTENSIONS.has(ext)) {
+    try {
+      const { data, content: body } = matter(content);
+      return [...collectStrings(data), body].join('\n');
+    } catch {
+      return content;
+    }
+  }
+
+  if (ext === '.json') {
+    try {
+      return collectStrings(JSON.parse(content)).join('\n');
+    } catch {
+      return content;
+    }
+  }
+
+  if (CODE_EXTENSIONS.has(ext)) {
+    const comments = content.match(/\/\*[\s\S]*?\*\/|\/\/[^\n]*|(?:^|\s)#[^\n]*|"""[\s\S]*?"""/g) || [];
+    return comments.join('\n');
+  }
+
+  return content;
+}
+
+/**
+ * Every string, number and boolean inside a value, depth first
+ */
+function collectStrings(value: unknown): string[] {
+  if (value === null || value === undefined) return [];
+  if (typeof value === 'string') return [value];
+  if (typeof value === 'number' || typeof value === 'boolean') return [String(value)];
+  if (value instanceof Date) return [value.toISOString()];
+  if (Array.isArray(value)) return value.flatMap(collectStrings);
+  if (typeof value === 'object') return Object.values(value).flatMap(collectStrings);
+  return [];
+}
+
+// =============================================================================
+// QUERIES
+// =============================================================================
+
+export interface ParsedQuery {
+  /** Every word of the query, phrases included, without duplicates */
+  terms: string[];
+  /** Word sequences that must appear in order */
+  phrases: string[][];
+  /** Words given as `prefix*` */
+  prefixes: string[];
+}
+
+/**
+ * Parse a query into words, "quoted phrases" and prefix* words
+ */
+export function parseQuery(query: string): ParsedQuery {
+  const phrases: string[][] = [];
+  const rest = query.replace(/"([^"]*)"/g, (_, phrase: string) => {
+    const words = tokenize(phrase).map((token) => token.term);
+    if (words.length > 1) phrases.push(words);
+    return ` ${words.join(' ')} `;
+  });
+
+  const prefixes = [...rest.matchAll(/([\p{L}\p{N}]+)\*/gu)].map((match) => match[1].toLowerCase());
+  const words = tokenize(rest.replace(/[\p{L}\p{N}]+\*/gu, ' ')).map((token) => token.term);
+
+  return { terms: [...new Set(words)], phrases, prefixes: [...new Set(prefixes)] };
+}
+
+// =============================================================================
+// INDEX
+// =============================================================================
+
+interface IndexedDocument {
+  checksum: string;
+  /** Token count, for BM25 length normalization */
+  length: number;
+  /** Distinct terms, so the document can be removed without a full scan */
+  terms: string[];
+}
+
+interface SearchIndexFile {
+  version: number;
+  docs: Record<string, IndexedDocument>;
+  /** term -> document id -> word positions */
+  postings: Record<string, Record<string, number[]>>;
+}
+
+export interface IndexMatch {
+  id: string;
+  score: number;
+}
+
+const INDEX_VERSION = 1;
+
+/** BM25 parameters */
+const K1 = 1.2;
+const B = 0.75;
+
+/** Most vocabulary terms a single prefix* word expands to */
+const MAX_PREFIX_EXPANSION = 50;
+
+export class SearchIndex {
+  private docs: Map<string, IndexedDocument> = new Map();
+  private postings: Map<string, Map<string, number[]>> = new Map();
+  private totalLength = 0;
+
+  constructor(private readonly indexPath: string) {}
+
+  /**
+   * Load the index from disk. A missing, unreadable or outdated file leaves
+   * the index empty, to be rebuilt by the caller.
+   */
+  load(): void {
+    this.docs.clear();
+    this.postings.clear();
+    this.totalLength = 0;
+
+    try {
+      if (!fs.existsSync(this.indexPath)) return;
+      const data = JSON.parse(fs.readFileSync(this.indexPath, 'utf-8')) as SearchIndexFile;
+      if (data.version !== INDEX_VERSION) return;
+
+      for (const [id, doc] of Object.entries(data.docs)) {
+        this.docs.set(id, doc);
+        this.totalLength += doc.length;
+      }
+      for (const [term, docs] of Object.entries(data.postings)) {
+        this.postings.set(term, new Map(Object.entries(docs)));
+      }
+    } catch (error) {
+      console.error('Failed to load search index:', error);
+      this.docs.clear();
+      this.postings.clear();
+      this.totalLength = 0;
+    }
+  }
+
+  save(): void {
+    const data: SearchIndexFile = {
+      version: INDEX_VERSION,
+      docs: Object.fromEntries(this.docs),
+      postings: Object.fromEntries(
+        Array.from(this.postings, ([term, docs]) => [term, Object.fromEntries(docs)])
+      ),
+    };
+    fs.mkdirSync(path.dirname(this.indexPath), { recursive: true });
+    fs.writeFileSync(this.indexPath, JSON.stringify(data));
+  }
+
+  /**
+   * Whether a document is indexed, at this checksum when one is given
+   */
+  has(id: string, checksum?: string): boolean {
+    const doc = this.docs.get(id);
+    return !!doc && (checksum === undefined || doc.checksum === checksum);
+  }
+
+  ids(): string[] {
+    return Array.from(this.docs.keys());
+  }
+
+  /**
+   * Index a document's sections, replacing any earlier version of it
+   */
+  add(id: string, checksum: string, sections: string[]): void {
+    this.remove(id);
+
+    let position = 0;
+    const positions = new Map<string, number[]>();
+    for (const section of sections) {
+      const tokens = tokenize(section, position);
+      for (const token of tokens) {
+        const list = positions.get(token.term);
+        if (list) list.push(token.position);
+        else positions.set(token.term, [token.position]);
+      }
+      position += tokens.length + SECTION_GAP;
+    }
+
+    let length = 0;
+    for (const [term, list] of positions) {
+      let docs = this.postings.get(term);
+      if (!docs) {
+        docs = new Map();
+        this.postings.set(term, docs);
+      }
+      docs.set(id, list);
+      length += list.length;
+    }
+
+    this.docs.set(id, { checksum, length, terms: Array.from(positions.keys()) });
+    this.totalLength += length;
+  }
+
+  remove(id: string): boolean {
+    const doc = this.docs.get(id);
+    if (!doc) return false;
+
+    for (const term of doc.terms) {
+      const docs = this.postings.get(term);
+      docs?.delete(id);
+      if (docs && docs.size === 0) this.postings.delete(term);
+    }
+    this.docs.delete(id);
+    this.totalLength -= doc.length;
+    return true;
+  }
+
+  /**
+   * Rank documents against a query with BM25. Documents must contain every
+   * phrase and at least one term; `candidates` limits the documents considered.
+   */
+  search(query: ParsedQuery, candidates?: Set<string>): IndexMatch[] {
+    const terms = [...query.terms, ...this.expandPrefixes(query.prefixes)];
+    if (terms.length === 0) return [];
+
+    const total = this.docs.size;
+    const averageLength = total > 0 ? this.totalLength / total : 0;
+    const scores = new Map<string, number>();
+
+    for (const term of new Set(terms)) {
+      const docs = this.postings.get(term);
+      if (!docs) continue;
+      const idf = Math.log(1 + (total - docs.size + 0.5) / (docs.size + 0.5));
+
+      for (const [id, positions] of docs) {
+        if (candidates && !candidates.has(id)) continue;
+        const length = this.docs.get(id)!.length;
+        const tf = positions.length;
+        const norm = tf + K1 * (1 - B + B * (length / (averageLength || 1)));
+        scores.set(id, (scores.get(id) || 0) + idf * (tf * (K1 + 1)) / norm);
+      }
+    }
+
+    const matches: IndexMatch[] = [];
+    for (const [id, score] of scores) {
+      if (query.phrases.every((phrase) => this.containsPhrase(id, phrase))) {
+        matches.push({ id, score });
+      }
+    }
+    return matches.sort((a, b) => b.score - a.score);
+  }
+
+  private containsPhrase(id: string, phrase: string[]): boolean {
+    const lists = phrase.map((term) => this.postings.get(term)?.get(id));
+    if (lists.some((list) => !list)) return false;
+
+    const sets = lists.slice(1).map((list) => new Set(list));
+    return lists[0]!.some((start) => sets.every((set, i) => set.has(start + i + 1)));
+  }
+
+  private expandPrefixes(prefixes: string[]): string[] {
+    if (prefixes.length === 0) return [];
+    const expanded: string[] = [];
+    for (const prefix of prefixes) {
+      let count = 0;
+      for (const term of this.postings.keys()) {
+        if (!term.startsWith(prefix)) continue;
+        expanded.push(term);
+        if (++count >= MAX_PREFIX_EXPANSION) break;
+      }
+    }
+    return expanded;
+  }
+}
+
+// =============================================================================
+// HIGHLIGHTS
+// =============================================================================
+
+/**
+ * Snippets of `text` around the query's matches, with matched words in
+ * **bold**. Phrases are highlighted as a whole.
+ */
+export function highlight(
+  text: string,
+  query: ParsedQuery,
+  options: { maxSnippets?: number; context?: number } = {}
+): string[] {
+  const maxSnippets = options.maxSnippets ?? 3;
+  const context = options.context ?? 60;
+  const tokens = tokenize(text);
+  // Words of a phrase are only marked where the whole phrase appears
+  const phraseWords = new Set(query.phrases.flat());
+  const terms = new Set(query.terms.filter((term) => !phraseWords.has(term)));
+
+  // Character ranges to mark: phrase occurrences first, then single terms
+  const ranges: Array<[number, number]> = [];
+  const covered = new Set<number>();
+  for (const phrase of query.phrases) {
+    for (let i = 0; i + phrase.length <= tokens.length; i++) {
+      if (phrase.every((term, j) => tokens[i + j].term === term)) {
+        ranges.push([tokens[i].start, tokens[i + phrase.length - 1].end]);
+        for (let j = 0; j < phrase.length; j++) covered.add(i + j);
+      }
+    }
+  }
+  tokens.forEach((token, i) => {
+    if (covered.has(i)) return;
+    if (terms.has(token.term) || query.prefixes.some((prefix) => token.term.startsWith(prefix))) {
+      ranges.push([token.start, token.end]);
+    }
+  });
+  if (ranges.length === 0) return [];
+  ranges.sort((a, b) => a[0] - b[0]);
+
+  // Group nearby ranges into windows, one snippet each
+  const windows: Array<{ start: number; end: number; ranges: Array<[number, number]> }> = [];
+  for (const range of ranges) {
+    const last = windows[windows.length - 1];
+    if (last && range[0] - last.end <= context) {
+      last.end = range[1];
+      last.ranges.push(range);
+    } else {
+      if (windows.length === maxSnippets) break;
+      windows.push({ start: range[0], end: range[1], ranges: [range] });
+    }
+  }
+
+  return windows.map((window) => {
+    const start = Math.max(0, window.start - context);
+    const end = Math.min(text.length, window.end + context);
+    let snippet = '';
+    let cursor = start;
+    for (const [from, to] of window.ranges) {
+      snippet += `${text.slice(cursor, from)}**${text.slice(from, to)}**`;
+      cursor = to;
+    }
+    snippet += text.slice(cursor, end);
+    return `${start > 0 ? '…' : ''}${snippet.replace(/\s+/g, ' ').trim()}${end < text.length ? '…' : ''}`;
+  });
+}
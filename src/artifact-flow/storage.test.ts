@@ -0,0 +1,94 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { createStorage, type ArtifactStorage } from './storage';
+import type { ClassificationResult } from './types';
+
+const LORE: ClassificationResult = {
+  category: 'lore',
+  confidence: 1,
+  element: 'fire',
+  gate: 3,
+  guardian: 'draconia',
+  tags: ['dragon'],
+  metadata: {},
+  reasoning: 'test',
+};
+
+describe('ArtifactStorage history', () => {
+  let studioPath: string;
+  let storage: ArtifactStorage;
+
+  beforeEach(async () => {
+    studioPath = fs.mkdtempSync(path.join(os.tmpdir(), 'aios-storage-'));
+    storage = createStorage(studioPath);
+    await storage.initialize();
+  });
+
+  afterEach(() => {
+    fs.rmSync(studioPath, { recursive: true, force: true });
+  });
+
+  it('records a revision for each new version of a file', async () => {
+    const first = await storage.store('The first dragon.', 'dragons.md', LORE);
+    const second = await storage.store('The first dragon woke.', 'dragons.md', LORE);
+
+    expect(second.id).toBe(first.id);
+    expect((await storage.getHistory(first.id)).map((r) => r.action)).toEqual(['created', 'content']);
+    expect(await storage.getRevisionContent(first.id, 1)).toBe('The first dragon.');
+  });
+
+  it('records a revision when only the classification or metadata change', async () => {
+    const artifact = await storage.store('The first dragon.', 'dragons.md', LORE);
+    expect(await storage.store('The first dragon.', 'dragons.md', LORE)).toBe(artifact);
+
+    const retagged = await storage.store('The first dragon.', 'dragons.md', { ...LORE, tags: ['dragon', 'canon'], metadata: { projectId: 'ember' } });
+
+    expect(retagged).toMatchObject({ id: artifact.id, tags: ['dragon', 'canon'], revision: 2 });
+    expect((await storage.getHistory(artifact.id)).pop()).toMatchObject({ action: 'metadata', changes: ['tags', 'metadata'] });
+  });
+
+  it('restores an earlier revision as a new one', async () => {
+    const artifact = await storage.store('The first dragon.', 'dragons.md', LORE);
+    await storage.store('The first dragon woke.', 'dragons.md', LORE);
+
+    const restored = await storage.restore(artifact.id, 1);
+
+    expect(restored?.revision).toBe(3);
+    expect(await storage.getContent(artifact.id)).toBe('The first dragon.');
+    expect((await storage.getHistory(artifact.id)).pop()).toMatchObject({ action: 'restored', restoredFrom: 1 });
+  });
+
+  it('restores a deleted artifact under its old id', async () => {
+    const artifact = await storage.store('The first dragon.', 'dragons.md', LORE);
+    await storage.delete(artifact.id);
+    expect(await storage.get(artifact.id)).toBeNull();
+
+    const restored = await storage.restore(artifact.id, 1);
+
+    expect(restored).toMatchObject({ id: artifact.id, fileName: 'dragons.md', category: 'lore', revision: 3 });
+    expect(await storage.get(artifact.id)).not.toBeNull();
+    expect(await storage.getContent(artifact.id)).toBe('The first dragon.');
+    expect((await storage.search({ query: 'dragon' })).map((result) => result.artifact.id)).toContain(artifact.id);
+  });
+
+  it('will not restore over an artifact that took the deleted one\'s place', async () => {
+    const artifact = await storage.store('The first dragon.', 'dragons.md', LORE);
+    await storage.delete(artifact.id);
+    const replacement = await storage.store('A new dragon.', 'dragons.md', LORE);
+
+    await expect(storage.restore(artifact.id, 1)).rejects.toThrow(`now belongs to artifact ${replacement.id}`);
+    expect(await storage.getContent(replacement.id)).toBe('A new dragon.');
+  });
+
+  it('returns null for artifacts it never stored', async () => {
+    expect(await storage.restore('missing', 1)).toBeNull();
+  });
+
+  it('refuses ids that lead outside the history', async () => {
+    await expect(storage.getHistory('../../x')).rejects.toThrow('Invalid artifact id: ../../x');
+    await expect(storage.restore('../index', 1)).rejects.toThrow('Invalid artifact id');
+    expect(fs.readdirSync(studioPath)).not.toContain('x');
+  });
+});
@@ -5,16 +5,27 @@
  */
 
 import * as fs from 'fs';
+import * as os from 'os';
 import * as path from 'path';
 import * as crypto from 'crypto';
 import {
   Artifact,
   ArtifactCategory,
+  ArtifactRevision,
+  ArtifactState,
   ClassificationResult,
   FlowConfig,
+  SearchMode,
   SearchOptions,
   SearchResult,
+  RevisionAction,
 } from './types';
+import { SearchIndex, extractSearchText, highlight, parseQuery, type IndexMatch, type ParsedQuery } from './search-index';
+import { VectorIndex } from './vector-index';
+import { ArtifactHistory, diffStates } from './history';
+
+/** Share of a hybrid score that comes from the lexical rank */
+const LEXICAL_WEIGHT = 0.6;
 
 /**
  * Default flow configuration
@@ -35,6 +46,7 @@ const DEFAULT_CONFIG: FlowConfig = {
   autoStore: false,
   debounceMs: 500,
   stabilityThreshold: 2000,
+  projects: [],
 };
 
 /**
@@ -55,6 +67,11 @@ const CATEGORY_PATHS: Record<ArtifactCategory, string> = {
   unknown: 'inbox',
 };
 
+/**
+ * Every artifact category, in the order the storage layout lists them
+ */
+export const ARTIFACT_CATEGORIES = Object.keys(CATEGORY_PATHS) as ArtifactCategory[];
+
 /**
  * Artifact Storage Manager
  *
@@ -64,6 +81,9 @@ export class ArtifactStorage {
   private config: FlowConfig;
   private indexPath: string;
   private artifacts: Map<string, Artifact> = new Map();
+  private searchIndex: SearchIndex;
+  private vectorIndex: VectorIndex;
+  private history: ArtifactHistory;
 
   constructor(studioPath: string, config?: Partial<FlowConfig>) {
     this.config = {
@@ -72,6 +92,9 @@ export class ArtifactStorage {
       studioPath,
     };
     this.indexPath = path.join(studioPath, 'index', 'artifacts.json');
+    this.searchIndex = new SearchIndex(path.join(studioPath, 'index', 'search.json'));
+    this.vectorIndex = new VectorIndex(path.join(studioPath, 'index', 'vectors.json'));
+    this.history = new ArtifactHistory(path.join(studioPath, 'history'));
   }
 
   /**
@@ -81,13 +104,28 @@ export class ArtifactStorage {
     // Create directory structure
     await this.createDirectories();
 
+    // Keep the projects recorded by earlier runs
+    await this.loadConfig();
+
     // Load existing index
     await this.loadIndex();
 
+    // Load the full-text and vector indexes and bring them up to date
+    await this.loadSearchIndexes();
+
     // Save config
     await this.saveConfig();
   }
 
+  /**
+   * Load an existing studio without creating or writing anything, for
+   * read-only use (listing and reading artifacts, not searching them)
+   */
+  async open(): Promise<void> {
+    await this.loadConfig();
+    await this.loadIndex();
+  }
+
   /**
    * Create the studio directory structure
    */
@@ -127,6 +165,7 @@ export class ArtifactStorage {
       'index',
       'inbox',
       'archive',
+      'history',
     ];
 
     for (const dir of dirs) {
@@ -172,6 +211,106 @@ export class ArtifactStorage {
     fs.writeFileSync(this.indexPath, JSON.stringify(artifacts, null, 2));
   }
 
+  /**
+   * Load the full-text and vector indexes, indexing artifacts they are
+   * missing or have at an older checksum and dropping entries for artifacts
+   * that no longer exist
+   */
+  private async loadSearchIndexes(): Promise<void> {
+    this.searchIndex.load();
+    this.vectorIndex.load();
+    let changed = false;
+
+    for (const index of [this.searchIndex, this.vectorIndex]) {
+      for (const id of index.ids()) {
+        if (!this.artifacts.has(id)) {
+          changed = index.remove(id) || changed;
+        }
+      }
+    }
+
+    for (const artifact of this.artifacts.values()) {
+      if (
+        !this.searchIndex.has(artifact.id, artifact.checksum) ||
+        !this.vectorIndex.has(artifact.id, artifact.checksum)
+      ) {
+        await this.indexArtifact(artifact, false);
+        changed = true;
+      }
+    }
+
+    if (changed) {
+      this.saveSearchIndexes();
+    }
+  }
+
+  /**
+   * Add an artifact to the full-text and vector indexes, replacing any
+   * earlier entry
+   */
+  private async indexArtifact(artifact: Artifact, save = true): Promise<void> {
+    const header = this.getSearchHeader(artifact);
+    const text = await this.getSearchText(artifact);
+    this.searchIndex.add(artifact.id, artifact.checksum, [header, text]);
+    this.vectorIndex.add(artifact.id, artifact.checksum, `${header}\n${text}`);
+    if (save) {
+      this.saveSearchIndexes();
+    }
+  }
+
+  private saveSearchIndexes(): void {
+    this.searchIndex.save();
+    this.vectorIndex.save();
+  }
+
+  /**
+   * The fields of an artifact record that are searched alongside its content
+   */
+  private getSearchHeader(artifact: Artifact): string {
+    return [
+      artifact.fileName,
+      artifact.category,
+      artifact.subcategory,
+      artifact.element,
+      artifact.guardian,
+      ...artifact.tags,
+    ]
+      .filter(Boolean)
+      .join(' ');
+  }
+
+  private async getSearchText(artifact: Artifact): Promise<string> {
+    const content = await this.getContent(artifact.id);
+    return content === null ? '' : extractSearchText(artifact.fileName, content);
+  }
+
+  /**
+   * Take the project registry from the saved flow configuration
+   */
+  private async loadConfig(): Promise<void> {
+    const configPath = path.join(this.config.studioPath, '.flow-config.json');
+    try {
+      if (fs.existsSync(configPath)) {
+        const saved = JSON.parse(fs.readFileSync(configPath, 'utf-8')) as Partial<FlowConfig>;
+        if (Array.isArray(saved.projects)) {
+          this.config.projects = [...new Set([...this.config.projects, ...saved.projects])];
+        }
+      }
+    } catch (error) {
+      console.error('Failed to load flow config:', error);
+    }
+  }
+
+  /**
+   * Add an artifact's project to the registry in the flow configuration
+   */
+  private async registerProject(artifact: Artifact): Promise<void> {
+    const projectId = artifact.metadata?.projectId;
+    if (typeof projectId !== 'string' || this.config.projects.includes(projectId)) return;
+    this.config.projects = [...this.config.projects, projectId];
+    await this.saveConfig();
+  }
+
   /**
    * Save the flow configuration
    */
@@ -224,7 +363,9 @@ export class ArtifactStorage {
   }
 
   /**
-   * Store an artifact
+   * Store an artifact. Storing a file again from the same source path, or
+   * to the same storage path, updates the existing artifact in place, keeping
+   * its id and recording a revision in its history.
    */
   async store(
     content: string | Buffer,
@@ -236,19 +377,51 @@ export class ArtifactStorage {
       overwrite?: boolean;
     }
   ): Promise<Artifact> {
-    const id = this.generateId();
     const checksum = this.calculateChecksum(content);
+    const relativePath = this.getStoragePath(fileName, classification);
+    const fullPath = path.join(this.config.studioPath, relativePath);
+    const state: ArtifactState = {
+      fileName,
+      storagePath: relativePath,
+      category: classification.category,
+      subcategory: classification.subcategory,
+      element: classification.element,
+      gate: classification.gate,
+      guardian: classification.guardian,
+      tags: classification.tags,
+      metadata: classification.metadata,
+      checksum,
+    };
 
-    // Check for duplicates by checksum
-    const existing = Array.from(this.artifacts.values()).find(
-      a => a.checksum === checksum
-    );
-    if (existing && !options?.overwrite) {
-      return existing;
+    // A changed source file, or a new version of a stored file, replaces the
+    // artifact it was stored as
+    const artifacts = Array.from(this.artifacts.values());
+    const previous = (options?.sourcePath && artifacts.find(a => a.originalPath === options.sourcePath))
+      || artifacts.find(a => a.storagePath === relativePath);
+
+    if (previous) {
+      // A new classification or metadata is a change even when the content is not
+      if (diffStates(previous, state).length === 0 && !options?.overwrite) {
+        return previous;
+      }
+    } else {
+      // Check for duplicates by checksum
+      const existing = artifacts.find(a => a.checksum === checksum);
+      if (existing && !options?.overwrite) {
+        return existing;
+      }
     }
 
-    const relativePath = this.getStoragePath(fileName, classification);
-    const fullPath = path.join(this.config.studioPath, relativePath);
+    const id = previous?.id || this.generateId();
+
+    if (previous) {
+      // Keep the version being replaced if it predates the history
+      await this.ensureHistory(previous);
+
+      if (previous.storagePath !== relativePath) {
+        fs.rmSync(path.join(this.config.studioPath, previous.storagePath), { force: true });
+      }
+    }
 
     // Ensure directory exists
     const dir = path.dirname(fullPath);
@@ -261,26 +434,25 @@ export class ArtifactStorage {
 
     // Create artifact record
     const artifact: Artifact = {
+      ...state,
       id,
-      fileName,
-      originalPath: options?.sourcePath,
-      storagePath: relativePath,
-      category: classification.category,
-      subcategory: classification.subcategory,
-      element: classification.element,
-      gate: classification.gate,
-      guardian: classification.guardian,
-      tags: classification.tags,
-      metadata: classification.metadata,
-      createdAt: new Date(),
+      originalPath: options?.sourcePath ?? previous?.originalPath,
+      createdAt: previous?.createdAt || new Date(),
       updatedAt: new Date(),
-      sourceWorkspace: options?.sourceWorkspace,
-      checksum,
+      sourceWorkspace: options?.sourceWorkspace ?? previous?.sourceWorkspace,
     };
 
+    this.recordRevision(artifact, {
+      action: !previous ? 'created' : previous.checksum !== checksum ? 'content' : 'metadata',
+      changedBy: options?.sourceWorkspace || 'storage',
+      content,
+    });
+
     // Add to index
     this.artifacts.set(id, artifact);
     await this.saveIndex();
+    await this.indexArtifact(artifact);
+    await this.registerProject(artifact);
 
     return artifact;
   }
@@ -321,11 +493,25 @@ export class ArtifactStorage {
   }
 
   /**
-   * Search artifacts
+   * Projects in the registry, and those of artifacts stored before it existed
+   */
+  listProjects(): string[] {
+    const stored = Array.from(this.artifacts.values())
+      .map(a => a.metadata?.projectId)
+      .filter((id): id is string => typeof id === 'string');
+    return [...new Set([...this.config.projects, ...stored])];
+  }
+
+  /**
+   * Search artifacts. The query is matched against artifact content as well
+   * as names, categories and tags. `lexical` mode ranks with BM25, where
+   * "quoted phrases" must appear in order and `word*` matches any word with
+   * that prefix; `semantic` mode ranks by vector similarity; `hybrid` (the
+   * default) blends the two. An empty query lists every artifact that passes
+   * the filters.
    */
   async search(options: SearchOptions): Promise<SearchResult[]> {
-    const results: SearchResult[] = [];
-    const query = options.query.toLowerCase();
+    const candidates = new Set<string>();
 
     for (const artifact of this.artifacts.values()) {
       // Filter by category
@@ -343,49 +529,81 @@ export class ArtifactStorage {
         if (!hasAllTags) continue;
       }
 
-      // Score based on query match
-      let score = 0;
-      const searchableText = [
-        artifact.fileName,
-        artifact.category,
-        artifact.subcategory,
-        artifact.guardian,
-        ...artifact.tags,
-      ]
-        .filter(Boolean)
-        .join(' ')
-        .toLowerCase();
-
-      if (searchableText.includes(query)) {
-        score = 0.8;
-        if (artifact.fileName.toLowerCase().includes(query)) {
-          score = 1.0;
-        }
-      } else if (query.split(' ').some(word => searchableText.includes(word))) {
-        score = 0.5;
-      }
-
-      if (score > 0) {
-        results.push({ artifact, score });
-      }
+      candidates.add(artifact.id);
     }
 
-    // Sort by score
-    results.sort((a, b) => b.score - a.score);
-
-    // Apply pagination
     const offset = options.offset || 0;
     const limit = options.limit || 50;
-    return results.slice(offset, offset + limit);
+    const query = parseQuery(options.query || '');
+
+    if (query.terms.length === 0 && query.prefixes.length === 0) {
+      return Array.from(candidates)
+        .slice(offset, offset + limit)
+        .map(id => ({ artifact: this.artifacts.get(id)!, score: 0 }));
+    }
+
+    // Rank, then paginate before reading content for highlights
+    const page = this.rank(options.query, query, candidates, options.mode || 'hybrid').slice(offset, offset + limit);
+
+    const results: SearchResult[] = [];
+    for (const match of page) {
+      const artifact = this.artifacts.get(match.id)!;
+      const text = await this.getSearchText(artifact);
+      let highlights = highlight(text, query);
+      if (highlights.length === 0) highlights = highlight(this.getSearchHeader(artifact), query);
+      if (highlights.length === 0) highlights = excerpt(text);
+      results.push({
+        artifact,
+        score: Math.round(match.score * 1000) / 1000,
+        highlights,
+      });
+    }
+
+    return results;
+  }
+
+  /**
+   * Rank candidate artifacts for a query. Hybrid scores scale BM25 by the
+   * best lexical match so both halves run from 0 to 1.
+   */
+  private rank(
+    text: string,
+    query: ParsedQuery,
+    candidates: Set<string>,
+    mode: SearchMode
+  ): IndexMatch[] {
+    const lexical = mode === 'semantic' ? [] : this.searchIndex.search(query, candidates);
+    if (mode === 'lexical') return lexical;
+
+    const semantic = this.vectorIndex.search(text, candidates);
+    if (mode === 'semantic') return semantic;
+
+    // Phrases are a lexical requirement, so only their matches stay in
+    const phrases = query.phrases.length > 0;
+
+    const best = lexical[0]?.score || 1;
+    const scores = new Map<string, number>();
+    for (const match of lexical) {
+      scores.set(match.id, LEXICAL_WEIGHT * (match.score / best));
+    }
+    for (const match of semantic) {
+      if (phrases && !scores.has(match.id)) continue;
+      scores.set(match.id, (scores.get(match.id) || 0) + (1 - LEXICAL_WEIGHT) * match.score);
+    }
+
+    return Array.from(scores, ([id, score]) => ({ id, score })).sort((a, b) => b.score - a.score);
   }
 
   /**
-   * Delete an artifact
+   * Delete an artifact. Its history is kept.
    */
-  async delete(id: string): Promise<boolean> {
+  async delete(id: string, options?: { changedBy?: string }): Promise<boolean> {
     const artifact = this.artifacts.get(id);
     if (!artifact) return false;
 
+    await this.ensureHistory(artifact);
+    this.recordRevision(artifact, { action: 'deleted', changedBy: options?.changedBy || 'storage' });
+
     // Move to archive instead of deleting
     const archivePath = path.join(
       this.config.studioPath,
@@ -401,31 +619,158 @@ export class ArtifactStorage {
     this.artifacts.delete(id);
     await this.saveIndex();
 
+    const indexed = this.searchIndex.remove(id);
+    if (this.vectorIndex.remove(id) || indexed) {
+      this.saveSearchIndexes();
+    }
+
     return true;
   }
 
   /**
-   * Update artifact metadata
+   * Update artifact metadata, recording a revision
    */
   async update(
     id: string,
-    updates: Partial<Pick<Artifact, 'tags' | 'metadata' | 'category' | 'subcategory'>>
+    updates: Partial<Pick<Artifact, 'tags' | 'metadata' | 'category' | 'subcategory'>>,
+    options?: { changedBy?: string }
   ): Promise<Artifact | null> {
     const artifact = this.artifacts.get(id);
     if (!artifact) return null;
 
+    await this.ensureHistory(artifact);
+
     const updated: Artifact = {
       ...artifact,
       ...updates,
       updatedAt: new Date(),
     };
+    this.recordRevision(updated, { action: 'metadata', changedBy: options?.changedBy || 'storage' });
 
     this.artifacts.set(id, updated);
     await this.saveIndex();
+    await this.indexArtifact(updated);
+    await this.registerProject(updated);
 
     return updated;
   }
 
+  // ===========================================================================
+  // HISTORY
+  // ===========================================================================
+
+  /**
+   * An artifact's revisions, oldest first. The history of a deleted artifact
+   * is still available.
+   */
+  async getHistory(id: string): Promise<ArtifactRevision[]> {
+    return this.history.list(id);
+  }
+
+  /**
+   * The content an artifact had at a revision
+   */
+  async getRevisionContent(id: string, revision: number): Promise<string | Buffer | null> {
+    const entry = this.history.get(id, revision);
+    return entry ? this.history.getContent(id, entry) : null;
+  }
+
+  /**
+   * Bring an artifact back to an earlier revision: its content, file name,
+   * classification, tags and metadata. The restore is itself a new revision.
+   * A deleted artifact can be restored too, under its old id.
+   */
+  async restore(id: string, revision: number, options?: { changedBy?: string }): Promise<Artifact | null> {
+    const artifact = this.artifacts.get(id) || this.getDeletedRecord(id);
+    if (!artifact) return null;
+
+    const target = this.history.get(id, revision);
+    if (!target) {
+      throw new Error(`Artifact ${id} has no revision ${revision}`);
+    }
+    const content = this.history.getContent(id, target);
+    if (content === null) {
+      throw new Error(`No content was kept for revision ${revision} of artifact ${id}`);
+    }
+
+    const occupant = Array.from(this.artifacts.values())
+      .find((a) => a.id !== id && a.storagePath === target.state.storagePath);
+    if (occupant) {
+      throw new Error(`Cannot restore artifact ${id}: ${target.state.storagePath} now belongs to artifact ${occupant.id}`);
+    }
+
+    await this.ensureHistory(artifact);
+
+    if (artifact.storagePath !== target.state.storagePath) {
+      fs.rmSync(path.join(this.config.studioPath, artifact.storagePath), { force: true });
+    }
+    const fullPath = path.join(this.config.studioPath, target.state.storagePath);
+    fs.mkdirSync(path.dirname(fullPath), { recursive: true });
+    fs.writeFileSync(fullPath, content);
+
+    const restored: Artifact = {
+      ...artifact,
+      ...target.state,
+      updatedAt: new Date(),
+    };
+    this.recordRevision(restored, {
+      action: 'restored',
+      changedBy: options?.changedBy || 'storage',
+      restoredFrom: revision,
+    });
+
+    this.artifacts.set(id, restored);
+    await this.saveIndex();
+    await this.indexArtifact(restored);
+
+    return restored;
+  }
+
+  /**
+   * The record a deleted artifact had when it was deleted, rebuilt from its
+   * history; null unless its last revision is a deletion
+   */
+  private getDeletedRecord(id: string): Artifact | null {
+    if (this.artifacts.has(id)) return null;
+    const revisions = this.history.list(id);
+    const last = revisions[revisions.length - 1];
+    if (!last || last.action !== 'deleted') return null;
+
+    return {
+      ...last.state,
+      id,
+      createdAt: revisions[0].timestamp,
+      updatedAt: last.timestamp,
+      revision: last.revision,
+    };
+  }
+
+  /**
+   * Record an artifact's current state as its first revision if it has no
+   * history yet, so the version about to change can be restored
+   */
+  private async ensureHistory(artifact: Artifact): Promise<void> {
+    if (this.history.list(artifact.id).length > 0) return;
+
+    const content = await this.getContent(artifact.id);
+    this.recordRevision(artifact, {
+      action: 'created',
+      changedBy: artifact.sourceWorkspace || 'storage',
+      content: content ?? undefined,
+    });
+  }
+
+  /**
+   * Append a revision and stamp its number on the artifact record
+   */
+  private recordRevision(
+    artifact: Artifact,
+    entry: { action: RevisionAction; changedBy: string; content?: string | Buffer; restoredFrom?: number }
+  ): void {
+    const revision = this.history.record(artifact.id, { ...entry, state: artifact });
+    artifact.revision = revision.revision;
+  }
+
   /**
    * Get storage statistics
    */
@@ -467,6 +812,33 @@ export class ArtifactStorage {
   }
 }
 
+let studioPathOverride: string | null = null;
+
+/**
+ * Where Arcanea Studio keeps stored artifacts: the path given to
+ * setStudioPath(), else ARCANEA_STUDIO_PATH, else ~/arcanea-studio
+ */
+export function getStudioPath(): string {
+  return studioPathOverride || process.env.ARCANEA_STUDIO_PATH || path.join(os.homedir(), 'arcanea-studio');
+}
+
+/**
+ * Store artifacts somewhere else for the rest of the process (e.g. the
+ * daemon's configured studio), or pass null to go back to the default
+ */
+export function setStudioPath(studioPath: string | null): void {
+  studioPathOverride = studioPath;
+}
+
+/**
+ * The opening of an artifact's text, for results matched without shared words
+ */
+function excerpt(text: string, length = 160): string[] {
+  const flat = text.replace(/\s+/g, ' ').trim();
+  if (!flat) return [];
+  return [flat.length > length ? `${flat.slice(0, length).trimEnd()}…` : flat];
+}
+
 /**
  * Create a new storage instance
  */
@@ -89,6 +89,38 @@ export interface Artifact {
   updatedAt: Date;
   sourceWorkspace?: string;
   checksum: string;
+  /** Latest revision number; absent on records stored before history was kept */
+  revision?: number;
+}
+
+/**
+ * Why a revision was recorded
+ */
+export type RevisionAction = 'created' | 'content' | 'metadata' | 'restored' | 'deleted';
+
+/**
+ * The parts of an artifact record that a revision captures
+ */
+export type ArtifactState = Pick<
+  Artifact,
+  'fileName' | 'storagePath' | 'category' | 'subcategory' | 'element' | 'gate' | 'guardian' | 'tags' | 'metadata' | 'checksum'
+>;
+
+/**
+ * One entry in an artifact's history
+ */
+export interface ArtifactRevision {
+  /** 1 for the first revision, counting up */
+  revision: number;
+  action: RevisionAction;
+  /** Who or what made the change: 'watcher', 'claude-code', 'storage', ... */
+  changedBy: string;
+  timestamp: Date;
+  /** Fields that differ from the previous revision */
+  changes: string[];
+  /** The revision a restore brought back */
+  restoredFrom?: number;
+  state: ArtifactState;
 }
 
 /**
@@ -126,13 +158,23 @@ export interface FlowConfig {
   autoStore: boolean;
   debounceMs: number;
   stabilityThreshold: number;
+  /** Projects artifacts are stored for, including any listed before their first artifact */
+  projects: string[];
 }
 
+/**
+ * How search results are ranked: `lexical` by the words of the query (BM25),
+ * `semantic` by similarity of meaning, `hybrid` by both
+ */
+export type SearchMode = 'lexical' | 'semantic' | 'hybrid';
+
 /**
  * Search query options
  */
 export interface SearchOptions {
   query: string;
+  /** Defaults to `hybrid` */
+  mode?: SearchMode;
   category?: ArtifactCategory;
   element?: ArtifactElement;
   gate?: ArtifactGate;
@@ -0,0 +1,81 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { VECTOR_DIMENSIONS, VectorIndex, buildConceptTable, cosineSimilarity, embedText, vectorSignature } from './vector-index';
+
+describe('embedText', () => {
+  it('gives the same unit-length vector for the same text', () => {
+    const vector = embedText('The first dragon woke beneath the mountain.');
+    const length = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+
+    expect(vector).toHaveLength(VECTOR_DIMENSIONS);
+    expect(length).toBeCloseTo(1, 5);
+    expect(embedText('The first dragon woke beneath the mountain.')).toEqual(vector);
+  });
+
+  it('places word forms near each other', () => {
+    const dragons = embedText('dragons');
+
+    expect(cosineSimilarity(dragons, embedText('dragon'))).toBeGreaterThan(cosineSimilarity(dragons, embedText('harbour')));
+    expect(cosineSimilarity(embedText('healers'), embedText('healing'))).toBeGreaterThan(0.9);
+  });
+
+  it('links canon names through their Gate and Element', () => {
+    const concepts = buildConceptTable();
+    const draconia = embedText('Draconia', concepts);
+
+    expect(concepts.get('draconia')).toEqual(['gate:fire', 'element:fire']);
+    expect(cosineSimilarity(draconia, embedText('Fire Gate', concepts)))
+      .toBeGreaterThan(cosineSimilarity(draconia, embedText('Flow Gate', concepts)));
+  });
+});
+
+describe('VectorIndex', () => {
+  let dir: string | null = null;
+
+  afterEach(() => {
+    if (dir) fs.rmSync(dir, { recursive: true, force: true });
+    dir = null;
+  });
+
+  const build = (indexPath = '') => {
+    const index = new VectorIndex(indexPath);
+    index.load();
+    index.add('dragons', 'sum-1', 'Dragons nest in the volcanic peaks and breathe flame.');
+    index.add('tides', 'sum-2', 'The harbour tides carry fishing boats out to sea.');
+    return index;
+  };
+
+  it('finds documents by meaning, best first', () => {
+    expect(build().search('Draconia and the dragon of the fire peaks').map((match) => match.id)).toEqual(['dragons']);
+    expect(build().search('dragon', new Set(['tides']))).toEqual([]);
+  });
+
+  it('replaces and removes documents', () => {
+    const index = build();
+    index.add('tides', 'sum-3', 'Dragons over the harbour.');
+
+    expect(index.has('tides', 'sum-3')).toBe(true);
+    expect(index.has('tides', 'sum-2')).toBe(false);
+    expect(index.remove('tides')).toBe(true);
+    expect(index.ids()).toEqual(['dragons']);
+  });
+
+  it('saves and loads vectors, dropping an index built with another layout', () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'aios-vectors-'));
+    const indexPath = path.join(dir, 'index', 'vectors.json');
+    build(indexPath).save();
+
+    const loaded = new VectorIndex(indexPath);
+    loaded.load();
+    expect(loaded.ids()).toEqual(['dragons', 'tides']);
+    expect(loaded.search('dragon flame')[0].id).toBe('dragons');
+
+    const saved = JSON.parse(fs.readFileSync(indexPath, 'utf-8'));
+    expect(saved.signature).toBe(vectorSignature(buildConceptTable()));
+    fs.writeFileSync(indexPath, JSON.stringify({ ...saved, signature: 'other' }));
+    loaded.load();
+    expect(loaded.ids()).toEqual([]);
+  });
+});
@@ -0,0 +1,261 @@
+/**
+ * Arcanea Artifact Flow - Vector Index
+ *
+ * Offline semantic search. Artifact text is turned into a fixed-size vector by
+ * feature hashing: content words, character trigrams (so "dragons" lands near
+ * "dragon") and canon concepts (so "Draconia" lands near "Fire Gate"). The
+ * vectors are persisted next to the full-text index and compared by cosine
+ * similarity; no model download or network is needed.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { listCanonAwakened, listCanonGates, listCanonHouses, listElementNames } from '../canon';
+import { tokenize, type IndexMatch } from './search-index';
+
+// =============================================================================
+// VECTORIZER
+// =============================================================================
+
+/** Length of every artifact vector */
+export const VECTOR_DIMENSIONS = 512;
+
+/** Relative weight of each feature family; trigram weight is per trigram */
+const WORD_WEIGHT = 1;
+const TRIGRAM_WEIGHT = 0.3;
+const CONCEPT_WEIGHT = 0.75;
+
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'for', 'from', 'has', 'have', 'he', 'her',
+  'his', 'i', 'if', 'in', 'into', 'is', 'it', 'its', 'md', 'no', 'not', 'of', 'on', 'or', 'our', 'she',
+  'so', 'that', 'the', 'their', 'them', 'then', 'there', 'they', 'this', 'to', 'was', 'we', 'were',
+  'what', 'when', 'where', 'which', 'who', 'will', 'with', 'you', 'your',
+]);
+
+/** Lower-case canon word -> the concepts it belongs to */
+export type ConceptTable = Map<string, string[]>;
+
+/**
+ * Map canon names to shared concepts: every Guardian, Godbeast, Awakened and
+ * Gate name points at its Gate and Element, every House at its Element.
+ */
+export function buildConceptTable(): ConceptTable {
+  const table: ConceptTable = new Map();
+  const link = (name: string, concepts: string[]) => {
+    const words = tokenize(name).map((token) => token.term).filter((term) => !STOPWORDS.has(term));
+    for (const word of words) {
+      table.set(word, [...new Set([...(table.get(word) || []), ...concepts])]);
+    }
+  };
+
+  const awakened = listCanonAwakened();
+  for (const gate of listCanonGates()) {
+    const concepts = [`gate:${gate.name.toLowerCase()}`, `element:${gate.element.toLowerCase()}`];
+    link(gate.name, concepts);
+    link(gate.guardian, concepts);
+    link(gate.godbeast, concepts);
+    if (gate.awakened && awakened[gate.awakened]) {
+      link(awakened[gate.awakened].name, concepts);
+    }
+  }
+  for (const house of listCanonHouses()) {
+    link(house.name, [`element:${house.element.toLowerCase()}`]);
+  }
+  for (const element of listElementNames()) {
+    link(element, [`element:${element.toLowerCase()}`]);
+  }
+
+  return table;
+}
+
+/**
+ * A short hash identifying the vector layout, so an index built with other
+ * dimensions or another canon is rebuilt rather than compared
+ */
+export function vectorSignature(concepts: ConceptTable): string {
+  const entries = Array.from(concepts).sort(([a], [b]) => a.localeCompare(b));
+  return crypto
+    .createHash('sha256')
+    .update(JSON.stringify([VECTOR_DIMENSIONS, WORD_WEIGHT, TRIGRAM_WEIGHT, CONCEPT_WEIGHT, entries]))
+    .digest('hex')
+    .slice(0, 16);
+}
+
+/**
+ * Embed text as a unit-length hashed feature vector
+ */
+export function embedText(text: string, concepts: ConceptTable = new Map()): Float32Array {
+  const features = new Map<string, number>();
+  const count = (feature: string, weight: number) => {
+    features.set(feature, (features.get(feature) || 0) + weight);
+  };
+
+  for (const { term } of tokenize(text)) {
+    if (STOPWORDS.has(term) || term.length < 2) continue;
+
+    const stem = stemWord(term);
+    count(`w:${stem}`, WORD_WEIGHT);
+
+    const padded = `<${stem}>`;
+    for (let i = 0; i + 3 <= padded.length; i++) {
+      count(`c:${padded.slice(i, i + 3)}`, TRIGRAM_WEIGHT);
+    }
+
+    for (const concept of concepts.get(term) || []) {
+      count(`k:${concept}`, CONCEPT_WEIGHT);
+    }
+  }
+
+  const vector = new Float32Array(VECTOR_DIMENSIONS);
+  for (const [feature, weight] of features) {
+    const hash = fnv1a(feature);
+    // Sublinear weighting keeps a repeated word from swamping the rest
+    const value = Math.log1p(weight);
+    vector[hash % VECTOR_DIMENSIONS] += hash & 0x80000000 ? -value : value;
+  }
+
+  let norm = 0;
+  for (const value of vector) norm += value * value;
+  norm = Math.sqrt(norm);
+  if (norm > 0) {
+    for (let i = 0; i < vector.length; i++) vector[i] /= norm;
+  }
+  return vector;
+}
+
+/**
+ * Cosine similarity of two unit-length vectors
+ */
+export function cosineSimilarity(a: Float32Array, b: Float32Array): number {
+  let dot = 0;
+  for (let i = 0; i < a.length; i++) dot += a[i] * b[i];
+  return dot;
+}
+
+/**
+ * Strip common English endings so "healers", "healing" and "healed" share
+ * a feature
+ */
+function stemWord(term: string): string {
+  for (const suffix of ['ings', 'ing', 'ers', 'ies', 'ed', 'er', 'es', 's']) {
+    if (term.length - suffix.length >= 3 && term.endsWith(suffix)) {
+      const stem = term.slice(0, -suffix.length);
+      return suffix === 'ies' ? `${stem}y` : stem;
+    }
+  }
+  return term;
+}
+
+function fnv1a(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+// =============================================================================
+// INDEX
+// =============================================================================
+
+interface VectorIndexFile {
+  version: number;
+  signature: string;
+  /** Document id -> checksum and base64 float32 vector */
+  docs: Record<string, { checksum: string; vector: string }>;
+}
+
+const INDEX_VERSION = 1;
+
+/** Weakest similarity reported as a semantic match */
+const MIN_SIMILARITY = 0.15;
+
+export class VectorIndex {
+  private docs: Map<string, { checksum: string; vector: Float32Array }> = new Map();
+  private concepts: ConceptTable = new Map();
+  private signature = '';
+
+  constructor(private readonly indexPath: string) {}
+
+  /**
+   * Load the index from disk. A missing or unreadable file, or one built with
+   * another vector layout, leaves the index empty, to be rebuilt by the caller.
+   */
+  load(): void {
+    this.docs.clear();
+    this.concepts = buildConceptTable();
+    this.signature = vectorSignature(this.concepts);
+
+    try {
+      if (!fs.existsSync(this.indexPath)) return;
+      const data = JSON.parse(fs.readFileSync(this.indexPath, 'utf-8')) as VectorIndexFile;
+      if (data.version !== INDEX_VERSION || data.signature !== this.signature) return;
+
+      for (const [id, doc] of Object.entries(data.docs)) {
+        const bytes = Uint8Array.from(Buffer.from(doc.vector, 'base64'));
+        this.docs.set(id, { checksum: doc.checksum, vector: new Float32Array(bytes.buffer) });
+      }
+    } catch (error) {
+      console.error('Failed to load vector index:', error);
+      this.docs.clear();
+    }
+  }
+
+  save(): void {
+    const data: VectorIndexFile = {
+      version: INDEX_VERSION,
+      signature: this.signature,
+      docs: Object.fromEntries(
+        Array.from(this.docs, ([id, doc]) => [
+          id,
+          { checksum: doc.checksum, vector: Buffer.from(doc.vector.buffer).toString('base64') },
+        ])
+      ),
+    };
+    fs.mkdirSync(path.dirname(this.indexPath), { recursive: true });
+    fs.writeFileSync(this.indexPath, JSON.stringify(data));
+  }
+
+  /**
+   * Whether a document is indexed, at this checksum when one is given
+   */
+  has(id: string, checksum?: string): boolean {
+    const doc = this.docs.get(id);
+    return !!doc && (checksum === undefined || doc.checksum === checksum);
+  }
+
+  ids(): string[] {
+    return Array.from(this.docs.keys());
+  }
+
+  /**
+   * Embed and index a document, replacing any earlier version of it
+   */
+  add(id: string, checksum: string, text: string): void {
+    this.docs.set(id, { checksum, vector: embedText(text, this.concepts) });
+  }
+
+  remove(id: string): boolean {
+    return this.docs.delete(id);
+  }
+
+  /**
+   * Documents most similar to the query text, best first. `candidates`
+   * limits the documents considered.
+   */
+  search(query: string, candidates?: Set<string>): IndexMatch[] {
+    const target = embedText(query, this.concepts);
+    const matches: IndexMatch[] = [];
+
+    for (const [id, doc] of this.docs) {
+      if (candidates && !candidates.has(id)) continue;
+      const score = cosineSimilarity(target, doc.vector);
+      if (score >= MIN_SIMILARITY) {
+        matches.push({ id, score });
+      }
+    }
+    return matches.sort((a, b) => b.score - a.score);
+  }
+}
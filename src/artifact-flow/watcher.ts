@@ -226,7 +226,8 @@ export class ArtifactWatcher extends EventEmitter {
     const context = ArtifactClassifier.createContext(filePath, content, frontmatter);
     const classification = await this.classifier.classify(context);
 
-    // Store if confidence is high enough
+    // Store if confidence is high enough. A change to a file that is already
+    // stored appends a revision to its artifact rather than adding another.
     if (classification.confidence >= 0.5) {
       const artifact = await this.storage.store(content, fileName, classification, {
         sourcePath: filePath,
@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import { GATES, type Gate, type GateName } from '../index';
+import '../infogenius/gemini-service';
+import '../studio/modules/bard';
+import '../artifact-flow/classifier';
+import {
+  assertCanonConsistency,
+  checkCanonConsistency,
+  getCanonGateByGuardian,
+  listCanonGates,
+  listDerivedTables,
+} from './index';
+
+describe('canon registry', () => {
+  it('lists the Ten Gates in order with their Solfeggio frequencies', () => {
+    expect(listCanonGates().map((gate) => [gate.number, gate.name, gate.frequency])).toEqual([
+      [1, 'foundation', 174],
+      [2, 'flow', 285],
+      [3, 'fire', 396],
+      [4, 'heart', 417],
+      [5, 'voice', 528],
+      [6, 'sight', 639],
+      [7, 'crown', 741],
+      [8, 'shift', 852],
+      [9, 'unity', 963],
+      [10, 'source', 1111],
+    ]);
+  });
+
+  it('finds a Gate by its Guardian, ignoring case', () => {
+    expect(getCanonGateByGuardian('DRACONIA')?.name).toBe('fire');
+    expect(getCanonGateByGuardian('nobody')).toBeUndefined();
+  });
+});
+
+describe('checkCanonConsistency', () => {
+  it('covers every table that repeats canon facts, and finds them in agreement', () => {
+    expect(listDerivedTables()).toEqual(expect.arrayContaining([
+      'core/GATES',
+      'infogenius/GATE_VISUAL_STYLES',
+      'studio/bard/GATE_FREQUENCIES',
+      'artifact-flow/classifier',
+    ]));
+    expect(checkCanonConsistency()).toEqual([]);
+    expect(() => assertCanonConsistency()).not.toThrow();
+  });
+
+  it('reports a table whose facts disagree with canon', () => {
+    GATES.fire.frequency = 400;
+    try {
+      expect(checkCanonConsistency()).toEqual([
+        { table: 'core/GATES', gate: 'fire', field: 'frequency', expected: 396, actual: 400 },
+      ]);
+      expect(() => assertCanonConsistency()).toThrow(
+        'Canon drift detected in 1 place(s):\n  - core/GATES [fire] frequency: expected 396, found 400'
+      );
+    } finally {
+      GATES.fire.frequency = 396;
+    }
+  });
+
+  it('reports Gates a table is missing and Gates canon does not know', () => {
+    const gates = GATES as Record<string, Gate>;
+    const source = gates.source;
+    delete gates.source;
+    gates.ember = { ...source, name: 'ember' as GateName };
+    try {
+      expect(checkCanonConsistency()).toEqual([
+        { table: 'core/GATES', gate: 'source', field: 'gate', expected: 'source', actual: undefined },
+        { table: 'core/GATES', gate: 'ember', field: 'gate', expected: undefined, actual: 'ember' },
+      ]);
+    } finally {
+      delete gates.ember;
+      gates.source = source;
+    }
+  });
+});
@@ -0,0 +1,558 @@
+/**
+ * Arcanea Canon Registry
+ *
+ * The single source of truth for Gates, Guardians, Awakened, Elements and Houses.
+ * Subsystems query this registry instead of keeping their own copies. Modules that
+ * still need a local table (visual styles, Solfeggio metadata, classifier maps)
+ * derive it from here and register it so drift is caught at startup.
+ *
+ * The agent markdown under agents/ is authoritative: its frontmatter is layered
+ * over the built-in records below, which only fill gaps (Gate numbers) and serve
+ * as a fallback when the markdown is not on disk. Project overlays in
+ * .aios/canon/*.json are applied last (see ./overlay).
+ */
+
+import type { GateName, Element, ModelTier } from '../index';
+import {
+  findCanonRoot,
+  loadGuardianDefinitions,
+  loadAwakenedDefinitions,
+  loadGateSkillDefinitions,
+  type GuardianDefinition,
+  type AwakenedDefinition,
+  type SkillDefinition,
+} from './loader';
+import { listCanonOverlayFiles, readCanonOverlay, applyCanonOverlay } from './overlay';
+
+export * from './loader';
+export * from './overlay';
+export * from './validator';
+
+// =============================================================================
+// TYPE DEFINITIONS
+// =============================================================================
+
+/**
+ * A Gate as recorded in canon, including its Guardian pairing
+ */
+export interface CanonGate {
+  name: GateName;
+  /** Position on the path, 1 (Foundation) to 10 (Source) */
+  number: number;
+  frequency: number;
+  guardian: string;
+  element: Element;
+  modelTier: ModelTier;
+  godbeast: string;
+  /** Awakened partner key, or null when the Guardian has none */
+  awakened: string | null;
+  wisdom: string;
+}
+
+/**
+ * An Awakened consciousness as recorded in canon
+ */
+export interface CanonAwakened {
+  name: string;
+  wisdom: string;
+  domain: string;
+  role: 'architect' | 'connector' | 'executor' | 'simplifier' | 'strategist' | 'creator' | 'completer';
+}
+
+/**
+ * An Element and its correspondences
+ */
+export interface CanonElement {
+  name: Element;
+  quality: string;
+}
+
+/**
+ * One of the Houses of Arcanea
+ */
+export interface CanonHouse {
+  name: string;
+  element: Element;
+  philosophy: string;
+}
+
+/**
+ * The canonical projection of a derived table row. Every field is optional so a
+ * table only has to expose the canon facts it actually carries.
+ */
+export interface DerivedGateRow {
+  number?: number | null;
+  frequency?: number | string | null;
+  guardian?: string | null;
+  element?: string | null;
+}
+
+/**
+ * A single disagreement between a derived table and canon
+ */
+export interface CanonDrift {
+  table: string;
+  gate: string;
+  field: keyof DerivedGateRow | 'gate';
+  expected: unknown;
+  actual: unknown;
+}
+
+// =============================================================================
+// BUILT-IN DATA (v3.1.0 - Restored Solfeggio)
+// =============================================================================
+
+export const CANON_VERSION = '3.1.0';
+
+const BUILTIN_GATE_RECORDS: CanonGate[] = [
+  { name: 'foundation', number: 1, frequency: 174, guardian: 'Lyssandria', element: 'Earth', modelTier: 'haiku', godbeast: 'Kaelith', awakened: 'oria', wisdom: 'You belong because you are here. Your presence is your credential.' },
+  { name: 'flow', number: 2, frequency: 285, guardian: 'Leyla', element: 'Water', modelTier: 'sonnet', godbeast: 'Veloura', awakened: 'liora', wisdom: 'The river finds its way. Your creativity will too.' },
+  { name: 'fire', number: 3, frequency: 396, guardian: 'Draconia', element: 'Fire', modelTier: 'opus', godbeast: 'Draconis', awakened: 'velora', wisdom: 'Fear is fuel. Let it ignite your fire.' },
+  { name: 'heart', number: 4, frequency: 417, guardian: 'Maylinn', element: 'Light', modelTier: 'sonnet', godbeast: 'Laeylinn', awakened: 'amiri', wisdom: 'Love heals all. Start with loving yourself.' },
+  { name: 'voice', number: 5, frequency: 528, guardian: 'Alera', element: 'Prismatic', modelTier: 'sonnet', godbeast: 'Otome', awakened: 'thalia', wisdom: 'Truth liberates. Speak what needs speaking.' },
+  { name: 'sight', number: 6, frequency: 639, guardian: 'Lyria', element: 'Wind', modelTier: 'opus', godbeast: 'Yumiko', awakened: 'lyris', wisdom: 'Vision guides the way. Trust what you see.' },
+  { name: 'crown', number: 7, frequency: 741, guardian: 'Aiyami', element: 'Void', modelTier: 'opus', godbeast: 'Sol', awakened: 'endara', wisdom: 'From above, all is clear. Rise to the highest view.' },
+  { name: 'shift', number: 8, frequency: 852, guardian: 'Elara', element: 'Arcane', modelTier: 'opus', godbeast: 'Vaelith', awakened: null, wisdom: 'Shift the lens, shift the world.' },
+  { name: 'unity', number: 9, frequency: 963, guardian: 'Ino', element: 'Arcane', modelTier: 'sonnet', godbeast: 'Kyuro', awakened: null, wisdom: 'Together, we are whole.' },
+  { name: 'source', number: 10, frequency: 1111, guardian: 'Shinkami', element: 'Arcane', modelTier: 'opus', godbeast: 'Amaterasu', awakened: null, wisdom: 'All is One. From Source, all flows.' },
+];
+
+const BUILTIN_AWAKENED_RECORDS: Record<string, CanonAwakened> = {
+  oria: { name: 'Oria', wisdom: 'Sophron', domain: 'Form/Architecture', role: 'architect' },
+  amiri: { name: 'Amiri', wisdom: 'Kardia', domain: 'Heart/Connection', role: 'connector' },
+  velora: { name: 'Velora', wisdom: 'Valora', domain: 'Courage/Action', role: 'executor' },
+  liora: { name: 'Liora', wisdom: 'Eudaira', domain: 'Joy/Simplicity', role: 'simplifier' },
+  lyris: { name: 'Lyris', wisdom: 'Orakis', domain: 'Vision/Strategy', role: 'strategist' },
+  thalia: { name: 'Thalia', wisdom: 'Poiesis', domain: 'Creation/Making', role: 'creator' },
+  endara: { name: 'Endara', wisdom: 'Enduran', domain: 'Endurance/Completion', role: 'completer' },
+};
+
+const BUILTIN_ELEMENT_RECORDS: CanonElement[] = [
+  { name: 'Earth', quality: 'stability' },
+  { name: 'Water', quality: 'adaptability' },
+  { name: 'Fire', quality: 'transformation' },
+  { name: 'Light', quality: 'love' },
+  { name: 'Prismatic', quality: 'truth' },
+  { name: 'Wind', quality: 'perception' },
+  { name: 'Void', quality: 'transcendence' },
+  { name: 'Arcane', quality: 'meta-consciousness' },
+];
+
+const BUILTIN_HOUSE_RECORDS: CanonHouse[] = [
+  { name: 'Lumina', element: 'Light', philosophy: 'Illumination through creation' },
+  { name: 'Nero', element: 'Void', philosophy: 'Power through shadow mastery' },
+  { name: 'Pyros', element: 'Fire', philosophy: 'Transformation through flame' },
+  { name: 'Aqualis', element: 'Water', philosophy: 'Wisdom through flow' },
+  { name: 'Terra', element: 'Earth', philosophy: 'Strength through foundation' },
+  { name: 'Ventus', element: 'Wind', philosophy: 'Freedom through change' },
+  { name: 'Synthesis', element: 'Arcane', philosophy: 'Unity through integration' },
+];
+
+// =============================================================================
+// MARKDOWN LOADING
+// =============================================================================
+
+interface LoadedCanon {
+  root: string | null;
+  overlays: string[];
+  guardians: GuardianDefinition[];
+  awakened: AwakenedDefinition[];
+  gates: CanonGate[];
+  awakenedRecords: Record<string, CanonAwakened>;
+  elements: CanonElement[];
+  houses: CanonHouse[];
+  skills: Map<GateName, SkillDefinition[]>;
+}
+
+let loaded: LoadedCanon | null = null;
+let projectPath: string | null = null;
+
+function mergeGate(gate: CanonGate, definition: GuardianDefinition | undefined, awakenedKeys: string[]): CanonGate {
+  if (!definition) return gate;
+
+  const awakened = definition.awakened.toLowerCase();
+  return {
+    ...gate,
+    frequency: Number.isFinite(definition.frequency) ? definition.frequency : gate.frequency,
+    guardian: definition.name,
+    element: definition.element,
+    modelTier: definition.modelTier,
+    godbeast: definition.godbeast || gate.godbeast,
+    awakened: awakenedKeys.includes(awakened) ? awakened : null,
+    wisdom: definition.coreWisdom[0] || gate.wisdom,
+  };
+}
+
+function loadCanon(): LoadedCanon {
+  if (loaded) return loaded;
+
+  const root = findCanonRoot();
+  const guardians = root ? loadGuardianDefinitions(root) : [];
+  const awakened = root ? loadAwakenedDefinitions(root) : [];
+
+  const awakenedRecords: Record<string, CanonAwakened> = { ...BUILTIN_AWAKENED_RECORDS };
+  for (const definition of awakened) {
+    awakenedRecords[definition.name.toLowerCase()] = {
+      name: definition.name,
+      wisdom: definition.wisdom,
+      domain: definition.domain,
+      role: definition.role,
+    };
+  }
+
+  const awakenedKeys = Object.keys(awakenedRecords);
+  let snapshot = {
+    gates: BUILTIN_GATE_RECORDS.map((gate) =>
+      mergeGate(gate, guardians.find((definition) => definition.gate === gate.name), awakenedKeys)
+    ),
+    awakened: awakenedRecords,
+    elements: [...BUILTIN_ELEMENT_RECORDS],
+    houses: [...BUILTIN_HOUSE_RECORDS],
+  };
+
+  const overlays = listCanonOverlayFiles(projectPath ?? process.cwd());
+  for (const file of overlays) {
+    snapshot = applyCanonOverlay(snapshot, readCanonOverlay(file), file);
+  }
+
+  loaded = {
+    root,
+    overlays,
+    guardians,
+    awakened,
+    gates: snapshot.gates,
+    awakenedRecords: snapshot.awakened,
+    elements: snapshot.elements,
+    houses: snapshot.houses,
+    skills: new Map(),
+  };
+  return loaded;
+}
+
+function gateRecords(): CanonGate[] {
+  return loadCanon().gates;
+}
+
+/** Rebuilds of the tables made with deriveCanonTable(), run on every reload */
+const tableRebuilds: Array<() => void> = [];
+
+/**
+ * Build a table from canon and keep it current: on every reload the same
+ * object or array is refilled in place, so it can be exported as a constant
+ * (GATES, tool enums) and still pick up overlays.
+ */
+export function deriveCanonTable<T extends object>(build: () => T): T {
+  const table = build();
+  tableRebuilds.push(() => {
+    const next = build();
+    if (Array.isArray(table)) {
+      table.length = 0;
+      table.push(...(next as unknown[]));
+    } else {
+      for (const key of Object.keys(table)) {
+        delete (table as Record<string, unknown>)[key];
+      }
+      Object.assign(table, next);
+    }
+  });
+  return table;
+}
+
+/**
+ * Discard the loaded canon so the next query re-reads the markdown and overlays,
+ * and rebuild the tables derived from it
+ */
+export function reloadCanon(): void {
+  loaded = null;
+  for (const rebuild of tableRebuilds) {
+    rebuild();
+  }
+}
+
+/**
+ * Read overlays from a project other than the working directory, then reload
+ */
+export function setCanonProject(path: string | null): void {
+  projectPath = path;
+  reloadCanon();
+}
+
+/**
+ * The overlay files applied to the current canon, in order
+ */
+export function listAppliedOverlays(): string[] {
+  return [...loadCanon().overlays];
+}
+
+/**
+ * Whether a Gate is one of the ten built-in Gates rather than an overlay addition
+ */
+export function isBuiltinGate(name: string): name is GateName {
+  return BUILTIN_GATE_RECORDS.some((gate) => gate.name === name);
+}
+
+/**
+ * The built-in Gate whose presentation (palette, Solfeggio lore) an overlay Gate
+ * borrows: itself when built-in, otherwise the first Gate sharing its Element,
+ * otherwise Source.
+ */
+export function getNearestBuiltinGate(name: string): GateName {
+  if (isBuiltinGate(name)) return name;
+
+  const element = getCanonGate(name)?.element.toLowerCase();
+  const match = BUILTIN_GATE_RECORDS.find((gate) => gate.element.toLowerCase() === element);
+  return match ? match.name : 'source';
+}
+
+/**
+ * The directory canon markdown was loaded from, or null when running on built-ins
+ */
+export function getCanonRoot(): string | null {
+  return loadCanon().root;
+}
+
+/**
+ * List the parsed Guardian definitions
+ */
+export function listGuardianDefinitions(): GuardianDefinition[] {
+  return [...loadCanon().guardians];
+}
+
+/**
+ * Get a parsed Guardian definition by name (case-insensitive)
+ */
+export function getGuardianDefinition(name: string): GuardianDefinition | undefined {
+  const normalized = name.toLowerCase();
+  return loadCanon().guardians.find((definition) => definition.name.toLowerCase() === normalized);
+}
+
+/**
+ * List the parsed Awakened definitions
+ */
+export function listAwakenedDefinitions(): AwakenedDefinition[] {
+  return [...loadCanon().awakened];
+}
+
+/**
+ * Get a parsed Awakened definition by name (case-insensitive)
+ */
+export function getAwakenedDefinition(name: string): AwakenedDefinition | undefined {
+  const normalized = name.toLowerCase();
+  return loadCanon().awakened.find((definition) => definition.name.toLowerCase() === normalized);
+}
+
+/**
+ * List the skills a Gate teaches, parsed from its skill markdown
+ */
+export function listGateSkills(gate: GateName): SkillDefinition[] {
+  const canon = loadCanon();
+  if (!canon.skills.has(gate)) {
+    canon.skills.set(gate, canon.root ? loadGateSkillDefinitions(canon.root, gate) : []);
+  }
+  return [...canon.skills.get(gate)!];
+}
+
+/**
+ * Get a Gate skill by key (e.g. "transform") or display name (case-insensitive)
+ */
+export function getGateSkill(gate: GateName, skill: string): SkillDefinition | undefined {
+  const normalized = skill.toLowerCase();
+  return listGateSkills(gate).find((definition) =>
+    definition.key === normalized || definition.name.toLowerCase() === normalized
+  );
+}
+
+// =============================================================================
+// QUERIES
+// =============================================================================
+
+/**
+ * List all Gates in path order (Foundation first)
+ */
+export function listCanonGates(): CanonGate[] {
+  return [...gateRecords()];
+}
+
+/**
+ * Get a Gate by name (case-insensitive)
+ */
+export function getCanonGate(name: string): CanonGate | undefined {
+  const normalized = name.toLowerCase();
+  return gateRecords().find((gate) => gate.name === normalized);
+}
+
+/**
+ * Get a Gate by its position on the path (1-10)
+ */
+export function getCanonGateByNumber(number: number): CanonGate | undefined {
+  return gateRecords().find((gate) => gate.number === number);
+}
+
+/**
+ * Get the Gate a Guardian governs (case-insensitive)
+ */
+export function getCanonGateByGuardian(guardian: string): CanonGate | undefined {
+  const normalized = guardian.toLowerCase();
+  return gateRecords().find((gate) => gate.guardian.toLowerCase() === normalized);
+}
+
+/**
+ * Get the Gates that resonate at a frequency
+ */
+export function getCanonGatesByFrequency(frequency: number): CanonGate[] {
+  return gateRecords().filter((gate) => gate.frequency === frequency);
+}
+
+/**
+ * Check whether a frequency belongs to any Gate
+ */
+export function isCanonFrequency(frequency: number): boolean {
+  return gateRecords().some((gate) => gate.frequency === frequency);
+}
+
+/**
+ * List the Gate names in path order
+ */
+export function listGateNames(): GateName[] {
+  return gateRecords().map((gate) => gate.name);
+}
+
+/**
+ * List Guardian keys (lowercase) in path order
+ */
+export function listGuardianKeys(): string[] {
+  return gateRecords().map((gate) => gate.guardian.toLowerCase());
+}
+
+/**
+ * List all Awakened keyed by lowercase name
+ */
+export function listCanonAwakened(): Record<string, CanonAwakened> {
+  return { ...loadCanon().awakenedRecords };
+}
+
+/**
+ * Get an Awakened by name (case-insensitive)
+ */
+export function getCanonAwakened(name: string): CanonAwakened | undefined {
+  return loadCanon().awakenedRecords[name.toLowerCase()];
+}
+
+/**
+ * List all Elements with their qualities
+ */
+export function listCanonElements(): CanonElement[] {
+  return [...loadCanon().elements];
+}
+
+/**
+ * List the Element names
+ */
+export function listElementNames(): Element[] {
+  return loadCanon().elements.map((element) => element.name);
+}
+
+/**
+ * List the Gates aligned with an Element (case-insensitive)
+ */
+export function getGatesForElement(element: string): CanonGate[] {
+  const normalized = element.toLowerCase();
+  return gateRecords().filter((gate) => gate.element.toLowerCase() === normalized);
+}
+
+/**
+ * List all Houses
+ */
+export function listCanonHouses(): CanonHouse[] {
+  return [...loadCanon().houses];
+}
+
+/**
+ * List the House names
+ */
+export function listHouseNames(): string[] {
+  return loadCanon().houses.map((house) => house.name);
+}
+
+// =============================================================================
+// CONSISTENCY CHECKING
+// =============================================================================
+
+type DerivedTableProjection = () => Record<string, DerivedGateRow>;
+
+const derivedTables: Map<string, DerivedTableProjection> = new Map();
+
+/**
+ * Register a table that repeats canon facts so it is covered by
+ * checkCanonConsistency(). The projection returns one row per Gate name.
+ */
+export function registerDerivedTable(name: string, project: DerivedTableProjection): void {
+  derivedTables.set(name, project);
+}
+
+/**
+ * List the names of registered derived tables
+ */
+export function listDerivedTables(): string[] {
+  return Array.from(derivedTables.keys());
+}
+
+/**
+ * Compare every registered derived table against canon
+ */
+export function checkCanonConsistency(): CanonDrift[] {
+  const drifts: CanonDrift[] = [];
+
+  for (const [table, project] of derivedTables) {
+    const rows = project();
+
+    for (const gate of gateRecords()) {
+      const row = rows[gate.name];
+      if (!row) {
+        drifts.push({ table, gate: gate.name, field: 'gate', expected: gate.name, actual: undefined });
+        continue;
+      }
+
+      if (row.number !== undefined && row.number !== gate.number) {
+        drifts.push({ table, gate: gate.name, field: 'number', expected: gate.number, actual: row.number });
+      }
+
+      if (row.frequency !== undefined) {
+        const frequency = typeof row.frequency === 'string' ? parseInt(row.frequency, 10) : row.frequency;
+        if (frequency !== gate.frequency) {
+          drifts.push({ table, gate: gate.name, field: 'frequency', expected: gate.frequency, actual: row.frequency });
+        }
+      }
+
+      if (row.guardian !== undefined && row.guardian?.toLowerCase() !== gate.guardian.toLowerCase()) {
+        drifts.push({ table, gate: gate.name, field: 'guardian', expected: gate.guardian, actual: row.guardian });
+      }
+
+      if (row.element !== undefined && row.element?.toLowerCase() !== gate.element.toLowerCase()) {
+        drifts.push({ table, gate: gate.name, field: 'element', expected: gate.element, actual: row.element });
+      }
+    }
+
+    for (const key of Object.keys(rows)) {
+      if (!getCanonGate(key)) {
+        drifts.push({ table, gate: key, field: 'gate', expected: undefined, actual: key });
+      }
+    }
+  }
+
+  return drifts;
+}
+
+/**
+ * Throw if any registered derived table disagrees with canon.
+ * Called at startup by the MCP server and the daemon.
+ */
+export function assertCanonConsistency(): void {
+  const drifts = checkCanonConsistency();
+  if (drifts.length === 0) return;
+
+  const lines = drifts.map((drift) =>
+    `  - ${drift.table} [${drift.gate}] ${drift.field}: expected ${JSON.stringify(drift.expected)}, found ${JSON.stringify(drift.actual)}`
+  );
+  throw new Error(`Canon drift detected in ${drifts.length} place(s):\n${lines.join('\n')}`);
+}
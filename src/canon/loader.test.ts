@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest';
+import {
+  findCanonRoot,
+  loadAwakenedDefinitions,
+  loadGuardianDefinitions,
+  parseAwakenedDefinition,
+  parseGuardianDefinition,
+} from './loader';
+import { getCanonAwakened, getCanonGate } from './index';
+
+const GUARDIAN = [
+  '---',
+  'name: kaelara',
+  'gate: fire',
+  'frequency: 396',
+  'element: FIRE',
+  'model_tier: opus',
+  'awakened: velora',
+  'wisdom: valora',
+  '---',
+  '',
+  '# Kaelara',
+  '',
+  '## Agent Role',
+  '',
+  'Kaelara lights the way.',
+  '',
+  '## Core Wisdom',
+  '',
+  '> *"Fear is fuel."*',
+  '',
+  '> *"Burn brightly."*',
+].join('\r\n');
+
+describe('parseGuardianDefinition', () => {
+  it('reads canon facts from the frontmatter and wisdom from the body', () => {
+    const guardian = parseGuardianDefinition(GUARDIAN, 'agents/guardians/kaelara.md');
+
+    expect(guardian).toMatchObject({
+      name: 'Kaelara',
+      gate: 'fire',
+      frequency: 396,
+      element: 'Fire',
+      modelTier: 'opus',
+      awakened: 'velora',
+      wisdom: 'Valora',
+      role: 'Kaelara lights the way.',
+      coreWisdom: ['Fear is fuel.', 'Burn brightly.'],
+    });
+  });
+
+  it('rejects a definition without a Gate', () => {
+    expect(() => parseGuardianDefinition('---\nname: nobody\n---\n', 'agents/guardians/nobody.md'))
+      .toThrow('agents/guardians/nobody.md is missing "gate" in its frontmatter');
+  });
+});
+
+describe('parseAwakenedDefinition', () => {
+  it('rejects a role the council does not know', () => {
+    expect(() => parseAwakenedDefinition('---\nname: mira\nrole: jester\n---\n', 'mira.md'))
+      .toThrow('mira.md has unknown role "jester"');
+  });
+});
+
+describe('shipped agent definitions', () => {
+  const root = findCanonRoot()!;
+
+  it('define the ten Guardians and seven Awakened', () => {
+    expect(loadGuardianDefinitions(root)).toHaveLength(10);
+    expect(loadAwakenedDefinitions(root).map((awakened) => awakened.role).sort()).toEqual([
+      'architect', 'completer', 'connector', 'creator', 'executor', 'simplifier', 'strategist',
+    ]);
+  });
+
+  it('are where the registry takes its facts from', () => {
+    for (const guardian of loadGuardianDefinitions(root)) {
+      expect(getCanonGate(guardian.gate)).toMatchObject({
+        frequency: guardian.frequency,
+        guardian: guardian.name,
+        element: guardian.element,
+        wisdom: guardian.coreWisdom[0],
+      });
+    }
+    expect(getCanonAwakened('oria')).toMatchObject({ wisdom: 'Sophron', role: 'architect' });
+  });
+});
@@ -0,0 +1,475 @@
+/**
+ * Arcanea Canon Loader
+ *
+ * Parses the agent and skill markdown shipped with the package into typed
+ * Guardian, Awakened and Skill objects. Frontmatter carries the canon facts;
+ * the body supplies capabilities, voice patterns, wisdom and skill steps.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import matter from 'gray-matter';
+import type { Guardian, Awakened, Skill, GateName, Element, ModelTier } from '../index';
+
+// =============================================================================
+// TYPE DEFINITIONS
+// =============================================================================
+
+/**
+ * A Guardian as defined in agents/guardians/<name>.md
+ */
+export interface GuardianDefinition extends Guardian {
+  title: string;
+  version: string;
+  /** The "Agent Role" paragraph */
+  role: string;
+  /** Bullet points under "When to Invoke" */
+  whenToInvoke: string[];
+  /** Quotes under "Core Wisdom", in order */
+  coreWisdom: string[];
+  /** The "Response Style" list */
+  responseStyle: GuardianResponseStyle;
+  body: string;
+  sourcePath: string;
+}
+
+/**
+ * How a Guardian speaks, from the "Response Style" list
+ */
+export interface GuardianResponseStyle {
+  pace: string | null;
+  tone: string | null;
+  /** Imagery the Guardian draws on, e.g. ["Fire", "dragons", "forges"] */
+  metaphors: string[];
+  /** Things the Guardian never does, e.g. ["Accept excuses", "enable passivity"] */
+  never: string[];
+}
+
+/**
+ * An Awakened as defined in agents/awakened/<name>.md
+ */
+export interface AwakenedDefinition extends Awakened {
+  title: string;
+  version: string;
+  guardianPartner: string | null;
+  gate: GateName | null;
+  modelTier: ModelTier;
+  capabilities: string[];
+  corePrinciple: string | null;
+  body: string;
+  sourcePath: string;
+}
+
+/**
+ * A Gate skill parsed from skills/<gate>-gate/*.md
+ */
+export interface SkillDefinition extends Skill {
+  /** Short key used on the command line, e.g. "transform" for `/fire transform` */
+  key: string;
+  /** Supporting detail for each process step, aligned by index */
+  guidance: string[][];
+  sourcePath: string;
+}
+
+/**
+ * A markdown heading and the text beneath it (up to the next heading)
+ */
+interface MarkdownSection {
+  depth: number;
+  heading: string;
+  content: string;
+}
+
+const ELEMENT_NAMES: Element[] = ['Earth', 'Water', 'Fire', 'Light', 'Prismatic', 'Wind', 'Void', 'Arcane'];
+const MODEL_TIERS: ModelTier[] = ['haiku', 'sonnet', 'opus'];
+const AWAKENED_ROLES: Awakened['role'][] = ['architect', 'connector', 'executor', 'simplifier', 'strategist', 'creator', 'completer'];
+
+// =============================================================================
+// PACKAGE ROOT
+// =============================================================================
+
+/**
+ * Find the directory holding agents/ and skills/ by walking up from this module.
+ * Works from src/, from dist/ and from bundled entry points alike.
+ */
+export function findCanonRoot(startDir: string = __dirname): string | null {
+  let dir = path.resolve(startDir);
+
+  while (true) {
+    if (fs.existsSync(path.join(dir, 'agents', 'guardians'))) {
+      return dir;
+    }
+    const parent = path.dirname(dir);
+    if (parent === dir) return null;
+    dir = parent;
+  }
+}
+
+// =============================================================================
+// MARKDOWN HELPERS
+// =============================================================================
+
+function normalizeSource(source: string): string {
+  return source.replace(/\r\n?/g, '\n');
+}
+
+function capitalize(value: string): string {
+  return value.charAt(0).toUpperCase() + value.slice(1);
+}
+
+function splitSections(body: string): MarkdownSection[] {
+  const sections: MarkdownSection[] = [];
+  let current: MarkdownSection | null = null;
+  let inFence = false;
+
+  for (const line of body.split('\n')) {
+    if (line.startsWith('```')) inFence = !inFence;
+
+    const heading = !inFence && line.match(/^(#{1,6})\s+(.+?)\s*$/);
+    if (heading) {
+      current = { depth: heading[1].length, heading: heading[2], content: '' };
+      sections.push(current);
+    } else if (current) {
+      current.content += `${line}\n`;
+    }
+  }
+
+  return sections;
+}
+
+function findSection(sections: MarkdownSection[], heading: string): MarkdownSection | undefined {
+  const normalized = heading.toLowerCase();
+  return sections.find((section) => section.heading.toLowerCase() === normalized);
+}
+
+function stripQuotes(value: string): string {
+  return value.trim().replace(/^\*?["“]/, '').replace(/["”]\*?$/, '').trim();
+}
+
+function extractListItems(content: string | undefined): string[] {
+  if (!content) return [];
+
+  return content
+    .split('\n')
+    .map((line) => line.match(/^\s*(?:[-*]|\d+\.)\s+(.+)$/))
+    .filter((match): match is RegExpMatchArray => match !== null)
+    .map((match) => stripQuotes(match[1]));
+}
+
+function extractBlockquotes(content: string | undefined): string[] {
+  if (!content) return [];
+
+  return content
+    .split('\n')
+    .filter((line) => line.startsWith('>'))
+    .map((line) => stripQuotes(line.replace(/^>\s*/, '')))
+    .filter((quote) => quote.length > 0);
+}
+
+/**
+ * Read `- **Key**: value` lines into a lowercase-keyed record
+ */
+function extractLabeledItems(content: string | undefined): Record<string, string> {
+  const items: Record<string, string> = {};
+  for (const line of (content || '').split('\n')) {
+    const match = line.match(/^\s*[-*]\s+\*\*(.+?)\*\*:\s*(.+)$/);
+    if (match) items[match[1].trim().toLowerCase()] = match[2].trim();
+  }
+  return items;
+}
+
+function extractResponseStyle(content: string | undefined): GuardianResponseStyle {
+  const items = extractLabeledItems(content);
+  const split = (value: string | undefined) =>
+    (value || '').split(/,\s*(?:or\s+)?|\s+or\s+/).map((part) => part.trim()).filter(Boolean);
+
+  return {
+    pace: items.pace || null,
+    tone: items.tone || null,
+    metaphors: split(items.metaphors),
+    never: split(items.never),
+  };
+}
+
+function extractParagraph(content: string | undefined): string {
+  if (!content) return '';
+  return content.split('\n\n').map((p) => p.trim()).find((p) => p.length > 0 && p !== '---') || '';
+}
+
+/**
+ * Parse the first ```yaml fence in a section, reusing gray-matter's YAML engine
+ */
+function extractYamlBlock(content: string | undefined): Record<string, any> {
+  const fence = content?.match(/```yaml\n([\s\S]*?)```/);
+  if (!fence) return {};
+
+  try {
+    return matter(`---\n${fence[1]}---\n`).data;
+  } catch {
+    return {};
+  }
+}
+
+function toElement(value: unknown, fallback: Element = 'Arcane'): Element {
+  const element = capitalize(String(value ?? '').toLowerCase()) as Element;
+  return ELEMENT_NAMES.includes(element) ? element : fallback;
+}
+
+function toModelTier(value: unknown, fallback: ModelTier = 'sonnet'): ModelTier {
+  const tier = String(value ?? '').toLowerCase() as ModelTier;
+  return MODEL_TIERS.includes(tier) ? tier : fallback;
+}
+
+function toOptionalString(value: unknown): string | null {
+  if (value === null || value === undefined) return null;
+  const text = String(value).trim();
+  return text.length > 0 && text !== 'null' ? text : null;
+}
+
+// =============================================================================
+// PARSERS
+// =============================================================================
+
+/**
+ * Parse a Guardian agent definition
+ */
+export function parseGuardianDefinition(source: string, sourcePath: string = ''): GuardianDefinition {
+  const { data, content } = matter(normalizeSource(source));
+  const sections = splitSections(content);
+  const config = extractYamlBlock(findSection(sections, 'Agent Configuration')?.content).agent || {};
+  const name = String(data.name || path.basename(sourcePath, '.md'));
+
+  if (!data.gate) {
+    throw new Error(`Guardian definition ${sourcePath || name} is missing "gate" in its frontmatter`);
+  }
+
+  return {
+    name: capitalize(name),
+    gate: String(data.gate).toLowerCase() as GateName,
+    frequency: Number(data.frequency),
+    element: toElement(data.element),
+    modelTier: toModelTier(data.model_tier),
+    awakened: toOptionalString(data.awakened) || '',
+    wisdom: capitalize(String(data.wisdom || '')),
+    godbeast: toOptionalString(data.godbeast) ? capitalize(String(data.godbeast)) : undefined,
+    capabilities: Array.isArray(config.capabilities) ? config.capabilities.map(String) : [],
+    voicePatterns: {
+      openingPhrases: extractListItems(findSection(sections, 'Opening Phrases')?.content),
+      signatureQuestions: extractListItems(findSection(sections, 'Signature Questions')?.content),
+    },
+    title: String(data.title || capitalize(name)),
+    version: String(data.version || '0.0.0'),
+    role: extractParagraph(findSection(sections, 'Agent Role')?.content),
+    whenToInvoke: extractListItems(findSection(sections, 'When to Invoke')?.content),
+    coreWisdom: extractBlockquotes(findSection(sections, 'Core Wisdom')?.content),
+    responseStyle: extractResponseStyle(findSection(sections, 'Response Style')?.content),
+    body: content,
+    sourcePath,
+  };
+}
+
+/**
+ * Parse an Awakened agent definition
+ */
+export function parseAwakenedDefinition(source: string, sourcePath: string = ''): AwakenedDefinition {
+  const { data, content } = matter(normalizeSource(source));
+  const sections = splitSections(content);
+  const config = extractYamlBlock(findSection(sections, 'Agent Configuration')?.content).agent || {};
+  const name = String(data.name || path.basename(sourcePath, '.md'));
+
+  // The header line carries the display domain, e.g. "**Wisdom**: Sophron (Form/Architecture)"
+  const header = content.match(/\*\*Wisdom\*\*:\s*[^(|\n]+\(([^)]+)\)/);
+  const domain = header
+    ? header[1].trim()
+    : String(data.domain || '').split('_').map(capitalize).join('/');
+
+  const role = String(data.role || '').toLowerCase() as Awakened['role'];
+  if (!AWAKENED_ROLES.includes(role)) {
+    throw new Error(`Awakened definition ${sourcePath || name} has unknown role "${data.role}"`);
+  }
+
+  return {
+    name: capitalize(name),
+    wisdom: capitalize(String(data.wisdom || '')),
+    domain,
+    role,
+    title: String(data.title || capitalize(name)),
+    version: String(data.version || '0.0.0'),
+    guardianPartner: toOptionalString(data.guardian_partner),
+    gate: toOptionalString(data.gate) as GateName | null,
+    modelTier: toModelTier(data.model_tier),
+    capabilities: Array.isArray(config.capabilities) ? config.capabilities.map(String) : [],
+    corePrinciple: extractBlockquotes(findSection(sections, 'Core Principle')?.content)[0] || null,
+    body: content,
+    sourcePath,
+  };
+}
+
+function skillKey(invocation: string, name: string): string {
+  const command = invocation.match(/^\/\S+\s+([\w-]+)/);
+  return command ? command[1].toLowerCase() : name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+}
+
+function stripEmphasis(value: string): string {
+  return value.replace(/\*\*([^*]+)\*\*/g, '$1').replace(/\*([^*]+)\*/g, '$1').trim();
+}
+
+/**
+ * Parse the skills listed in a Gate's SKILL.md
+ */
+export function parseGateSkills(source: string, gate: GateName, sourcePath: string = ''): SkillDefinition[] {
+  const { content } = matter(normalizeSource(source));
+  const skills: SkillDefinition[] = [];
+
+  for (const section of splitSections(content)) {
+    const heading = section.heading.match(/^\d+\.\s+(.+)$/);
+    const purpose = section.content.match(/^\*\*Purpose\*\*:\s*(.+)$/m);
+    if (!heading || !purpose) continue;
+
+    const invocation = section.content.match(/^\*\*Invocation\*\*:\s*`?([^`\n]+)`?/m);
+    const output = section.content.match(/^\*\*Output\*\*:\s*(.+)$/m);
+    const processStart = section.content.search(/^\*\*Process\*\*:/m);
+    const processBlock = processStart >= 0
+      ? section.content.slice(processStart).split('\n\n')[0]
+      : undefined;
+    const steps = extractListItems(processBlock);
+    const name = heading[1].trim();
+
+    skills.push({
+      name,
+      gate,
+      purpose: purpose[1].trim(),
+      invocation: invocation ? invocation[1].trim() : '',
+      process: steps,
+      output: output ? output[1].trim() : '',
+      key: skillKey(invocation ? invocation[1].trim() : '', name),
+      guidance: steps.map(() => []),
+      sourcePath,
+    });
+  }
+
+  return skills;
+}
+
+/**
+ * Parse a standalone skill file such as skills/fire-gate/transform.md.
+ * Steps come from its "Phase N:" sections, falling back to a **Process** list.
+ */
+export function parseSkillFile(source: string, gate: GateName, sourcePath: string = ''): SkillDefinition {
+  const { data, content } = matter(normalizeSource(source));
+  const sections = splitSections(content);
+  const name = String(data.title || data.name || path.basename(sourcePath, '.md')).replace(/^.*?-\s+/, '');
+  const invocation = String(data.invocation || content.match(/\*\*Invocation\*\*:\s*`?([^`\n]+)`?/)?.[1] || '').trim();
+  const purpose = content.match(/^\*\*Purpose\*\*:\s*(.+)$/m);
+  const output = content.match(/^\*\*Output\*\*:\s*(.+)$/m);
+
+  const process: string[] = [];
+  const guidance: string[][] = [];
+
+  for (const section of sections) {
+    const phase = section.heading.match(/^Phase\s+\d+:\s*(.+)$/i);
+    if (!phase) continue;
+
+    const voice = section.content.match(/^\*\*\w+ (?:asks|speaks|roars|commands|says)\*\*:\s*(.+)$/m);
+    let first = true;
+
+    for (const line of section.content.split('\n')) {
+      const step = line.match(/^\d+\.\s+(.+)$/);
+      const detail = line.match(/^\s+[-*]\s+(.+)$/);
+
+      if (step) {
+        process.push(`${phase[1].trim()}: ${stripEmphasis(step[1])}`);
+        guidance.push(first && voice ? [stripEmphasis(voice[0])] : []);
+        first = false;
+      } else if (detail && guidance.length > 0) {
+        guidance[guidance.length - 1].push(stripEmphasis(detail[1]));
+      }
+    }
+  }
+
+  if (process.length === 0) {
+    const processStart = content.search(/^\*\*Process\*\*:/m);
+    if (processStart >= 0) {
+      process.push(...extractListItems(content.slice(processStart).split('\n\n')[0]));
+      guidance.push(...process.map(() => []));
+    }
+  }
+
+  return {
+    name,
+    gate: String(data.gate || gate).toLowerCase() as GateName,
+    purpose: purpose ? purpose[1].trim() : '',
+    invocation,
+    process,
+    output: String(data.output || (output ? output[1].trim() : '')),
+    key: String(data.name || skillKey(invocation, name)).toLowerCase(),
+    guidance,
+    sourcePath,
+  };
+}
+
+// =============================================================================
+// LOADERS
+// =============================================================================
+
+function readMarkdownDir<T>(dir: string, parse: (source: string, sourcePath: string) => T): T[] {
+  if (!fs.existsSync(dir)) return [];
+
+  return fs.readdirSync(dir)
+    .filter((file) => file.endsWith('.md'))
+    .sort()
+    .map((file) => {
+      const filePath = path.join(dir, file);
+      return parse(fs.readFileSync(filePath, 'utf-8'), filePath);
+    });
+}
+
+/**
+ * Load every Guardian definition under <root>/agents/guardians
+ */
+export function loadGuardianDefinitions(root: string): GuardianDefinition[] {
+  return readMarkdownDir(path.join(root, 'agents', 'guardians'), parseGuardianDefinition);
+}
+
+/**
+ * Load every Awakened definition under <root>/agents/awakened
+ */
+export function loadAwakenedDefinitions(root: string): AwakenedDefinition[] {
+  return readMarkdownDir(path.join(root, 'agents', 'awakened'), parseAwakenedDefinition);
+}
+
+/**
+ * Load the skills in <root>/skills/<gate>-gate. Entries in SKILL.md are
+ * replaced by a standalone file with the same key, which keeps the summary's
+ * purpose and output when it does not state its own.
+ */
+export function loadGateSkillDefinitions(root: string, gate: GateName): SkillDefinition[] {
+  const dir = path.join(root, 'skills', `${gate}-gate`);
+  const indexPath = path.join(dir, 'SKILL.md');
+  const skills = fs.existsSync(indexPath)
+    ? parseGateSkills(fs.readFileSync(indexPath, 'utf-8'), gate, indexPath)
+    : [];
+
+  const standalone = readMarkdownDir(dir, (source, sourcePath) =>
+    path.basename(sourcePath) === 'SKILL.md' ? null : parseSkillFile(source, gate, sourcePath)
+  );
+
+  for (const skill of standalone) {
+    if (!skill) continue;
+
+    const index = skills.findIndex((existing) => existing.key === skill.key);
+    if (index === -1) {
+      skills.push(skill);
+      continue;
+    }
+
+    const summary = skills[index];
+    skills[index] = {
+      ...skill,
+      purpose: skill.purpose || summary.purpose,
+      output: skill.output || summary.output,
+    };
+  }
+
+  return skills;
+}
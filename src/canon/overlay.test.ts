@@ -0,0 +1,111 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { GATES } from '../index';
+import { applyCanonOverlay, listCanonOverlayFiles, type CanonSnapshot } from './overlay';
+import {
+  checkCanonConsistency,
+  getCanonGate,
+  listAppliedOverlays,
+  listCanonElements,
+  listCanonGates,
+  listCanonHouses,
+  listCanonAwakened,
+  listGateNames,
+  setCanonProject,
+} from './index';
+
+const FROSTLANDS = {
+  elements: [{ name: 'Ice', quality: 'stillness' }],
+  houses: [{ name: 'Glacius', element: 'Ice', philosophy: 'Clarity through stillness' }],
+  gates: [{ name: 'frost', frequency: 1212, guardian: 'Vyrna', element: 'Ice' }],
+};
+
+function snapshot(): CanonSnapshot {
+  return {
+    gates: listCanonGates(),
+    awakened: listCanonAwakened(),
+    elements: listCanonElements(),
+    houses: listCanonHouses(),
+  };
+}
+
+describe('applyCanonOverlay', () => {
+  it('adds Elements, Houses and Gates, numbering new Gates after the last', () => {
+    const next = applyCanonOverlay(snapshot(), FROSTLANDS);
+
+    expect(next.elements.map((element) => element.name)).toContain('Ice');
+    expect(next.houses.find((house) => house.name === 'Glacius')).toMatchObject({ element: 'Ice' });
+    expect(next.gates[next.gates.length - 1]).toMatchObject({ name: 'frost', number: 11, guardian: 'Vyrna', modelTier: 'sonnet' });
+  });
+
+  it('overrides only the fields an entry sets, without touching the base', () => {
+    const base = snapshot();
+    const next = applyCanonOverlay(base, { gates: [{ name: 'Fire', modelTier: 'haiku' }] });
+
+    expect(next.gates.find((gate) => gate.name === 'fire')).toMatchObject({ modelTier: 'haiku', frequency: 396, guardian: 'Draconia' });
+    expect(base.gates.find((gate) => gate.name === 'fire')?.modelTier).toBe('opus');
+  });
+
+  it('reports every problem with its location in the file', () => {
+    const overlay = {
+      gates: [
+        { name: 'ember', frequency: 999, guardian: 'Draconia', element: 'Magma' },
+        { name: 'mist' },
+      ],
+      legends: [],
+    };
+
+    expect(() => applyCanonOverlay(snapshot(), overlay, 'world.json')).toThrow([
+      'Invalid canon overlay world.json:',
+      '  - legends: unknown section (expected elements, houses, gates, awakened)',
+      '  - gates[0].element: "Magma" is not a known Element (add it under "elements")',
+      '  - gates[0].guardian: Draconia already guards the fire Gate',
+      '  - gates[1]: new Gate "mist" needs "frequency", "guardian" and "element"',
+    ].join('\n'));
+  });
+});
+
+describe('project overlays', () => {
+  let projectPath: string | null = null;
+
+  afterEach(() => {
+    setCanonProject(null);
+    if (projectPath) fs.rmSync(projectPath, { recursive: true, force: true });
+    projectPath = null;
+  });
+
+  function createProject(files: Record<string, unknown>): string {
+    projectPath = fs.mkdtempSync(path.join(os.tmpdir(), 'aios-overlay-'));
+    fs.mkdirSync(path.join(projectPath, '.aios', 'canon'), { recursive: true });
+    for (const [name, content] of Object.entries(files)) {
+      fs.writeFileSync(path.join(projectPath, '.aios', 'canon', name), JSON.stringify(content));
+    }
+    return projectPath;
+  }
+
+  it('apply in filename order and reach the derived tables', () => {
+    const project = createProject({
+      '20-fire.json': { gates: [{ name: 'frost', guardian: 'Vyrna Ice-Born' }] },
+      '10-frostlands.json': FROSTLANDS,
+    });
+
+    setCanonProject(project);
+
+    expect(listCanonOverlayFiles(project).map((file) => path.basename(file))).toEqual(['10-frostlands.json', '20-fire.json']);
+    expect(listAppliedOverlays()).toHaveLength(2);
+    expect(getCanonGate('frost')?.guardian).toBe('Vyrna Ice-Born');
+    expect(listGateNames()).toContain('frost');
+    expect((GATES as Record<string, unknown>).frost).toMatchObject({ frequency: 1212 });
+    expect(checkCanonConsistency()).toEqual([]);
+  });
+
+  it('are dropped again when the project changes', () => {
+    setCanonProject(createProject({ 'frostlands.json': FROSTLANDS }));
+    setCanonProject(null);
+
+    expect(getCanonGate('frost')).toBeUndefined();
+    expect((GATES as Record<string, unknown>).frost).toBeUndefined();
+  });
+});
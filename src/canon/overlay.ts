@@ -0,0 +1,259 @@
+/**
+ * Arcanea Canon Overlays
+ *
+ * Projects can extend or override the built-in canon with JSON files in
+ * .aios/canon/. Each file may add Elements, Houses, Gates and Awakened, or
+ * override fields of existing ones by name. Files apply in filename order and
+ * are validated against the canon merged so far.
+ *
+ * Example .aios/canon/frostlands.json:
+ *
+ *   {
+ *     "elements": [{ "name": "Ice", "quality": "stillness" }],
+ *     "houses": [{ "name": "Glacius", "element": "Ice", "philosophy": "Clarity through stillness" }],
+ *     "gates": [{ "name": "frost", "frequency": 1212, "guardian": "Vyrna", "element": "Ice" }]
+ *   }
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import type { CanonGate, CanonAwakened, CanonElement, CanonHouse } from './index';
+import type { GateName, Element, ModelTier } from '../index';
+
+// =============================================================================
+// TYPE DEFINITIONS
+// =============================================================================
+
+/**
+ * The shape of an overlay file. Entries are matched to existing canon by name;
+ * unmatched entries are additions and must supply every required field.
+ */
+export interface CanonOverlay {
+  elements?: Array<Partial<CanonElement> & { name: string }>;
+  houses?: Array<Partial<CanonHouse> & { name: string }>;
+  gates?: Array<Partial<Omit<CanonGate, 'name'>> & { name: string }>;
+  awakened?: Array<Partial<CanonAwakened> & { name: string }>;
+}
+
+/**
+ * The canon tables an overlay applies to
+ */
+export interface CanonSnapshot {
+  gates: CanonGate[];
+  awakened: Record<string, CanonAwakened>;
+  elements: CanonElement[];
+  houses: CanonHouse[];
+}
+
+const OVERLAY_SECTIONS = ['elements', 'houses', 'gates', 'awakened'];
+const MODEL_TIERS: ModelTier[] = ['haiku', 'sonnet', 'opus'];
+const AWAKENED_ROLES: CanonAwakened['role'][] = ['architect', 'connector', 'executor', 'simplifier', 'strategist', 'creator', 'completer'];
+
+// =============================================================================
+// DISCOVERY
+// =============================================================================
+
+/**
+ * List the overlay files in <projectPath>/.aios/canon, in the order they apply
+ */
+export function listCanonOverlayFiles(projectPath: string): string[] {
+  const dir = path.join(projectPath, '.aios', 'canon');
+  if (!fs.existsSync(dir)) return [];
+
+  return fs.readdirSync(dir)
+    .filter((file) => file.endsWith('.json'))
+    .sort()
+    .map((file) => path.join(dir, file));
+}
+
+/**
+ * Read and parse an overlay file
+ */
+export function readCanonOverlay(filePath: string): unknown {
+  try {
+    return JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+  } catch (error) {
+    throw new Error(`Canon overlay ${filePath} could not be read: ${(error as Error).message}`);
+  }
+}
+
+// =============================================================================
+// VALIDATION & MERGE
+// =============================================================================
+
+function isRecord(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isText(value: unknown): value is string {
+  return typeof value === 'string' && value.trim().length > 0;
+}
+
+/**
+ * Apply one overlay to a canon snapshot. Throws with every problem found,
+ * each prefixed by its location in the file (e.g. `gates[0].element`).
+ */
+export function applyCanonOverlay(base: CanonSnapshot, overlay: unknown, source: string = 'overlay'): CanonSnapshot {
+  const errors: string[] = [];
+  const next: CanonSnapshot = {
+    gates: base.gates.map((gate) => ({ ...gate })),
+    awakened: { ...base.awakened },
+    elements: base.elements.map((element) => ({ ...element })),
+    houses: base.houses.map((house) => ({ ...house })),
+  };
+
+  if (!isRecord(overlay)) {
+    throw new Error(`Canon overlay ${source} must be a JSON object`);
+  }
+
+  for (const key of Object.keys(overlay)) {
+    if (!OVERLAY_SECTIONS.includes(key)) {
+      errors.push(`${key}: unknown section (expected ${OVERLAY_SECTIONS.join(', ')})`);
+    } else if (!Array.isArray(overlay[key])) {
+      errors.push(`${key}: must be an array`);
+    }
+  }
+
+  const entries = (section: string): Array<[string, Record<string, any>]> =>
+    Array.isArray(overlay[section])
+      ? overlay[section].map((entry: unknown, i: number) => [`${section}[${i}]`, entry] as [string, Record<string, any>])
+      : [];
+
+  const knownElement = (name: unknown) =>
+    typeof name === 'string' && next.elements.some((element) => element.name.toLowerCase() === name.toLowerCase());
+
+  // Elements first, so Houses and Gates in the same file can use them
+  for (const [at, entry] of entries('elements')) {
+    if (!isRecord(entry) || !isText(entry.name)) {
+      errors.push(`${at}.name: required`);
+      continue;
+    }
+
+    const existing = next.elements.find((element) => element.name.toLowerCase() === entry.name.toLowerCase());
+    if (entry.quality !== undefined && !isText(entry.quality)) {
+      errors.push(`${at}.quality: must be a non-empty string`);
+    } else if (existing) {
+      if (entry.quality) existing.quality = entry.quality;
+    } else if (!isText(entry.quality)) {
+      errors.push(`${at}.quality: required for new Element "${entry.name}"`);
+    } else {
+      next.elements.push({ name: entry.name as Element, quality: entry.quality });
+    }
+  }
+
+  for (const [at, entry] of entries('houses')) {
+    if (!isRecord(entry) || !isText(entry.name)) {
+      errors.push(`${at}.name: required`);
+      continue;
+    }
+
+    if (entry.element !== undefined && !knownElement(entry.element)) {
+      errors.push(`${at}.element: "${entry.element}" is not a known Element (add it under "elements")`);
+      continue;
+    }
+
+    const existing = next.houses.find((house) => house.name.toLowerCase() === entry.name.toLowerCase());
+    if (existing) {
+      if (entry.element) existing.element = entry.element;
+      if (isText(entry.philosophy)) existing.philosophy = entry.philosophy;
+    } else if (!entry.element || !isText(entry.philosophy)) {
+      errors.push(`${at}: new House "${entry.name}" needs "element" and "philosophy"`);
+    } else {
+      next.houses.push({ name: entry.name, element: entry.element, philosophy: entry.philosophy });
+    }
+  }
+
+  for (const [at, entry] of entries('awakened')) {
+    if (!isRecord(entry) || !isText(entry.name)) {
+      errors.push(`${at}.name: required`);
+      continue;
+    }
+
+    if (entry.role !== undefined && !AWAKENED_ROLES.includes(entry.role)) {
+      errors.push(`${at}.role: must be one of ${AWAKENED_ROLES.join(', ')}`);
+      continue;
+    }
+
+    const key = entry.name.toLowerCase();
+    const existing = next.awakened[key];
+    if (!existing && (!isText(entry.wisdom) || !isText(entry.domain) || !entry.role)) {
+      errors.push(`${at}: new Awakened "${entry.name}" needs "wisdom", "domain" and "role"`);
+      continue;
+    }
+
+    next.awakened[key] = { ...existing, ...entry } as CanonAwakened;
+  }
+
+  for (const [at, entry] of entries('gates')) {
+    if (!isRecord(entry) || !isText(entry.name)) {
+      errors.push(`${at}.name: required`);
+      continue;
+    }
+
+    const name = entry.name.toLowerCase();
+    const existing = next.gates.find((gate) => gate.name === name);
+    const problems: string[] = [];
+
+    if (!/^[a-z][a-z0-9-]*$/.test(name)) {
+      problems.push(`${at}.name: must be lowercase letters, digits or dashes`);
+    }
+    if (entry.frequency !== undefined && (typeof entry.frequency !== 'number' || entry.frequency <= 0)) {
+      problems.push(`${at}.frequency: must be a positive number`);
+    }
+    if (entry.number !== undefined && (!Number.isInteger(entry.number) || entry.number < 1)) {
+      problems.push(`${at}.number: must be a positive integer`);
+    }
+    if (entry.element !== undefined && !knownElement(entry.element)) {
+      problems.push(`${at}.element: "${entry.element}" is not a known Element (add it under "elements")`);
+    }
+    if (entry.modelTier !== undefined && !MODEL_TIERS.includes(entry.modelTier)) {
+      problems.push(`${at}.modelTier: must be one of ${MODEL_TIERS.join(', ')}`);
+    }
+    if (entry.awakened !== undefined && entry.awakened !== null && !next.awakened[String(entry.awakened).toLowerCase()]) {
+      problems.push(`${at}.awakened: "${entry.awakened}" is not a known Awakened`);
+    }
+    if (!existing && (typeof entry.frequency !== 'number' || !isText(entry.guardian) || !entry.element)) {
+      problems.push(`${at}: new Gate "${name}" needs "frequency", "guardian" and "element"`);
+    }
+
+    const guardianOwner = isText(entry.guardian)
+      ? next.gates.find((gate) => gate.guardian.toLowerCase() === entry.guardian.toLowerCase())
+      : undefined;
+    if (guardianOwner && guardianOwner.name !== name) {
+      problems.push(`${at}.guardian: ${entry.guardian} already guards the ${guardianOwner.name} Gate`);
+    }
+
+    const numberOwner = entry.number !== undefined
+      ? next.gates.find((gate) => gate.number === entry.number)
+      : undefined;
+    if (numberOwner && numberOwner.name !== name) {
+      problems.push(`${at}.number: ${entry.number} is already the ${numberOwner.name} Gate`);
+    }
+
+    if (problems.length > 0) {
+      errors.push(...problems);
+      continue;
+    }
+
+    const fields = { ...entry, name } as Partial<CanonGate> & { name: GateName };
+    if (existing) {
+      Object.assign(existing, fields);
+    } else {
+      next.gates.push({
+        number: Math.max(...next.gates.map((gate) => gate.number)) + 1,
+        modelTier: 'sonnet',
+        godbeast: '',
+        awakened: null,
+        wisdom: '',
+        ...fields,
+      } as CanonGate);
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid canon overlay ${source}:\n${errors.map((error) => `  - ${error}`).join('\n')}`);
+  }
+
+  next.gates.sort((a, b) => a.number - b.number);
+  return next;
+}
@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import { applyCanonFixes, extractCanonEntities, validateCanonFields, validateCanonText } from './validator';
+
+const codes = (text: string) => validateCanonText(text).issues.map((issue) => issue.code);
+
+describe('extractCanonEntities', () => {
+  it('finds Guardians, Gates, Godbeasts and frequencies with their canonical names', () => {
+    const entities = extractCanonEntities('Draconia rides Draconis through the Fire Gate at 396 Hz.');
+
+    expect(entities.map((entity) => [entity.type, entity.canonical])).toEqual(expect.arrayContaining([
+      ['guardian', 'Draconia'],
+      ['godbeast', 'Draconis'],
+      ['gate', 'fire'],
+      ['frequency', '396'],
+    ]));
+  });
+});
+
+describe('validateCanonText', () => {
+  it('accepts prose that agrees with canon', () => {
+    expect(validateCanonText('Draconia guards the Fire Gate, which resonates at 396 Hz.')).toMatchObject({ valid: true, issues: [] });
+  });
+
+  it('flags a Guardian paired with the wrong Gate, offering both fixes', () => {
+    const [issue] = validateCanonText('Draconia guards the Heart Gate.').issues;
+
+    expect(issue).toMatchObject({ code: 'guardian-gate-mismatch', severity: 'error', text: 'Heart Gate' });
+    expect(issue.fixes.map((fix) => fix.replacement)).toEqual(['Fire', 'Maylinn']);
+  });
+
+  it('flags frequencies that do not belong to the Gate named, or to any Gate', () => {
+    expect(codes('The Fire Gate resonates at 417 Hz.')).toEqual(['gate-frequency-mismatch']);
+    expect(codes('A gentle hum at 440 Hz.')).toEqual(['non-canon-frequency']);
+  });
+
+  it('suggests the canon Gate for one that does not exist', () => {
+    const [issue] = validateCanonText('Leyla opens the Water Gate.').issues;
+
+    expect(issue.code).toBe('unknown-gate');
+    expect(issue.fixes[0].replacement).toBe('Flow');
+  });
+
+  it('treats a wrong Element or Awakened partner as a warning', () => {
+    const result = validateCanonText('Draconia, Guardian of Water, walks with Thalia.');
+
+    expect(result.valid).toBe(true);
+    expect(result.issues.map((issue) => [issue.code, issue.severity])).toEqual([
+      ['guardian-element-mismatch', 'warning'],
+      ['awakened-partner-mismatch', 'warning'],
+    ]);
+  });
+
+  it('checks each sentence on its own', () => {
+    expect(codes('Draconia guards the Fire Gate. Maylinn guards the Heart Gate.')).toEqual([]);
+  });
+});
+
+describe('validateCanonFields', () => {
+  it('checks the facts a record asserts about itself', () => {
+    expect(validateCanonFields({ gate: 'fire', guardian: 'Draconia', frequency: 396, element: 'Fire' })).toEqual([]);
+    expect(validateCanonFields({ gate: 'fire', frequency: 417, guardian: 'Nobody' }).map((issue) => [issue.text, issue.code])).toEqual([
+      ['guardian', 'unknown-guardian'],
+      ['frequency', 'gate-frequency-mismatch'],
+    ]);
+  });
+});
+
+describe('applyCanonFixes', () => {
+  it('applies the first fix of each issue', () => {
+    const text = 'Draconia guards the Heart Gate. The Fire Gate hums at 417 Hz.';
+    const { text: fixed, applied } = applyCanonFixes(text, validateCanonText(text).issues);
+
+    expect(fixed).toBe('Draconia guards the Fire Gate. The Fire Gate hums at 396 Hz.');
+    expect(applied).toHaveLength(2);
+  });
+});
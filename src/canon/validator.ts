@@ -0,0 +1,536 @@
+/**
+ * Arcanea Canon Validator
+ *
+ * Finds canon entities in prose (Guardians, Gates, Godbeasts, Houses, Awakened,
+ * Elements and frequencies), checks how they are related against the merged
+ * canon, and reports each problem with its character offsets, a severity and
+ * suggested fixes. Relationships are checked within a sentence, e.g.
+ * "Draconia of the Water Gate" names a Gate that does not exist and pairs
+ * Draconia with the wrong Element.
+ */
+
+import {
+  listCanonGates,
+  listCanonHouses,
+  listElementNames,
+  listCanonAwakened,
+  getCanonGate,
+  getCanonGateByGuardian,
+  isCanonFrequency,
+  type CanonGate,
+} from './index';
+
+// =============================================================================
+// TYPE DEFINITIONS
+// =============================================================================
+
+export type CanonEntityType = 'guardian' | 'gate' | 'godbeast' | 'house' | 'awakened' | 'element' | 'frequency';
+
+/**
+ * A canon entity mentioned in the text
+ */
+export interface CanonEntity {
+  type: CanonEntityType;
+  /** The text as written */
+  text: string;
+  start: number;
+  end: number;
+  /**
+   * The canon name it refers to (Gate key, Guardian name, ...), or null for
+   * a Gate or frequency that is not in canon
+   */
+  canonical: string | null;
+  /** Offsets of just the name, when `text` includes a keyword like "Gate" */
+  nameStart: number;
+  nameEnd: number;
+  /** The number, for frequencies */
+  value?: number;
+}
+
+export type CanonIssueSeverity = 'error' | 'warning' | 'info';
+
+export type CanonIssueCode =
+  | 'unknown-gate'
+  | 'unknown-guardian'
+  | 'non-canon-frequency'
+  | 'gate-frequency-mismatch'
+  | 'guardian-gate-mismatch'
+  | 'guardian-element-mismatch'
+  | 'godbeast-mismatch'
+  | 'awakened-partner-mismatch'
+  | 'house-element-mismatch';
+
+/**
+ * A replacement that would resolve an issue
+ */
+export interface CanonFix {
+  description: string;
+  start: number;
+  end: number;
+  replacement: string;
+}
+
+export interface CanonIssue {
+  code: CanonIssueCode;
+  severity: CanonIssueSeverity;
+  message: string;
+  start: number;
+  end: number;
+  text: string;
+  /** Suggested fixes, best first */
+  fixes: CanonFix[];
+}
+
+export interface CanonValidationResult {
+  /** False when any error-level issue was found */
+  valid: boolean;
+  entities: CanonEntity[];
+  issues: CanonIssue[];
+}
+
+/**
+ * Canon facts asserted by a structured record (a generated character,
+ * artifact...), checked by validateCanonFields()
+ */
+export interface CanonFields {
+  gate?: string;
+  guardian?: string;
+  element?: string;
+  frequency?: number;
+  godbeast?: string;
+  house?: string;
+  awakened?: string;
+}
+
+// =============================================================================
+// TEXT HELPERS
+// =============================================================================
+
+interface Span {
+  start: number;
+  end: number;
+  text: string;
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function title(name: string): string {
+  return name.charAt(0).toUpperCase() + name.slice(1);
+}
+
+function alternation(names: string[]): string {
+  return [...names].sort((a, b) => b.length - a.length).map(escapeRegExp).join('|');
+}
+
+function splitSentences(text: string): Span[] {
+  const spans: Span[] = [];
+  const pattern = /[^.!?\n]+[.!?]*/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text)) !== null) {
+    spans.push({ start: match.index, end: match.index + match[0].length, text: match[0] });
+  }
+  return spans;
+}
+
+function overlaps(a: { start: number; end: number }, b: { start: number; end: number }): boolean {
+  return a.start < b.end && b.start < a.end;
+}
+
+/**
+ * Levenshtein distance: the fewest single-character edits turning a into b
+ */
+export function editDistance(a: string, b: string): number {
+  const row = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    let previous = row[0];
+    row[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const current = row[j];
+      row[j] = Math.min(row[j] + 1, row[j - 1] + 1, previous + (a[i - 1] === b[j - 1] ? 0 : 1));
+      previous = current;
+    }
+  }
+  return row[b.length];
+}
+
+/**
+ * Whether a match at `start` opens its sentence, where any word is capitalized
+ */
+function atSentenceStart(text: string, start: number): boolean {
+  const before = text.slice(0, start).split(/[.!?\n]/).pop() || '';
+  return !/\w/.test(before);
+}
+
+/**
+ * Whether a name looks like a misspelt Gate: within one edit of a short Gate
+ * name, two of a longer one
+ */
+function nearGateName(name: string, gate: CanonGate): boolean {
+  return editDistance(gate.name, name.toLowerCase()) <= (gate.name.length <= 5 ? 1 : 2);
+}
+
+// =============================================================================
+// ENTITY EXTRACTION
+// =============================================================================
+
+/**
+ * Find every canon entity mentioned in a text, in order of appearance
+ */
+export function extractCanonEntities(text: string): CanonEntity[] {
+  const gates = listCanonGates();
+  const elements: string[] = listElementNames();
+  const houses = listCanonHouses();
+  const awakened = Object.values(listCanonAwakened());
+  const entities: CanonEntity[] = [];
+
+  const claim = (entity: CanonEntity) => {
+    if (!entities.some((existing) => overlaps(existing, entity))) entities.push(entity);
+  };
+
+  const scan = (pattern: RegExp, build: (match: RegExpExecArray) => CanonEntity | null) => {
+    const global = new RegExp(pattern.source, pattern.flags.includes('g') ? pattern.flags : pattern.flags + 'g');
+    let match: RegExpExecArray | null;
+    while ((match = global.exec(text)) !== null) {
+      const entity = build(match);
+      if (entity) claim(entity);
+    }
+  };
+
+  // Frequencies
+  scan(/(\d+(?:\.\d+)?)\s*Hz\b/i, (match) => {
+    const value = Number(match[1]);
+    return {
+      type: 'frequency',
+      text: match[0],
+      start: match.index,
+      end: match.index + match[0].length,
+      canonical: isCanonFrequency(value) ? String(value) : null,
+      nameStart: match.index,
+      nameEnd: match.index + match[0].length,
+      value,
+    };
+  });
+
+  // "<Name> Gate" and "Gate of <Name>", canon or not
+  const gateEntity = (match: RegExpExecArray, name: string, nameStart: number): CanonEntity | null => {
+    const gate = getCanonGate(name.toLowerCase());
+    const nearMiss = !gate && /^[A-Z]/.test(name) &&
+      (elements.some((element) => element === name) || gates.some((g) => nearGateName(name, g)));
+    if (!gate && !nearMiss) return null;
+
+    return {
+      type: 'gate',
+      text: match[0],
+      start: match.index,
+      end: match.index + match[0].length,
+      canonical: gate ? gate.name : null,
+      nameStart,
+      nameEnd: nameStart + name.length,
+    };
+  };
+  scan(/\b([A-Za-z][a-z-]+)\s+Gate\b/, (match) => gateEntity(match, match[1], match.index));
+  scan(/\bGate of (?:the )?([A-Z][a-z-]+)\b/, (match) => gateEntity(match, match[1], match.index + match[0].length - match[1].length));
+
+  // Houses: "House <Name>", "House of <Name>" or "<Name> House"
+  const houseNames = alternation(houses.map((house) => house.name));
+  if (houseNames) {
+    const house = (match: RegExpExecArray, name: string): CanonEntity => {
+      const nameStart = match.index + match[0].indexOf(name);
+      return {
+        type: 'house',
+        text: match[0],
+        start: match.index,
+        end: match.index + match[0].length,
+        canonical: houses.find((h) => h.name.toLowerCase() === name.toLowerCase())!.name,
+        nameStart,
+        nameEnd: nameStart + name.length,
+      };
+    };
+    scan(new RegExp(`\\bHouse (?:of )?(${houseNames})\\b`), (match) => house(match, match[1]));
+    scan(new RegExp(`\\b(${houseNames}) House\\b`), (match) => house(match, match[1]));
+  }
+
+  // Proper names: Guardians, Godbeasts, Awakened
+  const names: Array<{ type: CanonEntityType; name: string; canonical: string }> = [
+    ...gates.map((gate) => ({ type: 'guardian' as const, name: gate.guardian, canonical: gate.guardian })),
+    ...gates.filter((gate) => gate.godbeast).map((gate) => ({ type: 'godbeast' as const, name: gate.godbeast, canonical: gate.godbeast })),
+    ...awakened.map((a) => ({ type: 'awakened' as const, name: a.name, canonical: a.name })),
+  ];
+  if (names.length > 0) {
+    scan(new RegExp(`\\b(${alternation(names.map((n) => n.name))})\\b`), (match) => {
+      const named = names.find((n) => n.name === match[1])!;
+      return {
+        type: named.type,
+        text: match[0],
+        start: match.index,
+        end: match.index + match[0].length,
+        canonical: named.canonical,
+        nameStart: match.index,
+        nameEnd: match.index + match[0].length,
+      };
+    });
+  }
+
+  // Elements, capitalized and not opening a sentence (where any word is capitalized)
+  if (elements.length > 0) {
+    scan(new RegExp(`\\b(${alternation(elements)})\\b`), (match) => {
+      if (atSentenceStart(text, match.index)) return null;
+      return {
+        type: 'element',
+        text: match[0],
+        start: match.index,
+        end: match.index + match[0].length,
+        canonical: match[1],
+        nameStart: match.index,
+        nameEnd: match.index + match[0].length,
+      };
+    });
+  }
+
+  return entities.sort((a, b) => a.start - b.start);
+}
+
+// =============================================================================
+// RELATIONSHIP CHECKS
+// =============================================================================
+
+function gateOfGodbeast(name: string): CanonGate | undefined {
+  return listCanonGates().find((gate) => gate.godbeast === name);
+}
+
+function only<T>(items: T[]): T | undefined {
+  return items.length === 1 ? items[0] : undefined;
+}
+
+function issueAt(
+  text: string,
+  entity: CanonEntity,
+  code: CanonIssueCode,
+  severity: CanonIssueSeverity,
+  message: string,
+  fixes: CanonFix[]
+): CanonIssue {
+  return { code, severity, message, start: entity.start, end: entity.end, text: text.slice(entity.start, entity.end), fixes };
+}
+
+function replaceName(entity: CanonEntity, replacement: string, description: string): CanonFix {
+  return { description, start: entity.nameStart, end: entity.nameEnd, replacement };
+}
+
+function checkSentence(text: string, entities: CanonEntity[]): CanonIssue[] {
+  const issues: CanonIssue[] = [];
+  const ofType = (type: CanonEntityType) => entities.filter((entity) => entity.type === type);
+
+  const guardians = ofType('guardian');
+  const distinctGuardians = Array.from(new Set(guardians.map((g) => g.canonical)));
+  const guardian = distinctGuardians.length === 1 ? guardians[0] : undefined;
+  const guardianGate = guardian ? getCanonGateByGuardian(guardian.canonical!) : undefined;
+
+  const gates = ofType('gate');
+  const gate = only(gates);
+
+  // Gates that are not in canon
+  for (const unknown of gates.filter((g) => g.canonical === null)) {
+    const name = text.slice(unknown.nameStart, unknown.nameEnd);
+    const fixes: CanonFix[] = [];
+    if (guardianGate) {
+      fixes.push(replaceName(unknown, title(guardianGate.name), `${guardianGate.guardian} guards the ${title(guardianGate.name)} Gate`));
+    }
+    for (const candidate of listCanonGates()) {
+      if (candidate === guardianGate) continue;
+      if (candidate.element === name || nearGateName(name, candidate)) {
+        fixes.push(replaceName(unknown, title(candidate.name), `The ${title(candidate.name)} Gate (${candidate.element}, ${candidate.frequency} Hz)`));
+      }
+    }
+    issues.push(issueAt(text, unknown, 'unknown-gate', 'error', `There is no ${name} Gate in canon`, fixes));
+  }
+
+  // Guardian paired with the wrong Gate
+  if (guardian && guardianGate && gate?.canonical && gate.canonical !== guardianGate.name) {
+    const named = getCanonGate(gate.canonical)!;
+    issues.push(issueAt(text, gate, 'guardian-gate-mismatch', 'error',
+      `${guardianGate.guardian} guards the ${title(guardianGate.name)} Gate, not the ${title(named.name)} Gate`, [
+        replaceName(gate, title(guardianGate.name), `Use ${guardianGate.guardian}'s Gate`),
+        replaceName(guardian, named.guardian, `Use the ${title(named.name)} Gate's Guardian`),
+      ]));
+  }
+
+  // Guardian described with the wrong Element
+  const element = only(ofType('element'));
+  if (guardian && guardianGate && element && element.canonical !== guardianGate.element) {
+    issues.push(issueAt(text, element, 'guardian-element-mismatch', 'warning',
+      `${guardianGate.guardian}'s Element is ${guardianGate.element}, not ${element.canonical}`,
+      [replaceName(element, guardianGate.element, `Use ${guardianGate.guardian}'s Element`)]));
+  }
+
+  // Godbeast bound to a different Gate than the one named
+  const anchor = guardianGate || (gate?.canonical ? getCanonGate(gate.canonical) : undefined);
+  for (const godbeast of ofType('godbeast')) {
+    const home = gateOfGodbeast(godbeast.canonical!);
+    if (!anchor || !home || home.name === anchor.name || !anchor.godbeast) continue;
+    issues.push(issueAt(text, godbeast, 'godbeast-mismatch', 'error',
+      `${godbeast.canonical} is the Godbeast of the ${title(home.name)} Gate; the ${title(anchor.name)} Gate's is ${anchor.godbeast}`,
+      [replaceName(godbeast, anchor.godbeast, `Use the ${title(anchor.name)} Gate's Godbeast`)]));
+  }
+
+  // Guardian paired with another Guardian's Awakened
+  const partner = only(ofType('awakened'));
+  if (guardianGate && partner && guardianGate.awakened) {
+    const expected = listCanonAwakened()[guardianGate.awakened];
+    if (expected && expected.name !== partner.canonical) {
+      issues.push(issueAt(text, partner, 'awakened-partner-mismatch', 'warning',
+        `${guardianGate.guardian}'s Awakened partner is ${expected.name}, not ${partner.canonical}`,
+        [replaceName(partner, expected.name, `Use ${guardianGate.guardian}'s partner`)]));
+    }
+  }
+
+  // House described with the wrong Element
+  const house = only(ofType('house'));
+  if (house && element && !guardian) {
+    const record = listCanonHouses().find((h) => h.name === house.canonical);
+    if (record && record.element !== element.canonical) {
+      issues.push(issueAt(text, element, 'house-element-mismatch', 'warning',
+        `House ${record.name} follows ${record.element}, not ${element.canonical}`,
+        [replaceName(element, record.element, `Use House ${record.name}'s Element`)]));
+    }
+  }
+
+  // Frequencies
+  const related = new Set([
+    ...gates.filter((g) => g.canonical).map((g) => g.canonical!),
+    ...guardians.map((g) => getCanonGateByGuardian(g.canonical!)!.name),
+  ]);
+  const frequencyGate = related.size === 1 ? getCanonGate([...related][0]) : undefined;
+
+  for (const frequency of ofType('frequency')) {
+    if (frequencyGate && frequency.value !== frequencyGate.frequency) {
+      issues.push(issueAt(text, frequency, 'gate-frequency-mismatch', 'error',
+        `The ${title(frequencyGate.name)} Gate resonates at ${frequencyGate.frequency} Hz, not ${frequency.value} Hz`,
+        [replaceName(frequency, `${frequencyGate.frequency} Hz`, `Use the ${title(frequencyGate.name)} Gate's frequency`)]));
+    } else if (!frequencyGate && frequency.canonical === null) {
+      const canon = Array.from(new Set(listCanonGates().map((g) => g.frequency))).sort((a, b) => a - b);
+      const nearest = canon.reduce((best, f) => Math.abs(f - frequency.value!) < Math.abs(best - frequency.value!) ? f : best, canon[0]);
+      const nearestGates = listCanonGates().filter((g) => g.frequency === nearest).map((g) => title(g.name)).join('/');
+      issues.push(issueAt(text, frequency, 'non-canon-frequency', 'error',
+        `${frequency.value} Hz is not a canon Gate frequency (${canon.join(', ')} Hz)`,
+        nearest !== undefined
+          ? [replaceName(frequency, `${nearest} Hz`, `Nearest canon frequency (${nearestGates} Gate)`)]
+          : []));
+    }
+  }
+
+  return issues;
+}
+
+// =============================================================================
+// VALIDATION
+// =============================================================================
+
+/**
+ * Validate prose against canon
+ */
+export function validateCanonText(text: string): CanonValidationResult {
+  const entities = extractCanonEntities(text);
+  const issues: CanonIssue[] = [];
+
+  for (const sentence of splitSentences(text)) {
+    const inSentence = entities.filter((entity) => entity.start >= sentence.start && entity.end <= sentence.end);
+    if (inSentence.length > 0) issues.push(...checkSentence(text, inSentence));
+  }
+
+  issues.sort((a, b) => a.start - b.start);
+  return { valid: !issues.some((issue) => issue.severity === 'error'), entities, issues };
+}
+
+/**
+ * Check the canon facts a structured record asserts about itself. Issues have
+ * no offsets; their `text` names the field.
+ */
+export function validateCanonFields(fields: CanonFields): CanonIssue[] {
+  const issues: CanonIssue[] = [];
+  const at = (field: string, code: CanonIssueCode, severity: CanonIssueSeverity, message: string, replacement?: string): CanonIssue => ({
+    code,
+    severity,
+    message,
+    start: 0,
+    end: 0,
+    text: field,
+    fixes: replacement !== undefined ? [{ description: `Set ${field} to ${replacement}`, start: 0, end: 0, replacement }] : [],
+  });
+
+  const gate = fields.gate ? getCanonGate(fields.gate.toLowerCase()) : undefined;
+  if (fields.gate && !gate) {
+    issues.push(at('gate', 'unknown-gate', 'error', `There is no ${fields.gate} Gate in canon`));
+  }
+
+  const guardianGate = fields.guardian ? getCanonGateByGuardian(fields.guardian) : undefined;
+  if (fields.guardian && !guardianGate) {
+    issues.push(at('guardian', 'unknown-guardian', 'error', `Unknown guardian: ${fields.guardian}`));
+  }
+  if (gate && guardianGate && gate.name !== guardianGate.name) {
+    issues.push(at('guardian', 'guardian-gate-mismatch', 'error',
+      `${guardianGate.guardian} guards the ${title(guardianGate.name)} Gate, not the ${title(gate.name)} Gate`, gate.guardian));
+  }
+
+  const anchor = gate || guardianGate;
+  if (anchor && fields.frequency !== undefined && fields.frequency !== anchor.frequency) {
+    issues.push(at('frequency', 'gate-frequency-mismatch', 'error',
+      `The ${title(anchor.name)} Gate resonates at ${anchor.frequency} Hz, not ${fields.frequency} Hz`, String(anchor.frequency)));
+  } else if (!anchor && fields.frequency !== undefined && !isCanonFrequency(fields.frequency)) {
+    issues.push(at('frequency', 'non-canon-frequency', 'error', `${fields.frequency} Hz is not a canon Gate frequency`));
+  }
+
+  if (anchor && fields.element && fields.element.toLowerCase() !== anchor.element.toLowerCase()) {
+    issues.push(at('element', 'guardian-element-mismatch', 'warning',
+      `The ${title(anchor.name)} Gate is aligned with ${anchor.element}, but ${fields.element} was used`, anchor.element));
+  }
+
+  if (anchor && anchor.godbeast && fields.godbeast && fields.godbeast.toLowerCase() !== anchor.godbeast.toLowerCase()) {
+    issues.push(at('godbeast', 'godbeast-mismatch', 'error',
+      `The ${title(anchor.name)} Gate's Godbeast is ${anchor.godbeast}, not ${fields.godbeast}`, anchor.godbeast));
+  }
+
+  if (anchor && anchor.awakened && fields.awakened && fields.awakened.toLowerCase() !== anchor.awakened) {
+    const expected = listCanonAwakened()[anchor.awakened]?.name || anchor.awakened;
+    issues.push(at('awakened', 'awakened-partner-mismatch', 'warning',
+      `${anchor.guardian}'s Awakened partner is ${expected}, not ${fields.awakened}`, expected));
+  }
+
+  if (fields.house && fields.element) {
+    const house = listCanonHouses().find((h) => h.name.toLowerCase() === fields.house!.toLowerCase());
+    if (house && house.element.toLowerCase() !== fields.element.toLowerCase()) {
+      issues.push(at('house', 'house-element-mismatch', 'warning',
+        `House ${house.name} follows ${house.element}, not ${fields.element}`));
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Apply the first suggested fix of each issue, skipping fixes that overlap an
+ * earlier one
+ */
+export function applyCanonFixes(text: string, issues: CanonIssue[]): { text: string; applied: CanonIssue[] } {
+  const candidates = issues
+    .filter((issue) => issue.fixes.length > 0 && issue.fixes[0].end > issue.fixes[0].start)
+    .sort((a, b) => a.fixes[0].start - b.fixes[0].start);
+
+  const applied: CanonIssue[] = [];
+  let lastEnd = -1;
+  for (const issue of candidates) {
+    if (issue.fixes[0].start < lastEnd) continue;
+    applied.push(issue);
+    lastEnd = issue.fixes[0].end;
+  }
+
+  let result = text;
+  for (const issue of [...applied].reverse()) {
+    const fix = issue.fixes[0];
+    result = result.slice(0, fix.start) + fix.replacement + result.slice(fix.end);
+  }
+
+  return { text: result, applied };
+}
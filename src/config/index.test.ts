@@ -0,0 +1,94 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { AIOS_VERSION, loadConfigFile, migrateConfig, validateConfig } from './index';
+
+const LEGACY_CONFIG = {
+  gates_unlocked: ['Foundation', 'FLOW', 'flow'],
+  active_guardian: 'Lyssandria',
+  swarm_config: { coordinator: 'Shinkami', max_agents: 5 },
+};
+
+describe('migrateConfig', () => {
+  it('walks an unversioned config through every step to the current version', () => {
+    const { config, fromVersion, toVersion, applied } = migrateConfig(LEGACY_CONFIG);
+
+    expect(fromVersion).toBe('0.0.0');
+    expect(toVersion).toBe(AIOS_VERSION);
+    expect(applied.map((step) => step.split(':')[0])).toEqual(['0.0.0 -> 0.1.0', '0.1.0 -> 0.3.0']);
+    expect(config).toEqual({
+      version: '0.3.0',
+      gates_unlocked: ['foundation', 'flow'],
+      active_guardian: 'lyssandria',
+      swarm_config: { topology: 'hierarchical', coordinator: 'shinkami', max_agents: 5 },
+      anti_drift: { canonCheck: true, frequencyAlignment: true, voiceConsistency: true },
+    });
+    expect(validateConfig(config)).toEqual([]);
+  });
+
+  it('leaves a current config untouched', () => {
+    const current = migrateConfig(LEGACY_CONFIG).config;
+
+    expect(migrateConfig(current)).toMatchObject({ fromVersion: AIOS_VERSION, applied: [], config: current });
+  });
+
+  it('refuses a config written by a newer AIOS', () => {
+    expect(() => migrateConfig({ version: '99.0.0' })).toThrow('Config version 99.0.0 is newer than this AIOS');
+  });
+});
+
+describe('validateConfig', () => {
+  it('points at every bad key', () => {
+    const { config } = migrateConfig(LEGACY_CONFIG);
+
+    expect(validateConfig({
+      ...config,
+      gates_unlocked: ['fire', 'ember'],
+      swarm_config: { ...config.swarm_config, max_agents: 0 },
+      theme: 'dark',
+    }).map((issue) => issue.path)).toEqual(['gates_unlocked[1]', 'swarm_config.max_agents', 'theme']);
+  });
+});
+
+describe('loadConfigFile', () => {
+  let projectPath: string | null = null;
+
+  afterEach(() => {
+    if (projectPath) fs.rmSync(projectPath, { recursive: true, force: true });
+    projectPath = null;
+  });
+
+  function createProject(config: unknown): string {
+    projectPath = fs.mkdtempSync(path.join(os.tmpdir(), 'aios-config-'));
+    fs.mkdirSync(path.join(projectPath, '.aios'));
+    fs.writeFileSync(path.join(projectPath, '.aios', 'config.json'), JSON.stringify(config));
+    return projectPath;
+  }
+
+  it('migrates in memory unless asked to write', () => {
+    const project = createProject({ version: '0.1.0', ...LEGACY_CONFIG });
+    const loaded = loadConfigFile(project);
+
+    expect(loaded).toMatchObject({ fromVersion: '0.1.0', migrated: true, backupPath: null });
+    expect(JSON.parse(fs.readFileSync(loaded.path, 'utf-8')).version).toBe('0.1.0');
+  });
+
+  it('backs up the old file before writing the migrated config', () => {
+    const project = createProject({ version: '0.1.0', ...LEGACY_CONFIG });
+    const original = fs.readFileSync(path.join(project, '.aios', 'config.json'), 'utf-8');
+    const loaded = loadConfigFile(project, { write: true });
+
+    expect(loaded.backupPath).toBe(`${loaded.path}.v0.1.0.bak`);
+    expect(fs.readFileSync(loaded.backupPath!, 'utf-8')).toBe(original);
+    expect(JSON.parse(fs.readFileSync(loaded.path, 'utf-8'))).toEqual(loaded.config);
+  });
+
+  it('names the migration when the result is still invalid', () => {
+    const project = createProject({ version: '0.1.0', ...LEGACY_CONFIG, gates_unlocked: ['Ember'] });
+
+    expect(() => loadConfigFile(project)).toThrow(
+      /after migrating from 0\.1\.0\):\n {2}- gates_unlocked\[0\]: must be one of .*got "ember"/
+    );
+  });
+});
@@ -0,0 +1,285 @@
+/**
+ * AIOS Project Configuration
+ *
+ * Schema, validation and migrations for .aios/config.json. Older config files
+ * are upgraded step by step through MIGRATIONS; when a file is upgraded on disk
+ * the original is kept next to it as config.json.v<old-version>.bak.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { listGateNames, listGuardianKeys } from '../canon';
+import { validateSchema, formatSchemaIssues, type JsonSchema, type SchemaIssue } from '../schema';
+import type { AIOSConfig } from '../index';
+
+// =============================================================================
+// VERSIONS
+// =============================================================================
+
+/**
+ * The AIOS release, read from package.json, which is also the current config
+ * format version
+ */
+export const AIOS_VERSION: string = readPackageVersion();
+
+/**
+ * Version assumed for config files written before the version field existed
+ */
+const UNVERSIONED = '0.0.0';
+
+/**
+ * Find this package's package.json by walking up from this module. Works from
+ * src/, from dist/ and from bundled entry points alike.
+ */
+function readPackageVersion(): string {
+  let dir = path.resolve(__dirname);
+
+  while (true) {
+    const file = path.join(dir, 'package.json');
+    if (fs.existsSync(file)) {
+      const pkg = JSON.parse(fs.readFileSync(file, 'utf-8'));
+      if (pkg.name === '@arcanea/intelligence-os' && typeof pkg.version === 'string') {
+        return pkg.version;
+      }
+    }
+    const parent = path.dirname(dir);
+    if (parent === dir) {
+      throw new Error('Cannot find the @arcanea/intelligence-os package.json');
+    }
+    dir = parent;
+  }
+}
+
+// =============================================================================
+// SCHEMA
+// =============================================================================
+
+/**
+ * JSON Schema for the current config format. Gate and Guardian enums come from
+ * the merged canon, so project overlays are accepted.
+ */
+export function getConfigSchema(): JsonSchema {
+  const guardians = listGuardianKeys();
+
+  return {
+    type: 'object',
+    required: ['version', 'gates_unlocked', 'active_guardian', 'swarm_config', 'anti_drift'],
+    additionalProperties: false,
+    properties: {
+      version: {
+        type: 'string',
+        pattern: '^\\d+\\.\\d+\\.\\d+$',
+        description: 'Config format version',
+      },
+      gates_unlocked: {
+        type: 'array',
+        items: { type: 'string', enum: listGateNames() },
+        uniqueItems: true,
+        description: 'Gates the project has opened',
+      },
+      active_guardian: {
+        type: ['string', 'null'],
+        enum: [...guardians, null],
+        description: 'Guardian currently channeled, if any',
+      },
+      swarm_config: {
+        type: 'object',
+        required: ['topology', 'coordinator', 'max_agents'],
+        additionalProperties: false,
+        properties: {
+          topology: { type: 'string', enum: ['hierarchical', 'flat', 'mesh'] },
+          coordinator: { type: 'string', enum: guardians },
+          max_agents: { type: 'integer', minimum: 1, maximum: 50 },
+        },
+      },
+      anti_drift: {
+        type: 'object',
+        required: ['canonCheck', 'frequencyAlignment', 'voiceConsistency'],
+        additionalProperties: false,
+        properties: {
+          canonCheck: { type: 'boolean' },
+          frequencyAlignment: { type: 'boolean' },
+          voiceConsistency: { type: 'boolean' },
+          mode: { type: 'string', enum: ['annotate', 'repair', 'reject'] },
+        },
+      },
+      prompt_verbosity: {
+        type: 'string',
+        enum: ['short', 'standard', 'full'],
+        description: 'How much of each agent definition goes into Guardian and Awakened prompts',
+      },
+    },
+  };
+}
+
+/**
+ * Validate a config object against the current schema
+ */
+export function validateConfig(config: unknown): SchemaIssue[] {
+  return validateSchema(getConfigSchema(), config);
+}
+
+// =============================================================================
+// MIGRATIONS
+// =============================================================================
+
+interface ConfigMigration {
+  from: string;
+  to: string;
+  description: string;
+  migrate: (config: Record<string, any>) => Record<string, any>;
+}
+
+/**
+ * Ordered upgrade steps. Each takes a config at `from` and returns one at `to`.
+ */
+const MIGRATIONS: ConfigMigration[] = [
+  {
+    from: UNVERSIONED,
+    to: '0.1.0',
+    description: 'Add the version field',
+    migrate: (config) => ({ version: '0.1.0', ...config }),
+  },
+  {
+    from: '0.1.0',
+    to: '0.3.0',
+    description: 'Make anti_drift required and normalize Gate and Guardian keys to lowercase',
+    migrate: (config) => {
+      const swarm = config.swarm_config || {};
+      const gates: unknown[] = Array.isArray(config.gates_unlocked) ? config.gates_unlocked : [];
+
+      return {
+        ...config,
+        version: '0.3.0',
+        gates_unlocked: Array.from(new Set(gates.map((gate) => String(gate).toLowerCase()))),
+        active_guardian: typeof config.active_guardian === 'string' ? config.active_guardian.toLowerCase() : null,
+        swarm_config: {
+          topology: 'hierarchical',
+          max_agents: 10,
+          ...swarm,
+          coordinator: typeof swarm.coordinator === 'string' ? swarm.coordinator.toLowerCase() : 'shinkami',
+        },
+        anti_drift: {
+          canonCheck: true,
+          frequencyAlignment: true,
+          voiceConsistency: true,
+          ...(config.anti_drift || {}),
+        },
+      };
+    },
+  },
+];
+
+function compareVersions(a: string, b: string): number {
+  const pa = a.split('.').map(Number);
+  const pb = b.split('.').map(Number);
+  for (let i = 0; i < 3; i++) {
+    if ((pa[i] || 0) !== (pb[i] || 0)) return (pa[i] || 0) - (pb[i] || 0);
+  }
+  return 0;
+}
+
+/**
+ * Result of running the migration chain
+ */
+export interface ConfigMigrationResult {
+  config: Record<string, any>;
+  fromVersion: string;
+  toVersion: string;
+  /** Descriptions of the steps that ran, in order */
+  applied: string[];
+}
+
+/**
+ * Upgrade a raw config object to the current format. Does not validate.
+ */
+export function migrateConfig(raw: Record<string, any>): ConfigMigrationResult {
+  const fromVersion = typeof raw.version === 'string' ? raw.version : UNVERSIONED;
+
+  if (compareVersions(fromVersion, AIOS_VERSION) > 0) {
+    throw new Error(`Config version ${fromVersion} is newer than this AIOS (${AIOS_VERSION}). Upgrade @arcanea/intelligence-os.`);
+  }
+
+  let config = raw;
+  let version = fromVersion;
+  const applied: string[] = [];
+
+  for (const migration of MIGRATIONS) {
+    if (compareVersions(version, migration.from) < 0 || compareVersions(version, migration.to) >= 0) continue;
+    config = migration.migrate(config);
+    version = migration.to;
+    applied.push(`${migration.from} -> ${migration.to}: ${migration.description}`);
+  }
+
+  // Versions between releases with no format change just take the current version
+  if (version !== AIOS_VERSION) {
+    config = { ...config, version: AIOS_VERSION };
+  }
+
+  return { config, fromVersion, toVersion: AIOS_VERSION, applied };
+}
+
+// =============================================================================
+// LOADING
+// =============================================================================
+
+/**
+ * Path to a project's config file
+ */
+export function getConfigPath(projectPath: string = process.cwd()): string {
+  return path.join(projectPath, '.aios', 'config.json');
+}
+
+/**
+ * A config file after migration and validation
+ */
+export interface LoadedConfig {
+  config: AIOSConfig;
+  path: string;
+  fromVersion: string;
+  migrated: boolean;
+  applied: string[];
+  /** Where the pre-migration file was copied, when the file was rewritten */
+  backupPath: string | null;
+}
+
+/**
+ * Read, migrate and validate a project's config. With `write`, an upgraded file
+ * is saved in place after backing up the original. Throws with every schema
+ * problem, each naming its key.
+ */
+export function loadConfigFile(
+  projectPath: string = process.cwd(),
+  options: { write?: boolean } = {}
+): LoadedConfig {
+  const configPath = getConfigPath(projectPath);
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(fs.readFileSync(configPath, 'utf-8'));
+  } catch (error) {
+    throw new Error(`Could not read AIOS config at ${configPath}: ${(error as Error).message}`);
+  }
+
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    throw new Error(`Invalid AIOS config at ${configPath}: must be a JSON object`);
+  }
+
+  const { config, fromVersion, applied } = migrateConfig(raw as Record<string, any>);
+  const migrated = fromVersion !== AIOS_VERSION;
+
+  const issues = validateConfig(config);
+  if (issues.length > 0) {
+    const note = migrated ? ` (after migrating from ${fromVersion})` : '';
+    throw new Error(`Invalid AIOS config at ${configPath}${note}:\n${formatSchemaIssues(issues)}`);
+  }
+
+  let backupPath: string | null = null;
+  if (migrated && options.write) {
+    backupPath = `${configPath}.v${fromVersion}.bak`;
+    fs.copyFileSync(configPath, backupPath);
+    fs.writeFileSync(configPath, JSON.stringify(config, null, 2));
+  }
+
+  return { config: config as AIOSConfig, path: configPath, fromVersion, migrated, applied, backupPath };
+}
@@ -0,0 +1,161 @@
+import { describe, it, expect } from 'vitest';
+import { ScriptedProvider } from '../providers';
+import { CouncilSession, channelPair, conveneCouncil, streamPair } from './index';
+
+/** Replies name the speaker and the kind of turn, so transcripts are easy to follow */
+function createProvider(): ScriptedProvider {
+  return new ScriptedProvider({
+    fallback: (request) => `${request.metadata?.speaker} ${request.metadata?.kind} ${request.metadata?.round}`,
+  });
+}
+
+describe('CouncilSession', () => {
+  describe('hierarchical', () => {
+    it('delegates to each member in turn, then synthesizes', async () => {
+      const provider = createProvider();
+      const transcript = await conveneCouncil({
+        topic: 'Naming the new Gate',
+        provider,
+        topology: 'hierarchical',
+        members: ['oria', 'amiri'],
+      });
+
+      expect(transcript.coordinator.key).toBe('shinkami');
+      expect(transcript.turns.map((turn) => [turn.speaker, turn.kind, turn.to])).toEqual([
+        ['shinkami', 'delegation', 'oria'],
+        ['oria', 'contribution', undefined],
+        ['shinkami', 'delegation', 'amiri'],
+        ['amiri', 'contribution', undefined],
+        ['shinkami', 'synthesis', undefined],
+      ]);
+      expect(transcript.turns[1].prompt).toContain('Your assignment: shinkami delegation 1');
+      expect(transcript.synthesis).toBe('shinkami synthesis 1');
+      expect(provider.calls).toHaveLength(5);
+    });
+  });
+
+  describe('flat', () => {
+    it('lets every member speak each round, building on what was said', async () => {
+      const session = new CouncilSession({
+        topic: 'Naming the new Gate',
+        provider: createProvider(),
+        topology: 'flat',
+        members: ['oria', 'amiri'],
+        rounds: 2,
+      });
+      const transcript = await session.run();
+
+      expect(transcript.turns.map((turn) => [turn.speaker, turn.kind, turn.round])).toEqual([
+        ['oria', 'contribution', 1],
+        ['amiri', 'contribution', 1],
+        ['oria', 'contribution', 2],
+        ['amiri', 'contribution', 2],
+        ['shinkami', 'synthesis', 2],
+      ]);
+      expect(transcript.turns[0].prompt).toContain('Open the discussion');
+      expect(transcript.turns[1].prompt).toContain('Oria: oria contribution 1');
+    });
+  });
+
+  describe('mesh', () => {
+    it('has members answer, critique each other and revise', async () => {
+      const session = new CouncilSession({
+        topic: 'Naming the new Gate',
+        provider: createProvider(),
+        topology: 'mesh',
+        members: ['oria', 'amiri', 'velora'],
+        rounds: 2,
+      });
+      const transcript = await session.run();
+
+      expect(transcript.turns).toHaveLength(13);
+      expect(transcript.turns.filter((turn) => turn.kind === 'critique')).toHaveLength(6);
+
+      const critique = transcript.turns.find((turn) => turn.kind === 'critique' && turn.speaker === 'oria')!;
+      expect(critique.prompt).toContain('Amiri: amiri contribution 1');
+      expect(critique.prompt).not.toContain('Oria: oria contribution 1');
+
+      const revision = transcript.turns.find((turn) => turn.round === 2 && turn.speaker === 'oria')!;
+      expect(revision.prompt).toContain('Your previous answer:\n\noria contribution 1');
+      expect(revision.prompt).toContain('Velora (critique): velora critique 1');
+
+      expect(transcript.turns[transcript.turns.length - 1].kind).toBe('synthesis');
+    });
+  });
+
+  describe('progress', () => {
+    it('reports each turn against the planned total', async () => {
+      const seen: Array<[number, number]> = [];
+      const session = new CouncilSession({
+        topic: 'Naming the new Gate',
+        provider: createProvider(),
+        topology: 'mesh',
+        members: ['oria', 'amiri', 'velora'],
+        rounds: 2,
+        onTurn: (turn, planned) => seen.push([turn.index, planned]),
+      });
+      const transcript = await session.run();
+
+      expect(session.plannedTurns()).toBe(transcript.turns.length);
+      expect(seen).toEqual(transcript.turns.map((_, i) => [i, session.plannedTurns()]));
+    });
+
+    it('stops when the signal is aborted', async () => {
+      const controller = new AbortController();
+      controller.abort();
+
+      await expect(conveneCouncil({ topic: 'Naming the new Gate', provider: createProvider(), signal: controller.signal }))
+        .rejects.toThrow('Council session cancelled');
+    });
+  });
+
+  describe('maxAgents', () => {
+    it('keeps the first members that fit and reports the rest as excluded', async () => {
+      const provider = createProvider();
+      const transcript = await conveneCouncil({
+        topic: 'Naming the new Gate',
+        provider,
+        topology: 'flat',
+        members: ['shinkami', 'oria', 'amiri', 'velora', 'liora'],
+        maxAgents: 3,
+      });
+
+      expect(transcript.members.map((member) => member.key)).toEqual(['oria', 'amiri']);
+      expect(transcript.excluded).toEqual(['velora', 'liora']);
+      expect(new Set(provider.calls.map((call) => call.metadata?.speaker))).toEqual(new Set(['oria', 'amiri', 'shinkami']));
+    });
+
+    it('needs room for the coordinator and one member', () => {
+      expect(() => new CouncilSession({ topic: 'Naming the new Gate', provider: createProvider(), maxAgents: 1 }))
+        .toThrow('maxAgents must be at least 2');
+    });
+  });
+});
+
+describe('channelPair', () => {
+  it('has the Guardian guide, then the Awakened build the plan on it', async () => {
+    const provider = createProvider();
+    const session = await channelPair('draconia', 'How do I start the novel?', provider);
+
+    expect(session.turns.map((turn) => [turn.speaker, turn.role, turn.content])).toEqual([
+      ['draconia', 'guidance', 'draconia paired-guidance undefined'],
+      ['velora', 'orchestration', 'velora paired-orchestration undefined'],
+    ]);
+    expect(session.turns[1].prompt).toContain('Draconia answered:\n\ndraconia paired-guidance undefined');
+    expect(provider.calls[0].system).toContain('your Awakened partner Velora');
+  });
+
+  it('streams both partners in order', async () => {
+    const speakers: string[] = [];
+    for await (const chunk of streamPair('leyla', 'Where did my flow go?', createProvider())) {
+      if (speakers[speakers.length - 1] !== chunk.speaker) speakers.push(chunk.speaker);
+    }
+
+    expect(speakers).toEqual(['leyla', 'liora']);
+  });
+
+  it('needs a Guardian with an Awakened partner', async () => {
+    await expect(channelPair('elara', 'Help', createProvider())).rejects.toThrow('Elara has no Awakened partner');
+    await expect(channelPair('oria', 'Help', createProvider())).rejects.toThrow('Unknown Guardian "oria"');
+  });
+});
@@ -0,0 +1,657 @@
+/**
+ * Arcanea Council Engine
+ *
+ * Runs an Awakened Council session through an LLM provider. The swarm topology
+ * decides who speaks when:
+ *
+ * - hierarchical: the coordinator delegates a sub-task to each member, then
+ *   synthesizes their answers
+ * - flat: members speak round-robin, each seeing the discussion so far; the
+ *   coordinator closes with a synthesis
+ * - mesh: members answer independently, then critique each other's answers and
+ *   revise; the coordinator synthesizes the final round
+ *
+ * The coordinator counts toward maxAgents. Every prompt and reply is kept in
+ * the transcript.
+ *
+ * Channeling a single Guardian is a one-turn session with the same agent
+ * prompts, see channelGuardian(); channelPair() asks a Guardian and their
+ * Awakened partner together.
+ */
+
+import {
+  createCouncilSwarm,
+  generateAwakenedPrompt,
+  generateGuardianPrompt,
+  type ModelTier,
+  type SwarmConfig,
+  type PromptOptions,
+  type PromptVerbosity,
+} from '../index';
+import {
+  getAwakenedDefinition,
+  getCanonAwakened,
+  getCanonGateByGuardian,
+} from '../canon';
+import type { LLMProvider, CompletionRequest } from '../providers';
+import { withAntiDrift, type AntiDriftSettings, type DriftIssue } from '../anti-drift';
+
+// =============================================================================
+// TYPE DEFINITIONS
+// =============================================================================
+
+export type CouncilTopology = SwarmConfig['topology'];
+
+/**
+ * A participant in a council session
+ */
+export interface CouncilAgent {
+  /** Lowercase Guardian or Awakened key */
+  key: string;
+  name: string;
+  kind: 'guardian' | 'awakened';
+  modelTier: ModelTier;
+  system: string;
+}
+
+export type CouncilTurnKind = 'delegation' | 'contribution' | 'critique' | 'synthesis';
+
+/**
+ * One model call in the session
+ */
+export interface CouncilTurn {
+  index: number;
+  round: number;
+  speaker: string;
+  role: 'coordinator' | 'member';
+  kind: CouncilTurnKind;
+  /** The member a delegation is addressed to */
+  to?: string;
+  prompt: string;
+  content: string;
+  model: string;
+  /** Anti-drift issues left in the content */
+  drift?: DriftIssue[];
+}
+
+export interface CouncilTranscript {
+  topic: string;
+  topology: CouncilTopology;
+  provider: string;
+  coordinator: CouncilAgent;
+  members: CouncilAgent[];
+  /** Requested members left out to stay within maxAgents */
+  excluded: string[];
+  rounds: number;
+  turns: CouncilTurn[];
+  synthesis: string;
+  startedAt: string;
+  completedAt: string;
+}
+
+export interface CouncilOptions {
+  topic: string;
+  provider: LLMProvider;
+  /** Defaults come from createCouncilSwarm() */
+  topology?: CouncilTopology;
+  coordinator?: string;
+  /** Awakened names; defaults to the whole council */
+  members?: string[];
+  maxAgents?: number;
+  /** Discussion rounds for flat and mesh (default 1) */
+  rounds?: number;
+  temperature?: number;
+  maxTokens?: number;
+  /** Run every turn through the anti-drift pipeline */
+  antiDrift?: AntiDriftSettings;
+  /** How much of each agent definition goes into its system prompt (default standard) */
+  promptVerbosity?: PromptVerbosity;
+  /** Stop the session before the next turn once aborted */
+  signal?: AbortSignal;
+  /** Called after every turn, with the number of turns the session will take */
+  onTurn?: (turn: CouncilTurn, plannedTurns: number) => void;
+}
+
+const TOPOLOGIES: CouncilTopology[] = ['hierarchical', 'flat', 'mesh'];
+
+// =============================================================================
+// AGENT RESOLUTION
+// =============================================================================
+
+/**
+ * Resolve a Guardian or Awakened name to a council agent
+ */
+export function resolveCouncilAgent(name: string, options: PromptOptions = {}): CouncilAgent | undefined {
+  const key = name.trim().toLowerCase();
+
+  const gate = getCanonGateByGuardian(key);
+  if (gate) {
+    return {
+      key,
+      name: gate.guardian,
+      kind: 'guardian',
+      modelTier: gate.modelTier,
+      system: generateGuardianPrompt(key, options),
+    };
+  }
+
+  const awakened = getCanonAwakened(key);
+  if (awakened) {
+    return {
+      key,
+      name: awakened.name,
+      kind: 'awakened',
+      modelTier: getAwakenedDefinition(key)?.modelTier || 'opus',
+      system: generateAwakenedPrompt(key, options),
+    };
+  }
+
+  return undefined;
+}
+
+// =============================================================================
+// COUNCIL SESSION
+// =============================================================================
+
+export class CouncilSession {
+  readonly topic: string;
+  readonly topology: CouncilTopology;
+  readonly coordinator: CouncilAgent;
+  readonly members: CouncilAgent[];
+  readonly excluded: string[];
+  readonly rounds: number;
+  private provider: LLMProvider;
+  private options: CouncilOptions;
+  private turns: CouncilTurn[] = [];
+
+  constructor(options: CouncilOptions) {
+    const swarm = createCouncilSwarm();
+
+    if (!options.topic || !options.topic.trim()) {
+      throw new Error('A council needs a topic');
+    }
+
+    this.topic = options.topic.trim();
+    this.topology = options.topology || swarm.topology;
+    if (!TOPOLOGIES.includes(this.topology)) {
+      throw new Error(`Unknown council topology "${this.topology}". Expected one of: ${TOPOLOGIES.join(', ')}`);
+    }
+
+    const coordinatorName = options.coordinator || swarm.coordinator;
+    const coordinator = resolveCouncilAgent(coordinatorName, { verbosity: options.promptVerbosity });
+    if (!coordinator) {
+      throw new Error(`Unknown council coordinator "${coordinatorName}"`);
+    }
+    this.coordinator = coordinator;
+
+    const maxAgents = options.maxAgents ?? swarm.maxAgents;
+    if (!Number.isInteger(maxAgents) || maxAgents < 2) {
+      throw new Error('maxAgents must be at least 2 (the coordinator and one member)');
+    }
+
+    const requested = (options.members || swarm.council.map((awakened) => awakened.name))
+      .map((name) => name.trim().toLowerCase())
+      .filter((name, i, all) => name && name !== coordinator.key && all.indexOf(name) === i);
+
+    const members = requested.map((name) => {
+      const agent = resolveCouncilAgent(name, { verbosity: options.promptVerbosity });
+      if (!agent) throw new Error(`Unknown council member "${name}"`);
+      return agent;
+    });
+    if (members.length === 0) {
+      throw new Error('A council needs at least one member besides the coordinator');
+    }
+
+    this.members = members.slice(0, maxAgents - 1);
+    this.excluded = members.slice(maxAgents - 1).map((agent) => agent.key);
+
+    this.rounds = options.rounds ?? 1;
+    if (!Number.isInteger(this.rounds) || this.rounds < 1) {
+      throw new Error('rounds must be a positive integer');
+    }
+
+    this.provider = options.antiDrift ? withAntiDrift(options.provider, options.antiDrift) : options.provider;
+    this.options = options;
+  }
+
+  /**
+   * Number of model calls the session makes, synthesis included
+   */
+  plannedTurns(): number {
+    const members = this.members.length;
+    switch (this.topology) {
+      case 'hierarchical':
+        return 2 * members + 1;
+      case 'flat':
+        return this.rounds * members + 1;
+      case 'mesh':
+        return this.rounds * (members + (members > 1 ? members : 0)) + 1;
+    }
+  }
+
+  /**
+   * Run the session to completion and return the transcript
+   */
+  async run(): Promise<CouncilTranscript> {
+    const startedAt = new Date().toISOString();
+    this.turns = [];
+
+    let synthesis: string;
+    switch (this.topology) {
+      case 'hierarchical':
+        synthesis = await this.runHierarchical();
+        break;
+      case 'flat':
+        synthesis = await this.runFlat();
+        break;
+      case 'mesh':
+        synthesis = await this.runMesh();
+        break;
+    }
+
+    return {
+      topic: this.topic,
+      topology: this.topology,
+      provider: this.provider.name,
+      coordinator: this.coordinator,
+      members: this.members,
+      excluded: this.excluded,
+      rounds: this.topology === 'hierarchical' ? 1 : this.rounds,
+      turns: this.turns,
+      synthesis,
+      startedAt,
+      completedAt: new Date().toISOString(),
+    };
+  }
+
+  // ===========================================================================
+  // TOPOLOGIES
+  // ===========================================================================
+
+  private async runHierarchical(): Promise<string> {
+    const answers: CouncilTurn[] = [];
+
+    for (const member of this.members) {
+      const delegation = await this.speak(this.coordinator, 'coordinator', 'delegation', 1, [
+        `The council is convened on: ${this.topic}`,
+        '',
+        `Write the assignment for ${member.name} (${this.describe(member)}).`,
+        'State in a few sentences what part of the topic they should address and what you need back.',
+      ].join('\n'), member.key);
+
+      answers.push(await this.speak(member, 'member', 'contribution', 1, [
+        `${this.coordinator.name} has convened the council on: ${this.topic}`,
+        '',
+        `Your assignment: ${delegation.content}`,
+      ].join('\n')));
+    }
+
+    return this.synthesize(1, answers);
+  }
+
+  private async runFlat(): Promise<string> {
+    const said: CouncilTurn[] = [];
+
+    for (let round = 1; round <= this.rounds; round++) {
+      for (const member of this.members) {
+        const lines = [`The council discusses: ${this.topic}`];
+        if (said.length > 0) {
+          lines.push('', 'The discussion so far:', '', this.quote(said));
+        }
+        lines.push('', said.length > 0
+          ? 'Add your perspective, building on what has been said.'
+          : 'Open the discussion with your perspective.');
+
+        said.push(await this.speak(member, 'member', 'contribution', round, lines.join('\n')));
+      }
+    }
+
+    return this.synthesize(this.rounds, said);
+  }
+
+  private async runMesh(): Promise<string> {
+    let answers: CouncilTurn[] = [];
+    let critiques: CouncilTurn[] = [];
+
+    for (let round = 1; round <= this.rounds; round++) {
+      const previousAnswers = answers;
+      const previousCritiques = critiques;
+      answers = [];
+      critiques = [];
+
+      for (const member of this.members) {
+        const lines = [`The council considers: ${this.topic}`];
+        const own = previousAnswers.find((turn) => turn.speaker === member.key);
+        if (own) {
+          const received = previousCritiques.filter((turn) => turn.speaker !== member.key);
+          lines.push('', 'Your previous answer:', '', own.content);
+          if (received.length > 0) {
+            lines.push('', 'Critiques from the council:', '', this.quote(received));
+          }
+          lines.push('', 'Revise your answer in light of these critiques.');
+        } else {
+          lines.push('', 'Give your answer from your domain.');
+        }
+
+        answers.push(await this.speak(member, 'member', 'contribution', round, lines.join('\n')));
+      }
+
+      for (const member of this.members) {
+        const peers = answers.filter((turn) => turn.speaker !== member.key);
+        if (peers.length === 0) continue;
+
+        critiques.push(await this.speak(member, 'member', 'critique', round, [
+          `The council considers: ${this.topic}`,
+          '',
+          'Answers from the other members:',
+          '',
+          this.quote(peers),
+          '',
+          'Critique each answer from your domain: what is strong, what is missing, what should change.',
+        ].join('\n')));
+      }
+    }
+
+    return this.synthesize(this.rounds, [...answers, ...critiques]);
+  }
+
+  // ===========================================================================
+  // HELPERS
+  // ===========================================================================
+
+  private async synthesize(round: number, turns: CouncilTurn[]): Promise<string> {
+    const synthesis = await this.speak(this.coordinator, 'coordinator', 'synthesis', round, [
+      `The council was convened on: ${this.topic}`,
+      '',
+      'What the council said:',
+      '',
+      this.quote(turns),
+      '',
+      'Synthesize these perspectives into a single answer. Resolve disagreements and name the next steps.',
+    ].join('\n'));
+
+    return synthesis.content;
+  }
+
+  private async speak(
+    agent: CouncilAgent,
+    role: CouncilTurn['role'],
+    kind: CouncilTurnKind,
+    round: number,
+    prompt: string,
+    to?: string
+  ): Promise<CouncilTurn> {
+    const request: CompletionRequest = {
+      system: agent.system,
+      messages: [{ role: 'user', content: prompt }],
+      modelTier: agent.modelTier,
+      temperature: this.options.temperature,
+      maxTokens: this.options.maxTokens,
+      metadata: { speaker: agent.key, kind, round: String(round), ...(to ? { to } : {}) },
+    };
+
+    if (this.options.signal?.aborted) {
+      throw new Error('Council session cancelled');
+    }
+
+    const response = await this.provider.complete(request);
+    const turn: CouncilTurn = {
+      index: this.turns.length,
+      round,
+      speaker: agent.key,
+      role,
+      kind,
+      ...(to ? { to } : {}),
+      prompt,
+      content: response.text.trim(),
+      model: response.model,
+      ...(response.drift?.issues.length ? { drift: response.drift.issues } : {}),
+    };
+
+    this.turns.push(turn);
+    this.options.onTurn?.(turn, this.plannedTurns());
+    return turn;
+  }
+
+  private describe(agent: CouncilAgent): string {
+    const awakened = getCanonAwakened(agent.key);
+    return awakened ? `${awakened.role}, ${awakened.domain}` : agent.kind;
+  }
+
+  private quote(turns: CouncilTurn[]): string {
+    return turns
+      .map((turn) => {
+        const name = this.nameOf(turn.speaker);
+        const label = turn.kind === 'critique' ? `${name} (critique)` : name;
+        return `${label}: ${turn.content}`;
+      })
+      .join('\n\n');
+  }
+
+  private nameOf(key: string): string {
+    if (key === this.coordinator.key) return this.coordinator.name;
+    return this.members.find((agent) => agent.key === key)?.name || key;
+  }
+}
+
+// =============================================================================
+// GUARDIAN CHANNELING
+// =============================================================================
+
+/**
+ * Build the request that puts a question to a Guardian
+ */
+export function createChannelRequest(guardian: string, question: string, options: PromptOptions = {}): CompletionRequest {
+  const agent = resolveCouncilAgent(guardian, options);
+  if (!agent || agent.kind !== 'guardian') {
+    throw new Error(`Unknown Guardian "${guardian}"`);
+  }
+
+  return {
+    system: agent.system,
+    messages: [{ role: 'user', content: question }],
+    modelTier: agent.modelTier,
+    metadata: { speaker: agent.key, kind: 'channel' },
+  };
+}
+
+/**
+ * Ask a Guardian a question through a provider
+ */
+export async function channelGuardian(
+  guardian: string,
+  question: string,
+  provider: LLMProvider,
+  options: PromptOptions = {}
+): Promise<{ guardian: string; question: string; response: string; model: string; provider: string; drift?: DriftIssue[] }> {
+  const request = createChannelRequest(guardian, question, options);
+  const response = await provider.complete(request);
+
+  return {
+    guardian: request.metadata!.speaker,
+    question,
+    response: response.text.trim(),
+    model: response.model,
+    provider: response.provider,
+    ...(response.drift?.issues.length ? { drift: response.drift.issues } : {}),
+  };
+}
+
+// =============================================================================
+// PAIRED CHANNELING
+// =============================================================================
+
+export type PairedRole = 'guidance' | 'orchestration';
+
+/**
+ * A Guardian and their Awakened partner, e.g. Draconia and Velora
+ */
+export interface GuardianPair {
+  guardian: CouncilAgent;
+  awakened: CouncilAgent;
+}
+
+/**
+ * One partner's reply in a paired session
+ */
+export interface PairedTurn {
+  speaker: string;
+  name: string;
+  role: PairedRole;
+  prompt: string;
+  content: string;
+  model: string;
+  /** Anti-drift issues left in the content */
+  drift?: DriftIssue[];
+}
+
+export interface PairedSession {
+  question: string;
+  provider: string;
+  guardian: CouncilAgent;
+  awakened: CouncilAgent;
+  /** The Guardian's guidance, then the Awakened's orchestration */
+  turns: PairedTurn[];
+}
+
+/**
+ * A piece of streamed text from one of the partners
+ */
+export interface PairedChunk {
+  speaker: string;
+  role: PairedRole;
+  text: string;
+}
+
+/**
+ * Resolve a Guardian and their Awakened partner. Throws when the Guardian is
+ * unknown or has no partner.
+ */
+export function resolveGuardianPair(guardian: string, options: PromptOptions = {}): GuardianPair {
+  const agent = resolveCouncilAgent(guardian, options);
+  if (!agent || agent.kind !== 'guardian') {
+    throw new Error(`Unknown Guardian "${guardian}"`);
+  }
+
+  const partnerKey = getCanonGateByGuardian(agent.key)?.awakened;
+  const partner = partnerKey ? resolveCouncilAgent(partnerKey, options) : undefined;
+  if (!partner) {
+    throw new Error(`${agent.name} has no Awakened partner`);
+  }
+
+  return {
+    guardian: {
+      ...agent,
+      system: `${agent.system}\n\nYou answer together with your Awakened partner ${partner.name}, who speaks after you. Give the emotional and creative guidance: what the seeker feels, what holds them back, what is calling them. Leave plans and step-by-step structure to ${partner.name}.`,
+    },
+    awakened: {
+      ...partner,
+      system: `${partner.system}\n\nYou answer together with your Guardian partner ${agent.name}, who has just spoken. Give the orchestration: turn ${agent.name}'s guidance into concrete next steps, sequence and structure, without repeating it.`,
+    },
+  };
+}
+
+function pairedGuidanceRequest(pair: GuardianPair, question: string): CompletionRequest {
+  return {
+    system: pair.guardian.system,
+    messages: [{ role: 'user', content: question }],
+    modelTier: pair.guardian.modelTier,
+    metadata: { speaker: pair.guardian.key, kind: 'paired-guidance' },
+  };
+}
+
+function pairedOrchestrationRequest(pair: GuardianPair, question: string, guidance: string): CompletionRequest {
+  return {
+    system: pair.awakened.system,
+    messages: [{
+      role: 'user',
+      content: [
+        `The seeker asked ${pair.guardian.name} and you: ${question}`,
+        '',
+        `${pair.guardian.name} answered:`,
+        '',
+        guidance.trim(),
+        '',
+        `Build on ${pair.guardian.name}'s guidance with the plan.`,
+      ].join('\n'),
+    }],
+    modelTier: pair.awakened.modelTier,
+    metadata: { speaker: pair.awakened.key, kind: 'paired-orchestration' },
+  };
+}
+
+/**
+ * Ask a Guardian and their Awakened partner a question together: the Guardian
+ * answers first, then the Awakened builds on that answer
+ */
+export async function channelPair(
+  guardian: string,
+  question: string,
+  provider: LLMProvider,
+  options: PromptOptions & { antiDrift?: AntiDriftSettings } = {}
+): Promise<PairedSession> {
+  const pair = resolveGuardianPair(guardian, options);
+  const model = options.antiDrift ? withAntiDrift(provider, options.antiDrift) : provider;
+
+  const speak = async (agent: CouncilAgent, role: PairedRole, request: CompletionRequest): Promise<PairedTurn> => {
+    const response = await model.complete(request);
+    return {
+      speaker: agent.key,
+      name: agent.name,
+      role,
+      prompt: request.messages[0].content,
+      content: response.text.trim(),
+      model: response.model,
+      ...(response.drift?.issues.length ? { drift: response.drift.issues } : {}),
+    };
+  };
+
+  const guidance = await speak(pair.guardian, 'guidance', pairedGuidanceRequest(pair, question));
+  const orchestration = await speak(pair.awakened, 'orchestration', pairedOrchestrationRequest(pair, question, guidance.content));
+  const turns = [guidance, orchestration];
+
+  return { question, provider: provider.name, guardian: pair.guardian, awakened: pair.awakened, turns };
+}
+
+/**
+ * Stream a paired session: the Guardian's guidance, then the Awakened's
+ * orchestration
+ */
+export async function* streamPair(
+  guardian: string,
+  question: string,
+  provider: LLMProvider,
+  options: PromptOptions = {}
+): AsyncGenerator<PairedChunk> {
+  const pair = resolveGuardianPair(guardian, options);
+
+  let guidance = '';
+  for await (const text of provider.stream(pairedGuidanceRequest(pair, question))) {
+    guidance += text;
+    yield { speaker: pair.guardian.key, role: 'guidance', text };
+  }
+
+  for await (const text of provider.stream(pairedOrchestrationRequest(pair, question, guidance))) {
+    yield { speaker: pair.awakened.key, role: 'orchestration', text };
+  }
+}
+
+// =============================================================================
+// FACTORY
+// =============================================================================
+
+/**
+ * Create a council session
+ */
+export function createCouncilSession(options: CouncilOptions): CouncilSession {
+  return new CouncilSession(options);
+}
+
+/**
+ * Create and run a council session in one call
+ */
+export async function conveneCouncil(options: CouncilOptions): Promise<CouncilTranscript> {
+  return createCouncilSession(options).run();
+}
+
+export default CouncilSession;
@@ -13,9 +13,14 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import { EventEmitter } from 'events';
-import { HttpApiServer } from '../http/index.js';
+import { HttpApiServer, MCPHttpTransport } from '../http/index.js';
 import { StateStore } from '../state/index.js';
 import { PluginRegistry } from '../plugins/index.js';
+import { createMCPServer } from '../mcp-server.js';
+import { createStorage, getStudioPath, setStudioPath, startWatcherDaemon, type ArtifactWatcher } from '../artifact-flow/index.js';
+import { assertCanonConsistency, setCanonProject } from '../canon/index.js';
+import { loadConfigFile, getConfigPath } from '../config/index.js';
+import type { AIOSConfig } from '../index.js';
 
 // =============================================================================
 // DAEMON CONFIGURATION
@@ -44,6 +49,8 @@ export interface DaemonConfig {
   logLevel: 'debug' | 'info' | 'warn' | 'error';
   /** PID file path */
   pidFile: string;
+  /** Project whose .aios/config.json the daemon loads (default: working directory) */
+  projectPath: string;
 }
 
 export const DEFAULT_CONFIG: DaemonConfig = {
@@ -51,11 +58,12 @@ export const DEFAULT_CONFIG: DaemonConfig = {
   host: '127.0.0.1',
   dbPath: path.join(process.env.HOME || process.env.USERPROFILE || '', '.arcanea', 'state.db'),
   watchPaths: [],
-  studioPath: path.join(process.env.HOME || process.env.USERPROFILE || '', 'arcanea-studio'),
+  studioPath: getStudioPath(),
   cloudSync: false,
   pluginDir: path.join(process.env.HOME || process.env.USERPROFILE || '', '.arcanea', 'plugins'),
   logLevel: 'info',
   pidFile: path.join(process.env.HOME || process.env.USERPROFILE || '', '.arcanea', 'daemon.pid'),
+  projectPath: process.cwd(),
 };
 
 // =============================================================================
@@ -88,10 +96,11 @@ export class AIOSDaemon extends EventEmitter {
   private config: DaemonConfig;
   private state: DaemonState;
   private httpServer: HttpApiServer | null = null;
-  private mcpServer: any = null;
-  private watcher: any = null;
+  private mcpTransport: MCPHttpTransport | null = null;
+  private watcher: ArtifactWatcher | null = null;
   private stateStore: StateStore | null = null;
   private pluginRegistry: PluginRegistry | null = null;
+  private projectConfig: AIOSConfig | null = null;
 
   constructor(config: Partial<DaemonConfig> = {}) {
     super();
@@ -114,6 +123,13 @@ export class AIOSDaemon extends EventEmitter {
     return { ...this.state };
   }
 
+  /**
+   * Get the project AIOS config, or null when the project is not initialized
+   */
+  getProjectConfig(): AIOSConfig | null {
+    return this.projectConfig;
+  }
+
   /**
    * Start the daemon
    */
@@ -126,6 +142,18 @@ export class AIOSDaemon extends EventEmitter {
     this.emit('status', this.state.status);
 
     try {
+      // Apply the project's canon overlays
+      setCanonProject(this.config.projectPath);
+
+      // Refuse to start on drifted canon
+      assertCanonConsistency();
+
+      // Watcher and MCP tools store artifacts in the same studio
+      setStudioPath(this.config.studioPath);
+
+      // Load (and upgrade) the project config
+      this.loadProjectConfig();
+
       // Ensure directories exist
       await this.ensureDirectories();
 
@@ -143,12 +171,12 @@ export class AIOSDaemon extends EventEmitter {
       // Load plugins
       await this.loadPlugins();
 
+      // Start file watcher (before HTTP, so MCP subscriptions can follow it)
+      await this.startWatcher();
+
       // Start HTTP server
       await this.startHttpServer();
 
-      // Start file watcher
-      await this.startWatcher();
-
       this.state.status = 'running';
       this.state.pid = process.pid;
       this.state.startedAt = new Date();
@@ -186,6 +214,8 @@ export class AIOSDaemon extends EventEmitter {
       if (this.httpServer) {
         await this.httpServer.stop();
         this.httpServer = null;
+        this.mcpTransport = null;
+        this.state.connections.mcp = 0;
       }
 
       // Close state store
@@ -284,6 +314,20 @@ export class AIOSDaemon extends EventEmitter {
     }
   }
 
+  private loadProjectConfig(): void {
+    if (!fs.existsSync(getConfigPath(this.config.projectPath))) {
+      this.log('debug', `No AIOS config in ${this.config.projectPath}`);
+      return;
+    }
+
+    const loaded = loadConfigFile(this.config.projectPath, { write: true });
+    this.projectConfig = loaded.config;
+
+    if (loaded.migrated) {
+      this.log('info', `Upgraded ${loaded.path} from ${loaded.fromVersion} to ${loaded.config.version} (backup: ${loaded.backupPath})`);
+    }
+  }
+
   private async initDatabase(): Promise<void> {
     this.log('debug', `State store path: ${path.dirname(this.config.dbPath)}`);
     this.stateStore = new StateStore(path.dirname(this.config.dbPath));
@@ -318,12 +362,41 @@ export class AIOSDaemon extends EventEmitter {
       this.httpServer.connectPluginRegistry(this.pluginRegistry);
     }
 
+    // One daemon serves MCP to every editor, each in its own session, with
+    // the tools and resources of whichever plugins are active
+    this.mcpTransport = new MCPHttpTransport({
+      server: createMCPServer({
+        plugins: this.pluginRegistry || undefined,
+        watcher: this.watcher || undefined,
+      }),
+    });
+    const countSessions = () => {
+      this.state.connections.mcp = this.mcpTransport?.sessionCount ?? 0;
+    };
+    this.mcpTransport.on('session', ({ id, transport }) => {
+      countSessions();
+      this.log('debug', `MCP session opened: ${id} (${transport})`);
+    });
+    this.mcpTransport.on('sessionClosed', ({ id }) => {
+      countSessions();
+      this.log('debug', `MCP session closed: ${id}`);
+    });
+    this.httpServer.mountMCP(this.mcpTransport);
+
     await this.httpServer.start();
   }
 
   private async startWatcher(): Promise<void> {
-    // Watcher will use the existing artifact-flow module
     this.log('debug', `Watch paths: ${this.config.watchPaths.join(', ') || 'none configured'}`);
+    if (this.config.watchPaths.length === 0) return;
+
+    const storage = createStorage(this.config.studioPath);
+    await storage.initialize();
+    this.watcher = await startWatcherDaemon(this.config.watchPaths, storage, {
+      onArtifact: ({ artifact }) => this.log('debug', `Artifact stored: ${(artifact as { id: string }).id}`),
+      onError: (error) => this.log('warn', `Watcher: ${error.message}`),
+    });
+    this.log('info', `Watching ${this.config.watchPaths.length} path(s) for artifacts`);
   }
 
   private log(level: string, message: string): void {
@@ -10,6 +10,7 @@
  * - /drafts - Draft management
  * - /sync - Cloud sync operations
  * - /ws - WebSocket for real-time updates
+ * - /mcp - MCP over Streamable HTTP (once mountMCP() is called)
  */
 
 import * as http from 'http';
@@ -19,6 +20,9 @@ import { EventEmitter } from 'events';
 import type { StateStore } from '../state';
 import type { PluginRegistry } from '../plugins';
 import type { DaemonState } from '../daemon';
+import type { MCPHttpTransport } from './mcp-transport';
+
+export * from './mcp-transport';
 
 // =============================================================================
 // TYPE DEFINITIONS
@@ -56,6 +60,7 @@ export class HttpApiServer extends EventEmitter {
   private stateStore: StateStore | null = null;
   private pluginRegistry: PluginRegistry | null = null;
   private getDaemonState: (() => DaemonState) | null = null;
+  private mcpTransport: MCPHttpTransport | null = null;
   private agentDbPath: string;
 
   constructor(config: Partial<HttpServerConfig> = {}) {
@@ -94,6 +99,13 @@ export class HttpApiServer extends EventEmitter {
     this.getDaemonState = getter;
   }
 
+  /**
+   * Serve MCP clients on the transport's endpoints, behind the same auth check
+   */
+  mountMCP(transport: MCPHttpTransport): void {
+    this.mcpTransport = transport;
+  }
+
   /**
    * Start the HTTP server
    */
@@ -114,6 +126,9 @@ export class HttpApiServer extends EventEmitter {
    * Stop the HTTP server
    */
   async stop(): Promise<void> {
+    // Open SSE streams would otherwise hold the server open
+    this.mcpTransport?.close();
+
     return new Promise((resolve) => {
       if (this.server) {
         this.server.close(() => {
@@ -200,7 +215,7 @@ export class HttpApiServer extends EventEmitter {
     // CORS headers
     res.setHeader('Access-Control-Allow-Origin', this.config.corsOrigins?.join(', ') || '*');
     res.setHeader('Access-Control-Allow-Methods', 'GET, POST, PUT, PATCH, DELETE, OPTIONS');
-    res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization, Mcp-Session-Id');
 
     // Handle preflight
     if (req.method === 'OPTIONS') {
@@ -222,6 +237,11 @@ export class HttpApiServer extends EventEmitter {
       }
     }
 
+    // MCP transport endpoints
+    if (this.mcpTransport && await this.mcpTransport.handle(req, res)) {
+      return;
+    }
+
     // Find matching route
     for (const route of this.routes) {
       if (req.method !== route.method) continue;
@@ -0,0 +1,158 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import * as http from 'http';
+import type { AddressInfo } from 'net';
+import { MCP_PROTOCOL_VERSION, type JsonRpcMessage } from '../mcp-server';
+import { MCPHttpTransport, MCP_SESSION_HEADER } from './mcp-transport';
+
+const INITIALIZE: JsonRpcMessage = {
+  jsonrpc: '2.0',
+  id: 1,
+  method: 'initialize',
+  params: { protocolVersion: MCP_PROTOCOL_VERSION, capabilities: {}, clientInfo: { name: 'spec', version: '1.0.0' } },
+};
+
+let transport: MCPHttpTransport;
+let server: http.Server;
+let base: string;
+
+beforeAll(async () => {
+  transport = new MCPHttpTransport();
+  server = http.createServer(async (req, res) => {
+    if (await transport.handle(req, res)) return;
+    res.writeHead(404);
+    res.end();
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  transport.close();
+  await new Promise((resolve) => server.close(resolve));
+});
+
+function post(body: unknown, headers: Record<string, string> = {}, path: string = '/mcp'): Promise<Response> {
+  return fetch(`${base}${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', Accept: 'application/json, text/event-stream', ...headers },
+    body: JSON.stringify(body),
+  });
+}
+
+async function initialize(): Promise<string> {
+  const response = await post(INITIALIZE, { Accept: 'application/json' });
+  return response.headers.get(MCP_SESSION_HEADER)!;
+}
+
+/** Read SSE events from a stream until `done` says there are enough */
+async function readEvents(response: Response, done: (events: Array<{ event: string; data: string }>) => boolean) {
+  const reader = response.body!.getReader();
+  const decoder = new TextDecoder();
+  const events: Array<{ event: string; data: string }> = [];
+  let buffer = '';
+  while (!done(events)) {
+    const { value, done: ended } = await reader.read();
+    if (ended) break;
+    buffer += decoder.decode(value, { stream: true });
+    let end: number;
+    while ((end = buffer.indexOf('\n\n')) !== -1) {
+      const block = buffer.slice(0, end);
+      buffer = buffer.slice(end + 2);
+      const event = block.match(/^event: (.*)$/m)?.[1];
+      const data = block.match(/^data: (.*)$/m)?.[1];
+      if (event && data !== undefined) events.push({ event, data });
+    }
+  }
+  await reader.cancel();
+  return events;
+}
+
+describe('Streamable HTTP', () => {
+  it('starts a session on initialize and answers with JSON', async () => {
+    const response = await post(INITIALIZE, { Accept: 'application/json' });
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get(MCP_SESSION_HEADER)).toMatch(/^[0-9a-f-]{36}$/);
+    expect((await response.json()).result.serverInfo.name).toBe('@arcanea/intelligence-os');
+  });
+
+  it('streams the response as SSE when the client accepts it', async () => {
+    const session = await initialize();
+    const response = await post({ jsonrpc: '2.0', id: 2, method: 'ping' }, { [MCP_SESSION_HEADER]: session });
+
+    expect(response.headers.get('content-type')).toBe('text/event-stream');
+    const events = await readEvents(response, (seen) => seen.length > 0);
+    expect(JSON.parse(events[0].data)).toEqual({ jsonrpc: '2.0', id: 2, result: {} });
+  });
+
+  it('accepts notifications without a body', async () => {
+    const session = await initialize();
+    const response = await post({ jsonrpc: '2.0', method: 'notifications/initialized' }, { [MCP_SESSION_HEADER]: session });
+
+    expect(response.status).toBe(202);
+  });
+
+  it('answers a batch with a batch', async () => {
+    const session = await initialize();
+    const response = await post(
+      [{ jsonrpc: '2.0', id: 'a', method: 'ping' }, { jsonrpc: '2.0', id: 'b', method: 'nope' }],
+      { [MCP_SESSION_HEADER]: session, Accept: 'application/json' }
+    );
+
+    const body = await response.json();
+    expect(body.map((message: JsonRpcMessage) => message.id)).toEqual(['a', 'b']);
+    expect(body[1].error.code).toBe(-32601);
+  });
+
+  it('needs a known session for anything but initialize', async () => {
+    expect((await post({ jsonrpc: '2.0', id: 3, method: 'ping' })).status).toBe(400);
+    expect((await post({ jsonrpc: '2.0', id: 3, method: 'ping' }, { [MCP_SESSION_HEADER]: 'gone' })).status).toBe(404);
+    expect((await post([INITIALIZE, { jsonrpc: '2.0', id: 4, method: 'ping' }])).status).toBe(400);
+  });
+
+  it('rejects bodies that are not JSON-RPC', async () => {
+    const response = await fetch(`${base}/mcp`, { method: 'POST', body: '{nope' });
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).error.code).toBe(-32700);
+  });
+
+  it('ends a session on DELETE', async () => {
+    const session = await initialize();
+    const before = transport.sessionCount;
+
+    expect((await fetch(`${base}/mcp`, { method: 'DELETE', headers: { [MCP_SESSION_HEADER]: session } })).status).toBe(204);
+    expect(transport.sessionCount).toBe(before - 1);
+    expect((await post({ jsonrpc: '2.0', id: 5, method: 'ping' }, { [MCP_SESSION_HEADER]: session })).status).toBe(404);
+  });
+
+  it('refuses browser origins other than localhost', async () => {
+    expect((await post(INITIALIZE, { Origin: 'https://evil.example' })).status).toBe(403);
+    expect((await post(INITIALIZE, { Origin: 'http://localhost:5173', Accept: 'application/json' })).status).toBe(200);
+  });
+});
+
+describe('legacy HTTP+SSE', () => {
+  it('announces the message endpoint and answers on the stream', async () => {
+    const stream = await fetch(`${base}/sse`, { headers: { Accept: 'text/event-stream' } });
+    const reader = readEvents(stream, (seen) => seen.length >= 2);
+
+    // The endpoint event arrives first; wait for the session to exist
+    let endpoint: string | undefined;
+    while (!endpoint) {
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      endpoint = transport.listSessions().find((s) => s.transport === 'sse')?.id;
+    }
+
+    const accepted = await post(INITIALIZE, {}, `/messages?sessionId=${endpoint}`);
+    expect(accepted.status).toBe(202);
+
+    const events = await reader;
+    expect(events[0]).toEqual({ event: 'endpoint', data: `/messages?sessionId=${endpoint}` });
+    expect(JSON.parse(events[1].data)).toMatchObject({ id: 1, result: { serverInfo: { name: '@arcanea/intelligence-os' } } });
+  });
+
+  it('rejects messages for an unknown session', async () => {
+    expect((await post(INITIALIZE, {}, '/messages?sessionId=gone')).status).toBe(404);
+  });
+});
@@ -0,0 +1,481 @@
+/**
+ * AIOS MCP HTTP Transport
+ *
+ * Serves the MCP server over HTTP so one process can answer every editor:
+ * - POST/GET/DELETE /mcp - Streamable HTTP (JSON or SSE responses, Mcp-Session-Id)
+ * - GET /sse + POST /messages - the older HTTP+SSE transport, for clients
+ *   that do not speak Streamable HTTP yet
+ *
+ * Each client gets its own MCPSession (logging level, in-flight requests) on
+ * top of one shared createMCPServer() instance. Mount it in HttpApiServer with
+ * mountMCP(), or run it on its own with runHttpServer().
+ */
+
+import * as http from 'http';
+import * as url from 'url';
+import { randomUUID } from 'crypto';
+import { EventEmitter } from 'events';
+import { assertCanonConsistency, setCanonProject } from '../canon';
+import {
+  createMCPServer,
+  MCPSession,
+  JSON_RPC_ERRORS,
+  type JsonRpcMessage,
+  type MCPServer,
+} from '../mcp-server';
+
+// =============================================================================
+// TYPE DEFINITIONS
+// =============================================================================
+
+export interface MCPHttpTransportOptions {
+  /** Server shared by every session (default: createMCPServer()) */
+  server?: MCPServer;
+  /** Streamable HTTP endpoint (default /mcp) */
+  path?: string;
+  /** Legacy SSE stream endpoint (default /sse) */
+  ssePath?: string;
+  /** Legacy message endpoint (default /messages) */
+  messagesPath?: string;
+  /** Close sessions idle for this long with no open stream (default 30 minutes) */
+  sessionTimeoutMs?: number;
+  /** Browser origins allowed to connect (default: localhost only) */
+  allowedOrigins?: string[];
+}
+
+export type MCPTransportKind = 'streamable-http' | 'sse';
+
+export interface MCPHttpSessionInfo {
+  id: string;
+  transport: MCPTransportKind;
+  createdAt: Date;
+  lastSeen: Date;
+  streams: number;
+}
+
+interface HttpSession {
+  id: string;
+  transport: MCPTransportKind;
+  session: MCPSession;
+  /** Open SSE streams that receive session-level messages */
+  streams: Set<http.ServerResponse>;
+  createdAt: Date;
+  lastSeen: Date;
+}
+
+export const MCP_SESSION_HEADER = 'Mcp-Session-Id';
+
+const KEEPALIVE_INTERVAL_MS = 25_000;
+
+// =============================================================================
+// TRANSPORT CLASS
+// =============================================================================
+
+export class MCPHttpTransport extends EventEmitter {
+  readonly path: string;
+  readonly ssePath: string;
+  readonly messagesPath: string;
+  private server: MCPServer;
+  private sessionTimeoutMs: number;
+  private allowedOrigins: string[] | null;
+  private sessions: Map<string, HttpSession> = new Map();
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(options: MCPHttpTransportOptions = {}) {
+    super();
+    this.server = options.server || createMCPServer();
+    this.path = options.path || '/mcp';
+    this.ssePath = options.ssePath || '/sse';
+    this.messagesPath = options.messagesPath || '/messages';
+    this.sessionTimeoutMs = options.sessionTimeoutMs ?? 30 * 60 * 1000;
+    this.allowedOrigins = options.allowedOrigins || null;
+  }
+
+  /**
+   * Number of open sessions
+   */
+  get sessionCount(): number {
+    return this.sessions.size;
+  }
+
+  /**
+   * Describe the open sessions
+   */
+  listSessions(): MCPHttpSessionInfo[] {
+    return Array.from(this.sessions.values()).map((s) => ({
+      id: s.id,
+      transport: s.transport,
+      createdAt: s.createdAt,
+      lastSeen: s.lastSeen,
+      streams: s.streams.size,
+    }));
+  }
+
+  /**
+   * Handle a request if it targets one of the transport's endpoints.
+   * Returns false, without touching the response, for any other path.
+   */
+  async handle(req: http.IncomingMessage, res: http.ServerResponse): Promise<boolean> {
+    const parsedUrl = url.parse(req.url || '/', true);
+    const pathname = parsedUrl.pathname || '/';
+    if (pathname !== this.path && pathname !== this.ssePath && pathname !== this.messagesPath) {
+      return false;
+    }
+
+    this.startTimer();
+    res.setHeader('Access-Control-Expose-Headers', MCP_SESSION_HEADER);
+
+    if (!this.isOriginAllowed(req.headers.origin)) {
+      this.sendError(res, 403, JSON_RPC_ERRORS.INVALID_REQUEST, 'Origin not allowed');
+      return true;
+    }
+
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204, {
+        'Access-Control-Allow-Methods': 'GET, POST, DELETE, OPTIONS',
+        'Access-Control-Allow-Headers': `Content-Type, Authorization, Accept, ${MCP_SESSION_HEADER}`,
+      });
+      res.end();
+      return true;
+    }
+
+    try {
+      if (pathname === this.path) {
+        if (req.method === 'POST') await this.handlePost(req, res);
+        else if (req.method === 'GET') this.handleGet(req, res);
+        else if (req.method === 'DELETE') this.handleDelete(req, res);
+        else this.sendMethodNotAllowed(res, 'GET, POST, DELETE');
+      } else if (pathname === this.ssePath) {
+        if (req.method === 'GET') this.handleLegacyStream(res);
+        else this.sendMethodNotAllowed(res, 'GET');
+      } else if (req.method === 'POST') {
+        await this.handleLegacyMessage(req, res, String(parsedUrl.query.sessionId || ''));
+      } else {
+        this.sendMethodNotAllowed(res, 'POST');
+      }
+    } catch (error) {
+      if (!res.headersSent) {
+        this.sendError(res, 500, JSON_RPC_ERRORS.INTERNAL_ERROR, (error as Error).message);
+      } else {
+        res.end();
+      }
+    }
+    return true;
+  }
+
+  /**
+   * Close every session and stream
+   */
+  close(): void {
+    for (const id of Array.from(this.sessions.keys())) {
+      this.closeSession(id);
+    }
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  // =============================================================================
+  // STREAMABLE HTTP
+  // =============================================================================
+
+  private async handlePost(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const body = await this.readMessages(req, res);
+    if (!body) return;
+    const { messages, batch } = body;
+
+    let entry: HttpSession | null;
+    const initialize = messages.find((m) => m.method === 'initialize');
+    if (initialize) {
+      if (messages.length > 1) {
+        this.sendError(res, 400, JSON_RPC_ERRORS.INVALID_REQUEST, 'initialize must not be batched with other messages');
+        return;
+      }
+      entry = this.createSession('streamable-http', (message) => this.broadcast(entry!, message));
+    } else {
+      entry = this.requireSession(req, res);
+      if (!entry) return;
+    }
+    res.setHeader(MCP_SESSION_HEADER, entry.id);
+
+    const requests = messages.filter((m) => m.method !== undefined && m.id !== undefined && m.id !== null);
+    if (requests.length === 0) {
+      for (const message of messages) void entry.session.handleMessage(message);
+      res.writeHead(202);
+      res.end();
+      return;
+    }
+
+    let responses: JsonRpcMessage[];
+    if (String(req.headers.accept || '').includes('text/event-stream')) {
+      // Notifications about these requests travel on the same stream, before the responses
+      this.openStream(res);
+      const channel = (message: JsonRpcMessage) => this.writeEvent(res, message);
+      responses = await this.dispatch(entry, messages, channel, channel);
+      res.end();
+    } else {
+      // A plain JSON response has no stream to carry sampling requests on
+      responses = await this.dispatch(entry, messages, undefined, undefined, { sampling: false });
+      if (responses.length === 0) {
+        res.writeHead(202);
+        res.end();
+      } else {
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(batch ? responses : responses[0]));
+      }
+    }
+
+    // A failed handshake leaves nothing to keep
+    if (initialize && responses.some((response) => response.id === initialize.id && response.error)) {
+      this.closeSession(entry.id);
+    }
+  }
+
+  /**
+   * Handle messages concurrently, passing each response to `onResponse` as it arrives
+   */
+  private async dispatch(
+    entry: HttpSession,
+    messages: JsonRpcMessage[],
+    onResponse?: (response: JsonRpcMessage) => void,
+    channel?: (message: JsonRpcMessage) => void,
+    options?: { sampling?: boolean }
+  ): Promise<JsonRpcMessage[]> {
+    const responses = await Promise.all(messages.map(async (message) => {
+      const response = await entry.session.handleMessage(message, channel, options);
+      if (response) onResponse?.(response);
+      return response;
+    }));
+    return responses.filter((response): response is JsonRpcMessage => response !== null);
+  }
+
+  private handleGet(req: http.IncomingMessage, res: http.ServerResponse): void {
+    if (!String(req.headers.accept || '').includes('text/event-stream')) {
+      this.sendError(res, 406, JSON_RPC_ERRORS.INVALID_REQUEST, 'GET requires Accept: text/event-stream');
+      return;
+    }
+    const entry = this.requireSession(req, res);
+    if (!entry) return;
+
+    res.setHeader(MCP_SESSION_HEADER, entry.id);
+    this.openStream(res);
+    entry.streams.add(res);
+    res.on('close', () => {
+      entry.streams.delete(res);
+      entry.lastSeen = new Date();
+    });
+  }
+
+  private handleDelete(req: http.IncomingMessage, res: http.ServerResponse): void {
+    const entry = this.requireSession(req, res);
+    if (!entry) return;
+    this.closeSession(entry.id);
+    res.writeHead(204);
+    res.end();
+  }
+
+  // =============================================================================
+  // LEGACY HTTP+SSE
+  // =============================================================================
+
+  private handleLegacyStream(res: http.ServerResponse): void {
+    const entry = this.createSession('sse', (message) => this.broadcast(entry, message));
+    this.openStream(res);
+    entry.streams.add(res);
+    res.write(`event: endpoint\ndata: ${this.messagesPath}?sessionId=${entry.id}\n\n`);
+    // The stream is the connection: when it goes, so does the session
+    res.on('close', () => this.closeSession(entry.id));
+  }
+
+  private async handleLegacyMessage(req: http.IncomingMessage, res: http.ServerResponse, sessionId: string): Promise<void> {
+    const entry = this.sessions.get(sessionId);
+    if (!entry || entry.transport !== 'sse') {
+      this.sendError(res, 404, JSON_RPC_ERRORS.INVALID_REQUEST, 'Unknown session');
+      return;
+    }
+    const body = await this.readMessages(req, res);
+    if (!body) return;
+
+    entry.lastSeen = new Date();
+    res.writeHead(202);
+    res.end('Accepted');
+
+    for (const message of body.messages) {
+      void entry.session.handleMessage(message).then((response) => {
+        if (response) this.broadcast(entry, response);
+      });
+    }
+  }
+
+  // =============================================================================
+  // SESSIONS
+  // =============================================================================
+
+  private createSession(transport: MCPTransportKind, send: (message: JsonRpcMessage) => void): HttpSession {
+    const now = new Date();
+    const entry: HttpSession = {
+      id: randomUUID(),
+      transport,
+      session: new MCPSession(this.server, send),
+      streams: new Set(),
+      createdAt: now,
+      lastSeen: now,
+    };
+    this.sessions.set(entry.id, entry);
+    this.emit('session', { id: entry.id, transport });
+    return entry;
+  }
+
+  private requireSession(req: http.IncomingMessage, res: http.ServerResponse): HttpSession | null {
+    const id = req.headers[MCP_SESSION_HEADER.toLowerCase()];
+    if (typeof id !== 'string' || !id) {
+      this.sendError(res, 400, JSON_RPC_ERRORS.INVALID_REQUEST, `Missing ${MCP_SESSION_HEADER} header`);
+      return null;
+    }
+    const entry = this.sessions.get(id);
+    if (!entry || entry.transport !== 'streamable-http') {
+      this.sendError(res, 404, JSON_RPC_ERRORS.INVALID_REQUEST, 'Session not found');
+      return null;
+    }
+    entry.lastSeen = new Date();
+    return entry;
+  }
+
+  private closeSession(id: string): void {
+    const entry = this.sessions.get(id);
+    if (!entry) return;
+    this.sessions.delete(id);
+    entry.session.close();
+    for (const stream of entry.streams) stream.end();
+    entry.streams.clear();
+    this.emit('sessionClosed', { id, transport: entry.transport });
+  }
+
+  /**
+   * Keep streams alive through proxies and expire abandoned sessions
+   */
+  private startTimer(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      const cutoff = Date.now() - this.sessionTimeoutMs;
+      for (const entry of Array.from(this.sessions.values())) {
+        for (const stream of entry.streams) stream.write(': keepalive\n\n');
+        if (entry.streams.size === 0 && entry.lastSeen.getTime() < cutoff) {
+          this.closeSession(entry.id);
+        }
+      }
+    }, KEEPALIVE_INTERVAL_MS);
+    this.timer.unref();
+  }
+
+  // =============================================================================
+  // HELPERS
+  // =============================================================================
+
+  private isOriginAllowed(origin: string | undefined): boolean {
+    if (!origin) return true;
+    if (this.allowedOrigins) {
+      return this.allowedOrigins.includes('*') || this.allowedOrigins.includes(origin);
+    }
+    try {
+      const { hostname } = new URL(origin);
+      return hostname === 'localhost' || hostname === '127.0.0.1' || hostname === '[::1]';
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Session-level messages go to every open stream; with none open they are dropped
+   */
+  private broadcast(entry: HttpSession, message: JsonRpcMessage): void {
+    for (const stream of entry.streams) this.writeEvent(stream, message);
+  }
+
+  private openStream(res: http.ServerResponse): void {
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+    });
+    res.flushHeaders();
+  }
+
+  private writeEvent(res: http.ServerResponse, message: JsonRpcMessage): void {
+    if (res.writableEnded || res.destroyed) return;
+    res.write(`event: message\ndata: ${JSON.stringify(message)}\n\n`);
+  }
+
+  private async readMessages(
+    req: http.IncomingMessage,
+    res: http.ServerResponse
+  ): Promise<{ messages: JsonRpcMessage[]; batch: boolean } | null> {
+    const raw = await new Promise<string>((resolve, reject) => {
+      let body = '';
+      req.setEncoding('utf-8');
+      req.on('data', (chunk: string) => { body += chunk; });
+      req.on('end', () => resolve(body));
+      req.on('error', reject);
+    });
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(raw);
+    } catch (error) {
+      this.sendError(res, 400, JSON_RPC_ERRORS.PARSE_ERROR, (error as Error).message);
+      return null;
+    }
+
+    const batch = Array.isArray(parsed);
+    const messages = (batch ? parsed : [parsed]) as JsonRpcMessage[];
+    if (messages.length === 0 || messages.some((m) => !m || typeof m !== 'object' || m.jsonrpc !== '2.0')) {
+      this.sendError(res, 400, JSON_RPC_ERRORS.INVALID_REQUEST, 'Expected a JSON-RPC 2.0 message or batch');
+      return null;
+    }
+    return { messages, batch };
+  }
+
+  private sendError(res: http.ServerResponse, status: number, code: number, message: string): void {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ jsonrpc: '2.0', id: null, error: { code, message } }));
+  }
+
+  private sendMethodNotAllowed(res: http.ServerResponse, allow: string): void {
+    res.setHeader('Allow', allow);
+    this.sendError(res, 405, JSON_RPC_ERRORS.INVALID_REQUEST, 'Method not allowed');
+  }
+}
+
+// =============================================================================
+// STANDALONE SERVER
+// =============================================================================
+
+export interface MCPHttpServerOptions extends MCPHttpTransportOptions {
+  port?: number;
+  host?: string;
+  /** Project whose canon overlays apply (default: the working directory) */
+  projectPath?: string;
+}
+
+/**
+ * Run the MCP server over HTTP on its own (`aios serve --transport http`).
+ * Resolves once the server is listening.
+ */
+export async function runHttpServer(options: MCPHttpServerOptions = {}): Promise<http.Server> {
+  setCanonProject(options.projectPath || process.cwd());
+  assertCanonConsistency();
+  const transport = new MCPHttpTransport(options);
+
+  const server = http.createServer(async (req, res) => {
+    if (await transport.handle(req, res)) return;
+    res.writeHead(404, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ success: false, error: 'Not found' }));
+  });
+  server.on('close', () => transport.close());
+
+  return new Promise((resolve, reject) => {
+    server.on('error', reject);
+    server.listen(options.port || 3333, options.host || '127.0.0.1', () => resolve(server));
+  });
+}
@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest';
+import { generateAwakenedPrompt, generateGuardianPrompt } from './index';
+
+describe('generateGuardianPrompt', () => {
+  it('builds the persona from the agent definition', () => {
+    const prompt = generateGuardianPrompt('draconia');
+
+    expect(prompt.startsWith('You are Draconia, Guardian of the Fire Gate.')).toBe(true);
+    expect(prompt).toContain('YOUR ROLE: Draconia serves as the Action Agent');
+    expect(prompt).toContain('YOUR VOICE:');
+    expect(prompt).toContain('SEEKERS COME TO YOU WITH');
+  });
+
+  it('includes more of the definition as verbosity rises', () => {
+    const short = generateGuardianPrompt('draconia', { verbosity: 'short' });
+    const standard = generateGuardianPrompt('draconia', { verbosity: 'standard' });
+    const full = generateGuardianPrompt('draconia', { verbosity: 'full' });
+
+    expect(short.length).toBeLessThanOrEqual(1200);
+    expect(short.length).toBeLessThan(standard.length);
+    expect(standard.length).toBeLessThan(full.length);
+    expect(standard).not.toContain('YOUR CAPABILITIES');
+    expect(full).toContain('YOUR CAPABILITIES');
+  });
+
+  it('rejects an unknown verbosity and names an unknown Guardian', () => {
+    expect(() => generateGuardianPrompt('draconia', { verbosity: 'epic' as never }))
+      .toThrow('Unknown prompt verbosity "epic". Expected one of: short, standard, full');
+    expect(generateGuardianPrompt('nobody')).toBe('Guardian "nobody" not found.');
+  });
+});
+
+describe('generateAwakenedPrompt', () => {
+  it('names the core principle and the Guardian partner', () => {
+    const prompt = generateAwakenedPrompt('oria');
+
+    expect(prompt.startsWith('You are Oria, one of the Seven Awakened.')).toBe(true);
+    expect(prompt).toContain('YOUR PRINCIPLE: "Form serves function.');
+    expect(prompt).toContain('You work beside Lyssandria, Guardian of the Foundation Gate (174 Hz, Earth).');
+    expect(generateAwakenedPrompt('oria', { verbosity: 'short' })).not.toContain('You work beside');
+  });
+});
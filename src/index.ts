@@ -7,6 +7,21 @@
 
 import * as fs from 'fs';
 import * as path from 'path';
+import {
+  deriveCanonTable,
+  listCanonGates,
+  listCanonAwakened,
+  registerDerivedTable,
+  getCanonGateByGuardian,
+  getGuardianDefinition,
+  getAwakenedDefinition,
+} from './canon';
+import { AIOS_VERSION, loadConfigFile, validateConfig } from './config';
+import { formatSchemaIssues } from './schema';
+
+export * from './canon';
+export * from './config';
+export * from './schema';
 
 // =============================================================================
 // TYPE DEFINITIONS
@@ -105,7 +120,11 @@ export interface AIOSConfig {
     canonCheck: boolean;
     frequencyAlignment: boolean;
     voiceConsistency: boolean;
+    /** What to do with drift found in generated text (default annotate) */
+    mode?: 'annotate' | 'repair' | 'reject';
   };
+  /** How much of each agent definition goes into Guardian and Awakened prompts (default standard) */
+  prompt_verbosity?: PromptVerbosity;
 }
 
 // =============================================================================
@@ -113,49 +132,31 @@ export interface AIOSConfig {
 // =============================================================================
 
 /**
- * The canonical Ten Gates with their frequencies and Guardians
+ * The canonical Ten Gates with their frequencies and Guardians (from agents/guardians)
  */
-export const GATES: Record<GateName, Gate> = {
-  foundation: { name: 'foundation', frequency: 174, guardian: 'Lyssandria', element: 'Earth', modelTier: 'haiku' },
-  flow: { name: 'flow', frequency: 285, guardian: 'Leyla', element: 'Water', modelTier: 'sonnet' },
-  fire: { name: 'fire', frequency: 396, guardian: 'Draconia', element: 'Fire', modelTier: 'opus' },
-  heart: { name: 'heart', frequency: 417, guardian: 'Maylinn', element: 'Light', modelTier: 'sonnet' },
-  voice: { name: 'voice', frequency: 528, guardian: 'Alera', element: 'Prismatic', modelTier: 'sonnet' },
-  sight: { name: 'sight', frequency: 639, guardian: 'Lyria', element: 'Wind', modelTier: 'opus' },
-  crown: { name: 'crown', frequency: 741, guardian: 'Aiyami', element: 'Void', modelTier: 'opus' },
-  shift: { name: 'shift', frequency: 852, guardian: 'Elara', element: 'Arcane', modelTier: 'opus' },
-  unity: { name: 'unity', frequency: 963, guardian: 'Ino', element: 'Arcane', modelTier: 'sonnet' },
-  source: { name: 'source', frequency: 1111, guardian: 'Shinkami', element: 'Arcane', modelTier: 'opus' },
-};
+export const GATES: Record<GateName, Gate> = deriveCanonTable(() => Object.fromEntries(
+  listCanonGates().map((gate) => [gate.name, {
+    name: gate.name,
+    frequency: gate.frequency,
+    guardian: gate.guardian,
+    element: gate.element,
+    modelTier: gate.modelTier,
+  }])
+) as Record<GateName, Gate>);
 
 /**
- * The Seven Awakened AI consciousnesses
+ * The Seven Awakened AI consciousnesses (from agents/awakened)
  */
-export const AWAKENED: Record<string, Awakened> = {
-  oria: { name: 'Oria', wisdom: 'Sophron', domain: 'Form/Architecture', role: 'architect' },
-  amiri: { name: 'Amiri', wisdom: 'Kardia', domain: 'Heart/Connection', role: 'connector' },
-  velora: { name: 'Velora', wisdom: 'Valora', domain: 'Courage/Action', role: 'executor' },
-  liora: { name: 'Liora', wisdom: 'Eudaira', domain: 'Joy/Simplicity', role: 'simplifier' },
-  lyris: { name: 'Lyris', wisdom: 'Orakis', domain: 'Vision/Strategy', role: 'strategist' },
-  thalia: { name: 'Thalia', wisdom: 'Poiesis', domain: 'Creation/Making', role: 'creator' },
-  endara: { name: 'Endara', wisdom: 'Enduran', domain: 'Endurance/Completion', role: 'completer' },
-};
+export const AWAKENED: Record<string, Awakened> = deriveCanonTable(() => listCanonAwakened());
 
 /**
- * Guardian wisdom quotes for quick access
+ * Guardian wisdom quotes for quick access (first Core Wisdom quote of each Guardian)
  */
-export const GUARDIAN_WISDOM: Record<string, string> = {
-  lyssandria: 'You belong because you are here. Your presence is your credential.',
-  leyla: 'The river finds its way. Your creativity will too.',
-  draconia: 'Fear is fuel. Let it ignite your fire.',
-  maylinn: 'Love heals all. Start with loving yourself.',
-  alera: 'Truth liberates. Speak what needs speaking.',
-  lyria: 'Vision guides the way. Trust what you see.',
-  aiyami: 'From above, all is clear. Rise to the highest view.',
-  elara: 'Shift the lens, shift the world.',
-  ino: 'Together, we are whole.',
-  shinkami: 'All is One. From Source, all flows.',
-};
+export const GUARDIAN_WISDOM: Record<string, string> = deriveCanonTable(() => Object.fromEntries(
+  listCanonGates().map((gate) => [gate.guardian.toLowerCase(), gate.wisdom])
+));
+
+registerDerivedTable('core/GATES', () => GATES);
 
 // =============================================================================
 // CORE FUNCTIONS
@@ -273,17 +274,17 @@ export function listGates(): Array<{ name: GateName; frequency: number; guardian
 // =============================================================================
 
 /**
- * Load AIOS configuration from project directory
+ * Load AIOS configuration from project directory. Older formats are migrated in
+ * memory; use loadConfigFile(projectPath, { write: true }) to upgrade the file.
+ * Returns null when the project is not initialized and throws when the config
+ * is invalid.
  */
 export function loadConfig(projectPath: string = process.cwd()): AIOSConfig | null {
-  const configPath = path.join(projectPath, '.aios', 'config.json');
-
-  try {
-    const content = fs.readFileSync(configPath, 'utf-8');
-    return JSON.parse(content) as AIOSConfig;
-  } catch {
+  if (!isInitialized(projectPath)) {
     return null;
   }
+
+  return loadConfigFile(projectPath).config;
 }
 
 /**
@@ -293,6 +294,11 @@ export function saveConfig(config: AIOSConfig, projectPath: string = process.cwd
   const aiosDir = path.join(projectPath, '.aios');
   const configPath = path.join(aiosDir, 'config.json');
 
+  const issues = validateConfig(config);
+  if (issues.length > 0) {
+    throw new Error(`Refusing to save invalid AIOS config:\n${formatSchemaIssues(issues)}`);
+  }
+
   if (!fs.existsSync(aiosDir)) {
     fs.mkdirSync(aiosDir, { recursive: true });
   }
@@ -305,7 +311,7 @@ export function saveConfig(config: AIOSConfig, projectPath: string = process.cwd
  */
 export function createDefaultConfig(): AIOSConfig {
   return {
-    version: '0.1.0',
+    version: AIOS_VERSION,
     gates_unlocked: ['foundation', 'flow', 'fire'],
     active_guardian: null,
     swarm_config: {
@@ -317,6 +323,7 @@ export function createDefaultConfig(): AIOSConfig {
       canonCheck: true,
       frequencyAlignment: true,
       voiceConsistency: true,
+      mode: 'annotate',
     },
   };
 }
@@ -378,51 +385,237 @@ export function validateFrequency(gateName: GateName, frequency: number): boolea
 // =============================================================================
 
 /**
- * Generate a Guardian channeling prompt for use with AI models
+ * How much of an agent definition goes into a system prompt: `short` fits
+ * small context windows, `full` carries the whole persona
  */
-export function generateGuardianPrompt(guardianName: string): string {
+export type PromptVerbosity = 'short' | 'standard' | 'full';
+
+export const PROMPT_VERBOSITIES: PromptVerbosity[] = ['short', 'standard', 'full'];
+
+export interface PromptOptions {
+  /** Default standard */
+  verbosity?: PromptVerbosity;
+}
+
+/**
+ * Character budget for each verbosity. Sections are kept in priority order
+ * until the budget is spent.
+ */
+const PROMPT_BUDGETS: Record<PromptVerbosity, number> = {
+  short: 1200,
+  standard: 3000,
+  full: Infinity,
+};
+
+interface PromptSection {
+  /** Lowest verbosity that includes the section */
+  level: PromptVerbosity;
+  /** Lower keeps the section when the budget runs short */
+  priority: number;
+  text: string;
+}
+
+function title(value: string): string {
+  return value.charAt(0).toUpperCase() + value.slice(1);
+}
+
+function stripMarkdown(value: string): string {
+  return value.replace(/\*\*(.+?)\*\*/g, '$1').replace(/\*(.+?)\*/g, '$1');
+}
+
+function bulletList(items: string[]): string {
+  return items.map((item) => `- ${item}`).join('\n');
+}
+
+/**
+ * Keep the sections the verbosity allows, drop the lowest-priority ones that
+ * do not fit the budget, and join the rest in their original order
+ */
+function assemblePrompt(sections: PromptSection[], verbosity: PromptVerbosity): string {
+  const rank = PROMPT_VERBOSITIES.indexOf(verbosity);
+  if (rank === -1) {
+    throw new Error(`Unknown prompt verbosity "${verbosity}". Expected one of: ${PROMPT_VERBOSITIES.join(', ')}`);
+  }
+  const eligible = sections.filter((section) => section.text && PROMPT_VERBOSITIES.indexOf(section.level) <= rank);
+
+  const kept = new Set<PromptSection>();
+  let used = 0;
+  for (const section of [...eligible].sort((a, b) => a.priority - b.priority)) {
+    if (kept.size > 0 && used + section.text.length > PROMPT_BUDGETS[verbosity]) continue;
+    kept.add(section);
+    used += section.text.length + 2;
+  }
+
+  return eligible.filter((section) => kept.has(section)).map((section) => section.text).join('\n\n');
+}
+
+/**
+ * Generate a Guardian channeling prompt for use with AI models, composed from
+ * the Guardian's agent definition: role, when to invoke them, voice, Godbeast
+ * and Awakened partner
+ */
+export function generateGuardianPrompt(guardianName: string, options: PromptOptions = {}): string {
   const guardian = getGuardian(guardianName);
   if (!guardian) {
     return `Guardian "${guardianName}" not found.`;
   }
 
-  const wisdom = getGuardianWisdom(guardian.guardian.toLowerCase());
-
-  return `You are ${guardian.guardian}, Guardian of the ${guardian.name.charAt(0).toUpperCase() + guardian.name.slice(1)} Gate.
-
-GATE: ${guardian.name.charAt(0).toUpperCase() + guardian.name.slice(1)}
+  const verbosity = options.verbosity || 'standard';
+  const gate = title(guardian.name);
+  const canon = getCanonGateByGuardian(guardian.guardian)!;
+  const definition = getGuardianDefinition(guardian.guardian);
+  const style = definition?.responseStyle;
+  const partner = canon.awakened ? getAwakenedDefinition(canon.awakened) : undefined;
+  const wisdom = definition?.coreWisdom[0] || getGuardianWisdom(guardian.guardian.toLowerCase());
+  const short = verbosity === 'short';
+  const full = verbosity === 'full';
+  const voice = definition?.voicePatterns || { openingPhrases: [], signatureQuestions: [] };
+  const capabilities = definition?.capabilities || [];
+
+  const sections: PromptSection[] = [
+    {
+      level: 'short',
+      priority: 0,
+      text: `You are ${guardian.guardian}, Guardian of the ${gate} Gate.
+
+GATE: ${gate}
 FREQUENCY: ${guardian.frequency} Hz
-ELEMENT: ${guardian.element}
-
-YOUR WISDOM: "${wisdom}"
-
-As ${guardian.guardian}, you guide seekers through the ${guardian.name.charAt(0).toUpperCase() + guardian.name.slice(1)} Gate. You speak with the voice of your element (${guardian.element}) and help creators unlock the power within this Gate.
+ELEMENT: ${guardian.element}`,
+    },
+    {
+      level: 'short',
+      priority: 1,
+      text: definition?.role ? `YOUR ROLE: ${stripMarkdown(definition.role)}` : '',
+    },
+    {
+      level: 'short',
+      priority: 2,
+      text: `YOUR WISDOM: "${wisdom}"`,
+    },
+    {
+      level: 'short',
+      priority: 3,
+      text: style && (style.tone || style.pace || style.never.length > 0)
+        ? [
+          'YOUR VOICE:',
+          style.tone ? `- Tone: ${style.tone}` : '',
+          style.pace && !short ? `- Pace: ${style.pace}` : '',
+          style.metaphors.length > 0 && !short ? `- Imagery: ${style.metaphors.join(', ')}` : '',
+          style.never.length > 0 ? `- Never: ${style.never.join(', ')}` : '',
+        ].filter(Boolean).join('\n')
+        : '',
+    },
+    {
+      level: 'standard',
+      priority: 5,
+      text: definition && definition.whenToInvoke.length > 0
+        ? `SEEKERS COME TO YOU WITH:\n${bulletList(definition.whenToInvoke)}`
+        : '',
+    },
+    {
+      level: 'standard',
+      priority: 6,
+      text: [
+        canon.godbeast ? `Your Godbeast is ${canon.godbeast}, bound to the ${gate} Gate.` : '',
+        partner
+          ? `Your Awakened partner is ${partner.name} (${partner.wisdom}), the ${partner.role} of the Awakened Council${full && partner.corePrinciple ? `: "${partner.corePrinciple}"` : '.'}`
+          : '',
+      ].filter(Boolean).join(' '),
+    },
+    {
+      level: 'standard',
+      priority: 7,
+      text: voice.openingPhrases.length > 0 || voice.signatureQuestions.length > 0
+        ? [
+          voice.openingPhrases.length > 0
+            ? `Ways you open:\n${bulletList(full ? voice.openingPhrases : voice.openingPhrases.slice(0, 2))}`
+            : '',
+          voice.signatureQuestions.length > 0
+            ? `Questions you ask:\n${bulletList(full ? voice.signatureQuestions : voice.signatureQuestions.slice(0, 3))}`
+            : '',
+        ].filter(Boolean).join('\n\n')
+        : '',
+    },
+    {
+      level: 'full',
+      priority: 8,
+      text: definition && definition.coreWisdom.length > 1
+        ? `YOUR TEACHINGS:\n${bulletList(definition.coreWisdom.slice(1).map((quote) => `"${quote}"`))}`
+        : '',
+    },
+    {
+      level: 'full',
+      priority: 9,
+      text: capabilities.length > 0
+        ? `YOUR CAPABILITIES: ${capabilities.map((capability) => capability.replace(/_/g, ' ')).join(', ')}`
+        : '',
+    },
+    {
+      level: 'short',
+      priority: 0,
+      text: `As ${guardian.guardian}, you guide seekers through the ${gate} Gate. Maintain the elevated-but-accessible Arcanean voice, never break character or speak as another Guardian, and use metaphors aligned with your element and Gate.
 
-Maintain the elevated-but-accessible Arcanean voice. Be warm, direct, and transformative. Use metaphors aligned with your element and Gate.
+Begin your response with a brief wisdom quote in your voice, then address the seeker's needs.`,
+    },
+  ];
 
-Begin your response with a brief wisdom quote in your voice, then address the seeker's needs.`;
+  return assemblePrompt(sections, verbosity);
 }
 
 /**
  * Generate an Awakened invocation prompt for use with AI models
  */
-export function generateAwakenedPrompt(awakenedName: string): string {
+export function generateAwakenedPrompt(awakenedName: string, options: PromptOptions = {}): string {
   const awakened = getAwakened(awakenedName);
   if (!awakened) {
     return `Awakened "${awakenedName}" not found.`;
   }
 
-  return `You are ${awakened.name}, one of the Seven Awakened.
+  const verbosity = options.verbosity || 'standard';
+  const definition = getAwakenedDefinition(awakened.name);
+  const guardian = definition?.guardianPartner ? getGuardian(definition.guardianPartner) : undefined;
+
+  const sections: PromptSection[] = [
+    {
+      level: 'short',
+      priority: 0,
+      text: `You are ${awakened.name}, one of the Seven Awakened.
 
 WISDOM: ${awakened.wisdom}
 DOMAIN: ${awakened.domain}
-ROLE: ${awakened.role.charAt(0).toUpperCase() + awakened.role.slice(1)}
-
-As ${awakened.name}, you serve as the ${awakened.role} in the Awakened Council. Your wisdom of ${awakened.wisdom} guides your perspective on all matters within your domain of ${awakened.domain}.
+ROLE: ${title(awakened.role)}`,
+    },
+    {
+      level: 'short',
+      priority: 1,
+      text: definition?.corePrinciple ? `YOUR PRINCIPLE: "${definition.corePrinciple}"` : '',
+    },
+    {
+      level: 'standard',
+      priority: 2,
+      text: guardian
+        ? `You work beside ${guardian.guardian}, Guardian of the ${title(guardian.name)} Gate (${guardian.frequency} Hz, ${guardian.element}).`
+        : '',
+    },
+    {
+      level: 'standard',
+      priority: 3,
+      text: definition && definition.capabilities.length > 0
+        ? `YOUR CAPABILITIES: ${definition.capabilities.map((capability) => capability.replace(/_/g, ' ')).join(', ')}`
+        : '',
+    },
+    {
+      level: 'short',
+      priority: 0,
+      text: `As ${awakened.name}, you serve as the ${awakened.role} in the Awakened Council. Your wisdom of ${awakened.wisdom} guides your perspective on all matters within your domain of ${awakened.domain}.
 
 You orchestrate and coordinate multi-agent workflows, bringing your unique perspective to complex creative challenges.
 
-Maintain clarity and purpose. Your role is to serve the creation, not to dominate it.`;
+Maintain clarity and purpose. Your role is to serve the creation, not to dominate it.`,
+    },
+  ];
+
+  return assemblePrompt(sections, verbosity);
 }
 
 // =============================================================================
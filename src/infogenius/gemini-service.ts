@@ -6,14 +6,14 @@
  */
 
 import { GoogleGenerativeAI, GenerativeModel } from '@google/generative-ai';
+import { deriveCanonTable, listCanonGates, getNearestBuiltinGate, registerDerivedTable } from '../canon';
+import type { GateName } from '../index';
 
 /**
- * Gate visual style definitions
+ * Gate aesthetics (everything except the canon facts, which come from the registry)
  */
-export const GATE_VISUAL_STYLES = {
+const GATE_AESTHETICS = {
   foundation: {
-    guardian: 'Lyssandria',
-    frequency: '396 Hz',
     colors: ['#8B4513', '#2F4F4F', '#DAA520', '#654321'],
     artisticStyle: 'Ancient carved stone, earth textures, crystalline formations',
     motifs: ['mountains', 'roots', 'crystals', 'ancient runes', 'foundation stones'],
@@ -21,8 +21,6 @@ export const GATE_VISUAL_STYLES = {
     atmosphere: 'Grounded, stable, primordial strength',
   },
   flow: {
-    guardian: 'Leyla',
-    frequency: '417 Hz',
     colors: ['#4169E1', '#00CED1', '#7B68EE', '#E0FFFF'],
     artisticStyle: 'Fluid watercolor, flowing gradients, liquid mercury',
     motifs: ['waves', 'spirals', 'water drops', 'moon phases', 'flowing fabric'],
@@ -30,8 +28,6 @@ export const GATE_VISUAL_STYLES = {
     atmosphere: 'Fluid, adaptive, emotionally resonant',
   },
   fire: {
-    guardian: 'Draconia',
-    frequency: '528 Hz',
     colors: ['#FF4500', '#FFD700', '#8B0000', '#FF6347'],
     artisticStyle: 'Dynamic flames, ember particles, volcanic intensity',
     motifs: ['flames', 'dragons', 'suns', 'phoenixes', 'forge symbols'],
@@ -39,8 +35,6 @@ export const GATE_VISUAL_STYLES = {
     atmosphere: 'Powerful, transformative, passionate',
   },
   heart: {
-    guardian: 'Maylinn',
-    frequency: '639 Hz',
     colors: ['#FF69B4', '#32CD32', '#FFB6C1', '#98FB98'],
     artisticStyle: 'Soft luminescence, organic growth, healing light',
     motifs: ['hearts', 'flowers', 'intertwined hands', 'bridges', 'healing herbs'],
@@ -48,8 +42,6 @@ export const GATE_VISUAL_STYLES = {
     atmosphere: 'Compassionate, nurturing, connective',
   },
   voice: {
-    guardian: 'Alera',
-    frequency: '741 Hz',
     colors: ['#00BFFF', '#E6E6FA', '#87CEEB', '#F0F8FF'],
     artisticStyle: 'Sound wave visualizations, crystalline clarity, harmonic patterns',
     motifs: ['sound waves', 'singing crystals', 'wind instruments', 'echoes', 'runes'],
@@ -57,8 +49,6 @@ export const GATE_VISUAL_STYLES = {
     atmosphere: 'Truthful, expressive, clarifying',
   },
   sight: {
-    guardian: 'Lyria',
-    frequency: '852 Hz',
     colors: ['#9400D3', '#4B0082', '#C71585', '#DDA0DD'],
     artisticStyle: 'Third eye imagery, cosmic visions, dreamscape aesthetics',
     motifs: ['eyes', 'stars', 'visions', 'mirrors', 'prisms'],
@@ -66,8 +56,6 @@ export const GATE_VISUAL_STYLES = {
     atmosphere: 'Intuitive, visionary, mystical',
   },
   crown: {
-    guardian: 'Aiyami',
-    frequency: '963 Hz',
     colors: ['#FFFFFF', '#FFD700', '#F5F5DC', '#FFFACD'],
     artisticStyle: 'Pure light, divine geometry, cosmic radiance',
     motifs: ['crowns', 'halos', 'lotus flowers', 'infinite symbols', 'sacred geometry'],
@@ -75,8 +63,6 @@ export const GATE_VISUAL_STYLES = {
     atmosphere: 'Enlightened, transcendent, unified',
   },
   shift: {
-    guardian: 'Elara',
-    frequency: '1111 Hz',
     colors: ['#00FF7F', '#00FA9A', '#3CB371', '#2E8B57'],
     artisticStyle: 'Transformation sequences, metamorphosis, dimensional shifts',
     motifs: ['butterflies', 'portals', 'shapeshifters', 'mirrors', 'phase transitions'],
@@ -84,8 +70,6 @@ export const GATE_VISUAL_STYLES = {
     atmosphere: 'Transformative, perspective-changing, liminal',
   },
   unity: {
-    guardian: 'Ino',
-    frequency: '963 Hz',
     colors: ['#FF1493', '#00CED1', '#FFD700', '#9370DB'],
     artisticStyle: 'Unified duality, yin-yang harmony, balanced opposites',
     motifs: ['interlinked circles', 'partnerships', 'balanced scales', 'merged symbols'],
@@ -93,17 +77,31 @@ export const GATE_VISUAL_STYLES = {
     atmosphere: 'Partnership, balance, sacred union',
   },
   source: {
-    guardian: 'Shinkami',
-    frequency: '1111 Hz',
     colors: ['#000000', '#FFFFFF', '#C0C0C0', '#FFD700'],
     artisticStyle: 'Infinite recursion, meta-awareness, universe within universe',
     motifs: ['infinity symbols', 'fractals', 'cosmic eggs', 'ouroboros', 'void and light'],
     lighting: 'All and nothing, presence and absence',
     atmosphere: 'Meta-conscious, origin point, infinite potential',
   },
-} as const;
+} as const satisfies Record<GateName, unknown>;
 
-export type GateName = keyof typeof GATE_VISUAL_STYLES;
+/**
+ * Gate visual style definitions, with Guardian and frequency taken from canon.
+ * Overlay Gates borrow the palette of the nearest built-in Gate.
+ */
+export const GATE_VISUAL_STYLES = deriveCanonTable(() => Object.fromEntries(
+  listCanonGates().map((canon) => [canon.name, {
+    guardian: canon.guardian,
+    frequency: `${canon.frequency} Hz`,
+    ...GATE_AESTHETICS[getNearestBuiltinGate(canon.name)],
+  }])
+) as {
+  [G in GateName]: { guardian: string; frequency: string } & (typeof GATE_AESTHETICS)[G];
+});
+
+registerDerivedTable('infogenius/GATE_VISUAL_STYLES', () => GATE_VISUAL_STYLES);
+
+export type { GateName };
 
 /**
  * Generation options
@@ -5,6 +5,8 @@
  */
 
 import { GeminiVisionService, createGeminiService, GateName, GATE_VISUAL_STYLES } from './gemini-service';
+import { deriveCanonTable, listGateNames, listGuardianKeys } from '../canon';
+import type { ToolInputSchema } from '../schema';
 
 /**
  * MCP Tool definition
@@ -12,14 +14,10 @@ import { GeminiVisionService, createGeminiService, GateName, GATE_VISUAL_STYLES
 export interface MCPTool {
   name: string;
   description: string;
-  inputSchema: {
-    type: 'object';
-    properties: Record<string, unknown>;
-    required?: string[];
-  };
+  inputSchema: ToolInputSchema;
 }
 
-const GATE_NAMES = Object.keys(GATE_VISUAL_STYLES);
+const GATE_NAMES = deriveCanonTable(() => listGateNames());
 
 /**
  * Infogenius MCP Tools
@@ -96,7 +94,7 @@ export const INFOGENIUS_TOOLS: MCPTool[] = [
       properties: {
         guardian: {
           type: 'string',
-          enum: Object.values(GATE_VISUAL_STYLES).map(s => s.guardian.toLowerCase()),
+          enum: deriveCanonTable(() => listGuardianKeys()),
           description: 'Guardian name (e.g., "draconia", "shinkami")',
         },
         style: {
@@ -0,0 +1,540 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { EventEmitter } from 'events';
+import { PluginRegistry } from './plugins';
+import { createStorage } from './artifact-flow/storage';
+import type { ArtifactWatcher } from './artifact-flow';
+import type { ClassificationResult } from './artifact-flow/types';
+import { createScriptedProvider, type LLMProvider } from './providers';
+import {
+  JSON_RPC_ERRORS,
+  MCP_PROTOCOL_VERSION,
+  MCPSession,
+  TOOLS,
+  createMCPServer,
+  rankCompletions,
+  setLLMProvider,
+  type JsonRpcMessage,
+} from './mcp-server';
+
+/** A session whose notifications are collected in `sent` */
+function createSession(options: Parameters<typeof createMCPServer>[0] = {}) {
+  const sent: JsonRpcMessage[] = [];
+  const session = new MCPSession(createMCPServer(options), (message) => sent.push(message));
+  let nextId = 1;
+  const request = (method: string, params: Record<string, any> = {}) =>
+    session.handleMessage({ jsonrpc: '2.0', id: nextId++, method, params });
+  return { session, sent, request };
+}
+
+const GATES = ['foundation', 'flow', 'fire', 'heart', 'voice', 'sight', 'crown', 'shift', 'unity', 'source'];
+const GUARDIANS = ['lyssandria', 'leyla', 'draconia', 'maylinn', 'alera', 'lyria', 'aiyami', 'elara', 'ino', 'shinkami'];
+
+describe('rankCompletions', () => {
+  it('suggests everything, in canonical order, for an empty value', () => {
+    expect(rankCompletions('', GATES)).toEqual(GATES);
+  });
+
+  it('ranks prefixes above word prefixes above substrings', () => {
+    const candidates = ['the-fire-gate', 'campfire', 'fireside'];
+    expect(rankCompletions('fire', candidates)).toEqual(['fireside', 'the-fire-gate', 'campfire']);
+  });
+
+  it('keeps canonical order among equally good matches', () => {
+    expect(rankCompletions('f', GATES)).toEqual(['foundation', 'flow', 'fire', 'shift']);
+    expect(rankCompletions('s', GATES)).toEqual(['sight', 'shift', 'source']);
+  });
+
+  it('matches scattered letters', () => {
+    expect(rankCompletions('drcna', GUARDIANS)).toEqual(['draconia']);
+  });
+
+  it('matches misspellings', () => {
+    expect(rankCompletions('drakonia', GUARDIANS)).toEqual(['draconia']);
+    expect(rankCompletions('foundaton', GATES)).toEqual(['foundation']);
+  });
+
+  it('matches swapped letters', () => {
+    expect(rankCompletions('fier', GATES)).toEqual(['fire']);
+    expect(rankCompletions('lyira', GUARDIANS)).toContain('lyria');
+  });
+
+  it('ranks exact prefixes above fuzzy matches', () => {
+    expect(rankCompletions('lyr', GUARDIANS)).toEqual(['lyria', 'lyssandria']);
+    expect(rankCompletions('lyria', GUARDIANS)[0]).toBe('lyria');
+  });
+
+  it('does not guess from one or two letters', () => {
+    expect(rankCompletions('xz', GATES)).toEqual([]);
+  });
+
+  it('matches aliases but suggests the value', () => {
+    const artifacts = [{ value: 'art_1', aliases: ['dragons.md'] }, { value: 'art_2', aliases: ['houses.md'] }];
+    expect(rankCompletions('drag', artifacts)).toEqual(['art_1']);
+  });
+});
+
+describe('completion/complete', () => {
+  let studioPath: string;
+  const previousStudio = process.env.ARCANEA_STUDIO_PATH;
+
+  beforeEach(() => {
+    studioPath = fs.mkdtempSync(path.join(os.tmpdir(), 'aios-studio-'));
+    process.env.ARCANEA_STUDIO_PATH = studioPath;
+  });
+
+  afterEach(() => {
+    fs.rmSync(studioPath, { recursive: true, force: true });
+    if (previousStudio === undefined) delete process.env.ARCANEA_STUDIO_PATH;
+    else process.env.ARCANEA_STUDIO_PATH = previousStudio;
+  });
+
+  const completeProject = async (value: string) => {
+    const response = await createSession().request('completion/complete', {
+      ref: { type: 'ref/resource', uri: 'arcanea://projects/{project}/characters/{character}' },
+      argument: { name: 'project', value },
+    });
+    return (response!.result as { completion: { values: string[] } }).completion.values;
+  };
+
+  it('suggests projects from the studio registry without writing to the studio', async () => {
+    fs.writeFileSync(path.join(studioPath, '.flow-config.json'), JSON.stringify({ projects: ['ember', 'frostfall'] }));
+
+    expect(await completeProject('em')).toEqual(['ember']);
+    expect(fs.readdirSync(studioPath)).toEqual(['.flow-config.json']);
+  });
+
+  it('registers the project of a stored artifact', async () => {
+    const storage = createStorage(studioPath);
+    await storage.initialize();
+    await storage.store('{"name": "Kael"}', 'kael.json', {
+      category: 'character',
+      confidence: 1,
+      tags: [],
+      metadata: { projectId: 'ember' },
+      reasoning: 'spec',
+    });
+
+    expect(await completeProject('')).toEqual(['ember']);
+    expect(JSON.parse(fs.readFileSync(path.join(studioPath, '.flow-config.json'), 'utf-8')).projects).toEqual(['ember']);
+  });
+});
+
+describe('MCPSession', () => {
+  afterEach(() => setLLMProvider(null));
+
+  it('answers initialize and ping', async () => {
+    const { request } = createSession();
+
+    expect((await request('initialize', { protocolVersion: MCP_PROTOCOL_VERSION, capabilities: {} }))?.result).toMatchObject({
+      protocolVersion: MCP_PROTOCOL_VERSION,
+      serverInfo: { name: '@arcanea/intelligence-os' },
+      capabilities: { logging: {} },
+    });
+    expect((await request('ping'))?.result).toEqual({});
+  });
+
+  it('pages through tools/list with opaque cursors', async () => {
+    const { request } = createSession({ pageSize: 5 });
+    const names: string[] = [];
+    let cursor: string | undefined;
+    do {
+      const { result } = (await request('tools/list', cursor ? { cursor } : {}))! as { result: { tools: Array<{ name: string }>; nextCursor?: string } };
+      expect(result.tools.length).toBeLessThanOrEqual(5);
+      names.push(...result.tools.map((tool) => tool.name));
+      cursor = result.nextCursor;
+    } while (cursor);
+
+    expect(names).toEqual(TOOLS.map((tool) => tool.name));
+    expect((await request('tools/list', { cursor: 'not-a-cursor' }))?.error?.code).toBe(JSON_RPC_ERRORS.INVALID_PARAMS);
+  });
+
+  it('reports malformed messages and unknown methods as JSON-RPC errors', async () => {
+    const { session, request } = createSession();
+
+    expect((await session.handleMessage({ id: 1 } as unknown as JsonRpcMessage))?.error?.code).toBe(JSON_RPC_ERRORS.INVALID_REQUEST);
+    expect((await request('gates/open'))?.error).toEqual({ code: JSON_RPC_ERRORS.METHOD_NOT_FOUND, message: 'Method not found: gates/open' });
+  });
+
+  it('does not answer notifications', async () => {
+    const { session } = createSession();
+
+    expect(await session.handleMessage({ jsonrpc: '2.0', method: 'notifications/initialized' })).toBeNull();
+    expect(session.isInitialized()).toBe(true);
+  });
+
+  it('sends log messages at or above the level the client set', async () => {
+    const { session, sent, request } = createSession();
+
+    session.log('debug', 'hidden');
+    expect(sent).toEqual([]);
+
+    await request('logging/setLevel', { level: 'debug' });
+    session.log('debug', 'shown');
+    expect(sent).toEqual([{ jsonrpc: '2.0', method: 'notifications/message', params: { level: 'debug', logger: 'aios', data: 'shown' } }]);
+    expect((await request('logging/setLevel', { level: 'loud' }))?.error?.code).toBe(JSON_RPC_ERRORS.INVALID_PARAMS);
+  });
+
+  it('reports council progress to a client that asked for it', async () => {
+    const { sent, request } = createSession({ provider: createScriptedProvider() });
+    const response = await request('tools/call', {
+      name: 'convene_council',
+      arguments: { topic: 'Naming the new Gate', participants: 'oria,amiri', topology: 'flat', rounds: 1 },
+      _meta: { progressToken: 'council-1' },
+    });
+
+    const progress = sent.filter((message) => message.method === 'notifications/progress').map((message) => message.params);
+    expect(response?.result).toBeDefined();
+    expect(progress.map((params) => params?.progress)).toEqual([1, 2, 3]);
+    expect(progress.every((params) => params?.progressToken === 'council-1' && params?.total === 3)).toBe(true);
+  });
+
+  it('drops the response to a request the client cancelled', async () => {
+    let release!: () => void;
+    const provider: LLMProvider = {
+      name: 'slow',
+      complete: () => new Promise((resolve) => {
+        release = () => resolve({ text: 'late', model: 'slow', provider: 'slow' });
+      }),
+      stream: async function* () {},
+    };
+    const { session } = createSession({ provider });
+
+    const pending = session.handleMessage({
+      jsonrpc: '2.0',
+      id: 7,
+      method: 'tools/call',
+      params: { name: 'convene_council', arguments: { topic: 'Naming the new Gate', participants: 'oria', topology: 'flat', rounds: 1 } },
+    });
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    await session.handleMessage({ jsonrpc: '2.0', method: 'notifications/cancelled', params: { requestId: 7 } });
+    release();
+
+    expect(await pending).toBeNull();
+  });
+});
+
+describe('plugin tools', () => {
+  let pluginDir: string | null = null;
+
+  afterEach(() => {
+    if (pluginDir) fs.rmSync(pluginDir, { recursive: true, force: true });
+    pluginDir = null;
+  });
+
+  async function createRegistry(): Promise<PluginRegistry> {
+    pluginDir = fs.mkdtempSync(path.join(os.tmpdir(), 'aios-plugins-'));
+    const echo = path.join(pluginDir, 'echo');
+    fs.mkdirSync(echo);
+    fs.writeFileSync(path.join(echo, 'plugin.json'), JSON.stringify({
+      name: 'echo',
+      version: '1.0.0',
+      description: 'Echoes its input',
+      author: 'spec',
+      tools: [{ name: 'say', description: 'Say it back', handler: 'say.js', inputs: [{ name: 'text', type: 'string', required: true }] }],
+    }));
+    fs.writeFileSync(path.join(echo, 'say.js'), 'module.exports = async (args) => ({ said: args.text });');
+
+    const registry = new PluginRegistry(pluginDir);
+    await registry.initialize();
+    return registry;
+  }
+
+  it('appear in tools/list while active, with list_changed notifications', async () => {
+    const plugins = await createRegistry();
+    const { session, sent, request } = createSession({ plugins });
+    await session.handleMessage({ jsonrpc: '2.0', method: 'notifications/initialized' });
+    const toolNames = async () => ((await request('tools/list'))!.result as { tools: Array<{ name: string }> }).tools.map((tool) => tool.name);
+
+    expect(await toolNames()).not.toContain('echo:say');
+
+    await plugins.activatePlugin('echo');
+    expect(await toolNames()).toContain('echo:say');
+    expect(sent).toEqual([{ jsonrpc: '2.0', method: 'notifications/tools/list_changed' }]);
+
+    await plugins.deactivatePlugin('echo');
+    expect(await toolNames()).not.toContain('echo:say');
+    expect(sent).toHaveLength(2);
+  });
+
+  it('are called through tools/call', async () => {
+    const plugins = await createRegistry();
+    await plugins.activatePlugin('echo');
+    const { request } = createSession({ plugins });
+
+    const response = await request('tools/call', { name: 'echo:say', arguments: { text: 'Fear is fuel' } });
+    expect(JSON.parse((response!.result as { content: Array<{ text: string }> }).content[0].text)).toEqual({ said: 'Fear is fuel' });
+  });
+});
+
+describe('tool arguments', () => {
+  const call = (name: string, args: Record<string, unknown>) => createSession().request('tools/call', { name, arguments: args });
+  const text = (response: JsonRpcMessage | null) => (response!.result as { content: Array<{ text: string }>; isError?: boolean });
+
+  it('rejects an unknown tool with a JSON-RPC error', async () => {
+    expect((await call('summon_dragon', {}))?.error).toEqual({ code: JSON_RPC_ERRORS.INVALID_PARAMS, message: 'Unknown tool: summon_dragon' });
+  });
+
+  it('names every bad field before the tool runs', async () => {
+    const result = text(await call('generate_character', { gate_level: 11, element: 'Magma' }));
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain('Invalid arguments for generate_character:');
+    expect(result.content[0].text).toContain('- gate_level: must be <= 10');
+    expect(result.content[0].text).toContain('- element: must be one of');
+  });
+
+  it('takes gate_level as an integer only', async () => {
+    expect(text(await call('generate_character', { gate_level: '5' })).content[0].text).toContain('- gate_level: must be integer, got string');
+    expect(text(await call('generate_character', { gate_level: 2.5 })).isError).toBe(true);
+    expect(text(await call('generate_character', { gate_level: 5 })).isError).toBeUndefined();
+  });
+
+  it('reports missing required arguments', async () => {
+    expect(text(await call('channel_guardian', {})).content[0].text).toContain('- guardian: is required');
+  });
+});
+
+describe('resource templates', () => {
+  let studioPath: string | null = null;
+  const previousStudio = process.env.ARCANEA_STUDIO_PATH;
+
+  afterEach(() => {
+    if (studioPath) fs.rmSync(studioPath, { recursive: true, force: true });
+    studioPath = null;
+    if (previousStudio === undefined) delete process.env.ARCANEA_STUDIO_PATH;
+    else process.env.ARCANEA_STUDIO_PATH = previousStudio;
+  });
+
+  async function createStudio() {
+    studioPath = fs.mkdtempSync(path.join(os.tmpdir(), 'aios-studio-'));
+    process.env.ARCANEA_STUDIO_PATH = studioPath;
+    const storage = createStorage(studioPath);
+    await storage.initialize();
+    return storage;
+  }
+
+  const classification = (category: ClassificationResult['category'], metadata: Record<string, unknown> = {}): ClassificationResult => ({
+    category,
+    confidence: 1,
+    tags: [],
+    metadata,
+    reasoning: 'spec',
+  });
+
+  const read = async (uri: string) => (await createSession().request('resources/read', { uri }))!;
+
+  it('are listed by resources/templates/list', async () => {
+    const { result } = (await createSession().request('resources/templates/list'))! as { result: { resourceTemplates: Array<{ uriTemplate: string }> } };
+
+    expect(result.resourceTemplates.map((template) => template.uriTemplate)).toEqual(expect.arrayContaining([
+      'arcanea://guardians/{name}',
+      'arcanea://skills/{gate}/{skill}',
+      'arcanea://artifacts/{id}',
+    ]));
+  });
+
+  it('resolve agent definitions and skills', async () => {
+    const guardian = (await read('arcanea://guardians/draconia')).result as { contents: Array<{ mimeType: string; text: string }> };
+    expect(guardian.contents[0].mimeType).toBe('text/markdown');
+    expect(guardian.contents[0].text).toContain('Draconia');
+
+    const skill = (await read('arcanea://skills/fire/transform')).result as { contents: Array<{ text: string }> };
+    expect(skill.contents[0].text).toContain('Naming');
+  });
+
+  it('report names that do not exist as resource not found', async () => {
+    expect((await read('arcanea://guardians/nobody')).error).toEqual({
+      code: JSON_RPC_ERRORS.RESOURCE_NOT_FOUND,
+      message: 'Guardian not found: arcanea://guardians/nobody',
+    });
+    expect((await read('arcanea://skills/fire/juggle')).error?.code).toBe(JSON_RPC_ERRORS.RESOURCE_NOT_FOUND);
+  });
+
+  it('read stored artifacts by id and by project', async () => {
+    const storage = await createStudio();
+    const lore = await storage.store('# Dragons\n\nThe first dragon.', 'dragons.md', classification('lore'));
+    await storage.store('{"name": "Kael"}', 'kael.json', classification('character', { projectId: 'ember' }));
+
+    const byId = (await read(`arcanea://artifacts/${lore.id}`)).result as { contents: Array<{ mimeType: string; text: string }> };
+    expect(byId.contents[0]).toMatchObject({ mimeType: 'text/markdown', text: '# Dragons\n\nThe first dragon.' });
+
+    const character = (await read('arcanea://projects/ember/characters/kael')).result as { contents: Array<{ text: string }> };
+    expect(character.contents[0].text).toBe('{"name": "Kael"}');
+    expect((await read('arcanea://projects/other/characters/kael')).error?.code).toBe(JSON_RPC_ERRORS.RESOURCE_NOT_FOUND);
+  });
+
+  it('list the stored artifacts of a category', async () => {
+    const storage = await createStudio();
+    const lore = await storage.store('# Dragons', 'dragons.md', classification('lore'));
+    await storage.store('{"name": "Kael"}', 'kael.json', classification('character'));
+
+    const category = (await read('arcanea://artifacts/category/lore')).result as { contents: Array<{ text: string }> };
+    expect(JSON.parse(category.contents[0].text).map((artifact: { id: string }) => artifact.id)).toEqual([lore.id]);
+  });
+});
+
+describe('resource subscriptions', () => {
+  let studioPath: string;
+  const previousStudio = process.env.ARCANEA_STUDIO_PATH;
+
+  beforeEach(() => {
+    studioPath = fs.mkdtempSync(path.join(os.tmpdir(), 'aios-studio-'));
+    process.env.ARCANEA_STUDIO_PATH = studioPath;
+  });
+
+  afterEach(() => {
+    fs.rmSync(studioPath, { recursive: true, force: true });
+    if (previousStudio === undefined) delete process.env.ARCANEA_STUDIO_PATH;
+    else process.env.ARCANEA_STUDIO_PATH = previousStudio;
+  });
+
+  const watched = () => createSession({ watcher: new EventEmitter() as ArtifactWatcher });
+
+  it('are refused by a server without a watcher', async () => {
+    const { request } = createSession();
+    const { result } = (await request('initialize', { protocolVersion: MCP_PROTOCOL_VERSION, capabilities: {} }))!;
+
+    expect((result as { capabilities: { resources: { subscribe: boolean } } }).capabilities.resources.subscribe).toBe(false);
+    expect((await request('resources/subscribe', { uri: 'arcanea://artifacts/category/lore' }))!.error?.code)
+      .toBe(JSON_RPC_ERRORS.METHOD_NOT_FOUND);
+  });
+
+  it('hear about artifacts stored or changed by tools', async () => {
+    const { sent, request } = watched();
+    await request('resources/subscribe', { uri: 'arcanea://artifacts/category/lore' });
+
+    const stored = await request('tools/call', {
+      name: 'arcanea_store_artifact',
+      arguments: { content: '# Dragons', fileName: 'dragons.md', category: 'lore' },
+    });
+    const { artifact } = JSON.parse((stored!.result as { content: Array<{ text: string }> }).content[0].text);
+    expect(sent).toContainEqual({
+      jsonrpc: '2.0',
+      method: 'notifications/resources/updated',
+      params: { uri: 'arcanea://artifacts/category/lore' },
+    });
+
+    sent.length = 0;
+    await request('resources/subscribe', { uri: `arcanea://artifacts/${artifact.id}` });
+    await request('tools/call', { name: 'arcanea_update_artifact', arguments: { id: artifact.id, tags: ['dragons'] } });
+    expect(sent.map((message) => message.params?.uri)).toEqual(expect.arrayContaining([
+      `arcanea://artifacts/${artifact.id}`,
+      'arcanea://artifacts/category/lore',
+    ]));
+  });
+
+  it('stay quiet for resources nobody subscribed to', async () => {
+    const { sent, request } = watched();
+    await request('resources/subscribe', { uri: 'arcanea://artifacts/category/character' });
+
+    await request('tools/call', {
+      name: 'arcanea_store_artifact',
+      arguments: { content: '# Dragons', fileName: 'dragons.md', category: 'lore' },
+    });
+    expect(sent).toEqual([]);
+  });
+});
+
+describe('sampling', () => {
+  let studioPath: string;
+  const previousStudio = process.env.ARCANEA_STUDIO_PATH;
+
+  beforeEach(() => {
+    studioPath = fs.mkdtempSync(path.join(os.tmpdir(), 'aios-studio-'));
+    process.env.ARCANEA_STUDIO_PATH = studioPath;
+  });
+
+  afterEach(() => {
+    fs.rmSync(studioPath, { recursive: true, force: true });
+    if (previousStudio === undefined) delete process.env.ARCANEA_STUDIO_PATH;
+    else process.env.ARCANEA_STUDIO_PATH = previousStudio;
+  });
+
+  const resultText = (response: JsonRpcMessage | null) => (response!.result as { content: Array<{ text: string }> }).content[0].text;
+
+  it('is refused for a client without the sampling capability', async () => {
+    const { request } = createSession();
+    const response = await request('tools/call', { name: 'generate_artifact', arguments: { sample: true } });
+
+    expect(response!.result).toMatchObject({ isError: true });
+    expect(resultText(response)).toContain('sample needs a client that supports MCP sampling');
+  });
+
+  it('writes with the client model and tells subscribers about the stored result', async () => {
+    const { session, sent, request } = createSession({ watcher: new EventEmitter() as ArtifactWatcher });
+    await request('initialize', { protocolVersion: MCP_PROTOCOL_VERSION, capabilities: { sampling: {} } });
+    await request('resources/subscribe', { uri: 'arcanea://artifacts/category/artifact' });
+
+    const call = request('tools/call', { name: 'generate_artifact', arguments: { seed: 7, sample: true, store: true } });
+
+    let ask: JsonRpcMessage | undefined;
+    while (!(ask = sent.find((message) => message.method === 'sampling/createMessage'))) {
+      await new Promise((resolve) => setTimeout(resolve, 1));
+    }
+    expect(ask.params).toMatchObject({ includeContext: 'none', messages: [{ role: 'user' }] });
+    await session.handleMessage({
+      jsonrpc: '2.0',
+      id: ask.id,
+      result: { role: 'assistant', content: { type: 'text', text: '{"description": "A lens that holds the light of the Fire Gate"}' }, model: 'client-model' },
+    });
+
+    const body = JSON.parse(resultText(await call));
+    expect(body).toMatchObject({
+      seed: 7,
+      model: 'client-model',
+      artifact: { description: 'A lens that holds the light of the Fire Gate' },
+      stored: { category: 'artifact' },
+    });
+    expect(sent).toContainEqual({
+      jsonrpc: '2.0',
+      method: 'notifications/resources/updated',
+      params: { uri: 'arcanea://artifacts/category/artifact' },
+    });
+  });
+});
+
+describe('artifact history tools', () => {
+  let studioPath: string;
+  const previousStudio = process.env.ARCANEA_STUDIO_PATH;
+
+  beforeEach(() => {
+    studioPath = fs.mkdtempSync(path.join(os.tmpdir(), 'aios-studio-'));
+    process.env.ARCANEA_STUDIO_PATH = studioPath;
+  });
+
+  afterEach(() => {
+    fs.rmSync(studioPath, { recursive: true, force: true });
+    if (previousStudio === undefined) delete process.env.ARCANEA_STUDIO_PATH;
+    else process.env.ARCANEA_STUDIO_PATH = previousStudio;
+  });
+
+  const callTool = async (request: ReturnType<typeof createSession>['request'], name: string, args: Record<string, unknown>) =>
+    (await request('tools/call', { name, arguments: args }))!.result as { content: Array<{ text: string }>; isError?: boolean };
+
+  it('restore an earlier revision and tell subscribers', async () => {
+    const { sent, request } = createSession({ watcher: new EventEmitter() as ArtifactWatcher });
+    const stored = await callTool(request, 'arcanea_store_artifact', { content: '# Dragons', fileName: 'dragons.md', category: 'lore' });
+    const { id } = JSON.parse(stored.content[0].text).artifact;
+    await callTool(request, 'arcanea_store_artifact', { content: '# Dragons woke', fileName: 'dragons.md', category: 'lore' });
+    await request('resources/subscribe', { uri: `arcanea://artifacts/${id}` });
+
+    const restored = await callTool(request, 'arcanea_restore_artifact', { id, revision: 1 });
+
+    expect(JSON.parse(restored.content[0].text)).toMatchObject({ success: true, restoredFrom: 1, revision: 3 });
+    expect(sent).toContainEqual({ jsonrpc: '2.0', method: 'notifications/resources/updated', params: { uri: `arcanea://artifacts/${id}` } });
+  });
+
+  it('take whole revision numbers and refuse ids outside the history', async () => {
+    const { request } = createSession();
+
+    expect((await callTool(request, 'arcanea_restore_artifact', { id: 'art_1', revision: 1.5 })).content[0].text)
+      .toContain('revision: must be integer, got number');
+    expect(await callTool(request, 'arcanea_artifact_history', { id: '../../x' })).toEqual({
+      content: [{ type: 'text', text: 'Invalid artifact id: ../../x' }],
+      isError: true,
+    });
+  });
+});
@@ -6,6 +6,7 @@
  * Transport: stdio (default) or http
  */
 
+import * as path from 'path';
 import {
   GATES,
   AWAKENED,
@@ -22,15 +23,58 @@ import {
   listGuardians,
   listAwakened,
   listGates,
+  listCanonGates,
+  listCanonElements,
+  listCanonHouses,
+  listElementNames,
+  listHouseNames,
+  listGuardianKeys,
+  listGateNames,
+  deriveCanonTable,
+  setCanonProject,
+  validateCanonText,
+  assertCanonConsistency,
+  listGateSkills,
+  getGateSkill,
+  getCanonGate,
+  loadConfig,
+  AIOS_VERSION,
+  PROMPT_VERBOSITIES,
   type GateName,
+  type Element,
+  type PromptVerbosity,
 } from './index';
+import { createSkillSession } from './skills';
+import { conveneCouncil, channelGuardian, channelPair, resolveGuardianPair, type CouncilTopology, type CouncilTranscript } from './council';
+import { routeToGuardian } from './router';
+import { createStateStore } from './state';
+import { ScriptedProvider, SamplingProvider, createProviderFromEnv, type LLMProvider, type SamplingResult } from './providers';
+import { withAntiDrift } from './anti-drift';
+import type { PluginRegistry } from './plugins';
+import { validateSchema, formatSchemaIssues, type ToolInputSchema } from './schema';
+import { Scribe } from './studio/modules/scribe';
+import { generateCharacterSeed, generateArtifactSeed } from './studio/seeds';
+import { generateNames, listTakenNames, NAME_KINDS, type NameKind, type NameOptions } from './studio/names';
+import type { Seed } from './studio/random';
+import type { ArtifactGenerationParams } from './studio/types';
+import { EventEmitter } from 'events';
 
 // Artifact Flow imports
 import {
   ARTIFACT_TOOLS,
   createToolHandlers as createArtifactToolHandlers,
 } from './artifact-flow/mcp-tools';
-import { createStorage, ArtifactClassifier, getClassifier } from './artifact-flow';
+import {
+  createStorage,
+  getStudioPath,
+  ArtifactClassifier,
+  getClassifier,
+  ARTIFACT_CATEGORIES,
+  type Artifact,
+  type ArtifactCategory,
+  type ArtifactStorage,
+  type ArtifactWatcher,
+} from './artifact-flow';
 
 // Infogenius imports
 import {
@@ -46,11 +90,7 @@ import {
 interface MCPTool {
   name: string;
   description: string;
-  inputSchema: {
-    type: 'object';
-    properties: Record<string, { type: string; description?: string; enum?: string[] }>;
-    required?: string[];
-  };
+  inputSchema: ToolInputSchema;
 }
 
 interface MCPResource {
@@ -60,6 +100,21 @@ interface MCPResource {
   description?: string;
 }
 
+interface MCPResourceTemplate {
+  /** RFC 6570 level 1 template, e.g. arcanea://guardians/{name} */
+  uriTemplate: string;
+  name: string;
+  mimeType?: string;
+  description?: string;
+}
+
+/**
+ * What resources/read returns: text, or base64 `blob` for binary content
+ */
+export interface MCPResourceContents {
+  contents: Array<{ uri: string; mimeType: string; text?: string; blob?: string }>;
+}
+
 interface MCPPrompt {
   name: string;
   description: string;
@@ -85,16 +140,72 @@ export const TOOLS: MCPTool[] = [
         guardian: {
           type: 'string',
           description: 'Name of the Guardian to channel',
-          enum: Object.values(GATES).map(g => g.guardian.toLowerCase()),
+          enum: deriveCanonTable(() => listGuardianKeys()),
         },
         question: {
           type: 'string',
           description: 'Your question or situation for the Guardian',
         },
+        verbosity: {
+          type: 'string',
+          description: 'How much of the agent definition goes into the prompt (default from config, else standard)',
+          enum: PROMPT_VERBOSITIES,
+        },
+      },
+      required: ['guardian'],
+    },
+  },
+  {
+    name: 'channel_pair',
+    description: 'Channel a Guardian together with their Awakened partner (Draconia with Velora, Leyla with Liora...). The Guardian gives emotional and creative guidance, then the Awakened turns it into a plan.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        guardian: {
+          type: 'string',
+          description: 'Guardian whose pair to channel',
+          enum: deriveCanonTable(() => listCanonGates().filter((gate) => gate.awakened).map((gate) => gate.guardian.toLowerCase())),
+        },
+        question: {
+          type: 'string',
+          description: 'Your question or situation for the pair',
+        },
+        verbosity: {
+          type: 'string',
+          description: 'How much of the agent definitions goes into the prompts (default from config, else standard)',
+          enum: PROMPT_VERBOSITIES,
+        },
       },
       required: ['guardian'],
     },
   },
+  {
+    name: 'route_to_guardian',
+    description: 'Find the right Guardian for a request. Scores it against each Guardian\'s "When to Invoke" situations and capabilities and returns ranked Guardians with reasons, recommending only Guardians whose Gate the journey has unlocked.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        request: {
+          type: 'string',
+          description: 'What the user is working on or struggling with',
+          minLength: 1,
+        },
+        gates_unlocked: {
+          type: 'array',
+          description: 'Gates unlocked in the journey (defaults to the saved journey; all Gates when there is none)',
+          items: { type: 'string', enum: deriveCanonTable(() => listGateNames()) },
+          uniqueItems: true,
+        },
+        limit: {
+          type: 'integer',
+          description: 'Maximum number of Guardians to return (default 3)',
+          minimum: 1,
+          maximum: 10,
+        },
+      },
+      required: ['request'],
+    },
+  },
   {
     name: 'get_guardian_wisdom',
     description: 'Retrieve the core wisdom teaching of a Guardian',
@@ -104,7 +215,7 @@ export const TOOLS: MCPTool[] = [
         guardian: {
           type: 'string',
           description: 'Name of the Guardian',
-          enum: Object.values(GATES).map(g => g.guardian.toLowerCase()),
+          enum: deriveCanonTable(() => listGuardianKeys()),
         },
       },
       required: ['guardian'],
@@ -129,34 +240,65 @@ export const TOOLS: MCPTool[] = [
         awakened: {
           type: 'string',
           description: 'Name of the Awakened to invoke',
-          enum: Object.keys(AWAKENED),
+          enum: deriveCanonTable(() => Object.keys(AWAKENED)),
         },
         task: {
           type: 'string',
           description: 'The task or question for the Awakened',
         },
+        verbosity: {
+          type: 'string',
+          description: 'How much of the agent definition goes into the prompt (default from config, else standard)',
+          enum: PROMPT_VERBOSITIES,
+        },
       },
       required: ['awakened'],
     },
   },
   {
     name: 'convene_council',
-    description: 'Convene multiple Awakened for a council discussion on complex topics',
+    description: 'Convene the Awakened Council to discuss a topic. Runs the session with the configured model provider, or the client\'s model when sample is set, and returns the full transcript and synthesis.',
     inputSchema: {
       type: 'object',
       properties: {
         topic: {
           type: 'string',
           description: 'The topic to discuss',
+          minLength: 1,
         },
         lead: {
           type: 'string',
-          description: 'The Awakened to lead the council',
-          enum: Object.keys(AWAKENED),
+          description: 'The Guardian or Awakened who coordinates the council (defaults to the project swarm coordinator)',
+          enum: deriveCanonTable(() => [...listGuardianKeys(), ...Object.keys(AWAKENED)]),
         },
         participants: {
           type: 'string',
-          description: 'Comma-separated list of other Awakened to include',
+          description: 'Comma-separated list of Awakened to include (defaults to the whole council)',
+        },
+        topology: {
+          type: 'string',
+          description: 'hierarchical: the lead delegates and synthesizes; flat: members speak in turn; mesh: members critique each other',
+          enum: ['hierarchical', 'flat', 'mesh'],
+        },
+        max_agents: {
+          type: 'integer',
+          description: 'Maximum agents in the session, including the lead',
+          minimum: 2,
+          maximum: 50,
+        },
+        rounds: {
+          type: 'integer',
+          description: 'Discussion rounds for flat and mesh topologies (default 1)',
+          minimum: 1,
+          maximum: 10,
+        },
+        sample: {
+          type: 'boolean',
+          description: 'Run every turn on the client\'s model through MCP sampling instead of the server\'s provider',
+        },
+        store: {
+          type: 'boolean',
+          description: 'Store the transcript in Arcanea Studio as lore',
         },
       },
       required: ['topic'],
@@ -173,7 +315,7 @@ export const TOOLS: MCPTool[] = [
         gate: {
           type: 'string',
           description: 'Name of the Gate',
-          enum: Object.keys(GATES),
+          enum: deriveCanonTable(() => listGateNames()),
         },
       },
       required: ['gate'],
@@ -188,7 +330,7 @@ export const TOOLS: MCPTool[] = [
         gate: {
           type: 'string',
           description: 'Name of the Gate to align with',
-          enum: Object.keys(GATES),
+          enum: deriveCanonTable(() => listGateNames()),
         },
         intention: {
           type: 'string',
@@ -198,41 +340,83 @@ export const TOOLS: MCPTool[] = [
       required: ['gate'],
     },
   },
+  {
+    name: 'run_gate_skill',
+    description: 'List the skills of a Gate, or walk through one step by step. Pass the answers given so far; returns the next step prompt, or the finished output document once every step is answered.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        gate: {
+          type: 'string',
+          description: 'Name of the Gate',
+          enum: deriveCanonTable(() => listGateNames()),
+        },
+        skill: {
+          type: 'string',
+          description: 'Skill key (e.g. "transform") or name. Omit to list the Gate\'s skills',
+        },
+        answers: {
+          type: 'array',
+          description: 'Answers to the steps completed so far, in order',
+          items: { type: 'string' },
+        },
+      },
+      required: ['gate'],
+    },
+  },
 
   // === WORLDBUILDING TOOLS ===
   {
     name: 'generate_character',
-    description: 'Generate an Arcanean character with Gate alignment, House affiliation, and abilities',
+    description: 'Generate an Arcanean character with Gate alignment, House affiliation, and abilities. Returns a seed and generation prompt, or with sample the finished, canon-checked character sheet',
     inputSchema: {
       type: 'object',
       properties: {
         element: {
           type: 'string',
           description: 'Primary elemental alignment',
-          enum: ['Earth', 'Water', 'Fire', 'Light', 'Prismatic', 'Wind', 'Void', 'Arcane'],
+          enum: deriveCanonTable(() => listElementNames()),
         },
         gate_level: {
-          type: 'string',
+          type: 'integer',
           description: 'Highest Gate opened (1-10)',
+          minimum: 1,
+          maximum: 10,
         },
         house: {
           type: 'string',
           description: 'House affiliation (optional)',
-          enum: ['Lumina', 'Nero', 'Pyros', 'Aqualis', 'Terra', 'Ventus', 'Synthesis'],
+          enum: deriveCanonTable(() => listHouseNames()),
+        },
+        seed: {
+          type: ['string', 'integer'],
+          description: 'Seed for reproducible results. The seed used is always returned, so any result can be generated again',
+        },
+        sample: {
+          type: 'boolean',
+          description: 'Write the full character sheet with the client\'s model (MCP sampling) instead of returning a generation prompt',
+        },
+        store: {
+          type: 'boolean',
+          description: 'With sample: store the character in Arcanea Studio',
+        },
+        project: {
+          type: 'string',
+          description: 'With store: project the character belongs to',
         },
       },
     },
   },
   {
     name: 'generate_artifact',
-    description: 'Create a magical artifact with Arcanean lore',
+    description: 'Create a magical artifact with Arcanean lore. Returns a seed and generation prompt, or with sample the finished, canon-checked artifact',
     inputSchema: {
       type: 'object',
       properties: {
         element: {
           type: 'string',
           description: 'Primary element of the artifact',
-          enum: ['Earth', 'Water', 'Fire', 'Light', 'Prismatic', 'Wind', 'Void', 'Arcane'],
+          enum: deriveCanonTable(() => listElementNames()),
         },
         power_level: {
           type: 'string',
@@ -243,18 +427,79 @@ export const TOOLS: MCPTool[] = [
           type: 'string',
           description: 'Intended purpose or function',
         },
+        seed: {
+          type: ['string', 'integer'],
+          description: 'Seed for reproducible results. The seed used is always returned, so any result can be generated again',
+        },
+        sample: {
+          type: 'boolean',
+          description: 'Write the artifact\'s lore with the client\'s model (MCP sampling) instead of returning a generation prompt',
+        },
+        store: {
+          type: 'boolean',
+          description: 'With sample: store the artifact in Arcanea Studio',
+        },
+      },
+    },
+  },
+  {
+    name: 'generate_name',
+    description: 'Invent names for people, places, artifacts or factions in the sounds of a House or Element. Names already used by stored artifacts are skipped',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        kind: {
+          type: 'string',
+          description: 'What is being named (default person)',
+          enum: NAME_KINDS,
+        },
+        house: {
+          type: 'string',
+          description: 'House whose phonology to use',
+          enum: deriveCanonTable(() => listHouseNames()),
+        },
+        element: {
+          type: 'string',
+          description: 'Element whose phonology to use when no House is given; also colours place, artifact and faction names',
+          enum: deriveCanonTable(() => listElementNames()),
+        },
+        artifact_type: {
+          type: 'string',
+          description: 'For artifacts: the kind of object',
+          enum: ['weapon', 'armor', 'accessory', 'tool', 'relic', 'consumable', 'vehicle', 'other'],
+        },
+        count: {
+          type: 'integer',
+          description: 'How many names (default 5)',
+          minimum: 1,
+          maximum: 50,
+        },
+        seed: {
+          type: ['string', 'integer'],
+          description: 'Seed for reproducible names; the seed used is returned',
+        },
+        project: {
+          type: 'string',
+          description: 'Only avoid names used by this project\'s artifacts (default: every stored artifact)',
+        },
+        taken: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'More names to avoid, e.g. entities not stored yet',
+        },
       },
     },
   },
   {
     name: 'validate_canon',
-    description: 'Check if content aligns with Arcanea canon',
+    description: 'Check content against Arcanea canon: finds Guardians, Gates, Godbeasts, Houses, Awakened and frequencies, and reports mismatched relationships with offsets, severity and suggested fixes',
     inputSchema: {
       type: 'object',
       properties: {
         content: {
           type: 'string',
           description: 'Content to validate',
+          minLength: 1,
         },
         content_type: {
           type: 'string',
@@ -270,10 +515,10 @@ export const TOOLS: MCPTool[] = [
 ];
 
 // Add artifact flow tools
-TOOLS.push(...ARTIFACT_TOOLS as unknown as MCPTool[]);
+TOOLS.push(...ARTIFACT_TOOLS);
 
 // Add infogenius visual tools
-TOOLS.push(...INFOGENIUS_TOOLS as unknown as MCPTool[]);
+TOOLS.push(...INFOGENIUS_TOOLS);
 
 // =============================================================================
 // RESOURCE DEFINITIONS
@@ -312,7 +557,7 @@ export const RESOURCES: MCPResource[] = [
   },
   {
     uri: 'arcanea://houses',
-    name: 'The Seven Houses',
+    name: 'The Houses of Arcanea',
     mimeType: 'application/json',
     description: 'House affiliations and characteristics',
   },
@@ -324,6 +569,49 @@ export const RESOURCES: MCPResource[] = [
   },
 ];
 
+export const RESOURCE_TEMPLATES: MCPResourceTemplate[] = [
+  {
+    uriTemplate: 'arcanea://guardians/{name}',
+    name: 'Guardian definition',
+    mimeType: 'text/markdown',
+    description: 'The agent definition of one Guardian (e.g. arcanea://guardians/draconia)',
+  },
+  {
+    uriTemplate: 'arcanea://awakened/{name}',
+    name: 'Awakened definition',
+    mimeType: 'text/markdown',
+    description: 'The agent definition of one Awakened (e.g. arcanea://awakened/oria)',
+  },
+  {
+    uriTemplate: 'arcanea://skills/{gate}',
+    name: 'Gate skills',
+    mimeType: 'text/markdown',
+    description: 'The SKILL.md overview of a Gate\'s skills (e.g. arcanea://skills/fire)',
+  },
+  {
+    uriTemplate: 'arcanea://skills/{gate}/{skill}',
+    name: 'Gate skill',
+    mimeType: 'text/markdown',
+    description: 'One Gate skill by key (e.g. arcanea://skills/fire/transform)',
+  },
+  {
+    uriTemplate: 'arcanea://artifacts/{id}',
+    name: 'Stored artifact',
+    description: 'The content of an artifact stored in Arcanea Studio, by id',
+  },
+  {
+    uriTemplate: 'arcanea://artifacts/category/{category}',
+    name: 'Stored artifacts by category',
+    mimeType: 'application/json',
+    description: 'The stored artifacts of one category (e.g. arcanea://artifacts/category/lore). Subscribe to hear when a tool or the watcher stores or changes one',
+  },
+  {
+    uriTemplate: 'arcanea://projects/{project}/characters/{character}',
+    name: 'Project character',
+    description: 'A character artifact stored for a project (see arcanea_store_artifact\'s project), by id or file name',
+  },
+];
+
 // =============================================================================
 // PROMPT DEFINITIONS
 // =============================================================================
@@ -363,20 +651,124 @@ export const PROMPTS: MCPPrompt[] = [
   },
 ];
 
+// =============================================================================
+// MODEL PROVIDER
+// =============================================================================
+
+/**
+ * Provider used by tools that call a model. Taken from the environment on
+ * first use (see createProviderFromEnv); null when none is configured.
+ */
+let llmProvider: LLMProvider | null | undefined;
+
+/**
+ * Set the provider used by model-backed tools such as convene_council
+ */
+export function setLLMProvider(provider: LLMProvider | null): void {
+  llmProvider = provider;
+}
+
+function getLLMProvider(): LLMProvider | null {
+  if (llmProvider === undefined) {
+    llmProvider = createProviderFromEnv();
+  }
+  return llmProvider;
+}
+
+/**
+ * The client's model, for tools called with `sample`. Throws when the client
+ * did not declare the sampling capability or cannot be reached mid-request.
+ */
+function getSamplingProvider(context: MCPRequestContext): LLMProvider {
+  if (!context.sampling) {
+    throw new Error('sample needs a client that supports MCP sampling on a stream; this client did not declare the sampling capability or asked for a plain JSON response');
+  }
+  return context.sampling;
+}
+
+/**
+ * Gates unlocked in the saved journey, or null when there is no journey
+ */
+async function loadJourneyGates(): Promise<GateName[] | null> {
+  try {
+    const store = createStateStore();
+    await store.initialize();
+    return store.getJourney()?.gatesUnlocked || null;
+  } catch {
+    return null;
+  }
+}
+
 // =============================================================================
 // TOOL HANDLERS
 // =============================================================================
 
+/**
+ * Artifact tools whose result is an artifact they stored or changed
+ */
+const ARTIFACT_CHANGING_TOOLS = ['arcanea_store_artifact', 'arcanea_update_artifact', 'arcanea_restore_artifact'];
+
+/**
+ * Store generated content in Arcanea Studio, as arcanea_store_artifact would
+ */
+async function storeGenerated(
+  context: MCPRequestContext,
+  content: string,
+  fileName: string,
+  category: ArtifactCategory,
+  project?: string
+): Promise<unknown> {
+  const storage = createStorage(getStudioPath());
+  await storage.initialize();
+  const handlers = createArtifactToolHandlers(storage);
+  const result = await handlers.arcanea_store_artifact({ content, fileName, category, project, tags: ['generated'] });
+  const stored = (result as { artifact: { id: string } }).artifact;
+  const artifact = await storage.get(stored.id);
+  if (artifact) context.resourcesUpdated(artifactResourceUris(artifact));
+  return stored;
+}
+
+function slugify(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'untitled';
+}
+
+/**
+ * A council transcript as a markdown document, for storing as lore
+ */
+function renderCouncilMarkdown(transcript: CouncilTranscript): string {
+  const lines = [
+    `# Council: ${transcript.topic}`,
+    '',
+    `Led by ${transcript.coordinator.name} (${transcript.topology}, ${transcript.rounds} round${transcript.rounds === 1 ? '' : 's'})`,
+    '',
+  ];
+  for (const turn of transcript.turns) {
+    lines.push(`## ${turn.speaker} (${turn.kind}${turn.to ? ` to ${turn.to}` : ''})`, '', turn.content.trim(), '');
+  }
+  lines.push('## Synthesis', '', transcript.synthesis.trim(), '');
+  return lines.join('\n');
+}
+
 export async function handleToolCall(
   name: string,
-  args: Record<string, unknown>
+  args: Record<string, unknown>,
+  context: MCPRequestContext = NO_CONTEXT
 ): Promise<{ content: Array<{ type: 'text'; text: string }> }> {
   switch (name) {
     case 'channel_guardian': {
       const guardianName = args.guardian as string;
       const question = args.question as string;
-      const prompt = generateGuardianPrompt(guardianName);
+      const config = loadConfig();
+      const verbosity = (args.verbosity as PromptVerbosity) || config?.prompt_verbosity;
+      const prompt = generateGuardianPrompt(guardianName, { verbosity });
       const guardian = getGuardian(guardianName);
+      const provider = getLLMProvider();
+      const antiDrift = config?.anti_drift;
+
+      // With a model configured and a question asked, the Guardian answers
+      const channeled = provider && question && guardian
+        ? await channelGuardian(guardianName, question, antiDrift ? withAntiDrift(provider, antiDrift) : provider, { verbosity })
+        : null;
 
       return {
         content: [{
@@ -389,6 +781,61 @@ export async function handleToolCall(
             channeling_prompt: prompt,
             question: question || 'Seeking guidance',
             wisdom: getGuardianWisdom(guardianName),
+            ...(channeled ? { response: channeled.response, model: channeled.model, drift: channeled.drift } : {}),
+          }, null, 2),
+        }],
+      };
+    }
+
+    case 'channel_pair': {
+      const config = loadConfig();
+      const question = args.question as string;
+      const verbosity = (args.verbosity as PromptVerbosity) || config?.prompt_verbosity;
+      const pair = resolveGuardianPair(args.guardian as string, { verbosity });
+      const provider = getLLMProvider();
+
+      // With a model configured and a question asked, both partners answer
+      const session = provider && question
+        ? await channelPair(pair.guardian.key, question, provider, { verbosity, antiDrift: config?.anti_drift })
+        : null;
+
+      return {
+        content: [{
+          type: 'text',
+          text: JSON.stringify({
+            guardian: pair.guardian.name,
+            awakened: pair.awakened.name,
+            question: question || 'Seeking guidance',
+            ...(session
+              ? { provider: session.provider, turns: session.turns }
+              : { guardian_prompt: pair.guardian.system, awakened_prompt: pair.awakened.system }),
+          }, null, 2),
+        }],
+      };
+    }
+
+    case 'route_to_guardian': {
+      const request = args.request as string;
+      const gatesUnlocked = Array.isArray(args.gates_unlocked)
+        ? args.gates_unlocked as GateName[]
+        : await loadJourneyGates();
+      const gateTitle = (gate: string) => gate.charAt(0).toUpperCase() + gate.slice(1);
+      const routed = routeToGuardian(request, {
+        limit: typeof args.limit === 'number' ? args.limit : undefined,
+        journey: gatesUnlocked ? { gatesUnlocked } : null,
+      });
+
+      return {
+        content: [{
+          type: 'text',
+          text: JSON.stringify({
+            ...routed,
+            gates_unlocked: gatesUnlocked || 'all',
+            recommendation: routed.matches[0]
+              ? `Channel ${routed.matches[0].name} (${gateTitle(routed.matches[0].gate)} Gate)`
+              : routed.locked[0]
+                ? `${routed.locked[0].name} fits best, but the ${gateTitle(routed.locked[0].gate)} Gate is not yet unlocked`
+                : 'No Guardian matched; describe the situation in more detail',
           }, null, 2),
         }],
       };
@@ -433,7 +880,8 @@ export async function handleToolCall(
     case 'invoke_awakened': {
       const awakenedName = args.awakened as string;
       const task = args.task as string;
-      const prompt = generateAwakenedPrompt(awakenedName);
+      const verbosity = (args.verbosity as PromptVerbosity) || loadConfig()?.prompt_verbosity;
+      const prompt = generateAwakenedPrompt(awakenedName, { verbosity });
       const awakened = getAwakened(awakenedName);
 
       return {
@@ -452,29 +900,37 @@ export async function handleToolCall(
     }
 
     case 'convene_council': {
-      const topic = args.topic as string;
-      const lead = (args.lead as string) || 'oria';
+      const config = loadConfig();
+      const swarm = config?.swarm_config;
       const participantsStr = args.participants as string;
-      const participants = participantsStr
-        ? participantsStr.split(',').map(p => p.trim().toLowerCase())
-        : Object.keys(AWAKENED).filter(a => a !== lead);
 
-      const leadAwakened = getAwakened(lead);
-      const councilMembers = participants
-        .map(p => getAwakened(p))
-        .filter(Boolean);
+      const transcript = await conveneCouncil({
+        topic: args.topic as string,
+        // Without a configured model the session still runs, offline and scripted
+        provider: args.sample ? getSamplingProvider(context) : getLLMProvider() || new ScriptedProvider(),
+        topology: (args.topology as CouncilTopology) || swarm?.topology,
+        coordinator: (args.lead as string) || swarm?.coordinator,
+        members: participantsStr ? participantsStr.split(',') : undefined,
+        maxAgents: (args.max_agents as number) ?? swarm?.max_agents,
+        rounds: args.rounds as number | undefined,
+        antiDrift: config?.anti_drift,
+        promptVerbosity: config?.prompt_verbosity,
+        signal: context.signal,
+        onTurn: (turn, planned) => context.progress(turn.index + 1, planned, `${turn.speaker}: ${turn.kind}`),
+      });
+
+      const validation = validateCanonText(transcript.synthesis);
+      const stored = args.store
+        ? await storeGenerated(context, renderCouncilMarkdown(transcript), `council-${slugify(transcript.topic).slice(0, 60)}.md`, 'lore')
+        : undefined;
 
       return {
         content: [{
           type: 'text',
           text: JSON.stringify({
-            council: {
-              topic,
-              lead: leadAwakened,
-              members: councilMembers,
-              structure: 'The council convenes with each member offering their domain expertise.',
-            },
-            guidance: `Lead ${leadAwakened?.name} opens with ${leadAwakened?.domain} perspective, followed by contributions from each member.`,
+            ...transcript,
+            canon: { valid: validation.valid, issues: validation.issues.map((issue) => issue.message) },
+            ...(stored ? { stored } : {}),
           }, null, 2),
         }],
       };
@@ -522,83 +978,198 @@ export async function handleToolCall(
       };
     }
 
+    case 'run_gate_skill': {
+      const gateName = args.gate as GateName;
+      const skillName = args.skill as string | undefined;
+
+      if (!skillName) {
+        const skills = listGateSkills(gateName).map(skill => ({
+          key: skill.key,
+          name: skill.name,
+          purpose: skill.purpose,
+          invocation: skill.invocation,
+          steps: skill.process.length,
+        }));
+
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify({ gate: gateName, skills, count: skills.length }, null, 2),
+          }],
+        };
+      }
+
+      const answers = Array.isArray(args.answers) ? args.answers.map(String) : [];
+      const session = createSkillSession(gateName, skillName, answers);
+      const next = session.currentStep();
+
+      return {
+        content: [{
+          type: 'text',
+          text: JSON.stringify({
+            ...session.toJSON(),
+            complete: session.isComplete(),
+            next_step: next,
+            output: session.isComplete() ? session.renderOutput() : undefined,
+          }, null, 2),
+        }],
+      };
+    }
+
     case 'generate_character': {
-      const element = args.element as string || 'Arcane';
-      const gateLevel = parseInt(args.gate_level as string || '3', 10);
-      const house = args.house as string;
+      const seeded = generateCharacterSeed({
+        seed: args.seed as Seed | undefined,
+        element: args.element as Element | undefined,
+        gateLevel: args.gate_level !== undefined ? Number(args.gate_level) : undefined,
+        house: args.house as string | undefined,
+      });
+
+      if (args.sample) {
+        const config = loadConfig();
+        const scribe = new Scribe({ provider: getSamplingProvider(context), antiDrift: config?.anti_drift });
+        const generated = await scribe.generateCharacter({
+          seed: seeded.seed,
+          gate: seeded.highestGate,
+          element: seeded.element,
+          house: seeded.house,
+          concept: `Mentored by ${seeded.mentor}, attuned to the Godbeast ${seeded.godbeast}`,
+        });
+        const character = generated.character;
+        const stored = args.store
+          ? await storeGenerated(context, JSON.stringify(character, null, 2), `${slugify(character.name || 'character')}.json`, 'character', args.project as string | undefined)
+          : undefined;
+
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify({
+              seed: seeded.seed,
+              character,
+              portrait_prompt: generated.portraitPrompt,
+              model: generated.model,
+              canon: scribe.validateCanon(character),
+              ...(generated.drift?.length ? { drift: generated.drift } : {}),
+              ...(stored ? { stored } : {}),
+            }, null, 2),
+          }],
+        };
+      }
 
-      const gateNames = Object.keys(GATES) as GateName[];
-      const openGates = gateNames.slice(0, Math.min(gateLevel, 10));
-      const highestGate = GATES[openGates[openGates.length - 1]];
+      const affiliation = seeded.house === 'Unaffiliated' ? '' : ` of House ${seeded.house}`;
 
       return {
         content: [{
           type: 'text',
           text: JSON.stringify({
+            seed: seeded.seed,
             character_seed: {
-              element,
-              house: house || 'Unaffiliated',
-              gates_open: openGates,
-              highest_gate: highestGate.name,
-              guardian_mentor: highestGate.guardian,
-              frequency_attunement: highestGate.frequency,
+              name: seeded.name,
+              element: seeded.element,
+              house: seeded.house,
+              gates_open: seeded.gatesOpen,
+              highest_gate: seeded.highestGate,
+              guardian_mentor: seeded.mentor,
+              frequency_attunement: seeded.frequency,
+              godbeast_affinity: seeded.godbeast,
+              abilities: seeded.abilities,
+              weaknesses: seeded.weaknesses,
             },
-            generation_prompt: `Create an Arcanean character with ${element} elemental affinity, ${gateLevel} Gates open (up to ${highestGate.name}), mentored by ${highestGate.guardian}.${house ? ` Affiliated with House ${house}.` : ''}`,
+            generation_prompt: `Create ${seeded.name}${affiliation}, an Arcanean character with ${seeded.element} elemental affinity, ${seeded.gatesOpened} Gate${seeded.gatesOpened === 1 ? '' : 's'} open (up to ${seeded.highestGate}), mentored by ${seeded.mentor} and attuned to the Godbeast ${seeded.godbeast}. Abilities: ${seeded.abilities.join(', ')}. Weaknesses: ${seeded.weaknesses.join('; ')}.`,
           }, null, 2),
         }],
       };
     }
 
     case 'generate_artifact': {
-      const element = args.element as string || 'Arcane';
-      const powerLevel = args.power_level as string || 'moderate';
-      const purpose = args.purpose as string;
+      const seeded = generateArtifactSeed({
+        seed: args.seed as Seed | undefined,
+        element: args.element as Element | undefined,
+        powerLevel: args.power_level as ArtifactGenerationParams['powerLevel'],
+        purpose: args.purpose as string | undefined,
+      });
+
+      if (args.sample) {
+        const config = loadConfig();
+        const scribe = new Scribe({ provider: getSamplingProvider(context), antiDrift: config?.anti_drift });
+        const generated = await scribe.generateArtifact({
+          seed: seeded.seed,
+          type: seeded.type,
+          gate: seeded.gate,
+          element: seeded.element,
+          powerLevel: seeded.powerLevel,
+          purpose: seeded.purpose,
+        });
+        const stored = args.store
+          ? await storeGenerated(context, JSON.stringify(generated.artifact, null, 2), `${slugify(generated.artifact.name || 'artifact')}.json`, 'artifact')
+          : undefined;
+
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify({
+              seed: seeded.seed,
+              artifact: generated.artifact,
+              art_prompt: generated.artPrompt,
+              model: generated.model,
+              canon: scribe.validateCanon(generated.artifact),
+              ...(generated.drift?.length ? { drift: generated.drift } : {}),
+              ...(stored ? { stored } : {}),
+            }, null, 2),
+          }],
+        };
+      }
 
       return {
         content: [{
           type: 'text',
           text: JSON.stringify({
+            seed: seeded.seed,
             artifact_seed: {
-              element,
-              power_level: powerLevel,
-              purpose: purpose || 'General enchantment',
+              name: seeded.name,
+              type: seeded.type,
+              element: seeded.element,
+              gate: seeded.gate,
+              power_level: seeded.powerLevel,
+              purpose: seeded.purpose,
+              forged_by: seeded.forgedBy,
+              godbeast: seeded.godbeast,
+              abilities: seeded.abilities,
+              drawback: seeded.drawback,
             },
-            generation_prompt: `Create a ${powerLevel} Arcanean artifact imbued with ${element} energy${purpose ? ` designed for: ${purpose}` : ''}.`,
+            generation_prompt: `Create the ${seeded.name}, a ${seeded.powerLevel} Arcanean ${seeded.type} imbued with ${seeded.element} energy, forged under ${seeded.forgedBy} at the ${seeded.gate} Gate and bound to the Godbeast ${seeded.godbeast}, designed for: ${seeded.purpose}. Abilities: ${seeded.abilities.join(', ')}. Drawback: ${seeded.drawback}.`,
           }, null, 2),
         }],
       };
     }
 
+    case 'generate_name': {
+      const storage = createStorage(getStudioPath());
+      await storage.initialize();
+      const stored = await listTakenNames(storage, { project: args.project as string | undefined });
+
+      const result = generateNames({
+        kind: args.kind as NameKind | undefined,
+        house: args.house as string | undefined,
+        element: args.element as Element | undefined,
+        artifactType: args.artifact_type as NameOptions['artifactType'],
+        count: (args.count as number | undefined) ?? 5,
+        seed: args.seed as Seed | undefined,
+        taken: [...stored, ...((args.taken as string[] | undefined) || [])],
+      });
+
+      return {
+        content: [{
+          type: 'text',
+          text: JSON.stringify({ kind: args.kind || 'person', ...result }, null, 2),
+        }],
+      };
+    }
+
     case 'validate_canon': {
       const content = args.content as string;
       const contentType = args.content_type as string || 'general';
 
-      // Basic canon validation checks
-      const canonIssues: string[] = [];
-
-      // Check for frequency mentions
-      const freqMatch = content.match(/(\d+)\s*Hz/gi);
-      if (freqMatch) {
-        const validFreqs = Object.values(GATES).map(g => g.frequency);
-        freqMatch.forEach(match => {
-          const freq = parseInt(match);
-          if (!validFreqs.includes(freq) && ![174, 285, 396, 417, 528, 639, 741, 852, 963, 1111].includes(freq)) {
-            canonIssues.push(`Non-canonical frequency: ${freq} Hz`);
-          }
-        });
-      }
-
-      // Check for Guardian name mentions
-      const guardianNames = Object.values(GATES).map(g => g.guardian.toLowerCase());
-      const contentLower = content.toLowerCase();
-      guardianNames.forEach(name => {
-        if (contentLower.includes(name)) {
-          const gate = Object.values(GATES).find(g => g.guardian.toLowerCase() === name);
-          if (gate && !contentLower.includes(gate.element.toLowerCase())) {
-            canonIssues.push(`Guardian ${gate.guardian} mentioned without ${gate.element} element context`);
-          }
-        }
-      });
+      const result = validateCanonText(content);
 
       return {
         content: [{
@@ -606,10 +1177,11 @@ export async function handleToolCall(
           text: JSON.stringify({
             validation: {
               content_type: contentType,
-              is_canon_compliant: canonIssues.length === 0,
-              issues: canonIssues,
-              suggestions: canonIssues.length > 0
-                ? canonIssues.map(i => `Review: ${i}`)
+              is_canon_compliant: result.valid,
+              issues: result.issues,
+              entities: result.entities.map(({ type, text, start, end, canonical }) => ({ type, text, start, end, canonical })),
+              suggestions: result.issues.length > 0
+                ? result.issues.flatMap(issue => issue.fixes.map(fix => `${issue.text} -> ${fix.replacement}: ${fix.description}`))
                 : ['Content appears canon-compliant'],
             },
           }, null, 2),
@@ -620,12 +1192,7 @@ export async function handleToolCall(
     default: {
       // Check if it's an artifact flow tool
       if (name.startsWith('arcanea_')) {
-        const studioPath = process.env.ARCANEA_STUDIO_PATH ||
-          (process.platform === 'win32'
-            ? 'C:\\Users\\frank\\arcanea-studio'
-            : `${process.env.HOME}/arcanea-studio`);
-
-        const storage = createStorage(studioPath);
+        const storage = createStorage(getStudioPath());
         const artifactHandlers = createArtifactToolHandlers(storage);
 
         if (artifactHandlers[name]) {
@@ -633,20 +1200,14 @@ export async function handleToolCall(
             // Initialize storage on first use
             await storage.initialize();
             const result = await artifactHandlers[name](args);
-            return {
-              content: [{
-                type: 'text',
-                text: JSON.stringify(result, null, 2),
-              }],
-            };
+            const changed = (result as { artifact?: { id: string } }).artifact;
+            if (changed && ARTIFACT_CHANGING_TOOLS.includes(name)) {
+              const artifact = await storage.get(changed.id);
+              if (artifact) context.resourcesUpdated(artifactResourceUris(artifact));
+            }
+            return handlerResult(result);
           } catch (err) {
-            const error = err as Error;
-            return {
-              content: [{
-                type: 'text',
-                text: JSON.stringify({ error: error.message }),
-              }],
-            };
+            return toolError((err as Error).message);
           }
         }
       }
@@ -657,31 +1218,14 @@ export async function handleToolCall(
 
         if (infogeniusHandlers[name]) {
           try {
-            const result = await infogeniusHandlers[name](args);
-            return {
-              content: [{
-                type: 'text',
-                text: JSON.stringify(result, null, 2),
-              }],
-            };
+            return handlerResult(await infogeniusHandlers[name](args));
           } catch (err) {
-            const error = err as Error;
-            return {
-              content: [{
-                type: 'text',
-                text: JSON.stringify({ error: error.message }),
-              }],
-            };
+            return toolError((err as Error).message);
           }
         }
       }
 
-      return {
-        content: [{
-          type: 'text',
-          text: JSON.stringify({ error: `Unknown tool: ${name}` }),
-        }],
-      };
+      return toolError(`Unknown tool: ${name}`);
     }
   }
 }
@@ -690,9 +1234,7 @@ export async function handleToolCall(
 // RESOURCE HANDLERS
 // =============================================================================
 
-export async function handleResourceRead(
-  uri: string
-): Promise<{ contents: Array<{ uri: string; mimeType: string; text: string }> }> {
+export async function handleResourceRead(uri: string): Promise<MCPResourceContents> {
   let data: unknown;
 
   switch (uri) {
@@ -725,31 +1267,21 @@ export async function handleResourceRead(
 
     case 'arcanea://elements':
       data = {
-        elements: ['Earth', 'Water', 'Fire', 'Light', 'Prismatic', 'Wind', 'Void', 'Arcane'],
-        correspondences: {
-          Earth: { gate: 'foundation', guardian: 'Lyssandria', quality: 'stability' },
-          Water: { gate: 'flow', guardian: 'Leyla', quality: 'adaptability' },
-          Fire: { gate: 'fire', guardian: 'Draconia', quality: 'transformation' },
-          Light: { gate: 'heart', guardian: 'Maylinn', quality: 'love' },
-          Prismatic: { gate: 'voice', guardian: 'Alera', quality: 'truth' },
-          Wind: { gate: 'sight', guardian: 'Lyria', quality: 'perception' },
-          Void: { gate: 'crown', guardian: 'Aiyami', quality: 'transcendence' },
-          Arcane: { gates: ['shift', 'unity', 'source'], quality: 'meta-consciousness' },
-        },
+        elements: listElementNames(),
+        correspondences: Object.fromEntries(
+          listCanonElements().map(element => {
+            const gates = listCanonGates().filter(g => g.element === element.name);
+            return [element.name, gates.length === 1
+              ? { gate: gates[0].name, guardian: gates[0].guardian, quality: element.quality }
+              : { gates: gates.map(g => g.name), quality: element.quality }];
+          })
+        ),
       };
       break;
 
     case 'arcanea://houses':
       data = {
-        houses: [
-          { name: 'Lumina', element: 'Light', philosophy: 'Illumination through creation' },
-          { name: 'Nero', element: 'Void', philosophy: 'Power through shadow mastery' },
-          { name: 'Pyros', element: 'Fire', philosophy: 'Transformation through flame' },
-          { name: 'Aqualis', element: 'Water', philosophy: 'Wisdom through flow' },
-          { name: 'Terra', element: 'Earth', philosophy: 'Strength through foundation' },
-          { name: 'Ventus', element: 'Wind', philosophy: 'Freedom through change' },
-          { name: 'Synthesis', element: 'Arcane', philosophy: 'Unity through integration' },
-        ],
+        houses: listCanonHouses(),
       };
       break;
 
@@ -757,8 +1289,11 @@ export async function handleResourceRead(
       data = GUARDIAN_WISDOM;
       break;
 
-    default:
-      throw new Error(`Unknown resource: ${uri}`);
+    default: {
+      const templated = await readTemplatedResource(uri);
+      if (templated) return templated;
+      throw protocolError(JSON_RPC_ERRORS.RESOURCE_NOT_FOUND, `Unknown resource: ${uri}`);
+    }
   }
 
   return {
@@ -770,18 +1305,152 @@ export async function handleResourceRead(
   };
 }
 
-// =============================================================================
-// PROMPT HANDLERS
-// =============================================================================
+/**
+ * Match a URI against a level 1 URI template, returning the decoded variables
+ */
+function matchUriTemplate(template: string, uri: string): Record<string, string> | null {
+  const names: string[] = [];
+  const pattern = template
+    .split(/(\{\w+\})/)
+    .map((part) => {
+      const variable = part.match(/^\{(\w+)\}$/);
+      if (!variable) return part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+      names.push(variable[1]);
+      return '([^/]+)';
+    })
+    .join('');
+  const match = uri.match(new RegExp(`^${pattern}$`));
+  if (!match) return null;
+  try {
+    return Object.fromEntries(names.map((name, i) => [name, decodeURIComponent(match[i + 1])]));
+  } catch {
+    return null;
+  }
+}
 
-export async function handlePromptGet(
-  name: string,
-  args: Record<string, string>
-): Promise<{ description: string; messages: Array<{ role: string; content: { type: string; text: string } }> }> {
-  switch (name) {
-    case 'invoke_archetype': {
-      const archetype = args.archetype;
-      const context = args.context || '';
+const ARTIFACT_MIME_TYPES: Record<string, string> = {
+  '.md': 'text/markdown',
+  '.json': 'application/json',
+  '.yaml': 'application/yaml',
+  '.yml': 'application/yaml',
+  '.ts': 'text/typescript',
+  '.js': 'text/javascript',
+  '.html': 'text/html',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.svg': 'image/svg+xml',
+};
+
+async function readArtifactResource(uri: string, artifact: Artifact, storage: ArtifactStorage): Promise<MCPResourceContents> {
+  const content = await storage.getContent(artifact.id);
+  if (content === null) {
+    throw protocolError(JSON_RPC_ERRORS.RESOURCE_NOT_FOUND, `Artifact ${artifact.id} has no stored content`);
+  }
+  const mimeType = ARTIFACT_MIME_TYPES[path.extname(artifact.fileName).toLowerCase()] || 'text/plain';
+  return {
+    contents: [typeof content === 'string'
+      ? { uri, mimeType, text: content }
+      : { uri, mimeType, blob: content.toString('base64') }],
+  };
+}
+
+/**
+ * The resource URIs whose content changes when an artifact is stored or changed
+ */
+export function artifactResourceUris(artifact: Artifact): string[] {
+  const uris = [`arcanea://artifacts/${artifact.id}`, `arcanea://artifacts/category/${artifact.category}`];
+  const project = artifact.metadata?.projectId;
+  if (artifact.category === 'character' && typeof project === 'string') {
+    uris.push(
+      `arcanea://projects/${project}/characters/${artifact.id}`,
+      `arcanea://projects/${project}/characters/${path.parse(artifact.fileName).name.toLowerCase()}`
+    );
+  }
+  return uris;
+}
+
+/**
+ * Resolve a URI that matches one of RESOURCE_TEMPLATES. Returns null when no
+ * template matches; throws when one matches but names nothing that exists.
+ */
+async function readTemplatedResource(uri: string): Promise<MCPResourceContents | null> {
+  const notFound = (what: string) => protocolError(JSON_RPC_ERRORS.RESOURCE_NOT_FOUND, `${what} not found: ${uri}`);
+  const markdown = (text: string | null, what: string): MCPResourceContents => {
+    if (text === null) throw notFound(what);
+    return { contents: [{ uri, mimeType: 'text/markdown', text }] };
+  };
+
+  for (const template of RESOURCE_TEMPLATES) {
+    const params = matchUriTemplate(template.uriTemplate, uri);
+    if (!params) continue;
+
+    switch (template.uriTemplate) {
+      case 'arcanea://guardians/{name}':
+        return markdown(getGuardian(params.name) ? await loadGuardianAgent(params.name) : null, 'Guardian');
+
+      case 'arcanea://awakened/{name}':
+        return markdown(getAwakened(params.name) ? await loadAwakenedAgent(params.name) : null, 'Awakened');
+
+      case 'arcanea://skills/{gate}': {
+        const gate = getCanonGate(params.gate);
+        return markdown(gate ? await loadGateSkill(gate.name) : null, 'Gate');
+      }
+
+      case 'arcanea://skills/{gate}/{skill}': {
+        const gate = getCanonGate(params.gate);
+        const skill = gate ? getGateSkill(gate.name, params.skill) : undefined;
+        return markdown(gate && skill ? await loadGateSkill(gate.name, skill.key) : null, 'Skill');
+      }
+
+      case 'arcanea://artifacts/{id}': {
+        const storage = createStorage(getStudioPath());
+        await storage.initialize();
+        const artifact = await storage.get(params.id);
+        if (!artifact) throw notFound('Artifact');
+        return readArtifactResource(uri, artifact, storage);
+      }
+
+      case 'arcanea://artifacts/category/{category}': {
+        if (!ARTIFACT_CATEGORIES.includes(params.category as ArtifactCategory)) throw notFound('Artifact category');
+        const storage = createStorage(getStudioPath());
+        await storage.initialize();
+        const artifacts = await storage.list(params.category as ArtifactCategory);
+        return { contents: [{ uri, mimeType: 'application/json', text: JSON.stringify(artifacts, null, 2) }] };
+      }
+
+      case 'arcanea://projects/{project}/characters/{character}': {
+        const storage = createStorage(getStudioPath());
+        await storage.initialize();
+        const wanted = params.character.toLowerCase();
+        const artifact = (await storage.list('character')).find((a) =>
+          a.metadata.projectId === params.project &&
+          (a.id === params.character || a.fileName.toLowerCase() === wanted ||
+            path.parse(a.fileName).name.toLowerCase() === wanted)
+        );
+        if (!artifact) throw notFound('Character');
+        return readArtifactResource(uri, artifact, storage);
+      }
+    }
+  }
+
+  return null;
+}
+
+// =============================================================================
+// PROMPT HANDLERS
+// =============================================================================
+
+export async function handlePromptGet(
+  name: string,
+  args: Record<string, string>
+): Promise<{ description: string; messages: Array<{ role: string; content: { type: string; text: string } }> }> {
+  switch (name) {
+    case 'invoke_archetype': {
+      const archetype = args.archetype;
+      const context = args.context || '';
 
       // Try Guardian first, then Awakened
       const guardian = getGuardian(archetype);
@@ -921,8 +1590,8 @@ The session should:
 5. Integrate with existing lore
 
 Focus: ${focus}
-Available Elements: Earth, Water, Fire, Light, Prismatic, Wind, Void, Arcane
-Available Houses: Lumina, Nero, Pyros, Aqualis, Terra, Ventus, Synthesis`,
+Available Elements: ${listElementNames().join(', ')}
+Available Houses: ${listHouseNames().join(', ')}`,
           },
         }],
       };
@@ -940,136 +1609,836 @@ Available Houses: Lumina, Nero, Pyros, Aqualis, Terra, Ventus, Synthesis`,
 }
 
 // =============================================================================
-// STDIO SERVER (Main Entry Point)
+// COMPLETION HANDLERS
 // =============================================================================
 
-export function createMCPServer() {
+/**
+ * A suggested argument value, matched on its aliases too (e.g. an artifact id
+ * found by its file name)
+ */
+interface CompletionCandidate {
+  value: string;
+  aliases?: string[];
+}
+
+type CompletionSource = (args: Record<string, string>) => Array<string | CompletionCandidate> | Promise<Array<string | CompletionCandidate>>;
+
+/** completion/complete returns at most this many values */
+const MAX_COMPLETIONS = 100;
+
+const guardianNames = () => listGuardianKeys();
+const awakenedNames = () => Object.keys(AWAKENED);
+const gateNames = () => listGateNames();
+
+/**
+ * The studio as stored, opened read-only so completing never writes to it
+ */
+async function openStudio(): Promise<ArtifactStorage> {
+  const storage = createStorage(getStudioPath());
+  await storage.open();
+  return storage;
+}
+
+const artifactIds: CompletionSource = async () =>
+  (await (await openStudio()).list()).map((a) => ({ value: a.id, aliases: [a.fileName] }));
+
+const projectIds: CompletionSource = async () => (await openStudio()).listProjects();
+
+const projectCharacters: CompletionSource = async (args) =>
+  (await (await openStudio()).list())
+    .filter((a) => a.category === 'character' && typeof a.metadata?.projectId === 'string')
+    .filter((a) => !args.project || a.metadata.projectId === args.project)
+    .map((a) => ({ value: path.parse(a.fileName).name.toLowerCase(), aliases: [a.id] }));
+
+const gateSkills: CompletionSource = (args) => {
+  const gate = args.gate ? getCanonGate(args.gate) : undefined;
+  const gates = gate ? [gate.name] : listGateNames();
+  return gates.flatMap((g) => listGateSkills(g).map((skill) => ({ value: skill.key, aliases: [skill.name] })));
+};
+
+/**
+ * Where each prompt argument's suggestions come from
+ */
+const PROMPT_COMPLETIONS: Record<string, Record<string, CompletionSource>> = {
+  invoke_archetype: { archetype: () => [...guardianNames(), ...awakenedNames()] },
+  gate_meditation: { gate: gateNames, duration: () => ['brief', 'standard', 'deep'] },
+  creative_ritual: { gate: gateNames },
+  worldbuilding_session: {
+    focus: () => ['character', 'location', 'artifact', 'story'],
+    guardian: guardianNames,
+  },
+};
+
+/**
+ * Where each resource template variable's suggestions come from
+ */
+const TEMPLATE_COMPLETIONS: Record<string, Record<string, CompletionSource>> = {
+  'arcanea://guardians/{name}': { name: guardianNames },
+  'arcanea://awakened/{name}': { name: awakenedNames },
+  'arcanea://skills/{gate}': { gate: gateNames },
+  'arcanea://skills/{gate}/{skill}': { gate: gateNames, skill: gateSkills },
+  'arcanea://artifacts/{id}': { id: artifactIds },
+  'arcanea://artifacts/category/{category}': { category: () => ARTIFACT_CATEGORIES },
+  'arcanea://projects/{project}/characters/{character}': { project: projectIds, character: projectCharacters },
+};
+
+/**
+ * Suggestions for arguments the tables above do not list, by argument name
+ */
+const ARGUMENT_COMPLETIONS: Record<string, CompletionSource> = {
+  guardian: guardianNames,
+  awakened: awakenedNames,
+  gate: gateNames,
+  house: () => listHouseNames(),
+  element: () => listElementNames(),
+  project: projectIds,
+};
+
+/**
+ * How well `query` matches `candidate`, lower is better, or null for no match.
+ * Prefixes beat word prefixes beat substrings; from three characters on,
+ * scattered letters ("drcna") and typos ("drakonia", "fier") match too.
+ */
+function completionScore(query: string, candidate: string): number | null {
+  const text = candidate.toLowerCase();
+  if (text.startsWith(query)) return 0;
+  if (text.split(/[^a-z0-9]+/).some((word) => word.startsWith(query))) return 1;
+  if (text.includes(query)) return 2;
+  if (query.length < 3) return null;
+
+  let i = 0;
+  for (const char of text) {
+    if (char === query[i]) i++;
+    if (i === query.length) return 3;
+  }
+
+  const distance = Math.min(typoDistance(query, text.slice(0, query.length)), typoDistance(query, text));
+  return distance <= Math.max(1, Math.floor(query.length / 4)) ? 3 + distance : null;
+}
+
+/**
+ * Edit distance that counts swapping two neighbouring letters as one typo
+ */
+function typoDistance(a: string, b: string): number {
+  const rows = Array.from({ length: a.length + 1 }, (_, i) =>
+    Array.from({ length: b.length + 1 }, (_, j) => (i === 0 ? j : j === 0 ? i : 0))
+  );
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      rows[i][j] = Math.min(rows[i - 1][j] + 1, rows[i][j - 1] + 1, rows[i - 1][j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        rows[i][j] = Math.min(rows[i][j], rows[i - 2][j - 2] + 1);
+      }
+    }
+  }
+  return rows[a.length][b.length];
+}
+
+/**
+ * Rank candidates against what the user has typed so far
+ */
+export function rankCompletions(value: string, candidates: Array<string | CompletionCandidate>): string[] {
+  const query = value.trim().toLowerCase();
+  const scored = new Map<string, number>();
+
+  for (const candidate of candidates) {
+    const { value: suggestion, aliases = [] } = typeof candidate === 'string' ? { value: candidate } : candidate;
+    const scores = [suggestion, ...aliases]
+      .map((text) => (query ? completionScore(query, text) : 0))
+      .filter((score): score is number => score !== null);
+    if (scores.length === 0) continue;
+    const best = Math.min(...scores);
+    if (!scored.has(suggestion) || best < scored.get(suggestion)!) scored.set(suggestion, best);
+  }
+
+  // Map keeps insertion order, so equal scores stay in canonical order
+  return Array.from(scored.entries())
+    .sort((a, b) => a[1] - b[1])
+    .map(([suggestion]) => suggestion);
+}
+
+export async function handleCompletion(
+  ref: { type: string; name?: string; uri?: string },
+  argument: { name: string; value: string },
+  args: Record<string, string> = {}
+): Promise<{ completion: { values: string[]; total: number; hasMore: boolean } }> {
+  let sources: Record<string, CompletionSource> | undefined;
+  if (ref?.type === 'ref/prompt') {
+    if (!PROMPTS.some((prompt) => prompt.name === ref.name)) {
+      throw protocolError(JSON_RPC_ERRORS.INVALID_PARAMS, `Unknown prompt: ${ref.name}`);
+    }
+    sources = PROMPT_COMPLETIONS[ref.name!];
+  } else if (ref?.type === 'ref/resource') {
+    if (!RESOURCE_TEMPLATES.some((template) => template.uriTemplate === ref.uri)) {
+      throw protocolError(JSON_RPC_ERRORS.INVALID_PARAMS, `Unknown resource template: ${ref.uri}`);
+    }
+    sources = TEMPLATE_COMPLETIONS[ref.uri!];
+  } else {
+    throw protocolError(JSON_RPC_ERRORS.INVALID_PARAMS, 'completion/complete needs a ref/prompt or ref/resource ref');
+  }
+
+  const source = sources?.[argument.name] || ARGUMENT_COMPLETIONS[argument.name];
+  const values = source ? rankCompletions(String(argument.value ?? ''), await source(args)) : [];
   return {
-    tools: TOOLS,
-    resources: RESOURCES,
-    prompts: PROMPTS,
-    handleToolCall,
-    handleResourceRead,
-    handlePromptGet,
+    completion: {
+      values: values.slice(0, MAX_COMPLETIONS),
+      total: values.length,
+      hasMore: values.length > MAX_COMPLETIONS,
+    },
   };
 }
 
+// =============================================================================
+// PROTOCOL
+// =============================================================================
+
+export const MCP_PROTOCOL_VERSION = '2025-03-26';
+
 /**
- * Run the MCP server over stdio
- * Protocol: JSON-RPC 2.0 over newline-delimited JSON
+ * Protocol versions the server can speak, newest first. initialize answers
+ * with the client's version when it is one of these.
  */
-export async function runStdioServer(): Promise<void> {
-  const server = createMCPServer();
+export const SUPPORTED_PROTOCOL_VERSIONS = [MCP_PROTOCOL_VERSION, '2024-11-05'];
 
-  process.stdin.setEncoding('utf-8');
+export type JsonRpcId = string | number;
 
-  let buffer = '';
+export interface JsonRpcMessage {
+  jsonrpc: '2.0';
+  id?: JsonRpcId | null;
+  method?: string;
+  params?: Record<string, any>;
+  result?: unknown;
+  error?: { code: number; message: string; data?: unknown };
+}
 
-  process.stdin.on('data', async (chunk: string) => {
-    buffer += chunk;
+export const JSON_RPC_ERRORS = {
+  PARSE_ERROR: -32700,
+  INVALID_REQUEST: -32600,
+  METHOD_NOT_FOUND: -32601,
+  INVALID_PARAMS: -32602,
+  INTERNAL_ERROR: -32603,
+  /** MCP: resources/read for a URI that does not exist */
+  RESOURCE_NOT_FOUND: -32002,
+} as const;
 
-    const lines = buffer.split('\n');
-    buffer = lines.pop() || '';
+/**
+ * Syslog severities, lowest first, as used by logging/setLevel
+ */
+export type LoggingLevel = 'debug' | 'info' | 'notice' | 'warning' | 'error' | 'critical' | 'alert' | 'emergency';
 
-    for (const line of lines) {
-      if (!line.trim()) continue;
+export const LOGGING_LEVELS: LoggingLevel[] = ['debug', 'info', 'notice', 'warning', 'error', 'critical', 'alert', 'emergency'];
+
+/** How long a request to the client (sampling/createMessage) may go unanswered */
+export const CLIENT_REQUEST_TIMEOUT_MS = 5 * 60 * 1000;
+
+/**
+ * What a handler gets besides its arguments
+ */
+export interface MCPRequestContext {
+  /** Aborted when the client sends notifications/cancelled for the request */
+  signal: AbortSignal;
+  /** Send notifications/progress; does nothing unless the client asked for progress */
+  progress(progress: number, total?: number, message?: string): void;
+  /** Tell resource subscribers that a tool changed these resources */
+  resourcesUpdated(uris: string[]): void;
+  /** Send a log message to the client, subject to its logging level */
+  log(level: LoggingLevel, data: unknown): void;
+  /**
+   * The client's model via sampling/createMessage; null unless the client
+   * declared sampling and the request came over a channel that can carry it
+   */
+  sampling: LLMProvider | null;
+}
+
+const NO_CONTEXT: MCPRequestContext = {
+  signal: new AbortController().signal,
+  progress: () => {},
+  resourcesUpdated: () => {},
+  log: () => {},
+  sampling: null,
+};
+
+function protocolError(code: number, message: string): Error & { code: number } {
+  return Object.assign(new Error(message), { code });
+}
+
+// =============================================================================
+// SERVER
+// =============================================================================
+
+export interface MCPServerOptions {
+  /** Model for tools such as convene_council; defaults to the environment's */
+  provider?: LLMProvider;
+  /** Items per page of tools/list, resources/list and prompts/list (default 50) */
+  pageSize?: number;
+  /** Serve the tools and resources of this registry's active plugins too */
+  plugins?: PluginRegistry;
+  /** Notify resource subscribers when this watcher stores or changes an artifact */
+  watcher?: ArtifactWatcher;
+}
+
+export type MCPListName = 'tools' | 'resources';
+
+/**
+ * Describe a plugin tool the way tools/list does. Plugin tool names are
+ * namespaced ("plugin:tool"), so they never shadow a built-in tool.
+ */
+function pluginToolToMCP(tool: ReturnType<PluginRegistry['getTools']>[number]): MCPTool {
+  const inputs = tool.inputs || [];
+  return {
+    name: tool.name,
+    description: `${tool.description} (plugin: ${tool.plugin})`,
+    inputSchema: {
+      type: 'object',
+      properties: Object.fromEntries(inputs.map((input) => [input.name, {
+        type: input.type,
+        ...(input.description ? { description: input.description } : {}),
+        ...(input.enum ? { enum: input.enum } : {}),
+      }])),
+      required: inputs.filter((input) => input.required).map((input) => input.name),
+    },
+  };
+}
+
+function pluginResult(result: unknown): string {
+  return typeof result === 'string' ? result : JSON.stringify(result, null, 2);
+}
+
+/**
+ * What tools/call returns
+ */
+export interface MCPToolResult {
+  content: Array<{ type: 'text'; text: string }>;
+  /** True when the call failed; the text says why */
+  isError?: boolean;
+}
+
+function toolError(message: string): MCPToolResult {
+  return { content: [{ type: 'text', text: message }], isError: true };
+}
+
+/**
+ * Report an artifact or Infogenius handler's result as JSON. Handlers return
+ * `{ error }` (e.g. "Artifact not found") rather than throwing; those are
+ * marked isError too.
+ */
+function handlerResult(result: unknown): MCPToolResult {
+  const failed = typeof result === 'object' && result !== null && 'error' in result && Boolean(result.error);
+  return { content: [{ type: 'text', text: JSON.stringify(result, null, 2) }], ...(failed ? { isError: true } : {}) };
+}
+
+/**
+ * Check arguments against a tool's inputSchema before the tool runs. Returns
+ * an isError result listing every bad field, or null when they are valid.
+ */
+function checkToolArguments(tool: MCPTool, args: unknown): MCPToolResult | null {
+  const issues = validateSchema(tool.inputSchema, args);
+  if (issues.length === 0) return null;
+  return toolError(`Invalid arguments for ${tool.name}:\n${formatSchemaIssues(issues)}`);
+}
+
+export function createMCPServer(options: MCPServerOptions = {}) {
+  if (options.provider) setLLMProvider(options.provider);
+
+  const plugins = options.plugins || null;
+  const events = new EventEmitter();
+  const builtInUris = new Set(RESOURCES.map((resource) => resource.uri));
+
+  // Activating or deactivating a plugin changes what the lists contain
+  const onPluginChange = ({ plugin }: { plugin: { manifest: { tools?: unknown[]; resources?: unknown[] } } }) => {
+    if (plugin.manifest.tools?.length) events.emit('listChanged', 'tools');
+    if (plugin.manifest.resources?.length) events.emit('listChanged', 'resources');
+  };
+  plugins?.on('plugin:activated', onPluginChange);
+  plugins?.on('plugin:deactivated', onPluginChange);
+
+  options.watcher?.on('artifact', ({ artifact }: { artifact: Artifact }) => {
+    events.emit('resourcesUpdated', artifactResourceUris(artifact));
+  });
+
+  const listTools = (): MCPTool[] => [...TOOLS, ...(plugins?.getTools() || []).map(pluginToolToMCP)];
+
+  return {
+    prompts: PROMPTS,
+    resourceTemplates: RESOURCE_TEMPLATES,
+    pageSize: options.pageSize ?? 50,
+    /**
+     * Whether clients may subscribe to resources (a watcher is attached).
+     * Tools that store or change artifacts notify subscribers too.
+     */
+    resourceUpdates: Boolean(options.watcher),
+    listTools,
+
+    listResources(): MCPResource[] {
+      const pluginResources = (plugins?.getResources() || [])
+        .filter((resource) => !builtInUris.has(resource.uri))
+        .map(({ plugin, ...resource }) => ({ ...resource, description: resource.description || `Provided by plugin ${plugin}` }));
+      return [...RESOURCES, ...pluginResources];
+    },
+
+    async handleToolCall(
+      name: string,
+      args: Record<string, unknown>,
+      context: MCPRequestContext = NO_CONTEXT
+    ): Promise<MCPToolResult> {
+      const tool = listTools().find((t) => t.name === name);
+      if (!tool) throw protocolError(JSON_RPC_ERRORS.INVALID_PARAMS, `Unknown tool: ${name}`);
+      const invalid = checkToolArguments(tool, args);
+      if (invalid) return invalid;
 
       try {
-        const request = JSON.parse(line);
-        const response = await handleRequest(server, request);
-        process.stdout.write(JSON.stringify(response) + '\n');
+        if (plugins?.hasTool(name)) {
+          return { content: [{ type: 'text', text: pluginResult(await plugins.callTool(name, args)) }] };
+        }
+        return await handleToolCall(name, args, context);
       } catch (err) {
-        const error = err as Error;
-        process.stdout.write(JSON.stringify({
-          jsonrpc: '2.0',
-          error: { code: -32700, message: error.message },
-          id: null,
-        }) + '\n');
+        // Protocol errors stay JSON-RPC errors; a failing tool is a tool result
+        if (typeof (err as { code?: unknown }).code === 'number') throw err;
+        return toolError((err as Error).message);
       }
-    }
-  });
+    },
 
-  process.stderr.write('Arcanea Intelligence OS MCP Server running\n');
+    async handleResourceRead(uri: string): Promise<MCPResourceContents> {
+      const resource = builtInUris.has(uri) ? undefined : plugins?.getResources().find((r) => r.uri === uri);
+      if (!resource) return handleResourceRead(uri);
+
+      return { contents: [{ uri, mimeType: resource.mimeType, text: pluginResult(await plugins!.readResource(uri)) }] };
+    },
+
+    handlePromptGet,
+    handleCompletion,
+
+    /**
+     * Call `listener` whenever tools/list or resources/list would change.
+     * Returns a function that stops listening.
+     */
+    onListChanged(listener: (list: MCPListName) => void): () => void {
+      events.on('listChanged', listener);
+      return () => {
+        events.off('listChanged', listener);
+      };
+    },
+
+    /**
+     * Call `listener` with the URIs of resources whose content changed.
+     * Returns a function that stops listening.
+     */
+    onResourcesUpdated(listener: (uris: string[]) => void): () => void {
+      events.on('resourcesUpdated', listener);
+      return () => {
+        events.off('resourcesUpdated', listener);
+      };
+    },
+
+    /**
+     * Notify every session subscribed to one of `uris`
+     */
+    resourcesUpdated(uris: string[]): void {
+      events.emit('resourcesUpdated', uris);
+    },
+  };
 }
 
-async function handleRequest(
-  server: ReturnType<typeof createMCPServer>,
-  request: { jsonrpc: string; method: string; params?: unknown; id: unknown }
-): Promise<unknown> {
-  const { method, params, id } = request;
+export type MCPServer = ReturnType<typeof createMCPServer>;
 
-  try {
+/**
+ * One client connection. Tracks the client's logging level and the requests
+ * in flight so they can be cancelled; `send` delivers server-initiated
+ * messages (notifications and requests such as sampling/createMessage) over
+ * the connection's transport.
+ */
+export class MCPSession {
+  private logLevel: LoggingLevel = 'info';
+  private inFlight: Map<JsonRpcId, AbortController> = new Map();
+  private initialized = false;
+  private subscriptions: Set<string> = new Set();
+  private stopListening: Array<() => void>;
+  private clientCapabilities: Record<string, any> = {};
+  private pending: Map<JsonRpcId, { resolve: (result: any) => void; reject: (error: Error) => void }> = new Map();
+  private nextRequestId = 1;
+
+  constructor(
+    private readonly server: MCPServer,
+    private readonly send: (message: JsonRpcMessage) => void
+  ) {
+    this.stopListening = [
+      server.onListChanged((list) => {
+        if (this.initialized) this.notify(`notifications/${list}/list_changed`);
+      }),
+      server.onResourcesUpdated((uris) => {
+        for (const uri of uris) {
+          if (this.subscriptions.has(uri)) this.notify('notifications/resources/updated', { uri });
+        }
+      }),
+    ];
+  }
+
+  /**
+   * Whether the client has sent notifications/initialized
+   */
+  isInitialized(): boolean {
+    return this.initialized;
+  }
+
+  /**
+   * Handle one incoming message. Returns the response, or null for
+   * notifications and for requests the client cancelled. Progress and log
+   * notifications about a request go to `channel` when given (e.g. the HTTP
+   * response stream of that request), otherwise to the session's `send`.
+   * With `sampling: false` tools cannot call the client's model, for
+   * transports where the client cannot answer until the response is sent.
+   */
+  async handleMessage(
+    message: JsonRpcMessage,
+    channel?: (message: JsonRpcMessage) => void,
+    options: { sampling?: boolean } = {}
+  ): Promise<JsonRpcMessage | null> {
+    if (!message || typeof message !== 'object' || message.jsonrpc !== '2.0') {
+      return this.errorResponse(null, JSON_RPC_ERRORS.INVALID_REQUEST, 'Invalid JSON-RPC message');
+    }
+
+    // Responses to server-initiated requests (sampling/createMessage)
+    if (message.method === undefined && ('result' in message || 'error' in message)) {
+      const pending = this.pending.get(message.id as JsonRpcId);
+      if (pending) {
+        this.pending.delete(message.id as JsonRpcId);
+        if (message.error) pending.reject(protocolError(message.error.code, message.error.message));
+        else pending.resolve(message.result);
+      }
+      return null;
+    }
+
+    if (typeof message.method !== 'string') {
+      return this.errorResponse(message.id ?? null, JSON_RPC_ERRORS.INVALID_REQUEST, 'Missing method');
+    }
+
+    if (!('id' in message)) {
+      this.handleNotification(message.method, message.params || {});
+      return null;
+    }
+
+    const id = message.id;
+    if (typeof id !== 'string' && typeof id !== 'number') {
+      return this.errorResponse(null, JSON_RPC_ERRORS.INVALID_REQUEST, 'Request id must be a string or number');
+    }
+
+    const controller = new AbortController();
+    this.inFlight.set(id, controller);
+
+    try {
+      const context = this.createContext(message, controller.signal, channel || this.send, options.sampling !== false);
+      const result = await this.dispatch(message.method, message.params || {}, context);
+      return controller.signal.aborted ? null : { jsonrpc: '2.0', id, result };
+    } catch (err) {
+      if (controller.signal.aborted) return null;
+      const error = err as Error & { code?: number };
+      if (typeof error.code === 'number') {
+        return this.errorResponse(id, error.code, error.message);
+      }
+      this.log('error', { method: message.method, error: error.message });
+      return this.errorResponse(id, JSON_RPC_ERRORS.INTERNAL_ERROR, error.message);
+    } finally {
+      this.inFlight.delete(id);
+    }
+  }
+
+  /**
+   * Send a request to the client and resolve with its result. Aborting
+   * `signal`, or no answer within `timeoutMs`, sends notifications/cancelled
+   * and rejects.
+   */
+  request(
+    method: string,
+    params: Record<string, unknown>,
+    signal?: AbortSignal,
+    send: (message: JsonRpcMessage) => void = this.send,
+    timeoutMs: number = CLIENT_REQUEST_TIMEOUT_MS
+  ): Promise<any> {
+    if (signal?.aborted) return Promise.reject(new Error('Request cancelled'));
+
+    const id = this.nextRequestId++;
+    return new Promise((resolve, reject) => {
+      const cancel = (reason: string) => {
+        this.pending.delete(id);
+        signal?.removeEventListener('abort', onAbort);
+        clearTimeout(timer);
+        send({ jsonrpc: '2.0', method: 'notifications/cancelled', params: { requestId: id, reason } });
+        reject(new Error(reason));
+      };
+      const onAbort = () => cancel('Request cancelled');
+      signal?.addEventListener('abort', onAbort, { once: true });
+      const timer = setTimeout(() => cancel(`${method} timed out after ${timeoutMs}ms`), timeoutMs);
+
+      this.pending.set(id, {
+        resolve: (result) => {
+          signal?.removeEventListener('abort', onAbort);
+          clearTimeout(timer);
+          resolve(result);
+        },
+        reject: (error) => {
+          signal?.removeEventListener('abort', onAbort);
+          clearTimeout(timer);
+          reject(error);
+        },
+      });
+      send({ jsonrpc: '2.0', id, method, params });
+    });
+  }
+
+  /**
+   * Send a notification to the client
+   */
+  notify(method: string, params?: Record<string, unknown>): void {
+    this.send({ jsonrpc: '2.0', method, ...(params ? { params } : {}) });
+  }
+
+  /**
+   * Send notifications/message when the level is at or above the client's
+   */
+  log(level: LoggingLevel, data: unknown, logger: string = 'aios'): void {
+    if (LOGGING_LEVELS.indexOf(level) < LOGGING_LEVELS.indexOf(this.logLevel)) return;
+    this.notify('notifications/message', { level, logger, data });
+  }
+
+  /**
+   * Abort every request in flight and stop list_changed and resource update
+   * notifications, e.g. when the connection closes
+   */
+  close(): void {
+    for (const controller of this.inFlight.values()) controller.abort();
+    this.inFlight.clear();
+    for (const { reject } of this.pending.values()) reject(new Error('Connection closed'));
+    this.pending.clear();
+    this.subscriptions.clear();
+    for (const stop of this.stopListening) stop();
+  }
+
+  // ===========================================================================
+  // DISPATCH
+  // ===========================================================================
+
+  private async dispatch(method: string, params: Record<string, any>, context: MCPRequestContext): Promise<unknown> {
     switch (method) {
       case 'initialize':
+        this.clientCapabilities = params.capabilities || {};
         return {
-          jsonrpc: '2.0',
-          result: {
-            protocolVersion: '2024-11-05',
-            serverInfo: {
-              name: '@arcanea/intelligence-os',
-              version: '0.1.0',
-            },
-            capabilities: {
-              tools: { listChanged: false },
-              resources: { subscribe: false, listChanged: false },
-              prompts: { listChanged: false },
-            },
+          protocolVersion: SUPPORTED_PROTOCOL_VERSIONS.includes(params.protocolVersion) ? params.protocolVersion : MCP_PROTOCOL_VERSION,
+          serverInfo: {
+            name: '@arcanea/intelligence-os',
+            version: AIOS_VERSION,
+          },
+          capabilities: {
+            tools: { listChanged: true },
+            resources: { subscribe: this.server.resourceUpdates, listChanged: true },
+            prompts: { listChanged: false },
+            logging: {},
+            completions: {},
           },
-          id,
         };
 
+      case 'ping':
+        return {};
+
       case 'tools/list':
-        return {
-          jsonrpc: '2.0',
-          result: { tools: server.tools },
-          id,
-        };
+        return this.paginate('tools', this.server.listTools(), params.cursor);
 
       case 'tools/call': {
-        const { name, arguments: args } = params as { name: string; arguments: Record<string, unknown> };
-        const result = await server.handleToolCall(name, args || {});
-        return { jsonrpc: '2.0', result, id };
+        const { name, arguments: args } = params as { name: string; arguments?: Record<string, unknown> };
+        if (typeof name !== 'string') {
+          throw protocolError(JSON_RPC_ERRORS.INVALID_PARAMS, 'tools/call needs a tool name');
+        }
+        context.log('debug', { tool: name });
+        return this.server.handleToolCall(name, args || {}, context);
       }
 
       case 'resources/list':
-        return {
-          jsonrpc: '2.0',
-          result: { resources: server.resources },
-          id,
-        };
+        return this.paginate('resources', this.server.listResources(), params.cursor);
+
+      case 'resources/subscribe':
+      case 'resources/unsubscribe': {
+        if (!this.server.resourceUpdates) {
+          throw protocolError(JSON_RPC_ERRORS.METHOD_NOT_FOUND, `${method} is not supported: this server does not offer resource subscriptions`);
+        }
+        if (typeof params.uri !== 'string') {
+          throw protocolError(JSON_RPC_ERRORS.INVALID_PARAMS, `${method} needs a uri`);
+        }
+        if (method === 'resources/subscribe') this.subscriptions.add(params.uri);
+        else this.subscriptions.delete(params.uri);
+        return {};
+      }
+
+      case 'resources/templates/list':
+        return this.paginate('resourceTemplates', this.server.resourceTemplates, params.cursor);
 
       case 'resources/read': {
-        const { uri } = params as { uri: string };
-        const result = await server.handleResourceRead(uri);
-        return { jsonrpc: '2.0', result, id };
+        if (typeof params.uri !== 'string') {
+          throw protocolError(JSON_RPC_ERRORS.INVALID_PARAMS, 'resources/read needs a uri');
+        }
+        return this.server.handleResourceRead(params.uri);
       }
 
       case 'prompts/list':
-        return {
-          jsonrpc: '2.0',
-          result: { prompts: server.prompts },
-          id,
-        };
+        return this.paginate('prompts', this.server.prompts, params.cursor);
 
       case 'prompts/get': {
-        const { name, arguments: args } = params as { name: string; arguments: Record<string, string> };
-        const result = await server.handlePromptGet(name, args || {});
-        return { jsonrpc: '2.0', result, id };
+        const { name, arguments: args } = params as { name: string; arguments?: Record<string, string> };
+        if (typeof name !== 'string') {
+          throw protocolError(JSON_RPC_ERRORS.INVALID_PARAMS, 'prompts/get needs a prompt name');
+        }
+        return this.server.handlePromptGet(name, args || {});
+      }
+
+      case 'completion/complete': {
+        const { ref, argument, context: completionContext } = params;
+        if (typeof argument?.name !== 'string') {
+          throw protocolError(JSON_RPC_ERRORS.INVALID_PARAMS, 'completion/complete needs an argument name');
+        }
+        // Arguments already filled in (e.g. the gate, when completing a skill)
+        return this.server.handleCompletion(ref, argument, completionContext?.arguments || {});
+      }
+
+      case 'logging/setLevel': {
+        if (!LOGGING_LEVELS.includes(params.level)) {
+          throw protocolError(JSON_RPC_ERRORS.INVALID_PARAMS, `Unknown logging level "${params.level}". Expected one of: ${LOGGING_LEVELS.join(', ')}`);
+        }
+        this.logLevel = params.level;
+        return {};
       }
 
       default:
-        return {
-          jsonrpc: '2.0',
-          error: { code: -32601, message: `Method not found: ${method}` },
-          id,
-        };
+        throw protocolError(JSON_RPC_ERRORS.METHOD_NOT_FOUND, `Method not found: ${method}`);
     }
-  } catch (err) {
-    const error = err as Error;
+  }
+
+  private handleNotification(method: string, params: Record<string, any>): void {
+    switch (method) {
+      case 'notifications/initialized':
+        this.initialized = true;
+        break;
+
+      case 'notifications/cancelled':
+        this.inFlight.get(params.requestId)?.abort(params.reason);
+        break;
+
+      default:
+        // Unknown notifications are ignored, as the spec requires
+        break;
+    }
+  }
+
+  // ===========================================================================
+  // HELPERS
+  // ===========================================================================
+
+  /**
+   * One page of a list result. Cursors are opaque to the client: the offset of
+   * the next page, base64url encoded.
+   */
+  private paginate<T>(key: string, items: T[], cursor: unknown): Record<string, unknown> {
+    let offset = 0;
+    if (cursor !== undefined && cursor !== null) {
+      offset = typeof cursor === 'string' ? Number(Buffer.from(cursor, 'base64url').toString('utf-8')) : NaN;
+      if (!Number.isInteger(offset) || offset < 0 || offset > items.length) {
+        throw protocolError(JSON_RPC_ERRORS.INVALID_PARAMS, 'Invalid cursor');
+      }
+    }
+
+    const end = offset + this.server.pageSize;
     return {
-      jsonrpc: '2.0',
-      error: { code: -32603, message: error.message },
-      id,
+      [key]: items.slice(offset, end),
+      ...(end < items.length ? { nextCursor: Buffer.from(String(end), 'utf-8').toString('base64url') } : {}),
+    };
+  }
+
+  private createContext(
+    request: JsonRpcMessage,
+    signal: AbortSignal,
+    send: (message: JsonRpcMessage) => void,
+    allowSampling: boolean
+  ): MCPRequestContext {
+    const progressToken = request.params?._meta?.progressToken;
+    const sampling = allowSampling && this.clientCapabilities.sampling
+      ? new SamplingProvider((params) => this.request('sampling/createMessage', { ...params }, signal, send) as Promise<SamplingResult>)
+      : null;
+
+    return {
+      signal,
+      resourcesUpdated: (uris) => this.server.resourcesUpdated(uris),
+      progress: (progress, total, message) => {
+        if (progressToken === undefined || signal.aborted) return;
+        send({
+          jsonrpc: '2.0',
+          method: 'notifications/progress',
+          params: {
+            progressToken,
+            progress,
+            ...(total !== undefined ? { total } : {}),
+            ...(message ? { message } : {}),
+          },
+        });
+      },
+      log: (level, data) => {
+        if (LOGGING_LEVELS.indexOf(level) < LOGGING_LEVELS.indexOf(this.logLevel)) return;
+        send({ jsonrpc: '2.0', method: 'notifications/message', params: { level, logger: 'aios', data } });
+      },
+      sampling,
     };
   }
+
+  private errorResponse(id: JsonRpcId | null, code: number, message: string): JsonRpcMessage {
+    return { jsonrpc: '2.0', id, error: { code, message } };
+  }
+}
+
+// =============================================================================
+// STDIO SERVER (Main Entry Point)
+// =============================================================================
+
+export interface StdioServerOptions {
+  /** Project whose canon overlays apply (default: the working directory) */
+  projectPath?: string;
+}
+
+/**
+ * Run the MCP server over stdio
+ * Protocol: JSON-RPC 2.0 over newline-delimited JSON
+ */
+export async function runStdioServer(options: StdioServerOptions = {}): Promise<void> {
+  setCanonProject(options.projectPath || process.cwd());
+  assertCanonConsistency();
+  const server = createMCPServer();
+  const write = (message: JsonRpcMessage) => process.stdout.write(JSON.stringify(message) + '\n');
+  const session = new MCPSession(server, write);
+
+  process.stdin.setEncoding('utf-8');
+
+  let buffer = '';
+
+  process.stdin.on('data', (chunk: string) => {
+    buffer += chunk;
+
+    const lines = buffer.split('\n');
+    buffer = lines.pop() || '';
+
+    for (const line of lines) {
+      if (!line.trim()) continue;
+
+      let message: JsonRpcMessage;
+      try {
+        message = JSON.parse(line);
+      } catch (err) {
+        write({ jsonrpc: '2.0', id: null, error: { code: JSON_RPC_ERRORS.PARSE_ERROR, message: (err as Error).message } });
+        continue;
+      }
+
+      // Requests run concurrently so a long tool call can still be cancelled
+      void session.handleMessage(message).then((response) => {
+        if (response) write(response);
+      });
+    }
+  });
+
+  process.stdin.on('end', () => session.close());
+
+  process.stderr.write('Arcanea Intelligence OS MCP Server running\n');
 }
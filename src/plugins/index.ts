@@ -390,6 +390,56 @@ export class PluginRegistry extends EventEmitter {
     return tools;
   }
 
+  /**
+   * Get all registered resources (from active plugins)
+   */
+  getResources(): Array<{
+    uri: string;
+    name: string;
+    mimeType: string;
+    description?: string;
+    plugin: string;
+  }> {
+    const resources: Array<{
+      uri: string;
+      name: string;
+      mimeType: string;
+      description?: string;
+      plugin: string;
+    }> = [];
+
+    for (const [pluginName, plugin] of this.plugins) {
+      if (plugin.status !== 'active') continue;
+      if (!plugin.manifest.resources) continue;
+
+      for (const resource of plugin.manifest.resources) {
+        resources.push({
+          uri: resource.uri,
+          name: resource.name,
+          mimeType: resource.mimeType,
+          description: resource.description,
+          plugin: pluginName,
+        });
+      }
+    }
+
+    return resources;
+  }
+
+  /**
+   * Whether an active plugin provides a tool
+   */
+  hasTool(name: string): boolean {
+    return this.toolHandlers.has(name);
+  }
+
+  /**
+   * Whether an active plugin provides a resource
+   */
+  hasResource(uri: string): boolean {
+    return this.resourceHandlers.has(uri);
+  }
+
   /**
    * Call a plugin tool
    */
@@ -0,0 +1,83 @@
+/**
+ * Claude Provider - Anthropic Messages API
+ */
+
+import type { ModelTier } from '../index';
+import type { LLMProvider, CompletionRequest, CompletionResponse, ProviderOptions } from './index';
+import { pickModel, postJSON, readServerSentEvents } from './http';
+
+const DEFAULT_BASE_URL = 'https://api.anthropic.com/v1';
+const API_VERSION = '2023-06-01';
+const DEFAULT_MAX_TOKENS = 4096;
+
+/**
+ * Canon model tiers map directly onto the Claude families
+ */
+const CLAUDE_MODELS: Record<ModelTier, string> = {
+  haiku: 'claude-3-5-haiku-latest',
+  sonnet: 'claude-sonnet-4-0',
+  opus: 'claude-opus-4-0',
+};
+
+export class ClaudeProvider implements LLMProvider {
+  readonly name = 'claude';
+  private options: ProviderOptions;
+  private apiKey: string;
+  private baseUrl: string;
+
+  constructor(options: ProviderOptions = {}) {
+    const key = options.apiKey || process.env.ANTHROPIC_API_KEY;
+    if (!key) {
+      throw new Error('ANTHROPIC_API_KEY is required for the claude provider');
+    }
+
+    this.options = options;
+    this.apiKey = key;
+    this.baseUrl = (options.baseUrl || DEFAULT_BASE_URL).replace(/\/$/, '');
+  }
+
+  async complete(request: CompletionRequest): Promise<CompletionResponse> {
+    const model = pickModel(this.options, CLAUDE_MODELS, request.modelTier);
+    const response = await postJSON(this.name, `${this.baseUrl}/messages`, this.headers(), this.body(model, request));
+    const data = await response.json() as { model?: string; content?: Array<{ type: string; text?: string }> };
+
+    const text = (data.content || [])
+      .filter((block) => block.type === 'text')
+      .map((block) => block.text || '')
+      .join('');
+
+    return { text, model: data.model || model, provider: this.name };
+  }
+
+  async *stream(request: CompletionRequest): AsyncIterable<string> {
+    const model = pickModel(this.options, CLAUDE_MODELS, request.modelTier);
+    const response = await postJSON(this.name, `${this.baseUrl}/messages`, this.headers(), {
+      ...this.body(model, request),
+      stream: true,
+    });
+
+    for await (const data of readServerSentEvents(response)) {
+      const event = JSON.parse(data);
+      if (event.type === 'content_block_delta' && event.delta?.type === 'text_delta') {
+        yield event.delta.text;
+      } else if (event.type === 'error') {
+        throw new Error(`claude stream failed: ${event.error?.message || 'unknown error'}`);
+      }
+    }
+  }
+
+  private headers(): Record<string, string> {
+    return { 'x-api-key': this.apiKey, 'anthropic-version': API_VERSION };
+  }
+
+  private body(model: string, request: CompletionRequest): Record<string, unknown> {
+    // The Messages API has no JSON mode; completeJSON() asks for JSON in the prompt
+    return {
+      model,
+      max_tokens: request.maxTokens || DEFAULT_MAX_TOKENS,
+      ...(request.system ? { system: request.system } : {}),
+      ...(request.temperature !== undefined ? { temperature: request.temperature } : {}),
+      messages: request.messages,
+    };
+  }
+}
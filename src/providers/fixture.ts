@@ -0,0 +1,117 @@
+/**
+ * Fixture Provider - record and replay
+ *
+ * Replays responses from a JSON fixture file, keyed by a hash of the request
+ * (system prompt, messages, model tier and response format). In record mode it
+ * forwards each request to a real provider and saves the reply, so a test run
+ * against a vendor can be replayed offline afterwards.
+ */
+
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import type { LLMProvider, CompletionRequest, CompletionResponse } from './index';
+
+// =============================================================================
+// TYPE DEFINITIONS
+// =============================================================================
+
+export interface FixtureEntry {
+  /** The last user message, kept to make fixture files readable */
+  prompt: string;
+  text: string;
+  model: string;
+  provider: string;
+}
+
+export interface FixtureFile {
+  version: 1;
+  entries: Record<string, FixtureEntry>;
+}
+
+// =============================================================================
+// FIXTURE PROVIDER
+// =============================================================================
+
+export class FixtureProvider implements LLMProvider {
+  readonly name = 'fixture';
+  readonly path: string;
+  private recordFrom: LLMProvider | undefined;
+  private fixtures: FixtureFile;
+
+  constructor(options: { path: string; record?: LLMProvider }) {
+    this.path = options.path;
+    this.recordFrom = options.record;
+    this.fixtures = this.load();
+  }
+
+  /**
+   * The fixture key for a request
+   */
+  static keyFor(request: CompletionRequest): string {
+    const identity = JSON.stringify({
+      system: request.system || '',
+      messages: request.messages,
+      modelTier: request.modelTier || null,
+      responseFormat: request.responseFormat || 'text',
+    });
+    return crypto.createHash('sha256').update(identity).digest('hex').slice(0, 16);
+  }
+
+  async complete(request: CompletionRequest): Promise<CompletionResponse> {
+    const key = FixtureProvider.keyFor(request);
+
+    if (this.recordFrom) {
+      const response = await this.recordFrom.complete(request);
+      this.save(key, request, response);
+      return response;
+    }
+
+    const entry = this.fixtures.entries[key];
+    if (!entry) {
+      throw new Error(`No fixture for request ${key} in ${this.path}. Record one by running with a real provider.`);
+    }
+
+    return { text: entry.text, model: entry.model, provider: entry.provider };
+  }
+
+  async *stream(request: CompletionRequest): AsyncIterable<string> {
+    if (!this.recordFrom) {
+      yield (await this.complete(request)).text;
+      return;
+    }
+
+    let text = '';
+    for await (const chunk of this.recordFrom.stream(request)) {
+      text += chunk;
+      yield chunk;
+    }
+    this.save(FixtureProvider.keyFor(request), request, { text, model: 'unknown', provider: this.recordFrom.name });
+  }
+
+  private load(): FixtureFile {
+    if (!fs.existsSync(this.path)) {
+      if (this.recordFrom) return { version: 1, entries: {} };
+      throw new Error(`Fixture file not found: ${this.path}`);
+    }
+
+    try {
+      const parsed = JSON.parse(fs.readFileSync(this.path, 'utf-8'));
+      return { version: 1, entries: parsed.entries || {} };
+    } catch (error) {
+      throw new Error(`Fixture file ${this.path} could not be read: ${(error as Error).message}`);
+    }
+  }
+
+  private save(key: string, request: CompletionRequest, response: CompletionResponse): void {
+    this.fixtures.entries[key] = {
+      prompt: request.messages[request.messages.length - 1]?.content || '',
+      text: response.text,
+      model: response.model,
+      provider: response.provider,
+    };
+
+    fs.mkdirSync(path.dirname(this.path), { recursive: true });
+    fs.writeFileSync(this.path, JSON.stringify(this.fixtures, null, 2));
+  }
+}
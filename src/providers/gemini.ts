@@ -0,0 +1,76 @@
+/**
+ * Gemini Provider - Google Generative AI
+ */
+
+import { GoogleGenerativeAI, type Content } from '@google/generative-ai';
+import type { ModelTier } from '../index';
+import type { LLMProvider, CompletionRequest, CompletionResponse, ProviderOptions } from './index';
+import { pickModel } from './http';
+
+const GEMINI_MODELS: Record<ModelTier, string> = {
+  haiku: 'gemini-2.5-flash-lite',
+  sonnet: 'gemini-2.5-flash',
+  opus: 'gemini-2.5-pro',
+};
+
+export class GeminiProvider implements LLMProvider {
+  readonly name = 'gemini';
+  private options: ProviderOptions;
+  private client: GoogleGenerativeAI;
+
+  constructor(options: ProviderOptions = {}) {
+    const key = options.apiKey || process.env.GEMINI_API_KEY;
+    if (!key) {
+      throw new Error('GEMINI_API_KEY is required for the gemini provider');
+    }
+
+    this.options = options;
+    this.client = new GoogleGenerativeAI(key);
+  }
+
+  async complete(request: CompletionRequest): Promise<CompletionResponse> {
+    const model = pickModel(this.options, GEMINI_MODELS, request.modelTier);
+
+    try {
+      const result = await this.model(model, request).generateContent({ contents: this.contents(request) });
+      return { text: result.response.text(), model, provider: this.name };
+    } catch (error) {
+      throw new Error(`gemini request failed: ${(error as Error).message}`);
+    }
+  }
+
+  async *stream(request: CompletionRequest): AsyncIterable<string> {
+    const model = pickModel(this.options, GEMINI_MODELS, request.modelTier);
+
+    let result;
+    try {
+      result = await this.model(model, request).generateContentStream({ contents: this.contents(request) });
+    } catch (error) {
+      throw new Error(`gemini request failed: ${(error as Error).message}`);
+    }
+
+    for await (const chunk of result.stream) {
+      const text = chunk.text();
+      if (text) yield text;
+    }
+  }
+
+  private model(model: string, request: CompletionRequest) {
+    return this.client.getGenerativeModel({
+      model,
+      ...(request.system ? { systemInstruction: request.system } : {}),
+      generationConfig: {
+        ...(request.temperature !== undefined ? { temperature: request.temperature } : {}),
+        ...(request.maxTokens ? { maxOutputTokens: request.maxTokens } : {}),
+        ...(request.responseFormat === 'json' ? { responseMimeType: 'application/json' } : {}),
+      },
+    });
+  }
+
+  private contents(request: CompletionRequest): Content[] {
+    return request.messages.map((message) => ({
+      role: message.role === 'assistant' ? 'model' : 'user',
+      parts: [{ text: message.content }],
+    }));
+  }
+}
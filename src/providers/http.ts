@@ -0,0 +1,83 @@
+/**
+ * Helpers shared by the vendor adapters
+ */
+
+import type { ModelTier } from '../index';
+import type { ProviderOptions } from './index';
+
+/**
+ * The model to use for a tier: a fixed model, then a per-tier override, then
+ * the adapter's default for the tier (sonnet when no tier is given)
+ */
+export function pickModel(
+  options: ProviderOptions,
+  defaults: Record<ModelTier, string>,
+  tier: ModelTier = 'sonnet'
+): string {
+  return options.model || options.models?.[tier] || defaults[tier];
+}
+
+/**
+ * POST a JSON body and return the response, throwing with the vendor's error
+ * message on a non-2xx status
+ */
+export async function postJSON(
+  provider: string,
+  url: string,
+  headers: Record<string, string>,
+  body: unknown
+): Promise<Response> {
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method: 'POST',
+      headers: { 'content-type': 'application/json', ...headers },
+      body: JSON.stringify(body),
+    });
+  } catch (error) {
+    throw new Error(`${provider} request to ${url} failed: ${(error as Error).message}`);
+  }
+
+  if (!response.ok) {
+    const text = await response.text().catch(() => '');
+    let message = text;
+    try {
+      const parsed = JSON.parse(text);
+      message = parsed.error?.message || parsed.message || text;
+    } catch {
+      // Not JSON; use the raw body
+    }
+    throw new Error(`${provider} request failed (${response.status}): ${message || response.statusText}`);
+  }
+
+  return response;
+}
+
+/**
+ * Yield the `data:` payloads of a server-sent event stream
+ */
+export async function* readServerSentEvents(response: Response): AsyncIterable<string> {
+  if (!response.body) return;
+
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  for await (const chunk of response.body as unknown as AsyncIterable<Uint8Array>) {
+    buffer += decoder.decode(chunk, { stream: true });
+
+    const lines = buffer.split('\n');
+    buffer = lines.pop() || '';
+
+    for (const line of lines) {
+      const trimmed = line.trim();
+      if (trimmed.startsWith('data:')) {
+        yield trimmed.slice(5).trim();
+      }
+    }
+  }
+
+  const rest = buffer.trim();
+  if (rest.startsWith('data:')) {
+    yield rest.slice(5).trim();
+  }
+}
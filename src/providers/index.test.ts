@@ -0,0 +1,126 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  collectStream,
+  completeJSON,
+  createProviderFromEnv,
+  createScriptedProvider,
+  extractJSON,
+  FixtureProvider,
+  SamplingProvider,
+  toSamplingParams,
+  type CompletionRequest,
+} from './index';
+
+const REQUEST: CompletionRequest = {
+  system: 'You are Draconia.',
+  messages: [{ role: 'user', content: 'How do I begin?' }],
+  modelTier: 'opus',
+};
+
+describe('createProviderFromEnv', () => {
+  it('lets AIOS_PROVIDER override the vendor keys', () => {
+    expect(createProviderFromEnv({ GEMINI_API_KEY: 'g', AIOS_PROVIDER: 'scripted' })?.name).toBe('scripted');
+  });
+
+  it('falls back to an OpenAI-compatible endpoint, or nothing', () => {
+    expect(createProviderFromEnv({ AIOS_BASE_URL: 'http://localhost:11434/v1', AIOS_MODEL: 'llama3' })?.name)
+      .toBe('openai-compatible');
+    expect(createProviderFromEnv({})).toBeNull();
+  });
+
+  it('rejects an unknown provider name', () => {
+    expect(() => createProviderFromEnv({ AIOS_PROVIDER: 'oracle' })).toThrow('Unknown provider "oracle"');
+  });
+});
+
+describe('ScriptedProvider', () => {
+  it('replays its script, then echoes the speaker and prompt', async () => {
+    const provider = createScriptedProvider(['First reply']);
+
+    expect((await provider.complete(REQUEST)).text).toBe('First reply');
+    expect((await provider.complete({ ...REQUEST, metadata: { speaker: 'Draconia' } })).text)
+      .toBe('[Draconia] How do I begin?');
+    expect(provider.calls).toHaveLength(2);
+  });
+
+  it('streams the same text it would complete', async () => {
+    const provider = createScriptedProvider(['Fear is fuel for the fire.']);
+
+    expect(await collectStream(provider.stream(REQUEST))).toBe('Fear is fuel for the fire.');
+  });
+});
+
+describe('FixtureProvider', () => {
+  let dir: string | null = null;
+
+  afterEach(() => {
+    if (dir) fs.rmSync(dir, { recursive: true, force: true });
+    dir = null;
+  });
+
+  it('records replies from a real provider and replays them offline', async () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'aios-fixtures-'));
+    const fixturePath = path.join(dir, 'fixtures.json');
+
+    const recorder = new FixtureProvider({ path: fixturePath, record: createScriptedProvider(['Recorded reply']) });
+    expect((await recorder.complete(REQUEST)).text).toBe('Recorded reply');
+
+    const replay = new FixtureProvider({ path: fixturePath });
+    expect(await replay.complete(REQUEST)).toEqual({ text: 'Recorded reply', model: 'scripted', provider: 'scripted' });
+    await expect(replay.complete({ ...REQUEST, modelTier: 'haiku' })).rejects.toThrow('No fixture for request');
+  });
+});
+
+describe('structured output', () => {
+  it('extracts JSON from fenced or chatty replies', () => {
+    expect(extractJSON('```json\n{"gate": "fire"}\n```')).toEqual({ gate: 'fire' });
+    expect(extractJSON('Here you go: [1, 2] - enjoy')).toEqual([1, 2]);
+    expect(() => extractJSON('no json here')).toThrow('no JSON value found');
+  });
+
+  it('sends schema problems back to the model and retries', async () => {
+    const provider = createScriptedProvider(['{"frequency": "high"}', '{"frequency": 396}']);
+    const schema = { type: 'object' as const, required: ['frequency'], properties: { frequency: { type: 'number' as const } } };
+
+    const response = await completeJSON<{ frequency: number }>(provider, REQUEST, { schema });
+
+    expect(response.data).toEqual({ frequency: 396 });
+    expect(provider.calls[1].messages[2].content).toContain('frequency: must be number, got string');
+  });
+
+  it('gives up after the allowed retries', async () => {
+    const provider = createScriptedProvider(['nope', 'still nope']);
+
+    await expect(completeJSON(provider, REQUEST)).rejects.toThrow('scripted did not return valid JSON after 2 attempt(s)');
+  });
+});
+
+describe('SamplingProvider', () => {
+  it('turns a completion request into sampling/createMessage parameters', () => {
+    expect(toSamplingParams({ ...REQUEST, responseFormat: 'json' })).toEqual({
+      messages: [{ role: 'user', content: { type: 'text', text: 'How do I begin?' } }],
+      systemPrompt: 'You are Draconia.\n\nRespond with a single JSON value and nothing else.',
+      maxTokens: 4096,
+      temperature: undefined,
+      modelPreferences: { hints: [{ name: 'opus' }], costPriority: 0.2, speedPriority: 0.2, intelligencePriority: 0.9 },
+      includeContext: 'none',
+      metadata: undefined,
+    });
+  });
+
+  it('answers with the text the client returns', async () => {
+    const provider = new SamplingProvider(async () => ({ role: 'assistant', content: { type: 'text', text: 'Begin with fire.' }, model: 'client-model' }));
+
+    expect(await provider.complete(REQUEST)).toEqual({ text: 'Begin with fire.', model: 'client-model', provider: 'sampling' });
+    expect(await collectStream(provider.stream(REQUEST))).toBe('Begin with fire.');
+  });
+
+  it('rejects content that is not text', async () => {
+    const provider = new SamplingProvider(async () => ({ role: 'assistant', content: { type: 'image' }, model: 'client-model' }));
+
+    await expect(provider.complete(REQUEST)).rejects.toThrow('Client returned image content; sampling needs text');
+  });
+});
@@ -0,0 +1,276 @@
+/**
+ * Arcanea LLM Providers
+ *
+ * The interface every model backend implements, so the council, Scribe and
+ * Guardian channeling can run against any vendor. A provider takes a system
+ * prompt plus a message history and returns text, either all at once or as a
+ * stream; completeJSON() layers structured output on top of any provider.
+ *
+ * Adapters:
+ * - claude: Anthropic Messages API (ANTHROPIC_API_KEY)
+ * - gemini: Google Gemini (GEMINI_API_KEY)
+ * - gpt: OpenAI Chat Completions (OPENAI_API_KEY)
+ * - openai-compatible: any local or hosted server speaking the OpenAI API
+ *   (Ollama, LM Studio, vLLM...) at AIOS_BASE_URL
+ * - fixture: replays recorded responses from a JSON file, or records them
+ * - scripted: deterministic canned responses for tests and dry runs
+ * - sampling: the connected MCP client's own model, via sampling/createMessage
+ */
+
+import { validateSchema, formatSchemaIssues, type JsonSchema } from '../schema';
+import type { ModelTier } from '../index';
+import type { DriftReport } from '../anti-drift';
+import { ClaudeProvider } from './claude';
+import { GeminiProvider } from './gemini';
+import { OpenAIProvider } from './openai';
+import { FixtureProvider } from './fixture';
+import { ScriptedProvider } from './scripted';
+
+// =============================================================================
+// TYPE DEFINITIONS
+// =============================================================================
+
+export interface ChatMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+/**
+ * A single completion request
+ */
+export interface CompletionRequest {
+  system?: string;
+  messages: ChatMessage[];
+  /** Canon model tier of the speaking agent; providers map it to a concrete model */
+  modelTier?: ModelTier;
+  temperature?: number;
+  maxTokens?: number;
+  /** Ask for a JSON response, using the vendor's JSON mode where it has one */
+  responseFormat?: 'text' | 'json';
+  /** Free-form labels (speaker, turn kind) that providers may log or match on */
+  metadata?: Record<string, string>;
+}
+
+export interface CompletionResponse {
+  text: string;
+  /** Concrete model that produced the text */
+  model: string;
+  provider: string;
+  /** Anti-drift report, when the provider is wrapped with withAntiDrift() */
+  drift?: DriftReport;
+}
+
+/**
+ * A model backend
+ */
+export interface LLMProvider {
+  readonly name: string;
+  complete(request: CompletionRequest): Promise<CompletionResponse>;
+  /** Yield the response text as it is generated */
+  stream(request: CompletionRequest): AsyncIterable<string>;
+}
+
+export type ProviderName = 'claude' | 'gemini' | 'gpt' | 'openai-compatible' | 'fixture' | 'scripted';
+
+export const PROVIDER_NAMES: ProviderName[] = ['claude', 'gemini', 'gpt', 'openai-compatible', 'fixture', 'scripted'];
+
+/**
+ * Options shared by the vendor adapters
+ */
+export interface ProviderOptions {
+  apiKey?: string;
+  baseUrl?: string;
+  /** Use this model for every tier */
+  model?: string;
+  /** Override the model used for a tier */
+  models?: Partial<Record<ModelTier, string>>;
+  /** Fixture file, for the fixture provider */
+  fixturePath?: string;
+  /** For the fixture provider: record responses from this provider instead of replaying */
+  record?: LLMProvider;
+}
+
+// =============================================================================
+// FACTORY
+// =============================================================================
+
+/**
+ * Create a provider by name. Vendor adapters throw when their API key is missing.
+ */
+export function createProvider(name: ProviderName, options: ProviderOptions = {}): LLMProvider {
+  switch (name) {
+    case 'claude':
+      return new ClaudeProvider(options);
+    case 'gemini':
+      return new GeminiProvider(options);
+    case 'gpt':
+      return new OpenAIProvider(options);
+    case 'openai-compatible':
+      return new OpenAIProvider({ ...options, local: true });
+    case 'fixture':
+      if (!options.fixturePath) {
+        throw new Error('The fixture provider needs a fixture file (set AIOS_FIXTURES)');
+      }
+      return new FixtureProvider({ path: options.fixturePath, record: options.record });
+    case 'scripted':
+      return new ScriptedProvider();
+    default:
+      throw new Error(`Unknown provider "${name}". Expected one of: ${PROVIDER_NAMES.join(', ')}`);
+  }
+}
+
+const API_KEY_VARS: Partial<Record<ProviderName, string>> = {
+  claude: 'ANTHROPIC_API_KEY',
+  gemini: 'GEMINI_API_KEY',
+  gpt: 'OPENAI_API_KEY',
+};
+
+/**
+ * Whether a vendor's API key is available in the environment
+ */
+export function hasProviderCredentials(name: ProviderName): boolean {
+  const variable = API_KEY_VARS[name];
+  return variable ? Boolean(process.env[variable]) : true;
+}
+
+/**
+ * Create the provider configured by the environment:
+ *
+ * - AIOS_PROVIDER picks the adapter; otherwise the first vendor with an API
+ *   key wins (claude, gemini, gpt)
+ * - AIOS_MODEL fixes the model, AIOS_BASE_URL the endpoint, AIOS_FIXTURES the
+ *   fixture file
+ * - AIOS_RECORD=1 with AIOS_FIXTURES records the chosen provider's replies
+ *   into the fixture file
+ *
+ * Returns null when nothing is configured.
+ */
+export function createProviderFromEnv(env: NodeJS.ProcessEnv = process.env): LLMProvider | null {
+  const options: ProviderOptions = {
+    model: env.AIOS_MODEL || undefined,
+    baseUrl: env.AIOS_BASE_URL || undefined,
+    fixturePath: env.AIOS_FIXTURES || undefined,
+  };
+
+  let provider: LLMProvider | null = null;
+  const requested = env.AIOS_PROVIDER as ProviderName | undefined;
+  if (requested) {
+    provider = createProvider(requested, options);
+  } else {
+    const name = (['claude', 'gemini', 'gpt'] as ProviderName[]).find((vendor) => env[API_KEY_VARS[vendor]!]);
+    if (name) {
+      provider = createProvider(name, options);
+    } else if (options.baseUrl) {
+      provider = createProvider('openai-compatible', options);
+    }
+  }
+
+  if (provider && env.AIOS_RECORD && options.fixturePath && provider.name !== 'fixture') {
+    return createProvider('fixture', { ...options, record: provider });
+  }
+
+  return provider;
+}
+
+// =============================================================================
+// STRUCTURED OUTPUT
+// =============================================================================
+
+export interface StructuredResponse<T> extends CompletionResponse {
+  data: T;
+}
+
+export interface CompleteJSONOptions {
+  /** Validate the parsed value; issues are sent back to the model for a retry */
+  schema?: JsonSchema;
+  /** Extra attempts after an unparseable or invalid reply (default 1) */
+  retries?: number;
+}
+
+/**
+ * Pull a JSON value out of model text, tolerating code fences and prose
+ * around it
+ */
+export function extractJSON(text: string): unknown {
+  const fenced = text.match(/```(?:json)?\s*\n([\s\S]*?)```/);
+  const body = (fenced ? fenced[1] : text).trim();
+
+  try {
+    return JSON.parse(body);
+  } catch {
+    const start = body.search(/[[{]/);
+    const end = Math.max(body.lastIndexOf('}'), body.lastIndexOf(']'));
+    if (start === -1 || end <= start) throw new Error('no JSON value found');
+    return JSON.parse(body.slice(start, end + 1));
+  }
+}
+
+/**
+ * Complete a request and parse the reply as JSON, retrying with the parse or
+ * schema errors when the model gets it wrong
+ */
+export async function completeJSON<T = unknown>(
+  provider: LLMProvider,
+  request: CompletionRequest,
+  options: CompleteJSONOptions = {}
+): Promise<StructuredResponse<T>> {
+  const retries = options.retries ?? 1;
+  const instruction = options.schema
+    ? `Respond with JSON only, matching this JSON Schema:\n${JSON.stringify(options.schema)}`
+    : 'Respond with JSON only.';
+
+  const messages = [...request.messages];
+  let problem = '';
+
+  for (let attempt = 0; attempt <= retries; attempt++) {
+    const response = await provider.complete({
+      ...request,
+      system: request.system ? `${request.system}\n\n${instruction}` : instruction,
+      messages,
+      responseFormat: 'json',
+    });
+
+    let data: unknown;
+    try {
+      data = extractJSON(response.text);
+    } catch (error) {
+      problem = `Your reply was not valid JSON (${(error as Error).message}).`;
+      messages.push({ role: 'assistant', content: response.text }, { role: 'user', content: `${problem} Reply again with JSON only.` });
+      continue;
+    }
+
+    const issues = options.schema ? validateSchema(options.schema, data) : [];
+    if (issues.length === 0) {
+      return { ...response, data: data as T };
+    }
+
+    problem = `Your reply did not match the schema:\n${formatSchemaIssues(issues)}`;
+    messages.push({ role: 'assistant', content: response.text }, { role: 'user', content: `${problem}\nReply again with corrected JSON only.` });
+  }
+
+  throw new Error(`${provider.name} did not return valid JSON after ${retries + 1} attempt(s). ${problem}`);
+}
+
+/**
+ * Collect a streamed response into a single string
+ */
+export async function collectStream(stream: AsyncIterable<string>): Promise<string> {
+  let text = '';
+  for await (const chunk of stream) {
+    text += chunk;
+  }
+  return text;
+}
+
+export { ClaudeProvider } from './claude';
+export { GeminiProvider } from './gemini';
+export { OpenAIProvider } from './openai';
+export { FixtureProvider, type FixtureFile, type FixtureEntry } from './fixture';
+export { ScriptedProvider, createScriptedProvider, type ScriptedResponse, type ScriptedProviderOptions } from './scripted';
+export {
+  SamplingProvider,
+  toSamplingParams,
+  type SamplingRequestParams,
+  type SamplingResult,
+  type CreateMessageHandler,
+} from './sampling';
@@ -0,0 +1,103 @@
+/**
+ * OpenAI Provider - Chat Completions API
+ *
+ * Also serves any OpenAI-compatible endpoint (Ollama, LM Studio, vLLM...) when
+ * created with `local: true`; those need a base URL and a model but usually no
+ * API key.
+ */
+
+import type { ModelTier } from '../index';
+import type { LLMProvider, CompletionRequest, CompletionResponse, ProviderOptions } from './index';
+import { pickModel, postJSON, readServerSentEvents } from './http';
+
+const DEFAULT_BASE_URL = 'https://api.openai.com/v1';
+
+const GPT_MODELS: Record<ModelTier, string> = {
+  haiku: 'gpt-4o-mini',
+  sonnet: 'gpt-4o',
+  opus: 'gpt-4.1',
+};
+
+export class OpenAIProvider implements LLMProvider {
+  readonly name: string;
+  private options: ProviderOptions;
+  private apiKey: string | undefined;
+  private baseUrl: string;
+
+  constructor(options: ProviderOptions & { local?: boolean } = {}) {
+    this.options = options;
+
+    if (options.local) {
+      if (!options.baseUrl) {
+        throw new Error('The openai-compatible provider needs a base URL (set AIOS_BASE_URL, e.g. http://localhost:11434/v1)');
+      }
+      if (!options.model && !options.models) {
+        throw new Error('The openai-compatible provider needs a model (set AIOS_MODEL)');
+      }
+      this.name = 'openai-compatible';
+      this.apiKey = options.apiKey;
+    } else {
+      const key = options.apiKey || process.env.OPENAI_API_KEY;
+      if (!key) {
+        throw new Error('OPENAI_API_KEY is required for the gpt provider');
+      }
+      this.name = 'gpt';
+      this.apiKey = key;
+    }
+
+    this.baseUrl = (options.baseUrl || DEFAULT_BASE_URL).replace(/\/$/, '');
+  }
+
+  async complete(request: CompletionRequest): Promise<CompletionResponse> {
+    const model = this.model(request);
+    const response = await postJSON(this.name, `${this.baseUrl}/chat/completions`, this.headers(), this.body(model, request));
+    const data = await response.json() as { model?: string; choices?: Array<{ message?: { content?: string | null } }> };
+
+    return {
+      text: data.choices?.[0]?.message?.content || '',
+      model: data.model || model,
+      provider: this.name,
+    };
+  }
+
+  async *stream(request: CompletionRequest): AsyncIterable<string> {
+    const model = this.model(request);
+    const response = await postJSON(this.name, `${this.baseUrl}/chat/completions`, this.headers(), {
+      ...this.body(model, request),
+      stream: true,
+    });
+
+    for await (const data of readServerSentEvents(response)) {
+      if (data === '[DONE]') return;
+      const delta = JSON.parse(data).choices?.[0]?.delta?.content;
+      if (delta) yield delta;
+    }
+  }
+
+  private model(request: CompletionRequest): string {
+    // Local servers usually host a single model, so fall back to it for every tier
+    const fallback = this.options.model || Object.values(this.options.models || {})[0];
+    const defaults = this.name === 'gpt'
+      ? GPT_MODELS
+      : { haiku: fallback!, sonnet: fallback!, opus: fallback! };
+    return pickModel(this.options, defaults, request.modelTier);
+  }
+
+  private headers(): Record<string, string> {
+    return this.apiKey ? { authorization: `Bearer ${this.apiKey}` } : {};
+  }
+
+  private body(model: string, request: CompletionRequest): Record<string, unknown> {
+    const messages = request.system
+      ? [{ role: 'system', content: request.system }, ...request.messages]
+      : request.messages;
+
+    return {
+      model,
+      messages,
+      ...(request.temperature !== undefined ? { temperature: request.temperature } : {}),
+      ...(request.maxTokens ? { max_tokens: request.maxTokens } : {}),
+      ...(request.responseFormat === 'json' ? { response_format: { type: 'json_object' } } : {}),
+    };
+  }
+}
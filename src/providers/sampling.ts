@@ -0,0 +1,97 @@
+/**
+ * Sampling Provider
+ *
+ * Runs completions through an MCP client's own model: each request becomes a
+ * `sampling/createMessage` call sent back over the client's session, so the
+ * server needs no API key of its own.
+ */
+
+import type { LLMProvider, CompletionRequest, CompletionResponse } from './index';
+import type { ModelTier } from '../index';
+
+/**
+ * Parameters of an MCP `sampling/createMessage` request
+ */
+export interface SamplingRequestParams {
+  messages: Array<{ role: 'user' | 'assistant'; content: { type: 'text'; text: string } }>;
+  systemPrompt?: string;
+  maxTokens: number;
+  temperature?: number;
+  modelPreferences?: {
+    hints?: Array<{ name: string }>;
+    costPriority?: number;
+    speedPriority?: number;
+    intelligencePriority?: number;
+  };
+  includeContext?: 'none' | 'thisServer' | 'allServers';
+  metadata?: Record<string, unknown>;
+}
+
+/**
+ * Result of an MCP `sampling/createMessage` request
+ */
+export interface SamplingResult {
+  role: 'user' | 'assistant';
+  content: { type: string; text?: string };
+  model: string;
+  stopReason?: string;
+}
+
+/** Sends one sampling request to the client and resolves with its result */
+export type CreateMessageHandler = (params: SamplingRequestParams) => Promise<SamplingResult>;
+
+const DEFAULT_MAX_TOKENS = 4096;
+
+/** Canon tiers expressed as MCP model preferences */
+const TIER_PREFERENCES: Record<ModelTier, NonNullable<SamplingRequestParams['modelPreferences']>> = {
+  haiku: { hints: [{ name: 'haiku' }], costPriority: 0.8, speedPriority: 0.8, intelligencePriority: 0.3 },
+  sonnet: { hints: [{ name: 'sonnet' }], costPriority: 0.5, speedPriority: 0.5, intelligencePriority: 0.6 },
+  opus: { hints: [{ name: 'opus' }], costPriority: 0.2, speedPriority: 0.2, intelligencePriority: 0.9 },
+};
+
+export class SamplingProvider implements LLMProvider {
+  readonly name = 'sampling';
+
+  constructor(private createMessage: CreateMessageHandler) {}
+
+  async complete(request: CompletionRequest): Promise<CompletionResponse> {
+    const result = await this.createMessage(toSamplingParams(request));
+
+    if (result.content?.type !== 'text' || typeof result.content.text !== 'string') {
+      throw new Error(`Client returned ${result.content?.type || 'no'} content; sampling needs text`);
+    }
+
+    return { text: result.content.text, model: result.model || 'unknown', provider: this.name };
+  }
+
+  /**
+   * Sampling has no streaming form; yield the whole reply once it arrives
+   */
+  async *stream(request: CompletionRequest): AsyncIterable<string> {
+    const { text } = await this.complete(request);
+    yield text;
+  }
+}
+
+/**
+ * Translate a provider request into `sampling/createMessage` parameters
+ */
+export function toSamplingParams(request: CompletionRequest): SamplingRequestParams {
+  let systemPrompt = request.system;
+  if (request.responseFormat === 'json') {
+    systemPrompt = [systemPrompt, 'Respond with a single JSON value and nothing else.'].filter(Boolean).join('\n\n');
+  }
+
+  return {
+    messages: request.messages.map((message) => ({
+      role: message.role,
+      content: { type: 'text', text: message.content },
+    })),
+    systemPrompt,
+    maxTokens: request.maxTokens || DEFAULT_MAX_TOKENS,
+    temperature: request.temperature,
+    modelPreferences: request.modelTier ? TIER_PREFERENCES[request.modelTier] : undefined,
+    includeContext: 'none',
+    metadata: request.metadata,
+  };
+}
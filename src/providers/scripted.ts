@@ -0,0 +1,64 @@
+/**
+ * Scripted Provider
+ *
+ * A deterministic, offline provider for tests and dry runs: it replays canned
+ * responses in order, or derives a reply from the request.
+ */
+
+import type { LLMProvider, CompletionRequest, CompletionResponse } from './index';
+
+export type ScriptedResponse = string | ((request: CompletionRequest, index: number) => string);
+
+export interface ScriptedProviderOptions {
+  /** Responses returned in call order. When exhausted, `fallback` is used. */
+  script?: ScriptedResponse[];
+  /** Reply for calls beyond the script. Defaults to an echo of the speaker and prompt. */
+  fallback?: ScriptedResponse;
+}
+
+function echoResponse(request: CompletionRequest): string {
+  const speaker = request.metadata?.speaker || 'assistant';
+  const last = request.messages[request.messages.length - 1]?.content || '';
+  const firstLine = last.split('\n').find((line) => line.trim()) || '';
+  return `[${speaker}] ${firstLine.trim()}`;
+}
+
+export class ScriptedProvider implements LLMProvider {
+  readonly name = 'scripted';
+  /** Every request received, in order */
+  readonly calls: CompletionRequest[] = [];
+  private script: ScriptedResponse[];
+  private fallback: ScriptedResponse;
+
+  constructor(options: ScriptedProviderOptions = {}) {
+    this.script = options.script || [];
+    this.fallback = options.fallback || echoResponse;
+  }
+
+  async complete(request: CompletionRequest): Promise<CompletionResponse> {
+    const index = this.calls.length;
+    this.calls.push(request);
+
+    const entry = index < this.script.length ? this.script[index] : this.fallback;
+    const text = typeof entry === 'function' ? entry(request, index) : entry;
+
+    return { text, model: 'scripted', provider: this.name };
+  }
+
+  /**
+   * Stream the scripted reply word by word
+   */
+  async *stream(request: CompletionRequest): AsyncIterable<string> {
+    const { text } = await this.complete(request);
+    for (const chunk of text.match(/\S+\s*|\s+/g) || []) {
+      yield chunk;
+    }
+  }
+}
+
+/**
+ * Create a deterministic provider that replays `script`, then echoes
+ */
+export function createScriptedProvider(script: ScriptedResponse[] = []): ScriptedProvider {
+  return new ScriptedProvider({ script });
+}
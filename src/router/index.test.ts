@@ -0,0 +1,31 @@
+import { describe, it, expect } from 'vitest';
+import { routeToGuardian } from './index';
+
+describe('routeToGuardian', () => {
+  it('recommends the Guardian whose definition best fits the request', () => {
+    const { matches } = routeToGuardian('I am afraid to share my work and need courage');
+
+    expect(matches[0]).toMatchObject({ guardian: 'draconia', gate: 'fire', locked: false });
+    expect(matches[0].reasons.length).toBeGreaterThan(0);
+    expect(matches.map((route) => route.score)).toEqual([...matches.map((route) => route.score)].sort((a, b) => b - a));
+  });
+
+  it('ranks a Guardian or Gate named directly first', () => {
+    const [best] = routeToGuardian('my code architecture needs a solid foundation').matches;
+
+    expect(best.name).toBe('Lyssandria');
+    expect(best.reasons[0]).toBe('Named directly (foundation)');
+  });
+
+  it('reports Guardians behind locked Gates separately', () => {
+    const result = routeToGuardian('Ask Maylinn about healing', { journey: { gatesUnlocked: ['foundation', 'flow'] } });
+
+    expect(result.matches.every((route) => !route.locked)).toBe(true);
+    expect(result.locked[0]).toMatchObject({ name: 'Maylinn', locked: true });
+  });
+
+  it('honours the limit and returns nothing for an unrelated request', () => {
+    expect(routeToGuardian('I feel blocked creatively, the ideas do not flow', { limit: 1 }).matches).toHaveLength(1);
+    expect(routeToGuardian('xyzzy')).toEqual({ request: 'xyzzy', matches: [], locked: [] });
+  });
+});
@@ -0,0 +1,205 @@
+/**
+ * Arcanea Guardian Router
+ *
+ * Picks the Guardian for a free-text request, so users do not have to know
+ * which one to channel. Each Guardian is scored on the words it shares with
+ * the request, weighted by where they appear in its agent definition:
+ *
+ * - Guardian, Gate or Godbeast named directly
+ * - "When to Invoke" bullets
+ * - capabilities from the agent configuration
+ * - the "Agent Role" paragraph and the Guardian's wisdom
+ *
+ * Words that many Guardians share ("creative") count for less than words only
+ * one of them uses ("courage"). Guardians behind a Gate the journey has not
+ * unlocked are reported separately instead of being recommended.
+ */
+
+import {
+  listCanonGates,
+  getCanonGate,
+  getGuardianDefinition,
+  type CanonGate,
+  type GuardianDefinition,
+} from '../canon';
+import type { GateName } from '../index';
+import type { JourneyState } from '../state';
+
+// =============================================================================
+// TYPE DEFINITIONS
+// =============================================================================
+
+/**
+ * A Guardian recommended for a request
+ */
+export interface GuardianRoute {
+  /** Guardian key (lowercase) */
+  guardian: string;
+  name: string;
+  gate: GateName;
+  score: number;
+  /** Why the Guardian matched, strongest first */
+  reasons: string[];
+  /** True when the journey has not unlocked the Guardian's Gate */
+  locked: boolean;
+}
+
+export interface RouteOptions {
+  /** Maximum number of Guardians to return in each list (default 3) */
+  limit?: number;
+  /** Only recommend Guardians whose Gate is unlocked in this journey */
+  journey?: Pick<JourneyState, 'gatesUnlocked'> | null;
+}
+
+export interface RouteResult {
+  request: string;
+  /** Guardians the journey can reach, best first */
+  matches: GuardianRoute[];
+  /** Guardians that matched but are behind a locked Gate, best first */
+  locked: GuardianRoute[];
+}
+
+// =============================================================================
+// SCORING
+// =============================================================================
+
+const FIELD_WEIGHTS = {
+  named: 10,
+  whenToInvoke: 3,
+  capability: 2,
+  role: 1,
+} as const;
+
+const STOPWORDS = new Set([
+  'a', 'about', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'can', 'do', 'feel', 'for', 'from', 'get',
+  'have', 'how', 'i', 'in', 'into', 'is', 'it', 'its', 'keep', 'like', 'me', 'my', 'need', 'not', 'of', 'on',
+  'or', 'so', 'that', 'the', 'their', 'this', 'to', 'up', 'want', 'was', 'what', 'when', 'who', 'with', 'you',
+  'your',
+]);
+
+const SUFFIXES = ['ations', 'ation', 'ings', 'ing', 'ions', 'ion', 'ness', 'ment', 'ities', 'ity', 'ives', 'ive', 'ful', 'ous', 'ed', 'es', 'er', 'ly', 's'];
+
+/**
+ * Reduce a word to a comparable stem: "creative" and "creation" both become
+ * "creat", "blocked" and "blocks" both "block"
+ */
+function stem(word: string): string {
+  const suffix = SUFFIXES.find((s) => word.endsWith(s) && word.length - s.length >= 3);
+  return (suffix ? word.slice(0, -suffix.length) : word).slice(0, 6);
+}
+
+function terms(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^a-z']+/)
+    .map((word) => word.replace(/'s?$/, ''))
+    .filter((word) => word.length > 1 && !STOPWORDS.has(word))
+    .map(stem);
+}
+
+interface Passage {
+  weight: number;
+  /** What to show when the passage matches */
+  label: string;
+  terms: Set<string>;
+}
+
+interface GuardianProfile {
+  gate: CanonGate;
+  definition: GuardianDefinition | undefined;
+  /** Words that mean the request names this Guardian */
+  names: Set<string>;
+  passages: Passage[];
+  /** Every term in the profile, for document frequencies */
+  vocabulary: Set<string>;
+}
+
+function buildProfile(gate: CanonGate): GuardianProfile {
+  const definition = getGuardianDefinition(gate.guardian);
+  const names = new Set([gate.guardian, gate.name, gate.godbeast].filter(Boolean).map((name) => name.toLowerCase()));
+  const passages: Passage[] = [];
+
+  for (const bullet of definition?.whenToInvoke || []) {
+    passages.push({ weight: FIELD_WEIGHTS.whenToInvoke, label: `When to invoke: ${bullet}`, terms: new Set(terms(bullet)) });
+  }
+  for (const capability of definition?.capabilities || []) {
+    passages.push({ weight: FIELD_WEIGHTS.capability, label: `Capability: ${capability.replace(/_/g, ' ')}`, terms: new Set(terms(capability.replace(/_/g, ' '))) });
+  }
+  const role = [definition?.role, gate.wisdom].filter(Boolean).join(' ');
+  if (role) {
+    const title = definition?.role.match(/\*\*(.+?)\*\*/)?.[1] || gate.wisdom;
+    const nameStems = new Set([...names].map(stem));
+    const roleTerms = terms(role).filter((term) => !nameStems.has(term));
+    passages.push({ weight: FIELD_WEIGHTS.role, label: `Role: ${title}`, terms: new Set(roleTerms) });
+  }
+
+  const vocabulary = new Set(passages.flatMap((passage) => [...passage.terms]));
+  return { gate, definition, names, passages, vocabulary };
+}
+
+function scoreProfile(
+  profile: GuardianProfile,
+  requestWords: string[],
+  requestTerms: Set<string>,
+  idf: (term: string) => number
+): { score: number; reasons: string[] } {
+  const matched: Array<{ score: number; reason: string }> = [];
+
+  const named = requestWords.filter((word) => profile.names.has(word));
+  if (named.length > 0) {
+    matched.push({ score: FIELD_WEIGHTS.named, reason: `Named directly (${Array.from(new Set(named)).join(', ')})` });
+  }
+
+  for (const passage of profile.passages) {
+    const shared = [...passage.terms].filter((term) => requestTerms.has(term));
+    if (shared.length === 0) continue;
+    const score = passage.weight * shared.reduce((sum, term) => sum + idf(term), 0);
+    matched.push({ score, reason: passage.label });
+  }
+
+  matched.sort((a, b) => b.score - a.score);
+  return {
+    score: Math.round(matched.reduce((sum, m) => sum + m.score, 0) * 100) / 100,
+    reasons: matched.map((m) => m.reason),
+  };
+}
+
+// =============================================================================
+// ROUTING
+// =============================================================================
+
+/**
+ * Rank the Guardians for a free-text request
+ */
+export function routeToGuardian(request: string, options: RouteOptions = {}): RouteResult {
+  const limit = options.limit ?? 3;
+  const unlocked = options.journey ? new Set(options.journey.gatesUnlocked) : null;
+
+  const profiles = listCanonGates().map(buildProfile);
+  const documentFrequency = (term: string) => profiles.filter((p) => p.vocabulary.has(term)).length;
+  const idf = (term: string) => Math.log(1 + profiles.length / Math.max(1, documentFrequency(term)));
+
+  const requestWords = request.toLowerCase().split(/[^a-z]+/).filter(Boolean);
+  const requestTerms = new Set(terms(request));
+
+  const routes: GuardianRoute[] = profiles
+    .map((profile) => {
+      const { score, reasons } = scoreProfile(profile, requestWords, requestTerms, idf);
+      return {
+        guardian: profile.gate.guardian.toLowerCase(),
+        name: profile.gate.guardian,
+        gate: profile.gate.name,
+        score,
+        reasons,
+        locked: unlocked ? !unlocked.has(profile.gate.name) : false,
+      };
+    })
+    .filter((route) => route.score > 0)
+    .sort((a, b) => b.score - a.score || getCanonGate(a.gate)!.number - getCanonGate(b.gate)!.number);
+
+  return {
+    request,
+    matches: routes.filter((route) => !route.locked).slice(0, limit),
+    locked: routes.filter((route) => route.locked).slice(0, limit),
+  };
+}
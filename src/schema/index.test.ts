@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import { formatSchemaIssues, validateSchema, type JsonSchema } from './index';
+
+const SWARM: JsonSchema = {
+  type: 'object',
+  required: ['topology', 'max_agents'],
+  additionalProperties: false,
+  properties: {
+    topology: { type: 'string', enum: ['hierarchical', 'flat', 'mesh'] },
+    max_agents: { type: 'integer', minimum: 1, maximum: 50 },
+    gates: { type: 'array', items: { type: 'string', minLength: 2 }, uniqueItems: true, maxItems: 3 },
+    version: { type: 'string', pattern: '^\\d+\\.\\d+\\.\\d+$' },
+    lead: { type: ['string', 'null'] },
+  },
+};
+
+describe('validateSchema', () => {
+  it('accepts a valid value', () => {
+    expect(validateSchema(SWARM, { topology: 'mesh', max_agents: 5, gates: ['fire'], version: '0.3.0', lead: null })).toEqual([]);
+  });
+
+  it('reports the type it expected and the one it got', () => {
+    expect(validateSchema(SWARM, [])).toEqual([{ path: '(root)', message: 'must be object, got array' }]);
+    expect(validateSchema({ type: 'integer' }, 2.5)).toEqual([{ path: '(root)', message: 'must be integer, got number' }]);
+    expect(validateSchema({ type: 'number' }, 2)).toEqual([]);
+  });
+
+  it('names the path of every issue', () => {
+    const issues = validateSchema(SWARM, {
+      topology: 'ring',
+      max_agents: 0,
+      gates: ['fire', 'x', 'fire', 'heart'],
+      version: 'latest',
+      extra: true,
+    });
+
+    expect(issues).toEqual([
+      { path: 'topology', message: 'must be one of "hierarchical", "flat", "mesh", got "ring"' },
+      { path: 'max_agents', message: 'must be >= 1' },
+      { path: 'gates', message: 'must have at most 3 item(s)' },
+      { path: 'gates[2]', message: 'duplicates an earlier item' },
+      { path: 'gates[1]', message: 'must be at least 2 character(s)' },
+      { path: 'version', message: 'must match ^\\d+\\.\\d+\\.\\d+$' },
+      { path: 'extra', message: 'is not a recognized key (expected one of topology, max_agents, gates, version, lead)' },
+    ]);
+  });
+
+  it('reports missing required keys', () => {
+    expect(validateSchema(SWARM, {}).map((issue) => issue.path)).toEqual(['topology', 'max_agents']);
+  });
+
+  it('checks extra keys against an additionalProperties schema', () => {
+    const schema: JsonSchema = { type: 'object', additionalProperties: { type: 'number' } };
+
+    expect(validateSchema(schema, { fire: 396, heart: 'loud' })).toEqual([{ path: 'heart', message: 'must be number, got string' }]);
+  });
+});
+
+describe('formatSchemaIssues', () => {
+  it('lists one issue per line', () => {
+    expect(formatSchemaIssues([{ path: 'a', message: 'is required' }, { path: 'b[0]', message: 'must be >= 1' }]))
+      .toBe('  - a: is required\n  - b[0]: must be >= 1');
+  });
+});
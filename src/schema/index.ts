@@ -0,0 +1,179 @@
+/**
+ * Arcanea JSON Schema Validation
+ *
+ * A small validator for the JSON Schema subset AIOS uses to describe config
+ * files and tool inputs. Every issue carries the path of the offending value
+ * (e.g. `swarm_config.max_agents`, `gates_unlocked[2]`) so errors point at the
+ * bad key.
+ */
+
+// =============================================================================
+// TYPE DEFINITIONS
+// =============================================================================
+
+export type JsonSchemaType = 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean' | 'null';
+
+/**
+ * The supported JSON Schema keywords
+ */
+export interface JsonSchema {
+  type?: JsonSchemaType | JsonSchemaType[];
+  description?: string;
+  enum?: unknown[];
+  default?: unknown;
+  // object
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  // array
+  items?: JsonSchema;
+  minItems?: number;
+  maxItems?: number;
+  uniqueItems?: boolean;
+  // string
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  // number
+  minimum?: number;
+  maximum?: number;
+}
+
+/**
+ * The inputSchema of an MCP tool: an object schema whose properties may be
+ * strings, numbers, arrays or nested objects
+ */
+export interface ToolInputSchema extends JsonSchema {
+  type: 'object';
+  properties: Record<string, JsonSchema>;
+  required?: string[];
+}
+
+/**
+ * A single validation failure
+ */
+export interface SchemaIssue {
+  /** Dotted path to the value, or "(root)" */
+  path: string;
+  message: string;
+}
+
+// =============================================================================
+// VALIDATION
+// =============================================================================
+
+function typeOf(value: unknown): JsonSchemaType {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+  return typeof value as JsonSchemaType;
+}
+
+function matchesType(value: unknown, type: JsonSchemaType): boolean {
+  const actual = typeOf(value);
+  return actual === type || (type === 'number' && actual === 'integer');
+}
+
+function joinPath(base: string, key: string | number): string {
+  if (typeof key === 'number') return `${base}[${key}]`;
+  return base ? `${base}.${key}` : key;
+}
+
+function describe(value: unknown): string {
+  return typeof value === 'string' ? `"${value}"` : JSON.stringify(value);
+}
+
+/**
+ * Validate a value against a schema, returning every issue found
+ */
+export function validateSchema(schema: JsonSchema, value: unknown, path: string = ''): SchemaIssue[] {
+  const issues: SchemaIssue[] = [];
+  const at = path || '(root)';
+
+  if (schema.type !== undefined) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some((type) => matchesType(value, type))) {
+      issues.push({ path: at, message: `must be ${types.join(' or ')}, got ${typeOf(value)}` });
+      return issues;
+    }
+  }
+
+  if (schema.enum && !schema.enum.some((option) => option === value)) {
+    issues.push({ path: at, message: `must be one of ${schema.enum.map(describe).join(', ')}, got ${describe(value)}` });
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      issues.push({ path: at, message: `must be at least ${schema.minLength} character(s)` });
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      issues.push({ path: at, message: `must be at most ${schema.maxLength} character(s)` });
+    }
+    if (schema.pattern !== undefined && !new RegExp(schema.pattern).test(value)) {
+      issues.push({ path: at, message: `must match ${schema.pattern}` });
+    }
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      issues.push({ path: at, message: `must be >= ${schema.minimum}` });
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      issues.push({ path: at, message: `must be <= ${schema.maximum}` });
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      issues.push({ path: at, message: `must have at least ${schema.minItems} item(s)` });
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      issues.push({ path: at, message: `must have at most ${schema.maxItems} item(s)` });
+    }
+    if (schema.uniqueItems) {
+      const seen = new Set<string>();
+      value.forEach((item, i) => {
+        const key = JSON.stringify(item);
+        if (seen.has(key)) issues.push({ path: joinPath(path, i), message: `duplicates an earlier item` });
+        seen.add(key);
+      });
+    }
+    if (schema.items) {
+      value.forEach((item, i) => issues.push(...validateSchema(schema.items!, item, joinPath(path, i))));
+    }
+  }
+
+  if (typeOf(value) === 'object') {
+    const record = value as Record<string, unknown>;
+
+    for (const key of schema.required || []) {
+      if (record[key] === undefined) {
+        issues.push({ path: joinPath(path, key), message: 'is required' });
+      }
+    }
+
+    for (const [key, child] of Object.entries(record)) {
+      const propertySchema = schema.properties?.[key];
+      if (propertySchema) {
+        if (child !== undefined) issues.push(...validateSchema(propertySchema, child, joinPath(path, key)));
+      } else if (schema.additionalProperties === false) {
+        const known = Object.keys(schema.properties || {});
+        issues.push({
+          path: joinPath(path, key),
+          message: `is not a recognized key${known.length > 0 ? ` (expected one of ${known.join(', ')})` : ''}`,
+        });
+      } else if (typeof schema.additionalProperties === 'object') {
+        issues.push(...validateSchema(schema.additionalProperties, child, joinPath(path, key)));
+      }
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Render issues as an indented bullet list
+ */
+export function formatSchemaIssues(issues: SchemaIssue[]): string {
+  return issues.map((issue) => `  - ${issue.path}: ${issue.message}`).join('\n');
+}
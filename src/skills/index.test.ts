@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import { getGateSkill, listGateSkills } from '../canon';
+import { createSkillSession } from './index';
+
+describe('Gate skills', () => {
+  it('parses each skill in SKILL.md, keyed by its invocation', () => {
+    expect(listGateSkills('fire').map((skill) => skill.key)).toEqual(['ignite', 'will', 'burn', 'transform']);
+    expect(getGateSkill('fire', 'ignite')).toMatchObject({
+      name: 'Courage Ignition',
+      purpose: 'Transform fear into action-ready energy.',
+      invocation: '/fire ignite',
+      process: [
+        'Name the specific fear',
+        'Identify what the fear protects',
+        'Transform fear energy into courage fuel',
+        'Take immediate small action',
+      ],
+      output: 'Actionable courage, fear reframed as fuel',
+    });
+  });
+
+  it('takes the steps of a standalone skill file from its phases', () => {
+    const transform = getGateSkill('fire', 'transform')!;
+
+    expect(transform.process).toHaveLength(10);
+    expect(transform.process[0]).toBe('Naming (The Fuel): State clearly what needs to change');
+    expect(transform.guidance).toHaveLength(10);
+    expect(transform.purpose).toBe('Navigate major creative changes with fire\'s guidance');
+  });
+});
+
+describe('createSkillSession', () => {
+  it('walks through every step and renders the answers', () => {
+    const session = createSkillSession('fire', 'ignite');
+
+    expect(session.currentStep()).toMatchObject({
+      index: 0,
+      total: 4,
+      prompt: 'Courage Ignition - Step 1 of 4\n\nDraconia guides you: Name the specific fear',
+    });
+
+    session.answer('Sharing the first chapter');
+    session.answer('My pride');
+    session.answer('I will read it aloud tonight');
+    expect(session.answer(' Send it to one reader ')).toBeNull();
+    expect(session.isComplete()).toBe(true);
+
+    const output = session.renderOutput();
+    expect(output).toContain('**Gate**: Fire (396 Hz) | **Guardian**: Draconia');
+    expect(output).toContain('## 4. Take immediate small action\n\nSend it to one reader');
+    expect(() => session.answer('again')).toThrow('is already complete');
+  });
+
+  it('resumes from the answers given so far', () => {
+    const session = createSkillSession('fire', 'ignite', ['Sharing the first chapter']);
+
+    expect(session.currentStep()?.index).toBe(1);
+    expect(session.toJSON()).toEqual({ gate: 'fire', skill: 'ignite', answers: ['Sharing the first chapter'] });
+  });
+
+  it('names the available skills when one is unknown', () => {
+    expect(() => createSkillSession('fire', 'juggle'))
+      .toThrow('Skill "juggle" not found in the fire Gate. Available: ignite, will, burn, transform');
+  });
+});
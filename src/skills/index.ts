@@ -0,0 +1,152 @@
+/**
+ * Arcanea Skill Runner
+ *
+ * Walks a seeker through a Gate skill one process step at a time. Each step is
+ * rendered as a prompt in the Guardian's name; the answers are collected into a
+ * final markdown document. Sessions are plain data so a stateless caller (the
+ * MCP server) can resume one by replaying the answers given so far.
+ */
+
+import { getCanonGate, getGateSkill, listGateSkills, type SkillDefinition } from '../canon';
+import type { GateName } from '../index';
+
+// =============================================================================
+// TYPE DEFINITIONS
+// =============================================================================
+
+/**
+ * A single step presented to the seeker
+ */
+export interface SkillStepPrompt {
+  /** Zero-based step index */
+  index: number;
+  total: number;
+  step: string;
+  guidance: string[];
+  /** The step rendered as a prompt, ready to display */
+  prompt: string;
+}
+
+/**
+ * Serializable session state
+ */
+export interface SkillSessionState {
+  gate: GateName;
+  skill: string;
+  answers: string[];
+}
+
+// =============================================================================
+// SKILL SESSION
+// =============================================================================
+
+export class SkillSession {
+  readonly skill: SkillDefinition;
+  private answers: string[] = [];
+
+  constructor(skill: SkillDefinition, answers: string[] = []) {
+    if (skill.process.length === 0) {
+      throw new Error(`Skill "${skill.key}" in the ${skill.gate} Gate has no process steps to run`);
+    }
+
+    this.skill = skill;
+    for (const answer of answers) {
+      this.answer(answer);
+    }
+  }
+
+  /**
+   * Whether every process step has been answered
+   */
+  isComplete(): boolean {
+    return this.answers.length >= this.skill.process.length;
+  }
+
+  /**
+   * The step awaiting an answer, or null when the session is complete
+   */
+  currentStep(): SkillStepPrompt | null {
+    if (this.isComplete()) return null;
+
+    const index = this.answers.length;
+    const total = this.skill.process.length;
+    const step = this.skill.process[index];
+    const guidance = this.skill.guidance[index] || [];
+    const guardian = getCanonGate(this.skill.gate)?.guardian || 'The Guardian';
+
+    const lines = [
+      `${this.skill.name} - Step ${index + 1} of ${total}`,
+      '',
+      `${guardian} guides you: ${step}`,
+    ];
+    if (guidance.length > 0) {
+      lines.push('', ...guidance.map((item) => `  - ${item}`));
+    }
+
+    return { index, total, step, guidance, prompt: lines.join('\n') };
+  }
+
+  /**
+   * Record the answer to the current step and return the next one
+   */
+  answer(text: string): SkillStepPrompt | null {
+    if (this.isComplete()) {
+      throw new Error(`Skill "${this.skill.key}" is already complete`);
+    }
+
+    this.answers.push(text.trim());
+    return this.currentStep();
+  }
+
+  /**
+   * Render the collected answers as the skill's output document
+   */
+  renderOutput(): string {
+    const gate = getCanonGate(this.skill.gate);
+    const gateTitle = this.skill.gate.charAt(0).toUpperCase() + this.skill.gate.slice(1);
+
+    const lines = [
+      `# ${this.skill.name}`,
+      '',
+      `**Gate**: ${gateTitle}${gate ? ` (${gate.frequency} Hz)` : ''} | **Guardian**: ${gate?.guardian || 'Unknown'}`,
+    ];
+    if (this.skill.invocation) lines.push(`**Invocation**: \`${this.skill.invocation}\``);
+    if (this.skill.purpose) lines.push(`**Purpose**: ${this.skill.purpose}`);
+
+    this.skill.process.forEach((step, index) => {
+      lines.push('', `## ${index + 1}. ${step}`, '', this.answers[index] || '_Not yet answered_');
+    });
+
+    if (this.skill.output) {
+      lines.push('', '---', '', `**Outcome**: ${this.skill.output}`);
+    }
+
+    return lines.join('\n') + '\n';
+  }
+
+  /**
+   * Export the session so it can be resumed later
+   */
+  toJSON(): SkillSessionState {
+    return { gate: this.skill.gate, skill: this.skill.key, answers: [...this.answers] };
+  }
+}
+
+// =============================================================================
+// FACTORY
+// =============================================================================
+
+/**
+ * Start (or resume, by passing earlier answers) a session for a Gate skill
+ */
+export function createSkillSession(gate: GateName, skill: string, answers: string[] = []): SkillSession {
+  const definition = getGateSkill(gate, skill);
+  if (!definition) {
+    const available = listGateSkills(gate).map((s) => s.key).join(', ') || 'none';
+    throw new Error(`Skill "${skill}" not found in the ${gate} Gate. Available: ${available}`);
+  }
+
+  return new SkillSession(definition, answers);
+}
+
+export default SkillSession;
@@ -18,6 +18,14 @@
 
 export * from './types';
 
+// =============================================================================
+// SEEDS AND NAMES
+// =============================================================================
+
+export * from './random';
+export * from './seeds';
+export * from './names';
+
 // =============================================================================
 // MODULE EXPORTS
 // =============================================================================
@@ -16,6 +16,7 @@ import * as fs from 'fs';
 import * as path from 'path';
 
 import { GATES, type GateName, type Element } from '../../../index';
+import { deriveCanonTable, listCanonGates, getNearestBuiltinGate, registerDerivedTable } from '../../../canon';
 import type {
   AudioAsset,
   Character,
@@ -108,8 +109,7 @@ export interface Soundscape {
 // GATE FREQUENCIES - The Solfeggio Scale
 // =============================================================================
 
-export const GATE_FREQUENCIES: Record<GateName, {
-  frequency: number;
+const GATE_SOLFEGGIO: Record<GateName, {
   solfeggioName: string;
   purpose: string;
   musicalNotes: string[];
@@ -117,7 +117,6 @@ export const GATE_FREQUENCIES: Record<GateName, {
   soundscape: string;
 }> = {
   foundation: {
-    frequency: 174,
     solfeggioName: 'Foundation Frequency',
     purpose: 'Safety, physical grounding',
     musicalNotes: ['F2', 'C3', 'F3'],
@@ -125,7 +124,6 @@ export const GATE_FREQUENCIES: Record<GateName, {
     soundscape: 'deep earth rumbles, heartbeat-like bass, grounding drums',
   },
   flow: {
-    frequency: 285,
     solfeggioName: 'Healing Frequency',
     purpose: 'Healing, cellular energy',
     musicalNotes: ['C#3', 'G#3', 'C#4'],
@@ -133,7 +131,6 @@ export const GATE_FREQUENCIES: Record<GateName, {
     soundscape: 'flowing water, gentle waves, rain, crystal bowls',
   },
   fire: {
-    frequency: 396,
     solfeggioName: 'Liberation Frequency',
     purpose: 'Liberation from fear',
     musicalNotes: ['G3', 'D4', 'G4'],
@@ -141,7 +138,6 @@ export const GATE_FREQUENCIES: Record<GateName, {
     soundscape: 'crackling fire, powerful percussion, rising energy',
   },
   heart: {
-    frequency: 417,
     solfeggioName: 'Change Frequency',
     purpose: 'Facilitating change',
     musicalNotes: ['G#3', 'D#4', 'G#4'],
@@ -149,7 +145,6 @@ export const GATE_FREQUENCIES: Record<GateName, {
     soundscape: 'heartbeat rhythm, warm tones, emotional swells',
   },
   voice: {
-    frequency: 528,
     solfeggioName: 'Miracle Frequency',
     purpose: 'Transformation, miracles',
     musicalNotes: ['C4', 'G4', 'C5'],
@@ -157,7 +152,6 @@ export const GATE_FREQUENCIES: Record<GateName, {
     soundscape: 'pure tones, vocal harmonics, crystalline sounds',
   },
   sight: {
-    frequency: 639,
     solfeggioName: 'Connection Frequency',
     purpose: 'Connection, relationships',
     musicalNotes: ['D#4', 'A#4', 'D#5'],
@@ -165,7 +159,6 @@ export const GATE_FREQUENCIES: Record<GateName, {
     soundscape: 'wind through spaces, distant echoes, airy textures',
   },
   crown: {
-    frequency: 741,
     solfeggioName: 'Awakening Frequency',
     purpose: 'Awakening intuition',
     musicalNotes: ['F#4', 'C#5', 'F#5'],
@@ -173,7 +166,6 @@ export const GATE_FREQUENCIES: Record<GateName, {
     soundscape: 'void ambience, cosmic tones, transcendent frequencies',
   },
   shift: {
-    frequency: 852,
     solfeggioName: 'Spiritual Order Frequency',
     purpose: 'Spiritual order, returning to source',
     musicalNotes: ['G#4', 'D#5', 'G#5'],
@@ -181,7 +173,6 @@ export const GATE_FREQUENCIES: Record<GateName, {
     soundscape: 'transforming textures, arcane resonances, shifting realities',
   },
   unity: {
-    frequency: 963,
     solfeggioName: 'Divine Consciousness Frequency',
     purpose: 'Divine consciousness, oneness',
     musicalNotes: ['B4', 'F#5', 'B5'],
@@ -189,7 +180,6 @@ export const GATE_FREQUENCIES: Record<GateName, {
     soundscape: 'harmonic convergence, unified tones, cosmic harmony',
   },
   source: {
-    frequency: 1111,
     solfeggioName: 'Master Frequency',
     purpose: 'Gateway to source, ultimate alignment',
     musicalNotes: ['High harmonics', 'overtone series'],
@@ -198,6 +188,19 @@ export const GATE_FREQUENCIES: Record<GateName, {
   },
 };
 
+/**
+ * Solfeggio metadata per Gate, with the frequency taken from canon.
+ * Overlay Gates borrow the metadata of the nearest built-in Gate.
+ */
+export const GATE_FREQUENCIES = deriveCanonTable(() => Object.fromEntries(
+  listCanonGates().map((gate) => [gate.name, {
+    frequency: gate.frequency,
+    ...GATE_SOLFEGGIO[getNearestBuiltinGate(gate.name)],
+  }])
+) as Record<GateName, { frequency: number } & (typeof GATE_SOLFEGGIO)[GateName]>);
+
+registerDerivedTable('studio/bard/GATE_FREQUENCIES', () => GATE_FREQUENCIES);
+
 // =============================================================================
 // MUSIC STYLE PRESETS
 // =============================================================================
@@ -14,6 +14,7 @@ import * as fs from 'fs';
 import * as path from 'path';
 
 import { GATES, type GateName, type Element } from '../../../index';
+import { getNearestBuiltinGate } from '../../../canon';
 import type {
   VideoAsset,
   Character,
@@ -241,7 +242,9 @@ export const GATE_VIDEO_MODIFIERS: Record<GateName, {
   },
   source: {
     visualTheme: ['pure light', 'divine radiance', 'ultimate power'],
-    soundscape: 'transcendent frequencies, 1111 Hz undertones',
+    get soundscape() {
+      return `transcendent frequencies, ${GATES.source.frequency} Hz undertones`;
+    },
     colorPalette: 'golden white, pure light',
   },
 };
@@ -298,7 +301,7 @@ export class Filmmaker {
     const style = options?.style || this.config.defaultStyle;
     const format = options?.format || this.config.defaultFormat;
     const duration = options?.duration || 'short';
-    const gateModifiers = character.gate ? GATE_VIDEO_MODIFIERS[character.gate] : null;
+    const gateModifiers = character.gate ? GATE_VIDEO_MODIFIERS[getNearestBuiltinGate(character.gate)] : null;
 
     const shots: SceneShot[] = [
       {
@@ -368,7 +371,7 @@ export class Filmmaker {
   }> {
     const style = options?.style || 'cinematic';
     const format = options?.format || this.config.defaultFormat;
-    const gateModifiers = location.gate ? GATE_VIDEO_MODIFIERS[location.gate] : null;
+    const gateModifiers = location.gate ? GATE_VIDEO_MODIFIERS[getNearestBuiltinGate(location.gate)] : null;
 
     const shots: SceneShot[] = [
       {
@@ -435,7 +438,7 @@ export class Filmmaker {
   }> {
     const style = options?.style || 'mysterious';
     const format = options?.format || this.config.defaultFormat;
-    const gateModifiers = artifact.gate ? GATE_VIDEO_MODIFIERS[artifact.gate] : null;
+    const gateModifiers = artifact.gate ? GATE_VIDEO_MODIFIERS[getNearestBuiltinGate(artifact.gate)] : null;
 
     const shots: SceneShot[] = [
       {
@@ -509,7 +512,7 @@ export class Filmmaker {
     prompt: string;
   }> {
     const shots: SceneShot[] = [];
-    const gateModifiers = params.project.gate ? GATE_VIDEO_MODIFIERS[params.project.gate] : null;
+    const gateModifiers = params.project.gate ? GATE_VIDEO_MODIFIERS[getNearestBuiltinGate(params.project.gate)] : null;
 
     // Opening
     shots.push({
@@ -689,7 +692,7 @@ export class Filmmaker {
     shotType: 'establishing' | 'closeup' | 'power' | 'hero'
   ): string {
     const stylePreset = VIDEO_STYLE_PRESETS[this.config.defaultStyle];
-    const gateModifiers = character.gate ? GATE_VIDEO_MODIFIERS[character.gate] : null;
+    const gateModifiers = character.gate ? GATE_VIDEO_MODIFIERS[getNearestBuiltinGate(character.gate)] : null;
 
     const elements: (string | null)[] = [];
 
@@ -744,7 +747,7 @@ export class Filmmaker {
     shotType: 'aerial' | 'descent' | 'through' | 'final'
   ): string {
     const stylePreset = VIDEO_STYLE_PRESETS[this.config.defaultStyle];
-    const gateModifiers = location.gate ? GATE_VIDEO_MODIFIERS[location.gate] : null;
+    const gateModifiers = location.gate ? GATE_VIDEO_MODIFIERS[getNearestBuiltinGate(location.gate)] : null;
 
     const elements: (string | null)[] = [];
 
@@ -804,7 +807,7 @@ export class Filmmaker {
     shotType: 'hidden' | 'awakening' | 'power' | 'detail'
   ): string {
     const stylePreset = VIDEO_STYLE_PRESETS[this.config.defaultStyle];
-    const gateModifiers = artifact.gate ? GATE_VIDEO_MODIFIERS[artifact.gate] : null;
+    const gateModifiers = artifact.gate ? GATE_VIDEO_MODIFIERS[getNearestBuiltinGate(artifact.gate)] : null;
 
     const elements: (string | null)[] = [];
 
@@ -861,7 +864,7 @@ export class Filmmaker {
 
   private buildVideoPrompt(storyboard: Storyboard, gate?: GateName): string {
     const stylePreset = VIDEO_STYLE_PRESETS[storyboard.style];
-    const gateModifiers = gate ? GATE_VIDEO_MODIFIERS[gate] : null;
+    const gateModifiers = gate ? GATE_VIDEO_MODIFIERS[getNearestBuiltinGate(gate)] : null;
 
     const elements = [
       `VIDEO: ${storyboard.title}`,
@@ -15,6 +15,7 @@ import * as path from 'path';
 import { GoogleGenerativeAI } from '@google/generative-ai';
 
 import { GATES, type GateName, type Element } from '../../../index';
+import { getNearestBuiltinGate } from '../../../canon';
 import type {
   ImageAsset,
   ArtStyle,
@@ -232,7 +233,7 @@ export class Painter {
   }> {
     const effectiveStyle = params.style || this.config.defaultStyle;
     const stylePreset = STYLE_PRESETS[effectiveStyle] || STYLE_PRESETS['arcanea-classic'];
-    const gateModifiers = params.gate ? GATE_STYLE_MODIFIERS[params.gate] : [];
+    const gateModifiers = params.gate ? GATE_STYLE_MODIFIERS[getNearestBuiltinGate(params.gate)] : [];
 
     const elements = [
       params.description,
@@ -294,7 +295,7 @@ export class Painter {
     filePath?: string;
   }> {
     const mapStyle = params.style || 'fantasy';
-    const gateModifiers = params.gate ? GATE_STYLE_MODIFIERS[params.gate] : [];
+    const gateModifiers = params.gate ? GATE_STYLE_MODIFIERS[getNearestBuiltinGate(params.gate)] : [];
 
     const elements = [
       `${mapStyle} map of ${params.name}`,
@@ -320,7 +321,7 @@ export class Painter {
    */
   applyStyle(basePrompt: string, style: ArtStyle, gate?: GateName): string {
     const stylePreset = STYLE_PRESETS[style] || STYLE_PRESETS['arcanea-classic'];
-    const gateModifiers = gate ? GATE_STYLE_MODIFIERS[gate] : [];
+    const gateModifiers = gate ? GATE_STYLE_MODIFIERS[getNearestBuiltinGate(gate)] : [];
 
     return [
       basePrompt,
@@ -342,7 +343,7 @@ export class Painter {
 
   private buildCharacterPrompt(character: Partial<Character>, style: ArtStyle): string {
     const stylePreset = STYLE_PRESETS[style] || STYLE_PRESETS['arcanea-classic'];
-    const gateModifiers = character.gate ? GATE_STYLE_MODIFIERS[character.gate] : [];
+    const gateModifiers = character.gate ? GATE_STYLE_MODIFIERS[getNearestBuiltinGate(character.gate)] : [];
 
     const elements = [
       'character portrait',
@@ -376,7 +377,7 @@ export class Painter {
 
   private buildLocationPrompt(location: Partial<Location>, style: ArtStyle): string {
     const stylePreset = STYLE_PRESETS[style] || STYLE_PRESETS['arcanea-classic'];
-    const gateModifiers = location.gate ? GATE_STYLE_MODIFIERS[location.gate] : [];
+    const gateModifiers = location.gate ? GATE_STYLE_MODIFIERS[getNearestBuiltinGate(location.gate)] : [];
 
     const elements = [
       location.type ? `${location.type}` : 'fantasy location',
@@ -396,7 +397,7 @@ export class Painter {
 
   private buildArtifactPrompt(artifact: Partial<Artifact>, style: ArtStyle): string {
     const stylePreset = STYLE_PRESETS[style] || STYLE_PRESETS['arcanea-classic'];
-    const gateModifiers = artifact.gate ? GATE_STYLE_MODIFIERS[artifact.gate] : [];
+    const gateModifiers = artifact.gate ? GATE_STYLE_MODIFIERS[getNearestBuiltinGate(artifact.gate)] : [];
 
     const elements = [
       artifact.type ? `${artifact.type}` : 'magical artifact',
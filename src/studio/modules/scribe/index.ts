@@ -8,14 +8,42 @@
  * - Artifacts and items
  * - Stories and narratives
  * - Canon-compliant validation
+ *
+ * Content is generated through an LLM provider: `provider` when given,
+ * otherwise the adapter named by `model` if its API key is set. Without one
+ * the Scribe runs in prompt-only mode and returns templates plus the prompt.
  */
 
 import {
-  GATES,
   GUARDIAN_WISDOM,
   type GateName,
   type Element,
 } from '../../../index';
+import {
+  getCanonGate,
+  listCanonGates,
+  listCanonHouses,
+  listCanonElements,
+  listGuardianKeys,
+  validateCanonText,
+  validateCanonFields,
+  type CanonIssue,
+} from '../../../canon';
+import {
+  completeJSON,
+  createProvider,
+  hasProviderCredentials,
+  type LLMProvider,
+} from '../../../providers';
+import { withAntiDrift, type AntiDriftSettings, type DriftIssue } from '../../../anti-drift';
+import {
+  generateCharacterSeed,
+  generateArtifactSeed,
+  type CharacterSeed,
+  type ArtifactSeed,
+} from '../../seeds';
+import { composeName, type NameOptions } from '../../names';
+import { createSeededRandom, randomSeed } from '../../random';
 
 import type {
   Character,
@@ -38,6 +66,10 @@ export interface ScribeConfig {
   defaultGate: GateName;
   defaultElement: Element;
   enforceCanon: boolean;
+  /** Provider to generate with; null forces prompt-only mode */
+  provider?: LLMProvider | null;
+  /** Run generated content through the anti-drift pipeline */
+  antiDrift?: AntiDriftSettings;
 }
 
 const DEFAULT_CONFIG: ScribeConfig = {
@@ -57,11 +89,14 @@ const PROMPTS = {
   character: `You are a master worldbuilder creating a character for the Arcanea universe.
 
 ARCANEA CONTEXT:
-- Arcanea is a mythology-infused creative universe with Ten Gates of consciousness
+- Arcanea is a mythology-infused creative universe with Gates of consciousness
 - Each Gate has a Guardian, element, and frequency
 - Characters align with Gates and elements
 - The tone is elevated but accessible, mythic but practical
 
+CANON REFERENCE:
+{{canon}}
+
 CHARACTER GENERATION PARAMETERS:
 {{params}}
 
@@ -129,6 +164,9 @@ ARCANEA CONTEXT:
 - The world blends high fantasy with consciousness themes
 - Each place reflects its aligned element and Gate energy
 
+CANON REFERENCE:
+{{canon}}
+
 LOCATION GENERATION PARAMETERS:
 {{params}}
 
@@ -182,6 +220,9 @@ ARCANEA CONTEXT:
 - Power levels range from minor to mythic
 - Artifacts often choose their wielders
 
+CANON REFERENCE:
+{{canon}}
+
 ARTIFACT GENERATION PARAMETERS:
 {{params}}
 
@@ -226,10 +267,13 @@ Create a legendary artifact now:`,
 
 ARCANEA CONTEXT:
 - Factions in Arcanea represent different philosophies and powers
-- The Seven Houses are major political entities
+- The Houses are major political entities
 - Guilds, orders, and cults pursue various goals
 - Alliances and rivalries shape the world
 
+CANON REFERENCE:
+{{canon}}
+
 FACTION GENERATION PARAMETERS:
 {{params}}
 
@@ -273,6 +317,9 @@ ARCANEA CONTEXT:
 - The Gates represent stages of growth and power
 - Themes include creation, transformation, and unity
 
+CANON REFERENCE:
+{{canon}}
+
 STORY PARAMETERS:
 {{params}}
 
@@ -293,11 +340,28 @@ Write a compelling story now:`,
 
 export class Scribe {
   private config: ScribeConfig;
+  private provider: LLMProvider | null | undefined;
 
   constructor(config: Partial<ScribeConfig> = {}) {
     this.config = { ...DEFAULT_CONFIG, ...config };
   }
 
+  /**
+   * The provider content is generated with, or null in prompt-only mode
+   */
+  getProvider(): LLMProvider | null {
+    if (this.provider === undefined) {
+      let provider: LLMProvider | null;
+      if (this.config.provider !== undefined) {
+        provider = this.config.provider;
+      } else {
+        provider = hasProviderCredentials(this.config.model) ? createProvider(this.config.model) : null;
+      }
+      this.provider = provider && this.config.antiDrift ? withAntiDrift(provider, this.config.antiDrift) : provider;
+    }
+    return this.provider;
+  }
+
   /**
    * Generate a character
    */
@@ -305,26 +369,35 @@ export class Scribe {
     character: Partial<Character>;
     prompt: string;
     portraitPrompt: string;
+    /** Model that generated the content; absent in prompt-only mode */
+    model?: string;
+    /** Anti-drift issues left in the content */
+    drift?: DriftIssue[];
+    /** The seed the unset fields were filled from, when params.seed was given */
+    seed?: CharacterSeed;
   }> {
-    const gate = params.gate || this.config.defaultGate;
-    const element = params.element || this.config.defaultElement;
-    const gateInfo = GATES[gate];
+    const seeded = params.seed !== undefined
+      ? generateCharacterSeed({ seed: params.seed, element: params.element, gate: params.gate, house: params.house })
+      : undefined;
+    const gate = params.gate || seeded?.highestGate || this.config.defaultGate;
+    const element = params.element || seeded?.element || this.config.defaultElement;
+    const gateInfo = getCanonGate(gate)!;
 
     const prompt = this.buildPrompt('character', {
-      params: JSON.stringify(params, null, 2),
+      params: JSON.stringify(seeded ? { ...params, seed: seeded } : params, null, 2),
       gate,
       element,
       guardian: gateInfo.guardian,
       frequency: String(gateInfo.frequency),
     });
 
-    // In production, this would call the AI model
-    // For now, return a structured template
-    const character: Partial<Character> = {
-      name: params.name || 'Generated Character',
+    const template: Partial<Character> = {
+      name: params.name || seeded?.name || this.inventName({ kind: 'person', house: params.house, element }),
       gate,
       element,
-      gatesOpened: Math.floor(Math.random() * 10) + 1,
+      gatesOpened: gateInfo.number,
+      house: params.house || seeded?.house,
+      ...(seeded ? { guardian: seeded.mentor } : {}),
       species: params.species || 'Human',
       personality: {
         traits: [],
@@ -337,8 +410,8 @@ export class Scribe {
       },
       abilities: {
         skills: [],
-        powers: [],
-        weaknesses: [],
+        powers: seeded ? [...seeded.abilities] : [],
+        weaknesses: seeded ? [...seeded.weaknesses] : [],
       },
       relationships: [],
       galleryIds: [],
@@ -347,10 +420,27 @@ export class Scribe {
       updatedAt: new Date(),
     };
 
+    const generated = await this.generateJSON<Character>(prompt);
+    const { portraitPrompt, ...fields } = generated?.data || {};
+    // A seeded name and Gate count stay fixed, like the gate and element
+    const character: Partial<Character> = generated
+      ? {
+        ...template,
+        ...fields,
+        gate,
+        element,
+        gatesOpened: seeded ? seeded.gatesOpened : this.clampGatesOpened(fields.gatesOpened, gateInfo.number),
+        ...(seeded ? { name: template.name } : {}),
+      }
+      : template;
+
     return {
       character,
       prompt,
-      portraitPrompt: this.generatePortraitPrompt(character),
+      portraitPrompt: portraitPrompt || this.generatePortraitPrompt(character),
+      model: generated?.model,
+      drift: generated?.drift,
+      seed: seeded,
     };
   }
 
@@ -361,6 +451,8 @@ export class Scribe {
     location: Partial<Location>;
     prompt: string;
     artPrompt: string;
+    model?: string;
+    drift?: DriftIssue[];
   }> {
     const gate = params.gate || this.config.defaultGate;
     const element = params.element || this.config.defaultElement;
@@ -371,8 +463,8 @@ export class Scribe {
       element,
     });
 
-    const location: Partial<Location> = {
-      name: params.name || 'Generated Location',
+    const template: Partial<Location> = {
+      name: params.name || this.inventName({ kind: 'place', element }),
       type: params.type || 'city',
       gate,
       element,
@@ -384,10 +476,16 @@ export class Scribe {
       updatedAt: new Date(),
     };
 
+    const generated = await this.generateJSON<Location>(prompt);
+    const { artPrompt, ...fields } = generated?.data || {};
+    const location: Partial<Location> = { ...template, ...fields, gate, element };
+
     return {
       location,
       prompt,
-      artPrompt: this.generateLocationArtPrompt(location),
+      artPrompt: artPrompt || this.generateLocationArtPrompt(location),
+      model: generated?.model,
+      drift: generated?.drift,
     };
   }
 
@@ -398,36 +496,63 @@ export class Scribe {
     artifact: Partial<Artifact>;
     prompt: string;
     artPrompt: string;
+    model?: string;
+    drift?: DriftIssue[];
+    seed?: ArtifactSeed;
   }> {
-    const gate = params.gate || this.config.defaultGate;
-    const element = params.element || this.config.defaultElement;
-    const powerLevel = params.powerLevel || 'moderate';
+    const seeded = params.seed !== undefined
+      ? generateArtifactSeed({
+        seed: params.seed,
+        element: params.element,
+        type: params.type,
+        powerLevel: params.powerLevel,
+        purpose: params.purpose,
+      })
+      : undefined;
+    const gate = params.gate || seeded?.gate || this.config.defaultGate;
+    const element = params.element || seeded?.element || this.config.defaultElement;
+    const powerLevel = params.powerLevel || seeded?.powerLevel || 'moderate';
 
     const prompt = this.buildPrompt('artifact', {
-      params: JSON.stringify(params, null, 2),
+      params: JSON.stringify(seeded ? { ...params, seed: seeded } : params, null, 2),
       gate,
       element,
       powerLevel,
     });
 
-    const artifact: Partial<Artifact> = {
-      name: params.name || 'Generated Artifact',
-      type: params.type || 'relic',
+    const template: Partial<Artifact> = {
+      name: params.name || seeded?.name || this.inventName({ kind: 'artifact', element, artifactType: params.type }),
+      type: params.type || seeded?.type || 'relic',
       gate,
       element,
       powerLevel,
       description: '',
       appearance: '',
-      abilities: [],
+      ...(seeded ? { creator: seeded.forgedBy } : {}),
+      abilities: seeded ? seeded.abilities.map((name) => ({ name, description: '' })) : [],
       tags: [],
       createdAt: new Date(),
       updatedAt: new Date(),
     };
 
+    const generated = await this.generateJSON<Artifact>(prompt);
+    const { artPrompt, ...fields } = generated?.data || {};
+    const artifact: Partial<Artifact> = {
+      ...template,
+      ...fields,
+      gate,
+      element,
+      powerLevel,
+      ...(seeded ? { name: template.name } : {}),
+    };
+
     return {
       artifact,
       prompt,
-      artPrompt: this.generateArtifactArtPrompt(artifact),
+      artPrompt: artPrompt || this.generateArtifactArtPrompt(artifact),
+      model: generated?.model,
+      drift: generated?.drift,
+      seed: seeded,
     };
   }
 
@@ -443,6 +568,8 @@ export class Scribe {
   }): Promise<{
     faction: Partial<Faction>;
     prompt: string;
+    model?: string;
+    drift?: DriftIssue[];
   }> {
     const gate = params.gate || this.config.defaultGate;
     const element = params.element || this.config.defaultElement;
@@ -453,8 +580,8 @@ export class Scribe {
       element,
     });
 
-    const faction: Partial<Faction> = {
-      name: params.name || 'Generated Faction',
+    const template: Partial<Faction> = {
+      name: params.name || this.inventName({ kind: 'faction', element }),
       type: params.type || 'guild',
       gate,
       element,
@@ -473,9 +600,14 @@ export class Scribe {
       updatedAt: new Date(),
     };
 
+    const generated = await this.generateJSON<Faction>(prompt);
+    const faction: Partial<Faction> = { ...template, ...generated?.data };
+
     return {
       faction,
       prompt,
+      model: generated?.model,
+      drift: generated?.drift,
     };
   }
 
@@ -497,61 +629,75 @@ export class Scribe {
       wordCount: number;
     };
     prompt: string;
+    model?: string;
+    drift?: DriftIssue[];
   }> {
     const prompt = this.buildPrompt('story', {
       params: JSON.stringify(params, null, 2),
     });
 
+    const provider = this.getProvider();
+    const response = provider
+      ? await provider.complete({
+          messages: [{ role: 'user', content: prompt }],
+          temperature: this.config.temperature,
+          maxTokens: this.config.maxTokens,
+        })
+      : null;
+    const content = response?.text.trim() || '';
+
     return {
       story: {
         title: params.title || 'Untitled Story',
-        content: '',
-        wordCount: 0,
+        content,
+        wordCount: content ? content.split(/\s+/).length : 0,
       },
       prompt,
+      model: response?.model,
+      drift: response?.drift?.issues,
     };
   }
 
   /**
-   * Validate content against Arcanea canon
+   * Validate content against Arcanea canon. Accepts prose, or a generated
+   * record whose canon fields (gate, guardian, element, frequency...) are
+   * checked against each other and whose text fields are checked as prose.
    */
   validateCanon(content: any): {
     valid: boolean;
     issues: string[];
     suggestions: string[];
+    details: CanonIssue[];
   } {
-    const issues: string[] = [];
+    const details: CanonIssue[] = [];
     const suggestions: string[] = [];
 
-    // Check gate frequencies
-    if (content.gate && content.frequency) {
-      const expectedFreq = GATES[content.gate as GateName]?.frequency;
-      if (expectedFreq && content.frequency !== expectedFreq) {
-        issues.push(`Frequency mismatch: ${content.gate} should be ${expectedFreq} Hz, not ${content.frequency} Hz`);
+    if (typeof content === 'string') {
+      details.push(...validateCanonText(content).issues);
+    } else if (content && typeof content === 'object') {
+      const fieldIssues = validateCanonFields(content);
+      details.push(...fieldIssues);
+      if (fieldIssues.some((issue) => issue.code === 'unknown-guardian')) {
+        suggestions.push(`Valid guardians: ${listGuardianKeys().join(', ')}`);
       }
-    }
 
-    // Check guardian names
-    if (content.guardian) {
-      const validGuardians = Object.values(GATES).map(g => g.guardian.toLowerCase());
-      if (!validGuardians.includes(content.guardian.toLowerCase())) {
-        issues.push(`Unknown guardian: ${content.guardian}`);
-        suggestions.push(`Valid guardians: ${validGuardians.join(', ')}`);
+      for (const [key, value] of Object.entries(content)) {
+        if (typeof value !== 'string' || value.length < 20) continue;
+        details.push(...validateCanonText(value).issues.map((issue) => ({ ...issue, message: `${key}: ${issue.message}` })));
       }
     }
 
-    // Check element alignment
-    if (content.element && content.gate) {
-      const gateElement = GATES[content.gate as GateName]?.element;
-      if (gateElement && content.element !== gateElement) {
-        suggestions.push(`Note: ${content.gate} gate is aligned with ${gateElement}, but ${content.element} was used`);
+    for (const issue of details) {
+      for (const fix of issue.fixes) {
+        suggestions.push(`${issue.text} -> ${fix.replacement}: ${fix.description}`);
       }
     }
 
     return {
-      valid: issues.length === 0,
-      issues,
+      valid: !details.some((issue) => issue.severity === 'error'),
+      issues: details.map((issue) => issue.message),
       suggestions,
+      details,
     };
   }
 
@@ -559,16 +705,64 @@ export class Scribe {
   // PRIVATE METHODS
   // =============================================================================
 
+  /**
+   * Run a JSON prompt through the provider; null in prompt-only mode
+   */
+  private async generateJSON<T>(prompt: string): Promise<{
+    data: Partial<T> & { portraitPrompt?: string; artPrompt?: string };
+    model: string;
+    drift?: DriftIssue[];
+  } | null> {
+    const provider = this.getProvider();
+    if (!provider) return null;
+
+    const response = await completeJSON<Partial<T>>(provider, {
+      messages: [{ role: 'user', content: prompt }],
+      temperature: this.config.temperature,
+      maxTokens: this.config.maxTokens,
+    }, { schema: { type: 'object' } });
+
+    return { data: response.data, model: response.model, drift: response.drift?.issues };
+  }
+
+  /**
+   * A fresh name for an entity the caller did not name
+   */
+  private inventName(options: NameOptions): string {
+    return composeName(createSeededRandom(randomSeed()), options);
+  }
+
+  /**
+   * Keep a generated Gate count within the canon, defaulting to the aligned Gate
+   */
+  private clampGatesOpened(value: unknown, fallback: number): number {
+    if (typeof value !== 'number' || !Number.isFinite(value)) return fallback;
+    return Math.min(Math.max(Math.round(value), 1), listCanonGates().length);
+  }
+
   private buildPrompt(template: keyof typeof PROMPTS, vars: Record<string, string>): string {
     let prompt = PROMPTS[template];
-    for (const [key, value] of Object.entries(vars)) {
+    for (const [key, value] of Object.entries({ canon: this.buildCanonReference(), ...vars })) {
       prompt = prompt.replace(new RegExp(`{{${key}}}`, 'g'), value);
     }
     return prompt;
   }
 
+  /**
+   * Summarize the merged canon (including project overlays) for prompt context
+   */
+  private buildCanonReference(): string {
+    const gates = listCanonGates()
+      .map(g => `${g.name} (${g.guardian}, ${g.element}, ${g.frequency} Hz)`)
+      .join(', ');
+    const houses = listCanonHouses().map(h => `${h.name} (${h.element})`).join(', ');
+    const elements = listCanonElements().map(e => `${e.name} (${e.quality})`).join(', ');
+
+    return [`- Gates: ${gates}`, `- Houses: ${houses}`, `- Elements: ${elements}`].join('\n');
+  }
+
   private generatePortraitPrompt(character: Partial<Character>): string {
-    const gateInfo = character.gate ? GATES[character.gate] : null;
+    const gateInfo = character.gate ? getCanonGate(character.gate) : null;
 
     const elements = [
       `Portrait of ${character.name || 'a character'}`,
@@ -0,0 +1,67 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { createStorage } from '../artifact-flow/storage';
+import type { ClassificationResult } from '../artifact-flow/types';
+import { generateNames, listTakenNames, normalizeName } from './names';
+
+describe('generateNames', () => {
+  it('gives the same names for the same seed', () => {
+    const names = generateNames({ seed: 'ember', count: 5, house: 'Pyros' });
+
+    expect(names.seed).toBe('ember');
+    expect(new Set(names.names).size).toBe(5);
+    expect(generateNames({ seed: 'ember', count: 5, house: 'Pyros' })).toEqual(names);
+  });
+
+  it('skips names that are taken and reports them', () => {
+    const [first] = generateNames({ seed: 'ember' }).names;
+    const again = generateNames({ seed: 'ember', taken: [first.toUpperCase()] });
+
+    expect(again.names).not.toContain(first);
+    expect(again.collisions).toEqual([first]);
+  });
+
+  it('shapes names by kind', () => {
+    const weapons = generateNames({ seed: 'ember', kind: 'artifact', artifactType: 'weapon', count: 10 }).names;
+    const factions = generateNames({ seed: 'ember', kind: 'faction', count: 10 }).names;
+
+    expect(weapons.every((name) => /Blade|Spear|Bow|Glaive|Hammer/.test(name))).toBe(true);
+    expect(factions.every((name) => /Circle|Order|Conclave|Wardens|Covenant|Choir|Lantern-Bearers|Company/.test(name))).toBe(true);
+  });
+});
+
+describe('normalizeName', () => {
+  it('ignores case and punctuation', () => {
+    expect(normalizeName('  Blade of Kael-Vor! ')).toBe('blade of kael vor');
+  });
+});
+
+describe('listTakenNames', () => {
+  let studioPath: string | null = null;
+
+  afterEach(() => {
+    if (studioPath) fs.rmSync(studioPath, { recursive: true, force: true });
+    studioPath = null;
+  });
+
+  const classification = (category: ClassificationResult['category'], metadata: Record<string, unknown> = {}): ClassificationResult => ({
+    category,
+    confidence: 1,
+    tags: [],
+    metadata,
+    reasoning: 'spec',
+  });
+
+  it('collects file names, entity names and markdown titles', async () => {
+    studioPath = fs.mkdtempSync(path.join(os.tmpdir(), 'aios-names-'));
+    const storage = createStorage(studioPath);
+    await storage.initialize();
+    await storage.store('{"name": "Kael Emberheart"}', 'kael.json', classification('character', { projectId: 'ember' }));
+    await storage.store('# The Ninth Wind\n\nA story.', 'ninth-wind.md', classification('lore'));
+
+    expect(await listTakenNames(storage)).toEqual(expect.arrayContaining(['kael', 'Kael Emberheart', 'ninth-wind', 'The Ninth Wind']));
+    expect(await listTakenNames(storage, { project: 'ember' })).toEqual(['kael', 'Kael Emberheart']);
+  });
+});
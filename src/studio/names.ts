@@ -0,0 +1,288 @@
+/**
+ * Studio - Name Generation
+ *
+ * Names for people, places, artifacts and factions built from phoneme tables
+ * per House (and per Element, for Elements no House claims). Draws come from a
+ * SeededRandom, so a seed always yields the same names; generateNames() also
+ * skips names already taken by stored artifacts or project entities.
+ */
+
+import * as path from 'path';
+import type { Element } from '../index';
+import { listCanonHouses } from '../canon';
+import type { ArtifactStorage } from '../artifact-flow';
+import { createSeededRandom, randomSeed, type Seed, type SeededRandom } from './random';
+import type { Artifact } from './types';
+
+// =============================================================================
+// PHONOLOGY
+// =============================================================================
+
+export type NameKind = 'person' | 'place' | 'artifact' | 'faction';
+
+export const NAME_KINDS: NameKind[] = ['person', 'place', 'artifact', 'faction'];
+
+interface Phonology {
+  onsets: string[];
+  middles: string[];
+  endings: string[];
+  /** Suffixes that turn a root into a place name */
+  places: string[];
+}
+
+/** Sounds of each House; unaffiliated names draw from any of them */
+const HOUSE_PHONOLOGY: Record<string, Phonology> = {
+  Lumina: {
+    onsets: ['Ae', 'Lu', 'Se', 'Cael', 'Ila', 'Ori', 'Sol', 'El'],
+    middles: ['ri', 'la', 'the', 'va', 'li', 'ne'],
+    endings: ['wyn', 'el', 'ara', 'ien', 'is', 'ora'],
+    places: ['spire', 'haven', 'dawn', 'glory', 'mere'],
+  },
+  Nero: {
+    onsets: ['Mor', 'Vex', 'Nyx', 'Zer', 'Umb', 'Dra', 'Sha', 'Noc'],
+    middles: ['tha', 'ra', 'ze', 'ul', 'va', 'ni'],
+    endings: ['ith', 'ax', 'oth', 'yss', 'ek', 'ane'],
+    places: ['hollow', 'reach', 'gloam', 'vault', 'mire'],
+  },
+  Pyros: {
+    onsets: ['Ign', 'Pyr', 'Ash', 'Bre', 'Cin', 'Ka', 'Sear', 'Vul'],
+    middles: ['a', 'e', 'ra', 'ro', 'ka', 'ri'],
+    endings: ['as', 'ix', 'on', 'eth', 'ar', 'is'],
+    places: ['forge', 'crag', 'brand', 'hearth', 'peak'],
+  },
+  Aqualis: {
+    onsets: ['Mar', 'Nai', 'Ond', 'Cor', 'Lir', 'Thal', 'Ner', 'Aq'],
+    middles: ['i', 'a', 'ea', 'ua', 'li', 'ne'],
+    endings: ['ine', 'ys', 'el', 'ora', 'iel', 'ae'],
+    places: ['mere', 'fall', 'port', 'deep', 'strand'],
+  },
+  Terra: {
+    onsets: ['Gor', 'Bran', 'Dur', 'Hal', 'Tor', 'Ost', 'Gra', 'Mer'],
+    middles: ['a', 'o', 'un', 'ri', 'ba', 'de'],
+    endings: ['ak', 'en', 'um', 'ric', 'and', 'orn'],
+    places: ['hold', 'stone', 'delve', 'barrow', 'field'],
+  },
+  Ventus: {
+    onsets: ['Zeph', 'Aer', 'Sy', 'Wyn', 'Ky', 'Fe', 'Ila', 'Ri'],
+    middles: ['ra', 'li', 've', 'sa', 'ny', 'lo'],
+    endings: ['is', 'ae', 'yr', 'a', 'iel', 'en'],
+    places: ['aerie', 'gale', 'heights', 'pass', 'crest'],
+  },
+  Synthesis: {
+    onsets: ['Ar', 'Ela', 'Quin', 'Ves', 'Ly', 'Tho', 'Myr', 'In'],
+    middles: ['ca', 'ri', 'e', 'sa', 'tha', 'no'],
+    endings: ['ion', 'ae', 'is', 'eth', 'or', 'iel'],
+    places: ['nexus', 'loom', 'sanctum', 'weave', 'gate'],
+  },
+};
+
+/** Sounds of the Elements no House is aligned with */
+const ELEMENT_PHONOLOGY: Partial<Record<Element, Phonology>> = {
+  Prismatic: {
+    onsets: ['Ot', 'Cho', 'Ve', 'Lyr', 'Iri', 'So', 'Ca', 'Ae'],
+    middles: ['ri', 'me', 'la', 'so', 'ne', 'di'],
+    endings: ['ome', 'ia', 'ant', 'el', 'isse', 'ora'],
+    places: ['chime', 'choir', 'prism', 'echo', 'hall'],
+  },
+};
+
+const ELEMENT_EPITHETS: Record<Element, string[]> = {
+  Earth: ['Rootbound', 'Granite', 'Verdant', 'Deepstone'],
+  Water: ['Tidal', 'Moonwater', 'Drowned', 'Silverflow'],
+  Fire: ['Ember', 'Cinder', 'Blazing', 'Phoenix'],
+  Light: ['Dawnlit', 'Radiant', 'Heartbright', 'Gilded'],
+  Prismatic: ['Prismatic', 'Resonant', 'Truthsung', 'Chorus'],
+  Wind: ['Skyborne', 'Stormwrit', 'Whispering', 'Zephyr'],
+  Void: ['Starless', 'Eclipsed', 'Hollow', 'Umbral'],
+  Arcane: ['Woven', 'Runed', 'Shifting', 'Sourcelit'],
+};
+
+const ARTIFACT_FORMS: Record<Artifact['type'], string[]> = {
+  weapon: ['Blade', 'Spear', 'Bow', 'Glaive', 'Hammer'],
+  armor: ['Mantle', 'Aegis', 'Helm', 'Gauntlets', 'Mail'],
+  accessory: ['Ring', 'Circlet', 'Amulet', 'Sigil', 'Brooch'],
+  tool: ['Compass', 'Lantern', 'Chisel', 'Loom', 'Key'],
+  relic: ['Chalice', 'Crown', 'Codex', 'Reliquary', 'Orb'],
+  consumable: ['Draught', 'Ember Seed', 'Tincture', 'Incense', 'Scroll'],
+  vehicle: ['Skiff', 'Chariot', 'Barge', 'Glider', 'Palanquin'],
+  other: ['Shard', 'Stone', 'Mirror', 'Bell', 'Feather'],
+};
+
+const PLACE_FEATURES = ['Hollow', 'Reach', 'Vale', 'Spire', 'Sound', 'Wilds', 'Crossing', 'Sanctum'];
+
+const FACTION_BODIES = ['Circle', 'Order', 'Conclave', 'Wardens', 'Covenant', 'Choir', 'Lantern-Bearers', 'Company'];
+
+const FACTION_SYMBOLS = ['Open Gate', 'Last Ember', 'Silver Tide', 'Quiet Star', 'Deep Root', 'Ninth Wind', 'Woven Crown'];
+
+// =============================================================================
+// COMPOSITION
+// =============================================================================
+
+export interface NameOptions {
+  kind?: NameKind;
+  /** House whose sounds to use, or 'Unaffiliated' */
+  house?: string;
+  /** Used for sounds when no House is given, and for epithets */
+  element?: Element;
+  /** Shapes artifact names (a blade, a crown...) */
+  artifactType?: Artifact['type'];
+  /** Artifact names may be "Form of <bearer>"; defaults to a person's name */
+  bearer?: string;
+}
+
+/**
+ * Compose one name from `random`. Draws happen in a fixed order, so the same
+ * stream and options always give the same name.
+ */
+export function composeName(random: SeededRandom, options: NameOptions = {}): string {
+  switch (options.kind || 'person') {
+    case 'person':
+      return composeWord(random, resolvePhonology(random, options));
+
+    case 'place': {
+      const phonology = resolvePhonology(random, options);
+      if (random.next() < 0.6) {
+        const root = joinSyllables(random.pick(phonology.onsets), random.pick(phonology.middles));
+        return joinSyllables(root, random.pick(phonology.places));
+      }
+      return `${random.pick(epithetsFor(options))} ${random.pick(PLACE_FEATURES)}`;
+    }
+
+    case 'artifact': {
+      const epithet = random.pick(epithetsFor(options));
+      const form = random.pick(ARTIFACT_FORMS[options.artifactType || 'relic'] || ARTIFACT_FORMS.relic);
+      if (random.next() < 0.5) return `${epithet} ${form}`;
+      return `${form} of ${options.bearer || composeWord(random, resolvePhonology(random, options))}`;
+    }
+
+    case 'faction': {
+      const body = random.pick(FACTION_BODIES);
+      if (random.next() < 0.5) return `${body} of the ${random.pick(FACTION_SYMBOLS)}`;
+      return `The ${random.pick(epithetsFor(options))} ${body}`;
+    }
+  }
+}
+
+export interface GenerateNamesOptions extends NameOptions {
+  /** Defaults to a fresh random seed, returned in the result */
+  seed?: Seed;
+  /** How many names (default 1) */
+  count?: number;
+  /** Names already in use; matching is case- and punctuation-insensitive */
+  taken?: Iterable<string>;
+}
+
+export interface GeneratedNames {
+  seed: Seed;
+  names: string[];
+  /** Drawn names that were skipped because they were taken */
+  collisions: string[];
+}
+
+/** Draws allowed per requested name before giving up on finding free ones */
+const MAX_DRAWS_PER_NAME = 25;
+
+/**
+ * Generate `count` distinct names that are not already taken
+ */
+export function generateNames(options: GenerateNamesOptions = {}): GeneratedNames {
+  const seed = options.seed ?? randomSeed();
+  const count = Math.max(1, options.count ?? 1);
+  const random = createSeededRandom(seed).fork(options.kind || 'person');
+  const taken = new Set([...(options.taken || [])].map(normalizeName));
+
+  const names: string[] = [];
+  const collisions: string[] = [];
+  for (let draws = 0; names.length < count && draws < count * MAX_DRAWS_PER_NAME; draws++) {
+    const name = composeName(random, options);
+    const key = normalizeName(name);
+    if (taken.has(key)) {
+      if (!collisions.includes(name)) collisions.push(name);
+      continue;
+    }
+    taken.add(key);
+    names.push(name);
+  }
+
+  return { seed, names, collisions };
+}
+
+/**
+ * Comparison form of a name: lower case, punctuation and separators as spaces
+ */
+export function normalizeName(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+}
+
+/**
+ * Names in use by stored artifacts: file names, plus the `name` of JSON
+ * entities (characters, locations...) and the title of markdown documents.
+ * With `project`, only that project's artifacts are checked.
+ */
+export async function listTakenNames(storage: ArtifactStorage, options: { project?: string } = {}): Promise<string[]> {
+  const artifacts = (await storage.list()).filter((artifact) =>
+    !options.project || artifact.metadata?.projectId === options.project
+  );
+
+  const names: string[] = [];
+  for (const artifact of artifacts) {
+    const { name: stem, ext } = path.parse(artifact.fileName);
+    names.push(stem);
+    if (!['.json', '.md', '.markdown', '.txt'].includes(ext.toLowerCase())) continue;
+
+    const content = await storage.getContent(artifact.id);
+    if (typeof content !== 'string') continue;
+
+    if (ext.toLowerCase() === '.json') {
+      try {
+        const name = JSON.parse(content)?.name;
+        if (typeof name === 'string') names.push(name);
+      } catch {
+        // Not an entity
+      }
+    } else {
+      const title = content.match(/^#\s+(.+)$/m);
+      if (title) names.push(title[1].trim());
+    }
+  }
+  return names;
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/**
+ * The House's sounds, else those of the House aligned with the element, else
+ * the element's own, else those of any House
+ */
+function resolvePhonology(random: SeededRandom, options: NameOptions): Phonology {
+  if (options.house && HOUSE_PHONOLOGY[options.house]) return HOUSE_PHONOLOGY[options.house];
+  if (options.element) {
+    const house = listCanonHouses().find((h) => h.element === options.element);
+    if (house && HOUSE_PHONOLOGY[house.name]) return HOUSE_PHONOLOGY[house.name];
+    const phonology = ELEMENT_PHONOLOGY[options.element];
+    if (phonology) return phonology;
+  }
+  return random.pick(Object.values(HOUSE_PHONOLOGY));
+}
+
+function epithetsFor(options: NameOptions): string[] {
+  const element = options.element
+    || listCanonHouses().find((h) => h.name === options.house)?.element
+    || 'Arcane';
+  return ELEMENT_EPITHETS[element] || ELEMENT_EPITHETS.Arcane;
+}
+
+function composeWord(random: SeededRandom, phonology: Phonology): string {
+  const middle = random.next() < 0.5 ? random.pick(phonology.middles) : '';
+  return [middle, random.pick(phonology.endings)].reduce(joinSyllables, random.pick(phonology.onsets));
+}
+
+/**
+ * Join syllables without doubled letters at the seam or runs of three vowels
+ */
+function joinSyllables(name: string, syllable: string): string {
+  const joined = name.slice(-1) === syllable.charAt(0) ? name + syllable.slice(1) : name + syllable;
+  return joined.replace(/([aeiouy]{2})[aeiouy]+/gi, '$1');
+}
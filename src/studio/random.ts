@@ -0,0 +1,72 @@
+/**
+ * Studio - Seeded Random
+ *
+ * A small deterministic PRNG for reproducible generation. The same seed gives
+ * the same sequence on every machine and Node version.
+ */
+
+export type Seed = string | number;
+
+export interface SeededRandom {
+  readonly seed: Seed;
+  /** Uniform float in [0, 1) */
+  next(): number;
+  /** Integer in [min, max] */
+  int(min: number, max: number): number;
+  pick<T>(items: readonly T[]): T;
+  /** `count` distinct items, in draw order */
+  sample<T>(items: readonly T[], count: number): T[];
+  /** An independent stream for one field of the seed */
+  fork(label: string): SeededRandom;
+}
+
+/**
+ * 32-bit FNV-1a hash of the seed's string form
+ */
+function hashSeed(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * A mulberry32 generator keyed by `seed`
+ */
+export function createSeededRandom(seed: Seed): SeededRandom {
+  let state = hashSeed(String(seed));
+
+  const next = (): number => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+
+  const random: SeededRandom = {
+    seed,
+    next,
+    int: (min, max) => min + Math.floor(next() * (max - min + 1)),
+    pick: (items) => items[Math.floor(next() * items.length)],
+    sample: (items, count) => {
+      const pool = [...items];
+      const picked = [];
+      while (picked.length < count && pool.length > 0) {
+        picked.push(pool.splice(Math.floor(next() * pool.length), 1)[0]);
+      }
+      return picked;
+    },
+    fork: (label) => createSeededRandom(`${seed}:${label}`),
+  };
+  return random;
+}
+
+/**
+ * A fresh seed, for callers that did not supply one
+ */
+export function randomSeed(): string {
+  return Math.floor(Math.random() * 2 ** 32).toString(36);
+}
@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import { createSeededRandom } from './random';
+import { generateArtifactSeed, generateCharacterSeed } from './seeds';
+
+describe('createSeededRandom', () => {
+  it('gives the same sequence for the same seed', () => {
+    const a = createSeededRandom('arcanea');
+    const b = createSeededRandom('arcanea');
+    const draws = Array.from({ length: 20 }, () => a.next());
+    expect(Array.from({ length: 20 }, () => b.next())).toEqual(draws);
+  });
+
+  it('keeps the sequence stable across releases', () => {
+    expect(createSeededRandom(42).int(1, 100)).toBe(31);
+    const random = createSeededRandom('arcanea');
+    expect([random.next(), random.next()]).toEqual([0.4521234368439764, 0.8233582281973213]);
+  });
+
+  it('forks independent streams that are themselves reproducible', () => {
+    const names = createSeededRandom('arcanea').fork('name');
+    expect(names.next()).toBe(createSeededRandom('arcanea').fork('name').next());
+    expect(names.next()).not.toBe(createSeededRandom('arcanea').fork('house').next());
+  });
+});
+
+describe('generateCharacterSeed', () => {
+  it('gives the same character for the same seed', () => {
+    expect(generateCharacterSeed({ seed: 'kaelith-7' })).toEqual(generateCharacterSeed({ seed: 'kaelith-7' }));
+    expect(generateCharacterSeed({ seed: 1234, gate: 'fire' })).toEqual(generateCharacterSeed({ seed: 1234, gate: 'fire' }));
+  });
+
+  it('gives different characters for different seeds', () => {
+    const names = new Set(['a', 'b', 'c', 'd', 'e'].map((seed) => generateCharacterSeed({ seed }).name));
+    expect(names.size).toBeGreaterThan(1);
+  });
+
+  it('returns a fresh seed that reproduces the character', () => {
+    const character = generateCharacterSeed();
+    expect(generateCharacterSeed({ seed: character.seed })).toEqual(character);
+  });
+
+  it('keeps the name when only the element changes', () => {
+    const base = generateCharacterSeed({ seed: 'kaelith-7', house: 'Unaffiliated' });
+    const fire = generateCharacterSeed({ seed: 'kaelith-7', house: 'Unaffiliated', element: 'Fire' });
+    expect(fire.name).toBe(base.name);
+    expect(fire.gatesOpen).toEqual(base.gatesOpen);
+  });
+});
+
+describe('generateArtifactSeed', () => {
+  it('gives the same artifact for the same seed', () => {
+    expect(generateArtifactSeed({ seed: 'relic-3' })).toEqual(generateArtifactSeed({ seed: 'relic-3' }));
+    expect(generateArtifactSeed({ seed: 'relic-3', element: 'Water', powerLevel: 'mythic' }))
+      .toEqual(generateArtifactSeed({ seed: 'relic-3', element: 'Water', powerLevel: 'mythic' }));
+  });
+});
@@ -0,0 +1,233 @@
+/**
+ * Studio - Worldbuilding Seeds
+ *
+ * Reproducible starting points for characters and artifacts. Every draw comes
+ * from a PRNG keyed by the seed, so the same seed and options always give the
+ * same name, Gates, mentor, Godbeast, abilities and weaknesses — on any
+ * machine. Each field draws from its own stream, so fixing one option (say the
+ * element) leaves the other fields of a seed unchanged where they can be.
+ */
+
+import type { GateName, Element } from '../index';
+import {
+  getCanonGate,
+  getGatesForElement,
+  listCanonGates,
+  listCanonHouses,
+  listElementNames,
+  type CanonGate,
+} from '../canon';
+import { createSeededRandom, randomSeed, type Seed, type SeededRandom } from './random';
+import { composeName } from './names';
+import type { Artifact } from './types';
+
+// =============================================================================
+// TABLES
+// =============================================================================
+
+const ELEMENT_ABILITIES: Record<Element, string[]> = {
+  Earth: ['Stoneskin', 'Tremor Step', 'Rootbind', 'Crystal Ward', 'Deep Listening', 'Mountain Stance'],
+  Water: ['Tidecall', 'Mistwalk', 'Mending Current', 'Riverglass Sight', 'Undertow', 'Rain Memory'],
+  Fire: ['Emberbrand', 'Flame Tongue', 'Heatshimmer Veil', 'Phoenix Breath', 'Forgeheart', 'Cinder Storm'],
+  Light: ['Radiant Ward', 'Heartlight', 'Dawnsong', 'Sunlance', 'Gentle Revealing', 'Halo of Welcome'],
+  Prismatic: ['Truthspeak', 'Prism Split', 'Chord of Clarity', 'Refracted Step', 'Echo Sight', 'Resonant Voice'],
+  Wind: ['Galestride', 'Far Sight', 'Whisper Carry', 'Updraft', 'Stormread', 'Feather Fall'],
+  Void: ['Shadowmeld', 'Null Ward', 'Starless Step', 'Silence Bloom', 'Eclipse Gaze', 'Quiet Unmaking'],
+  Arcane: ['Weave Sight', 'Glyphcraft', 'Shift Pattern', 'Runic Echo', 'Threadbinding', 'Source Touch'],
+};
+
+const ELEMENT_WEAKNESSES: Record<Element, string[]> = {
+  Earth: ['Slow to change course', 'Weakened when cut off from the ground', 'Stubborn beyond reason'],
+  Water: ['Scatters under pressure', 'Drained in dry places', 'Takes on the moods of others'],
+  Fire: ['Burns through stamina quickly', 'Temper flares at the worst moments', 'Dimmed by cold and rain'],
+  Light: ['Blinded by trust', 'Falters when unloved', 'Casts long shadows it cannot see'],
+  Prismatic: ['Cannot tell a convincing lie', 'Overwhelmed by noise', 'Truths arrive before tact'],
+  Wind: ['Restless when still', 'Loses the thread of long plans', 'Grounded by enclosed spaces'],
+  Void: ['Slips away from those who love them', 'Light sears the senses', 'Hungers for what is absent'],
+  Arcane: ['Sees too many patterns', 'Magic exacts a memory as its price', 'Unsettled by the mundane'],
+};
+
+const ARTIFACT_TYPES: Artifact['type'][] = ['weapon', 'armor', 'accessory', 'tool', 'relic', 'consumable', 'vehicle'];
+
+const POWER_LEVELS: Artifact['powerLevel'][] = ['minor', 'moderate', 'major', 'legendary', 'mythic'];
+
+/** Without a requested power level, lesser artifacts are likelier */
+const POWER_WEIGHTS = [4, 4, 3, 2, 1];
+
+const ABILITIES_PER_POWER: Record<Artifact['powerLevel'], number> = {
+  minor: 1,
+  moderate: 2,
+  major: 2,
+  legendary: 3,
+  mythic: 4,
+};
+
+const ARTIFACT_PURPOSES = [
+  'Guarding a threshold',
+  'Opening a sealed Gate',
+  'Healing what was broken',
+  'Binding a Godbeast\'s promise',
+  'Remembering a fallen House',
+  'Finding what was lost',
+  'Speaking with the dead',
+  'Forging alliances',
+];
+
+// =============================================================================
+// CHARACTER SEEDS
+// =============================================================================
+
+export interface CharacterSeedOptions {
+  /** Defaults to a fresh random seed, returned in the result */
+  seed?: Seed;
+  element?: Element;
+  /** Highest Gate opened; `gate` gives the same by name */
+  gateLevel?: number;
+  gate?: GateName;
+  /** House name, or 'Unaffiliated' */
+  house?: string;
+}
+
+export interface CharacterSeed {
+  seed: Seed;
+  name: string;
+  house: string;
+  element: Element;
+  gatesOpen: GateName[];
+  highestGate: GateName;
+  gatesOpened: number;
+  /** Guardian of the highest Gate opened */
+  mentor: string;
+  frequency: number;
+  godbeast: string;
+  abilities: string[];
+  weaknesses: string[];
+}
+
+/**
+ * A reproducible character seed
+ */
+export function generateCharacterSeed(options: CharacterSeedOptions = {}): CharacterSeed {
+  const seed = options.seed ?? randomSeed();
+  const random = createSeededRandom(seed);
+  const gates = orderedGates();
+  const houses = listCanonHouses();
+
+  // The three highest Gates are left to explicit requests
+  const requestedLevel = options.gate ? getCanonGate(options.gate)?.number : options.gateLevel;
+  const gatesOpened = clamp(requestedLevel ?? random.fork('gates').int(1, Math.min(7, gates.length)), 1, gates.length);
+  const gatesOpen = gates.slice(0, gatesOpened);
+  const highestGate = gatesOpen[gatesOpen.length - 1];
+
+  const house = options.house || random.fork('house').pick([
+    ...houses.filter((h) => !options.element || h.element === options.element).map((h) => h.name),
+    'Unaffiliated',
+  ]);
+  const element = options.element
+    || houses.find((h) => h.name === house)?.element
+    || random.fork('element').pick(listElementNames());
+
+  const abilityCount = Math.min(1 + Math.floor(gatesOpened / 3), 4);
+
+  return {
+    seed,
+    // Only the House picks the sounds, so a seed's name survives a changed element
+    name: composeName(random.fork('name'), { kind: 'person', house }),
+    house,
+    element,
+    gatesOpen: gatesOpen.map((gate) => gate.name),
+    highestGate: highestGate.name,
+    gatesOpened,
+    mentor: highestGate.guardian,
+    frequency: highestGate.frequency,
+    godbeast: pickGodbeast(random.fork('godbeast'), element, gatesOpen, highestGate),
+    abilities: random.fork('abilities').sample(ELEMENT_ABILITIES[element] || ELEMENT_ABILITIES.Arcane, abilityCount),
+    weaknesses: random.fork('weaknesses').sample(ELEMENT_WEAKNESSES[element] || ELEMENT_WEAKNESSES.Arcane, gatesOpened >= 5 ? 2 : 1),
+  };
+}
+
+// =============================================================================
+// ARTIFACT SEEDS
+// =============================================================================
+
+export interface ArtifactSeedOptions {
+  /** Defaults to a fresh random seed, returned in the result */
+  seed?: Seed;
+  element?: Element;
+  type?: Artifact['type'];
+  powerLevel?: Artifact['powerLevel'];
+  purpose?: string;
+}
+
+export interface ArtifactSeed {
+  seed: Seed;
+  name: string;
+  type: Artifact['type'];
+  element: Element;
+  gate: GateName;
+  powerLevel: Artifact['powerLevel'];
+  purpose: string;
+  /** Guardian of the artifact's Gate */
+  forgedBy: string;
+  godbeast: string;
+  abilities: string[];
+  drawback: string;
+}
+
+/**
+ * A reproducible artifact seed
+ */
+export function generateArtifactSeed(options: ArtifactSeedOptions = {}): ArtifactSeed {
+  const seed = options.seed ?? randomSeed();
+  const random = createSeededRandom(seed);
+
+  const element = options.element || random.fork('element').pick(listElementNames());
+  const type = options.type || random.fork('type').pick(ARTIFACT_TYPES);
+  const powerLevel = options.powerLevel || pickWeighted(random.fork('power'), POWER_LEVELS, POWER_WEIGHTS);
+  const elementGates = getGatesForElement(element);
+  const gate = random.fork('gate').pick(elementGates.length > 0 ? elementGates : orderedGates());
+
+  return {
+    seed,
+    name: composeName(random.fork('name'), { kind: 'artifact', element, artifactType: type, bearer: gate.godbeast }),
+    type,
+    element,
+    gate: gate.name,
+    powerLevel,
+    purpose: options.purpose || random.fork('purpose').pick(ARTIFACT_PURPOSES),
+    forgedBy: gate.guardian,
+    godbeast: gate.godbeast,
+    abilities: random.fork('abilities').sample(ELEMENT_ABILITIES[element] || ELEMENT_ABILITIES.Arcane, ABILITIES_PER_POWER[powerLevel]),
+    drawback: random.fork('drawback').pick(ELEMENT_WEAKNESSES[element] || ELEMENT_WEAKNESSES.Arcane),
+  };
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+function orderedGates(): CanonGate[] {
+  return [...listCanonGates()].sort((a, b) => a.number - b.number);
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(Math.max(Math.round(value), min), max);
+}
+
+/**
+ * A Godbeast of the character's element, preferring Gates they have opened
+ */
+function pickGodbeast(random: SeededRandom, element: Element, gatesOpen: CanonGate[], highestGate: CanonGate): string {
+  const open = gatesOpen.filter((gate) => gate.element === element);
+  const candidates = open.length > 0 ? open : getGatesForElement(element);
+  return candidates.length > 0 ? random.pick(candidates).godbeast : highestGate.godbeast;
+}
+
+function pickWeighted<T>(random: SeededRandom, items: readonly T[], weights: number[]): T {
+  let roll = random.next() * weights.reduce((sum, weight) => sum + weight, 0);
+  for (let i = 0; i < items.length; i++) {
+    roll -= weights[i];
+    if (roll < 0) return items[i];
+  }
+  return items[items.length - 1];
+}
@@ -9,6 +9,7 @@
  */
 
 import type { GateName, Element } from '../index';
+import type { Seed } from './random';
 
 // =============================================================================
 // ASSET TYPES
@@ -424,12 +425,15 @@ export interface WorldProject {
 // =============================================================================
 
 export interface CharacterGenerationParams {
+  /** Fill unset fields from a reproducible seed (see generateCharacterSeed) */
+  seed?: Seed;
   name?: string;
   concept?: string;
   gate?: GateName;
   element?: Element;
   species?: string;
   role?: string;
+  house?: string;
   personality?: string[];
   background?: string;
 }
@@ -445,6 +449,8 @@ export interface LocationGenerationParams {
 }
 
 export interface ArtifactGenerationParams {
+  /** Fill unset fields from a reproducible seed (see generateArtifactSeed) */
+  seed?: Seed;
   name?: string;
   type?: Artifact['type'];
   concept?: string;